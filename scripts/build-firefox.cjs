@@ -29,7 +29,8 @@ const manifest = JSON.parse(
 manifest.browser_specific_settings = {
   gecko: {
     id: "scanner@cryptorugmunch.com",
-    strict_min_version: "109.0",
+    // 128 is the first release with MAIN-world content scripts (wallet page agent)
+    strict_min_version: "128.0",
     data_collection_permissions: {
       // Token addresses from pages are sent to our API for risk scoring.
       // This counts as "websiteContent" (data visible on a webpage).
@@ -85,5 +86,5 @@ fs.writeFileSync(
 
 console.log("✅ Firefox build ready at dist-firefox/");
 console.log("   Gecko ID: scanner@cryptorugmunch.com");
-console.log("   Min Firefox: 109.0");
+console.log("   Min Firefox: 128.0");
 console.log("   Background: scripts[] (Firefox-compatible)");
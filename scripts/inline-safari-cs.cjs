@@ -14,16 +14,8 @@ const path = require("path");
 const DIST = path.join(__dirname, "..", "dist-safari");
 const SRC = path.join(__dirname, "..", "src", "content");
 
-const scripts = [
-  "dexscreener",
-  "pumpfun",
-  "jupiter",
-  "gmgn",
-  "bullx",
-  "birdeye",
-  "raydium",
-  "photon",
-];
+// Every DEX / explorer runs through the one adapter-driven entry
+const scripts = ["sites"];
 
 console.log(`\n🔧 Bundling ${scripts.length} Safari content scripts with esbuild...\n`);
 
@@ -31,15 +23,15 @@ const assetsDir = path.join(DIST, "assets");
 let success = 0;
 
 for (const name of scripts) {
-  const srcFile = path.join(SRC, `${name}.tsx`);
+  const srcFile = path.join(SRC, `${name}.ts`);
   if (!fs.existsSync(srcFile)) {
-    console.log(`  ⚠️ ${name}.tsx not found`);
+    console.log(`  ⚠️ ${name}.ts not found`);
     continue;
   }
 
   // Find the loader file for this script
   const loaderFiles = fs.readdirSync(assetsDir).filter(
-    (f) => f.startsWith(`${name}.tsx-loader-`) && f.endsWith(".js")
+    (f) => f.startsWith(`${name}.ts-loader-`) && f.endsWith(".js")
   );
 
   if (loaderFiles.length === 0) {
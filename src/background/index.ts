@@ -5,102 +5,147 @@
  * - Message passing between content scripts and popup
  * - Badge updates on active tab
  * - Side panel registration
- * - Context menu for right-click scanning
+ * - Context menu for right-click scanning (result shown in-page)
+ * - Registering the opt-in universal address-highlighting script
  * - Periodic cache cleanup
+ * - Watchlist re-scan + risk-change notifications
+ * - Portfolio re-check for auto-sync wallets + Critical-token notifications
+ * - Transaction reviews for the wallet bridge's transaction guard
  */
 
+import { createMessageRouter, sendMessage, sendTabMessage } from "../utils/messaging";
+import type { WalletBridgeResult, WalletMessage } from "../types/messages";
+import { batchScan, scanToken, scanWithCache, onScanUpdated, type ScanResult } from "../services/api";
+import { pruneScanCache } from "../services/scanCache";
+import { apiRequest, refreshAuth, toApiErrorInfo } from "../services/http";
+import { getSettings, UNIVERSAL_ORIGINS } from "../utils/config";
+import { getWatchlist, addToWatchlist, applyWatchResults, keyWatchResults } from "../services/watchlist";
+import { isTokenAddress, resolveChain, tokenKey } from "../utils/chains";
+import { extractChainFromUrl } from "../utils/tokenExtractor";
+import { extractMintFromUrl } from "../utils/shadowInject";
+import { SITE_ADAPTERS, adapterForUrl, isWalletBridgeUrl, matchPatterns } from "../sites/registry";
+import type { SiteAdapter } from "../sites/types";
+import { SIDEPANEL_HANDOFF_KEY } from "../ui-catalog/actions";
+import { formatUsd } from "../ui-catalog/scanToSpec";
+import { listWallets } from "../services/walletAuth";
+import { scanPortfolio, newlyCriticalHoldings } from "../services/portfolio";
+import { reviewTransaction } from "../services/txReview";
+import universalScript from "../content/universal.ts?script";
+
 // Register side panel (Chrome 116+, gracefully skip on Firefox)
 try {
   chrome.sidePanel?.setPanelBehavior?.({ openPanelOnActionClick: false });
 } catch {}
 
-// Listen for messages from content scripts
-chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
-  switch (message.type) {
-    case "UPDATE_BADGE": {
-      if (sender.tab?.id) {
-        const score = message.score;
-        if (score == null) break;
-        const color = score >= 75 ? "#FF4757" : score >= 50 ? "#FF8C00" : score >= 25 ? "#E7C55F" : "#2ED573";
-        const text = score >= 75 ? "!" : score >= 50 ? "⚠" : "";
-        chrome.action.setBadgeText({ text, tabId: sender.tab.id });
-        chrome.action.setBadgeBackgroundColor({ color, tabId: sender.tab.id });
-      }
-      break;
-    }
+function setRiskBadge(tabId: number, score: number): void {
+  const color = score >= 75 ? "#FF4757" : score >= 50 ? "#FF8C00" : score >= 25 ? "#E7C55F" : "#2ED573";
+  const text = score >= 75 ? "!" : score >= 50 ? "⚠" : "";
+  chrome.action.setBadgeText({ text, tabId });
+  chrome.action.setBadgeBackgroundColor({ color, tabId });
+}
 
-    case "PAGE_TOKEN_DETECTED": {
-      // Content script detected a token on the page — store for popup
-      chrome.storage.local.set({
-        detected_token: {
-          mint: message.mint,
-          chain: message.chain || "solana",
-          url: message.url,
-          timestamp: Date.now(),
-        }
-      });
-      break;
-    }
+// Single message router — every message type the background answers.
+// Schema + response types live in types/messages.ts.
+chrome.runtime.onMessage.addListener(createMessageRouter({
+  UPDATE_BADGE: (message, sender) => {
+    if (!sender.tab?.id || message.score == null) return;
+    setRiskBadge(sender.tab.id, message.score);
+  },
 
-    case "OPEN_SIDE_PANEL": {
-      const windowId = sender.tab?.windowId;
-      if (windowId) {
-        // Chrome side panel
-        try {
-          chrome.sidePanel?.open?.({ windowId });
-        } catch {
-          // Firefox fallback — sidebar
-          try {
-            (chrome as any).sidebarAction?.open?.();
-          } catch {}
-        }
+  PAGE_TOKEN_DETECTED: (message) => {
+    // Content script detected a token on the page — store for popup
+    chrome.storage.local.set({
+      detected_token: {
+        mint: message.mint,
+        chain: message.chain || "solana",
+        url: message.url,
+        timestamp: Date.now(),
       }
-      break;
+    });
+  },
+
+  OPEN_SIDE_PANEL: (_message, sender) => {
+    const windowId = sender.tab?.windowId;
+    if (!windowId) return;
+    // Chrome side panel
+    try {
+      chrome.sidePanel?.open?.({ windowId });
+    } catch {
+      // Firefox fallback — sidebar
+      try {
+        (chrome as any).sidebarAction?.open?.();
+      } catch {}
     }
+  },
 
-    case "GET_STORAGE":
-      chrome.storage.local.get(message.keys, (result) => {
-        sendResponse(result);
-      });
-      return true;
+  GET_STORAGE: (message) => chrome.storage.local.get(message.keys),
 
-    case "SET_STORAGE":
-      chrome.storage.local.set(message.data, () => {
-        sendResponse({ success: true });
+  SET_STORAGE: async (message) => {
+    await chrome.storage.local.set(message.data);
+    return { success: true };
+  },
+
+  // Content scripts are bound by the page's CORS policy, so they call the
+  // API through the worker (host_permissions in manifest)
+  API_PROXY: async (message) => {
+    try {
+      const data = await apiRequest(message.path, {
+        method: message.method || "POST", body: message.body, auth: message.auth, retries: message.retries,
       });
-      return true;
-  }
-});
+      return { success: true, data };
+    } catch (e) {
+      const apiError = toApiErrorInfo(e);
+      return { success: false, error: apiError.message, apiError };
+    }
+  },
+
+  SCAN_TOKEN: (message, sender) => {
+    if (sender.tab?.id != null) watchScanUpdates(tokenKey(message.mint, message.chain), sender.tab.id);
+    return scanWithCache(message.mint, message.chain, message.source);
+  },
+
+  WALLET_DETECT: (message) => relayToWalletTab(message),
+  WALLET_CONNECT: (message) => relayToWalletTab(message),
+  WALLET_SIGN: (message) => relayToWalletTab(message),
+  WALLET_DISCONNECT: (message) => relayToWalletTab(message),
+  WALLET_SEND_TRANSACTION: (message) => relayToWalletTab(message),
+  REVIEW_TRANSACTION: (message) => reviewTransaction(message.transaction, message.origin),
+}));
 
 // Periodic cache cleanup (every 6 hours)
 chrome.alarms?.create("cache-cleanup", { periodInMinutes: 360 });
 chrome.alarms?.onAlarm.addListener(async (alarm) => {
   if (alarm.name === "cache-cleanup") {
-    try {
-      const DB_NAME = "rugmunch_cache";
-      const req = indexedDB.open(DB_NAME, 1);
-      req.onsuccess = () => {
-        const db = req.result;
-        if (!db.objectStoreNames.contains("scans")) return;
-        const tx = db.transaction("scans", "readwrite");
-        const store = tx.objectStore("scans");
-        const getAllReq = store.getAll();
-        getAllReq.onsuccess = () => {
-          const now = Date.now();
-          const maxAge = 24 * 60 * 60 * 1000;
-          for (const entry of getAllReq.result) {
-            if (now - entry.timestamp > maxAge) {
-              store.delete(entry.mint);
-            }
-          }
-        };
-      };
-    } catch (e) {
-      console.error("[RMS] Cache cleanup error:", e);
-    }
+    await pruneScanCache();
+  }
+});
+
+// Stale-while-revalidate: when a refreshed scan lands, push it to every
+// tab that asked for that token and to open extension pages, so ScoreCards
+// and the popup update in place.
+const scanWatchers = new Map<string, Set<number>>(); // token key → tab ids
+
+function watchScanUpdates(key: string, tabId: number): void {
+  if (!scanWatchers.has(key)) scanWatchers.set(key, new Set());
+  scanWatchers.get(key)!.add(tabId);
+}
+
+onScanUpdated((key, resp) => {
+  if (!resp.data) return;
+  const update = { type: "SCAN_UPDATED", data: resp.data, diff: resp.diff ?? null } as const;
+  // Popup / side panel
+  sendMessage(update).catch(() => {});
+  const tabs = scanWatchers.get(key);
+  if (!tabs) return;
+  for (const tabId of tabs) {
+    sendTabMessage(tabId, update).catch(() => tabs.delete(tabId));
   }
 });
 
+chrome.tabs.onRemoved?.addListener((tabId) => {
+  for (const tabs of scanWatchers.values()) tabs.delete(tabId);
+});
+
 // On install — set defaults + create context menu
 chrome.runtime.onInstalled.addListener((details) => {
   // Context menu — right-click to scan selected text
@@ -109,6 +154,16 @@ chrome.runtime.onInstalled.addListener((details) => {
     title: "🗿 Scan with Rug Munch Intelligence",
     contexts: ["selection"],
   });
+  chrome.contextMenus?.create?.({
+    id: "scan-link",
+    title: "🗿 Scan link target",
+    contexts: ["link"],
+  });
+  chrome.contextMenus?.create?.({
+    id: "watch-selected",
+    title: "👁 Add to Rug Munch watchlist",
+    contexts: ["selection"],
+  });
 
   if (details.reason === "install") {
     console.log("[RMS] Rug Munch Scanner installed");
@@ -129,101 +184,252 @@ chrome.runtime.onInstalled.addListener((details) => {
 chrome.contextMenus?.onClicked?.addListener((info, tab) => {
   if (info.menuItemId === "scan-selected" && info.selectionText) {
     const text = info.selectionText.trim();
-    if (/^[1-9A-HJ-NP-Za-km-z]{32,44}$/.test(text)) {
-      chrome.storage.local.set({ pending_scan: text });
-      if (tab?.id) {
-        chrome.action.setBadgeText({ text: "?", tabId: tab.id });
-        chrome.action.setBadgeBackgroundColor({ color: "#7E4CFF", tabId: tab.id });
-      }
+    if (isTokenAddress(text)) {
+      scanFromContextMenu(text, resolveChain(text, tab?.url ? extractChainFromUrl(tab.url) : null), tab);
+    }
+  }
+
+  if (info.menuItemId === "scan-link" && info.linkUrl) {
+    const mint = extractMintFromUrl(info.linkUrl);
+    if (mint && isTokenAddress(mint)) {
+      scanFromContextMenu(mint, resolveChain(mint, extractChainFromUrl(info.linkUrl)), tab);
+    }
+  }
+
+  if (info.menuItemId === "watch-selected" && info.selectionText) {
+    const text = info.selectionText.trim();
+    if (isTokenAddress(text)) {
+      const chain = resolveChain(text, tab?.url ? extractChainFromUrl(tab.url) : null);
+      addToWatchlist(text, chain).then((added) => {
+        if (added) rescanWatchlist();
+      });
     }
   }
 });
 
 
-// ─── Tier Sync ──────────────────────────────────────────────────
-// Auto-check entitlements on startup, every 30 min, and after link
+// ─── Context Menu Scans ─────────────────────────────────────────
+// Scan right away and float the ScoreCard on the page. Pages we can't
+// script (chrome://, the Web Store, PDFs) get the side panel instead.
 
-const API_BASE_KEY = "api_base";
-const DEFAULT_API_BASE = "https://cryptorugmunch.app/api";
+function canScriptTab(tab?: chrome.tabs.Tab): tab is chrome.tabs.Tab & { id: number } {
+  return !!tab?.id && /^https?:/.test(tab.url || "");
+}
 
-async function getApiBase(): Promise<string> {
+function openSidePanelScan(mint: string, chain: string, tab?: chrome.tabs.Tab): void {
+  chrome.storage.local.set({ [SIDEPANEL_HANDOFF_KEY]: { mint, chain } });
   try {
-    const result = await chrome.storage.local.get([API_BASE_KEY]);
-    return result[API_BASE_KEY] || DEFAULT_API_BASE;
+    // Must run inside the click's user gesture — don't await before this
+    chrome.sidePanel.open({ windowId: tab?.windowId ?? chrome.windows.WINDOW_ID_CURRENT }).catch(() => {
+      queuePopupScan(mint, chain, tab);
+    });
   } catch {
-    return DEFAULT_API_BASE;
+    queuePopupScan(mint, chain, tab);
   }
 }
 
-async function syncTier(): Promise<void> {
+// Last resort: leave the scan for the popup and flag the toolbar icon
+function queuePopupScan(mint: string, chain: string, tab?: chrome.tabs.Tab): void {
+  chrome.storage.local.set({ pending_scan: mint, pending_scan_chain: chain });
+  if (tab?.id) {
+    chrome.action.setBadgeText({ text: "?", tabId: tab.id });
+    chrome.action.setBadgeBackgroundColor({ color: "#7E4CFF", tabId: tab.id });
+  }
+}
+
+// Pages without the universal script — highlighting off, adapter sites,
+// tabs open before install / update — get it injected; the menu click
+// grants activeTab.
+async function ensureCardScript(tabId: number): Promise<void> {
+  await chrome.scripting.executeScript({ target: { tabId }, files: [universalScript] });
+}
+
+async function scanFromContextMenu(mint: string, chain: string, tab?: chrome.tabs.Tab): Promise<void> {
+  if (!canScriptTab(tab)) {
+    openSidePanelScan(mint, chain, tab);
+    return;
+  }
+
+  chrome.action.setBadgeText({ text: "…", tabId: tab.id });
+  chrome.action.setBadgeBackgroundColor({ color: "#7E4CFF", tabId: tab.id });
+
   try {
-    const data = await chrome.storage.local.get(["auth_token", "tier", "linked_telegram"]);
-    const token = data.auth_token;
-    if (!token) return; // Not signed in
+    const resp = await scanToken(mint, chain);
+    if (!resp.success || !resp.data || resp.data.not_scanned) {
+      chrome.action.setBadgeText({ text: "", tabId: tab.id });
+      chrome.notifications?.create(`scan-failed:${mint}`, {
+        type: "basic",
+        iconUrl: chrome.runtime.getURL("icons/icon-128.png"),
+        title: "🗿 Scan failed",
+        message: resp.error || `Couldn't scan ${mint.slice(0, 8)}…`,
+      });
+      return;
+    }
 
-    const base = await getApiBase();
+    if (resp.data.risk_score != null) setRiskBadge(tab.id, resp.data.risk_score);
+    else chrome.action.setBadgeText({ text: "", tabId: tab.id });
 
-    // Step 1: Auth refresh — handles token migration (e.g. old TG link token → canonical wallet token)
+    const card = { type: "SHOW_SCAN_CARD" as const, data: resp.data, diff: resp.diff ?? null };
     try {
-      // Include linked_telegram as fallback for when old token no longer exists in DB
-      const tgId = data.linked_telegram || "";
-      const refreshUrl = tgId 
-        ? `${base}/ext/auth/refresh?telegram_id=${tgId}` 
-        : `${base}/ext/auth/refresh`;
-      const refreshResp = await fetch(refreshUrl, {
-        headers: { "Authorization": `Bearer ${token}` },
-      });
-      if (refreshResp.ok) {
-        const refresh = await refreshResp.json();
-        if (refresh.authenticated) {
-          const updates: Record<string, unknown> = {};
-
-          // Migrate auth token if it changed (merged identity)
-          if (refresh.auth_token && refresh.auth_token !== token) {
-            console.log(`[RMS] Token migrated: old=${token.slice(0,8)}… → new=${refresh.auth_token.slice(0,8)}…`);
-            updates.auth_token = refresh.auth_token;
-          }
-
-          // Sync tier
-          if (refresh.tier && refresh.tier !== data.tier) {
-            console.log(`[RMS] Tier sync: ${data.tier} → ${refresh.tier}`);
-            updates.tier = refresh.tier;
-          }
-
-          // Sync telegram link info
-          if (refresh.telegram_id) {
-            updates.linked_telegram = refresh.telegram_id;
-          }
-
-          if (Object.keys(updates).length > 0) {
-            await chrome.storage.local.set(updates);
-
-            // Also update the account object
-            const acctResult = await chrome.storage.local.get("account");
-            const acct = acctResult.account || {};
-            if (updates.auth_token) acct.authToken = updates.auth_token;
-            if (updates.tier) acct.tier = updates.tier;
-            if (updates.linked_telegram) acct.telegramId = updates.linked_telegram;
-            await chrome.storage.local.set({ account: acct });
-          }
-          return; // refresh handled everything
-        }
-      }
+      await sendTabMessage(tab.id, card);
     } catch {
-      // /auth/refresh not available — fall through to legacy sync
+      await ensureCardScript(tab.id);
+      await sendTabMessage(tab.id, card);
     }
+  } catch (e) {
+    console.error("[RMS] Context menu scan error:", e);
+    queuePopupScan(mint, chain, tab);
+  }
+}
 
-    // Legacy fallback: direct tier check
-    const resp2 = await fetch(`${base}/ext/tier`, {
-      headers: { "Authorization": `Bearer ${token}` },
-    });
 
-    if (resp2.ok) {
-      const result = await resp2.json();
-      if (result.tier && result.tier !== data.tier) {
-        console.log(`[RMS] Tier sync (fallback): ${data.tier} → ${result.tier}`);
-        await chrome.storage.local.set({ tier: result.tier });
-      }
+// ─── Address Highlighting ───────────────────────────────────────
+// The universal script is opt-in, so it isn't in the manifest (an all-sites
+// content script would warn every user at install). It's registered while
+// settings.universalHighlight is on and the user granted UNIVERSAL_ORIGINS,
+// and kept off the adapter hosts — sites.ts runs there.
+
+const UNIVERSAL_SCRIPT_ID = "universal";
+
+async function syncUniversalScript(): Promise<void> {
+  const { universalHighlight } = await getSettings();
+  const wanted = universalHighlight && await chrome.permissions.contains({ origins: UNIVERSAL_ORIGINS });
+  const [registered] = await chrome.scripting.getRegisteredContentScripts({ ids: [UNIVERSAL_SCRIPT_ID] });
+
+  if (wanted && !registered) {
+    await chrome.scripting.registerContentScripts([{
+      id: UNIVERSAL_SCRIPT_ID,
+      matches: UNIVERSAL_ORIGINS,
+      excludeMatches: matchPatterns(SITE_ADAPTERS.flatMap((a) => a.hosts)),
+      js: [universalScript],
+      runAt: "document_idle",
+    }]);
+  } else if (!wanted && registered) {
+    await chrome.scripting.unregisterContentScripts({ ids: [UNIVERSAL_SCRIPT_ID] });
+  }
+}
+
+function resyncUniversalScript(): void {
+  syncUniversalScript().catch((e) => console.error("[RMS] Universal script registration failed:", e));
+}
+
+resyncUniversalScript();
+chrome.permissions.onAdded.addListener(resyncUniversalScript);
+chrome.permissions.onRemoved.addListener(resyncUniversalScript);
+chrome.storage.onChanged.addListener((changes, area) => {
+  if (area === "local" && changes.settings) resyncUniversalScript();
+});
+
+
+// ─── Watchlist ──────────────────────────────────────────────────
+// Re-scan watched tokens every 15 min and notify on risk band changes,
+// sharp liquidity drops and mint/freeze authority flips.
+
+async function rescanWatchlist(): Promise<void> {
+  try {
+    const list = await getWatchlist();
+    if (list.length === 0) return;
+
+    // batchScan is per-chain
+    const byChain = new Map<string, string[]>();
+    for (const t of list) {
+      byChain.set(t.chain, [...(byChain.get(t.chain) || []), t.mint]);
+    }
+    const results: Record<string, ScanResult> = {};
+    for (const [chain, mints] of byChain) {
+      const resp = await batchScan(mints, chain);
+      Object.assign(results, keyWatchResults(resp.results, chain));
+    }
+
+    const changed = await applyWatchResults(results);
+    const settings = await getSettings();
+    if (!settings.watchlistAlerts) return;
+
+    for (const { token, alerts } of changed) {
+      chrome.notifications?.create(`watch:${token.chain}:${token.mint}:${Date.now()}`, {
+        type: "basic",
+        iconUrl: chrome.runtime.getURL("icons/icon-128.png"),
+        title: `👁 $${token.symbol || token.mint.slice(0, 6)} changed`,
+        message: alerts.map((a) => a.message).join("\n"),
+        priority: 2,
+      });
+    }
+  } catch (e) {
+    console.error("[RMS] Watchlist rescan error:", e);
+  }
+}
+
+chrome.alarms?.create("watchlist-rescan", { periodInMinutes: 15 });
+chrome.alarms?.onAlarm.addListener(async (alarm) => {
+  if (alarm.name === "watchlist-rescan") {
+    await rescanWatchlist();
+  }
+});
+
+
+// ─── Portfolio ──────────────────────────────────────────────────
+// Re-check the holdings of wallets with auto-sync on every hour and
+// notify when a held token turns Critical.
+
+async function recheckPortfolio(): Promise<void> {
+  try {
+    const { auth_token } = await chrome.storage.local.get("auth_token");
+    if (!auth_token) return; // Linked wallets need an account
+
+    const wallets = (await listWallets()).filter((w) => w.autoSync);
+    if (wallets.length === 0) return;
+
+    const report = await scanPortfolio(wallets);
+    for (const row of await newlyCriticalHoldings(report)) {
+      chrome.notifications?.create(`portfolio:${row.chain}:${row.mint}:${Date.now()}`, {
+        type: "basic",
+        iconUrl: chrome.runtime.getURL("icons/icon-128.png"),
+        title: `🔴 $${row.symbol || row.mint.slice(0, 6)} you hold is now Critical`,
+        message: `Risk ${row.risk_score}/100 · ${formatUsd(row.value_usd)} held in ${row.wallets.length} wallet${row.wallets.length === 1 ? "" : "s"}`,
+        priority: 2,
+      });
+    }
+  } catch (e) {
+    console.error("[RMS] Portfolio re-check error:", e);
+  }
+}
+
+chrome.alarms?.create("portfolio-recheck", { periodInMinutes: 60 });
+chrome.alarms?.onAlarm.addListener(async (alarm) => {
+  if (alarm.name === "portfolio-recheck") {
+    await recheckPortfolio();
+  }
+});
+
+// Clicking a watchlist or portfolio alert queues a full scan of that token for the popup
+chrome.notifications?.onClicked?.addListener((notificationId) => {
+  const [kind, chain, mint] = notificationId.split(":");
+  if ((kind !== "watch" && kind !== "portfolio") || !mint) return;
+  chrome.storage.local.set({ pending_scan: mint, pending_scan_chain: chain });
+  chrome.notifications.clear(notificationId);
+  try {
+    chrome.action.openPopup?.();
+  } catch {}
+});
+
+
+// ─── Tier Sync ──────────────────────────────────────────────────
+// Auto-check entitlements on startup, every 30 min, and after link
+
+async function syncTier(): Promise<void> {
+  try {
+    const data = await chrome.storage.local.get(["auth_token", "tier"]);
+    if (!data.auth_token) return; // Not signed in
+
+    // Auth refresh — handles token migration (e.g. old TG link token →
+    // canonical wallet token) and stores tier / Telegram link
+    if (await refreshAuth()) return;
+
+    // Legacy fallback: direct tier check
+    const result = await apiRequest("/ext/tier");
+    if (result.tier && result.tier !== data.tier) {
+      console.log(`[RMS] Tier sync (fallback): ${data.tier} → ${result.tier}`);
+      await chrome.storage.local.set({ tier: result.tier });
     }
   } catch (e) {
     console.debug("[RMS] Tier sync failed (non-critical):", e);
@@ -250,53 +456,41 @@ chrome.storage.onChanged.addListener((changes, area) => {
 });
 
 
-export {};
-
 
 // ─── Wallet Bridge Relay ────────────────────────────────────────
-// Relays wallet operations from popup to content script on active tab
-
-chrome.runtime.onMessage.addListener((msg, _sender, sendResponse) => {
-  if (!["wallet-detect", "wallet-connect", "wallet-sign", "wallet-disconnect"].includes(msg.action)) {
-    return false;
+// Relays wallet operations from popup to the wallet bridge on a crypto tab
+
+async function relayToWalletTab(message: WalletMessage): Promise<WalletBridgeResult> {
+  // Find a tab the wallet bridge runs on
+  const tabId = await findWalletTab();
+  if (!tabId) {
+    return {
+      success: false,
+      error: "No crypto page open. Open DexScreener, Pump.fun, Jupiter, or any Solana site first.",
+    };
   }
 
-  // Find a suitable tab with Phantom available
-  findWalletTab().then((tabId) => {
-    if (!tabId) {
-      sendResponse({
-        success: false,
-        error: "No crypto page open. Open DexScreener, Pump.fun, Jupiter, or any Solana site first.",
-      });
-      return;
-    }
-
-    chrome.tabs.sendMessage(tabId, msg, (response) => {
-      if (chrome.runtime.lastError) {
-        sendResponse({
-          success: false,
-          error: "Couldn't reach wallet bridge. Refresh the page and try again.",
-        });
-        return;
-      }
-      sendResponse(response);
-    });
-  });
-
-  return true; // async response
-});
+  try {
+    return await sendTabMessage(tabId, message);
+  } catch {
+    return {
+      success: false,
+      error: "Couldn't reach wallet bridge. Refresh the page and try again.",
+    };
+  }
+}
 
 async function findWalletTab(): Promise<number | null> {
   // First try the active tab
   const [activeTab] = await chrome.tabs.query({ active: true, currentWindow: true });
-  if (activeTab?.id && isWalletSite(activeTab.url || "")) {
+  if (activeTab?.id && isWalletBridgeUrl(activeTab.url || "")) {
     return activeTab.id;
   }
 
   // Search for any open crypto tab
   const allTabs = await chrome.tabs.query({});
   for (const tab of allTabs) {
-    if (tab.id && isWalletSite(tab.url || "")) {
+    if (tab.id && isWalletBridgeUrl(tab.url || "")) {
       return tab.id;
     }
   }
@@ -304,14 +498,6 @@ async function findWalletTab(): Promise<number | null> {
   return null;
 }
 
-function isWalletSite(url: string): boolean {
-  const patterns = [
-    "dexscreener.com", "pump.fun", "jup.ag", "raydium.io",
-    "birdeye.so", "bullx.io", "gmgn.ai", "photon-sol.tinyastro.io",
-    "phantom.app", "solscan.io", "solana.fm",
-  ];
-  return patterns.some((p) => url.includes(p));
-}
 
 
 // ─── Programmatic Content Script Injection (Safari iOS fix) ─────
@@ -319,34 +505,14 @@ function isWalletSite(url: string): boolean {
 // don't reliably inject on every page load. This uses chrome.scripting.executeScript
 // as a fallback, triggered by tab URL changes.
 
-const CONTENT_SCRIPT_PATTERNS: Record<string, string[]> = {
-  "dexscreener.com": ["*://dexscreener.com/*"],
-  "pump.fun": ["*://pump.fun/*"],
-  "jup.ag": ["*://jup.ag/*"],
-  "gmgn.ai": ["*://gmgn.ai/*"],
-  "bullx.io": ["*://bullx.io/*"],
-  "birdeye.so": ["*://birdeye.so/*"],
-  "raydium.io": ["*://raydium.io/*"],
-  "photon-sol.tinyastro.io": ["*://photon-sol.tinyastro.io/*"],
-};
-
-function getContentScriptForUrl(url: string): string | null {
-  try {
-    const hostname = new URL(url).hostname;
-    for (const [site] of Object.entries(CONTENT_SCRIPT_PATTERNS)) {
-      if (hostname.includes(site)) return site;
-    }
-  } catch {}
-  return null;
-}
-
-// Map site hostname → content script file from manifest
-function getScriptFiles(site: string): string[] {
+// Map an adapter → its content script files from the (generated) manifest
+function getScriptFiles(adapter: SiteAdapter): string[] {
+  const patterns = matchPatterns(adapter.hosts);
   const manifest = chrome.runtime.getManifest();
   const cs = manifest.content_scripts || [];
   for (const entry of cs) {
     const matches = entry.matches || [];
-    if (matches.some((m: string) => m.includes(site))) {
+    if (matches.some((m: string) => patterns.includes(m))) {
       return entry.js || [];
     }
   }
@@ -357,10 +523,10 @@ function getScriptFiles(site: string): string[] {
 chrome.tabs.onUpdated.addListener((tabId, changeInfo, tab) => {
   if (changeInfo.status !== "complete" || !tab.url) return;
 
-  const site = getContentScriptForUrl(tab.url);
-  if (!site) return;
+  const adapter = adapterForUrl(tab.url);
+  if (!adapter) return;
 
-  const files = getScriptFiles(site);
+  const files = getScriptFiles(adapter);
   if (files.length === 0) return;
 
   // Try programmatic injection — will no-op if declarative already ran (guard check)
@@ -371,53 +537,3 @@ chrome.tabs.onUpdated.addListener((tabId, changeInfo, tab) => {
     // Expected to fail sometimes (e.g. restricted pages, permissions not granted)
   });
 });
-
-// ─── API Proxy for Content Scripts ───────────────────────────────────
-// Content scripts in MV3 are subject to the PAGE's CORS policy.
-// Route all API calls through the background service worker which has
-// extension-level permissions (host_permissions in manifest).
-
-
-async function proxyApiRequest(
-  path: string,
-  options: { method?: string; body?: any; authToken?: string } = {}
-): Promise<any> {
-  const baseUrl = await getApiBase();
-  const headers: Record<string, string> = { "Content-Type": "application/json" };
-  if (options.authToken) headers["Authorization"] = `Bearer ${options.authToken}`;
-
-  const resp = await fetch(`${baseUrl}${path}`, {
-    method: options.method || "POST",
-    headers,
-    body: options.body ? JSON.stringify(options.body) : undefined,
-  });
-
-  if (!resp.ok) {
-    const err = await resp.json().catch(() => ({}));
-    return { __proxy_error: true, status: resp.status, detail: err.detail || `HTTP ${resp.status}` };
-  }
-  return resp.json();
-}
-
-// Add proxy handler to existing message listener — we need a NEW listener
-// since the existing one doesn't return true for async responses.
-chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
-  if (message.type === "API_PROXY") {
-    (async () => {
-      try {
-        // Get auth token from storage
-        const { auth_token } = await chrome.storage.local.get("auth_token");
-        const result = await proxyApiRequest(message.path, {
-          method: message.method || "POST",
-          body: message.body,
-          authToken: auth_token || undefined,
-        });
-        sendResponse({ success: true, data: result });
-      } catch (e: any) {
-        sendResponse({ success: false, error: e.message || "Proxy request failed" });
-      }
-    })();
-    return true; // Keep sendResponse channel open for async
-  }
-  return false;
-});
@@ -0,0 +1,104 @@
+/**
+ * AddressChip — risk chip next to a contract address found in page text.
+ *
+ * Rendered inside Shadow DOM by the universal content script.
+ * Scans lazily on first hover so a busy timeline doesn't fire a request
+ * per address; hovering shows a summary, click opens the full ScoreCard.
+ */
+
+import React, { useState, useCallback } from "react";
+import { scanToken, type ScanResult } from "../services/api";
+import type { ScanDiff } from "../utils/scanDiff";
+import { riskColor, riskLabel, riskEmoji, COLORS } from "../utils/designTokens";
+
+interface AddressChipProps {
+  mint: string;
+  chain: string;
+  onFullScan: (data: ScanResult, diff: ScanDiff | null) => void;
+}
+
+type ChipState =
+  | { status: "idle" }
+  | { status: "loading" }
+  | { status: "done"; data: ScanResult; diff: ScanDiff | null }
+  | { status: "error"; message: string };
+
+export const AddressChip: React.FC<AddressChipProps> = ({ mint, chain, onFullScan }) => {
+  const [state, setState] = useState<ChipState>({ status: "idle" });
+  const [hovered, setHovered] = useState(false);
+
+  const handleEnter = useCallback(async () => {
+    setHovered(true);
+    if (state.status !== "idle") return;
+    setState({ status: "loading" });
+    try {
+      const resp = await scanToken(mint, chain);
+      if (resp.success && resp.data && !resp.data.not_scanned && resp.data.risk_score != null) {
+        setState({ status: "done", data: resp.data, diff: resp.diff ?? null });
+      } else {
+        setState({ status: "error", message: resp.error || "Not scanned yet" });
+      }
+    } catch (e: any) {
+      setState({ status: "error", message: e.message || "Scan failed" });
+    }
+  }, [mint, chain, state.status]);
+
+  const score = state.status === "done" ? state.data.risk_score : null;
+  const color = score != null ? riskColor(score) : COLORS.purpleLight;
+
+  return (
+    <span
+      style={{ position: "relative", display: "inline-block", fontFamily: "system-ui, -apple-system, sans-serif" }}
+      onMouseEnter={handleEnter}
+      onMouseLeave={() => setHovered(false)}
+    >
+      <span
+        onClick={(e) => {
+          e.preventDefault();
+          e.stopPropagation();
+          if (state.status === "done") onFullScan(state.data, state.diff);
+        }}
+        style={{
+          display: "inline-flex", alignItems: "center", gap: "3px",
+          marginLeft: "4px", padding: "0 6px", borderRadius: "10px",
+          backgroundColor: `${color}20`, border: `1px solid ${color}50`,
+          color, fontSize: "11px", fontWeight: 600, lineHeight: "16px",
+          cursor: state.status === "done" ? "pointer" : "help",
+        }}
+      >
+        {state.status === "done" ? `${riskEmoji(score)} ${score}`
+          : state.status === "loading" ? "🗿 …"
+          : state.status === "error" ? "🗿 ?"
+          : "🗿"}
+      </span>
+
+      {hovered && state.status !== "idle" && (
+        <span style={{
+          position: "absolute", top: "100%", left: 0, marginTop: "4px", zIndex: 999999,
+          display: "block", minWidth: "200px", maxWidth: "260px", padding: "10px",
+          borderRadius: "10px", backgroundColor: COLORS.bg, border: `1px solid ${COLORS.border}`,
+          boxShadow: "0 8px 24px rgba(0,0,0,0.4)", color: COLORS.textPrimary, fontSize: "11px",
+        }}>
+          {state.status === "loading" && <span style={{ color: COLORS.textSecondary }}>Scanning…</span>}
+          {state.status === "error" && <span style={{ color: COLORS.textSecondary }}>{state.message}</span>}
+          {state.status === "done" && (
+            <>
+              <span style={{ display: "flex", justifyContent: "space-between", fontWeight: 700, fontSize: "12px" }}>
+                <span>${state.data.token_symbol || "?"}</span>
+                <span style={{ color }}>{score}/100 · {riskLabel(score)}</span>
+              </span>
+              {(state.data.risk_factors || []).slice(0, 3).map((f, i) => (
+                <span key={i} style={{ display: "block", marginTop: "3px", color: COLORS.textSecondary }}>⚠ {f}</span>
+              ))}
+              <span style={{ display: "block", marginTop: "6px", fontSize: "9px", color: COLORS.textMuted }}>
+                Click the chip for the full scan
+              </span>
+            </>
+          )}
+        </span>
+      )}
+    </span>
+  );
+};
+
+export default AddressChip;
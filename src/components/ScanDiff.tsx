@@ -0,0 +1,85 @@
+/**
+ * ScanDiffView — "Changed since last scan" summary for the popup.
+ *
+ * Shows score delta, new / resolved risk factors, metric severity changes
+ * and liquidity / holder moves between two consecutive scans.
+ */
+
+import React from "react";
+import { COLORS } from "../utils/designTokens";
+import type { ScanDiff, NumericDelta } from "../utils/scanDiff";
+
+const SEVERITY_COLORS: Record<string, string> = {
+  critical: COLORS.red,
+  high: COLORS.orange,
+  moderate: COLORS.gold,
+  safe: COLORS.green,
+  info: COLORS.textSecondary,
+};
+
+export function timeAgo(ts: number): string {
+  const mins = Math.floor((Date.now() - ts) / 60_000);
+  if (mins < 1) return "just now";
+  if (mins < 60) return `${mins}m ago`;
+  const hours = Math.floor(mins / 60);
+  if (hours < 24) return `${hours}h ago`;
+  return `${Math.floor(hours / 24)}d ago`;
+}
+
+const ScanDiffView: React.FC<{ diff: ScanDiff }> = ({ diff }) => {
+  if (!diff.hasChanges) return null;
+  const delta = diff.score.delta;
+
+  return (
+    <div style={{ marginTop: 10, paddingTop: 8, borderTop: `1px solid ${COLORS.border}` }}>
+      <div style={{ display: "flex", justifyContent: "space-between", fontSize: 10, color: COLORS.textMuted, marginBottom: 4 }}>
+        <span>🔄 Changed since last scan</span>
+        <span>{timeAgo(diff.since)}</span>
+      </div>
+
+      {delta != null && delta !== 0 && (
+        <div style={{ fontSize: 12, fontWeight: 700, color: delta > 0 ? COLORS.red : COLORS.green, marginBottom: 4 }}>
+          Risk {diff.score.from} → {diff.score.to} ({delta > 0 ? "+" : ""}{delta})
+        </div>
+      )}
+
+      {diff.factorsAdded.map((f, i) => (
+        <div key={`a${i}`} style={{ fontSize: 11, color: COLORS.red, paddingLeft: 8 }}>+ {f}</div>
+      ))}
+      {diff.factorsRemoved.map((f, i) => (
+        <div key={`r${i}`} style={{ fontSize: 11, color: COLORS.green, paddingLeft: 8 }}>− {f}</div>
+      ))}
+
+      {diff.severityChanges.map((c, i) => (
+        <div key={`s${i}`} style={{ display: "flex", justifyContent: "space-between", fontSize: 10, paddingLeft: 8 }}>
+          <span style={{ color: COLORS.textSecondary }}>{c.metric}</span>
+          <span>
+            <span style={{ color: SEVERITY_COLORS[c.from || "info"] }}>{c.from || "—"}</span>
+            <span style={{ color: COLORS.textMuted }}> → </span>
+            <span style={{ color: SEVERITY_COLORS[c.to || "info"], fontWeight: 600 }}>{c.to || "—"}</span>
+          </span>
+        </div>
+      ))}
+
+      {(diff.liquidity || diff.holders) && (
+        <div style={{ display: "flex", gap: 8, marginTop: 4, fontSize: 10 }}>
+          {diff.liquidity && <DeltaPill label="Liquidity" delta={diff.liquidity} usd />}
+          {diff.holders && <DeltaPill label="Holders" delta={diff.holders} />}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const DeltaPill: React.FC<{ label: string; delta: NumericDelta; usd?: boolean }> = ({ label, delta, usd }) => {
+  const up = delta.change > 0;
+  const pct = delta.pct != null ? ` (${up ? "+" : ""}${(delta.pct * 100).toFixed(0)}%)` : "";
+  const value = usd ? `$${Math.abs(delta.change).toLocaleString(undefined, { maximumFractionDigits: 0 })}` : Math.abs(delta.change).toLocaleString();
+  return (
+    <span style={{ color: up ? COLORS.green : COLORS.red }}>
+      {label} {up ? "▲" : "▼"} {value}{pct}
+    </span>
+  );
+};
+
+export default ScanDiffView;
@@ -0,0 +1,119 @@
+/**
+ * SwapGuardModal — blocking pre-swap confirmation.
+ *
+ * Rendered inside Shadow DOM over Jupiter / Raydium when the user clicks
+ * Swap on a token at or above their swap warning threshold.
+ * Shows: score, top risk factors, freeze / mint authority.
+ * The swap only proceeds after the "I understand" box is ticked.
+ */
+
+import React, { useState } from "react";
+import { riskColor, riskLabel, riskEmoji, COLORS } from "../utils/designTokens";
+import type { ScanResult } from "../services/api";
+
+interface SwapGuardModalProps {
+  data: ScanResult;
+  onProceed: () => void;
+  onCancel: () => void;
+}
+
+const MAX_FACTORS = 4;
+
+export const SwapGuardModal: React.FC<SwapGuardModalProps> = ({ data, onProceed, onCancel }) => {
+  const [acknowledged, setAcknowledged] = useState(false);
+  const score = data.risk_score;
+  const color = riskColor(score);
+  const factors = (data.risk_factors || []).slice(0, MAX_FACTORS);
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      style={{
+        position: "fixed", inset: 0, display: "flex",
+        alignItems: "center", justifyContent: "center",
+        backgroundColor: "rgba(0, 0, 0, 0.7)",
+        fontFamily: "system-ui, -apple-system, sans-serif",
+      }}
+      onClick={onCancel}
+    >
+      <div
+        onClick={(e) => e.stopPropagation()}
+        style={{
+          width: 340, padding: 18, borderRadius: 14,
+          backgroundColor: COLORS.bg, border: `1px solid ${color}`,
+          color: COLORS.textPrimary, boxShadow: `0 12px 40px ${color}40`,
+        }}
+      >
+        <div style={{ fontSize: 11, color: COLORS.textSecondary, marginBottom: 6 }}>
+          🗿 Rug Munch Intelligence — swap check
+        </div>
+        <div style={{ display: "flex", alignItems: "center", gap: 10, marginBottom: 12 }}>
+          <div style={{ fontSize: 28, fontWeight: 800, color }}>{score}</div>
+          <div>
+            <div style={{ fontSize: 14, fontWeight: 700 }}>
+              {riskEmoji(score)} ${data.token_symbol || "Unknown"} is {riskLabel(score)} risk
+            </div>
+            <div style={{ fontSize: 11, color: COLORS.textSecondary }}>
+              You are about to swap into this token.
+            </div>
+          </div>
+        </div>
+
+        {factors.length > 0 && (
+          <ul style={{ listStyle: "none", padding: 0, margin: "0 0 10px" }}>
+            {factors.map((f, i) => (
+              <li key={i} style={{
+                fontSize: 12, padding: "5px 8px", marginBottom: 3, borderRadius: 6,
+                backgroundColor: `${color}15`, color: COLORS.textPrimary,
+              }}>⚠ {f}</li>
+            ))}
+          </ul>
+        )}
+
+        <div style={{ display: "flex", gap: 6, marginBottom: 12 }}>
+          <AuthorityPill label="Freeze authority" active={data.freeze_authority} />
+          <AuthorityPill label="Mint authority" active={data.mint_authority} />
+        </div>
+
+        <label style={{
+          display: "flex", alignItems: "center", gap: 8,
+          fontSize: 12, marginBottom: 12, cursor: "pointer",
+        }}>
+          <input
+            type="checkbox"
+            checked={acknowledged}
+            onChange={(e) => setAcknowledged(e.target.checked)}
+          />
+          I understand the risks and want to swap anyway
+        </label>
+
+        <div style={{ display: "flex", gap: 8 }}>
+          <button onClick={onCancel} style={{
+            flex: 1, padding: "9px 0", borderRadius: 8, fontSize: 13, fontWeight: 600,
+            backgroundColor: COLORS.purple, border: "none", color: "#fff", cursor: "pointer",
+          }}>Cancel swap</button>
+          <button onClick={onProceed} disabled={!acknowledged} style={{
+            flex: 1, padding: "9px 0", borderRadius: 8, fontSize: 13, fontWeight: 600,
+            backgroundColor: "transparent", border: `1px solid ${acknowledged ? color : COLORS.border}`,
+            color: acknowledged ? color : COLORS.textMuted,
+            cursor: acknowledged ? "pointer" : "not-allowed",
+          }}>Swap anyway</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const AuthorityPill: React.FC<{ label: string; active?: boolean | null }> = ({ label, active }) => {
+  const color = active == null ? COLORS.textMuted : active ? COLORS.red : COLORS.green;
+  const state = active == null ? "unknown" : active ? "enabled" : "revoked";
+  return (
+    <div style={{
+      flex: 1, padding: "5px 8px", borderRadius: 6, fontSize: 11,
+      border: `1px solid ${color}40`, color,
+    }}>
+      {label}: <strong>{state}</strong>
+    </div>
+  );
+};
@@ -0,0 +1,149 @@
+/**
+ * TxWarningModal — blocking check before a wallet signs a transaction.
+ *
+ * Rendered inside Shadow DOM by the wallet bridge when the transaction
+ * guard's review finds something (see services/txReview.ts), before the
+ * wallet's own popup opens.
+ * Shows: what the instructions do, the signer's balance changes, and the
+ * High / Critical mints involved. Dangerous transactions only go through
+ * once the "I understand" box is ticked.
+ */
+
+import React, { useState } from "react";
+import { riskColor, riskLabel, COLORS } from "../utils/designTokens";
+import { formatUsd } from "../ui-catalog/scanToSpec";
+import type { TxReview, BalanceChange } from "../services/txReview";
+
+interface TxWarningModalProps {
+  review: TxReview;
+  /** Site asking for the signature */
+  origin: string;
+  onProceed: () => void;
+  onCancel: () => void;
+}
+
+export const TxWarningModal: React.FC<TxWarningModalProps> = ({ review, origin, onProceed, onCancel }) => {
+  const danger = review.severity === "danger";
+  const [acknowledged, setAcknowledged] = useState(!danger);
+  const color = danger ? COLORS.red : COLORS.orange;
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      style={{
+        position: "fixed", inset: 0, display: "flex",
+        alignItems: "center", justifyContent: "center",
+        backgroundColor: "rgba(0, 0, 0, 0.7)",
+        fontFamily: "system-ui, -apple-system, sans-serif",
+      }}
+      onClick={onCancel}
+    >
+      <div
+        onClick={(e) => e.stopPropagation()}
+        style={{
+          width: 360, maxHeight: "90vh", overflowY: "auto", padding: 18, borderRadius: 14,
+          backgroundColor: COLORS.bg, border: `1px solid ${color}`,
+          color: COLORS.textPrimary, boxShadow: `0 12px 40px ${color}40`,
+        }}
+      >
+        <div style={{ fontSize: 11, color: COLORS.textSecondary, marginBottom: 6 }}>
+          🗿 Rug Munch Intelligence — transaction check
+        </div>
+        <div style={{ fontSize: 15, fontWeight: 700, color, marginBottom: 2 }}>
+          {danger ? "🔴 This transaction looks dangerous" : "⚠ Review this transaction"}
+        </div>
+        <div style={{ fontSize: 11, color: COLORS.textSecondary, marginBottom: 12 }}>
+          Requested by {origin}
+        </div>
+
+        {review.warnings.length > 0 && (
+          <ul style={{ listStyle: "none", padding: 0, margin: "0 0 10px" }}>
+            {review.warnings.map((w, i) => (
+              <li key={i} style={{
+                fontSize: 12, padding: "5px 8px", marginBottom: 3, borderRadius: 6,
+                backgroundColor: `${color}15`, color: COLORS.textPrimary,
+              }}>⚠ {w}</li>
+            ))}
+          </ul>
+        )}
+
+        {review.balanceChanges.length > 0 && (
+          <Section title="Balance changes">
+            {review.balanceChanges.map((c) => <BalanceLine key={c.mint} change={c} />)}
+          </Section>
+        )}
+
+        {review.riskyMints.length > 0 && (
+          <Section title="Risky tokens involved">
+            {review.riskyMints.map((m) => (
+              <div key={m.mint} style={{ display: "flex", justifyContent: "space-between", fontSize: 12, padding: "2px 0" }}>
+                <span>${m.symbol || `${m.mint.slice(0, 4)}…${m.mint.slice(-4)}`}</span>
+                <span style={{ color: riskColor(m.risk_score), fontWeight: 700 }}>
+                  {m.risk_score} · {riskLabel(m.risk_score)}
+                </span>
+              </div>
+            ))}
+          </Section>
+        )}
+
+        {review.simulationError && (
+          <div style={{ fontSize: 11, color: COLORS.textSecondary, marginBottom: 10 }}>
+            Simulation: {review.simulationError}
+          </div>
+        )}
+
+        {danger && (
+          <label style={{
+            display: "flex", alignItems: "center", gap: 8,
+            fontSize: 12, marginBottom: 12, cursor: "pointer",
+          }}>
+            <input
+              type="checkbox"
+              checked={acknowledged}
+              onChange={(e) => setAcknowledged(e.target.checked)}
+            />
+            I understand the risks and want to sign anyway
+          </label>
+        )}
+
+        <div style={{ display: "flex", gap: 8 }}>
+          <button onClick={onCancel} style={{
+            flex: 1, padding: "9px 0", borderRadius: 8, fontSize: 13, fontWeight: 600,
+            backgroundColor: COLORS.purple, border: "none", color: "#fff", cursor: "pointer",
+          }}>Reject</button>
+          <button onClick={onProceed} disabled={!acknowledged} style={{
+            flex: 1, padding: "9px 0", borderRadius: 8, fontSize: 13, fontWeight: 600,
+            backgroundColor: "transparent", border: `1px solid ${acknowledged ? color : COLORS.border}`,
+            color: acknowledged ? color : COLORS.textMuted,
+            cursor: acknowledged ? "pointer" : "not-allowed",
+          }}>Continue to wallet</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const Section: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <div style={{ marginBottom: 10 }}>
+    <div style={{
+      fontSize: 10, color: COLORS.textMuted, textTransform: "uppercase" as const,
+      letterSpacing: 0.5, marginBottom: 4,
+    }}>{title}</div>
+    {children}
+  </div>
+);
+
+const BalanceLine: React.FC<{ change: BalanceChange }> = ({ change }) => {
+  const outgoing = change.amount < 0;
+  const amount = Math.abs(change.amount).toLocaleString(undefined, { maximumFractionDigits: 6 });
+  return (
+    <div style={{ display: "flex", justifyContent: "space-between", fontSize: 12, padding: "2px 0" }}>
+      <span>${change.symbol || `${change.mint.slice(0, 4)}…${change.mint.slice(-4)}`}</span>
+      <span style={{ color: outgoing ? COLORS.red : COLORS.green, fontWeight: 600 }}>
+        {outgoing ? "−" : "+"}{amount}
+        {change.value_usd != null && ` (${formatUsd(Math.abs(change.value_usd))})`}
+      </span>
+    </div>
+  );
+};
@@ -0,0 +1,18 @@
+/**
+ * Site Content Script
+ *
+ * One entry for every DEX / explorer in sites/registry.ts: picks this
+ * host's adapter and hands it to the shared runtime (sites/runtime.ts).
+ */
+
+import { adapterForHost } from "../sites/registry";
+import { runSiteAdapter } from "../sites/runtime";
+
+// __rms_guard: Prevent double injection (Safari programmatic + declarative)
+const __rms_guard_key = '__rms_sites_injected';
+if (!(window as any)[__rms_guard_key]) {
+  (window as any)[__rms_guard_key] = true;
+
+  const adapter = adapterForHost(window.location.hostname);
+  if (adapter) runSiteAdapter(adapter);
+}
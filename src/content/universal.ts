@@ -1,14 +1,35 @@
 /**
  * Universal CA Detection
  *
- * Scans page content for Solana contract addresses and offers
+ * Scans page content for Solana and EVM contract addresses and offers
  * to scan them. Works on any page via context menu or page scan.
  *
- * Detection: Base58 strings of 32-44 chars matching Solana address pattern.
+ * Detection: Base58 strings of 32-44 chars matching Solana address pattern,
+ * and 0x-prefixed 40-hex EVM addresses.
+ *
+ * Not in the manifest: the background registers it on https pages (but the
+ * adapter sites, where sites.ts runs) once highlighting is turned on, and
+ * injects it into the clicked tab (activeTab) to float a context-menu
+ * scan's ScoreCard.
+ *
+ * Highlighting (opt-in, per-site allow/deny list in Settings): addresses in
+ * page text — including tweets / messages loaded later — are wrapped and get
+ * a risk chip that scans on hover.
  */
 
-// Solana address regex: Base58 chars, 32-44 length
-const SOLANA_ADDRESS_RE = /\b([1-9A-HJ-NP-Za-km-z]{32,44})\b/g;
+import { createMessageRouter } from "../utils/messaging";
+import { isEvmAddress, isTokenAddress, resolveChain } from "../utils/chains";
+import { getSettings, isUniversalSiteAllowed } from "../utils/config";
+import { extractChainFromUrl } from "../utils/tokenExtractor";
+import { injectComponent, removeComponent } from "../utils/shadowInject";
+import { injectScoreCard, removeAllCards } from "../ui-catalog/injectCard";
+import { AddressChip } from "../components/AddressChip";
+import { COLORS } from "../utils/designTokens";
+import type { ScanResult } from "../services/api";
+import type { ScanDiff } from "../utils/scanDiff";
+
+// Solana (Base58, 32-44 chars) or EVM (0x + 40 hex) address in running text
+const ADDRESS_RE = /\b(0x[a-fA-F0-9]{40}|[1-9A-HJ-NP-Za-km-z]{32,44})\b/g;
 
 // Known non-address patterns to exclude
 const EXCLUDE_PATTERNS = new Set([
@@ -16,46 +37,196 @@ const EXCLUDE_PATTERNS = new Set([
   "TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA", // Token program
 ]);
 
+// Never rewrite text inside these
+const SKIP_TAGS = new Set(["SCRIPT", "STYLE", "NOSCRIPT", "TEXTAREA", "INPUT", "SELECT", "OPTION"]);
+const SKIP_SELECTOR = "[data-rms-addr], [id^='rms-'], [contenteditable]:not([contenteditable='false'])";
+
+const MAX_CHIPS = 150;
+
+function isLikelyAddress(addr: string): boolean {
+  if (isEvmAddress(addr)) return true;
+  if (EXCLUDE_PATTERNS.has(addr)) return false;
+  // Additional heuristic: real addresses usually have mixed case
+  if (addr === addr.toLowerCase() || addr === addr.toUpperCase()) return false;
+  return true;
+}
+
 /**
- * Scan visible text for Solana addresses.
+ * Scan visible text for Solana and EVM addresses.
  */
 export function detectAddressesOnPage(): string[] {
   const text = document.body.innerText;
-  const matches = text.match(SOLANA_ADDRESS_RE) || [];
+  const matches = text.match(ADDRESS_RE) || [];
 
   // Deduplicate and filter
-  const unique = [...new Set(matches)].filter((addr) => {
-    if (EXCLUDE_PATTERNS.has(addr)) return false;
-    if (addr.length < 32 || addr.length > 44) return false;
-    // Additional heuristic: real addresses usually have mixed case
-    if (addr === addr.toLowerCase() || addr === addr.toUpperCase()) return false;
-    return true;
-  });
+  const unique = [...new Set(matches)].filter(isLikelyAddress);
 
   return unique.slice(0, 20); // Max 20 addresses per page
 }
 
 /**
- * Get selected text that looks like a Solana address.
+ * Get selected text that looks like a token address.
  */
 export function getSelectedAddress(): string | null {
   const selection = window.getSelection()?.toString().trim();
   if (!selection) return null;
 
-  const match = selection.match(/^[1-9A-HJ-NP-Za-km-z]{32,44}$/);
-  return match ? match[0] : null;
+  return isTokenAddress(selection) ? selection : null;
+}
+
+/**
+ * Wrap addresses in text under `root` with `<span data-rms-addr>`.
+ * Skips form fields, editable areas (compose boxes) and anything already
+ * wrapped, so it's safe to call repeatedly. Returns the new spans.
+ */
+export function highlightAddresses(root: Element, limit = Infinity): HTMLElement[] {
+  if (root.closest(SKIP_SELECTOR)) return [];
+
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT, {
+    acceptNode: (node) => {
+      const parent = node.parentElement;
+      if (!parent || SKIP_TAGS.has(parent.tagName) || parent.closest(SKIP_SELECTOR)) {
+        return NodeFilter.FILTER_REJECT;
+      }
+      return (node.nodeValue?.length || 0) >= 32 ? NodeFilter.FILTER_ACCEPT : NodeFilter.FILTER_REJECT;
+    },
+  });
+
+  const textNodes: Text[] = [];
+  while (walker.nextNode()) textNodes.push(walker.currentNode as Text);
+
+  const wrapped: HTMLElement[] = [];
+  for (const node of textNodes) {
+    if (wrapped.length >= limit) break;
+    const text = node.nodeValue || "";
+    const matches = [...text.matchAll(ADDRESS_RE)].filter((m) => isLikelyAddress(m[0]));
+    if (matches.length === 0) continue;
+
+    const fragment = document.createDocumentFragment();
+    let last = 0;
+    for (const m of matches) {
+      if (wrapped.length >= limit) break;
+      fragment.append(text.slice(last, m.index));
+      const span = document.createElement("span");
+      span.setAttribute("data-rms-addr", m[0]);
+      span.style.borderBottom = `1px dotted ${COLORS.purpleLight}`;
+      span.textContent = m[0];
+      fragment.append(span);
+      wrapped.push(span);
+      last = m.index! + m[0].length;
+    }
+    fragment.append(text.slice(last));
+    node.replaceWith(fragment);
+  }
+  return wrapped;
 }
 
+/**
+ * Undo `highlightAddresses` — put the plain text back.
+ */
+export function clearHighlights(root: Element): void {
+  for (const span of Array.from(root.querySelectorAll("[data-rms-addr]"))) {
+    const parent = span.parentElement;
+    span.replaceWith(document.createTextNode(span.textContent || ""));
+    parent?.normalize();
+  }
+}
+
+const __rms_guard_key = '__rms_universal_injected';
+if (!(window as any)[__rms_guard_key]) {
+  (window as any)[__rms_guard_key] = true;
+
 // Listen for messages from background to scan page
-chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
-  if (message.type === "DETECT_ADDRESSES") {
-    const addresses = detectAddressesOnPage();
-    sendResponse({ addresses });
+chrome.runtime.onMessage.addListener(createMessageRouter({
+  DETECT_ADDRESSES: () => ({ addresses: detectAddressesOnPage() }),
+  GET_SELECTED_ADDRESS: () => ({ address: getSelectedAddress() }),
+  // Right-click scan result from the background
+  SHOW_SCAN_CARD: (message) => openFullCard(message.data, message.diff ?? null),
+}));
+
+// ─── Highlighting ───────────────────────────────────────────────
+
+const chips = new Map<string, HTMLElement>(); // chip id → wrapped span
+let nextChipId = 0;
+let observer: MutationObserver | null = null;
+let pendingRoots = new Set<Element>();
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+function openFullCard(data: ScanResult, diff: ScanDiff | null) {
+  removeAllCards();
+  injectScoreCard(`universal-${data.token_address}`, document.body, data, { position: "float-right", diff });
+}
+
+function processRoot(root: Element) {
+  // Drop chips whose addresses were unmounted (virtualized timelines)
+  for (const [id, span] of chips) {
+    if (!span.isConnected) {
+      removeComponent(id);
+      chips.delete(id);
+    }
+  }
+
+  const pageChain = extractChainFromUrl(window.location.href);
+  for (const span of highlightAddresses(root, MAX_CHIPS - chips.size)) {
+    const mint = span.getAttribute("data-rms-addr")!;
+    const id = `addr-${nextChipId++}`;
+    injectComponent(id, span, AddressChip, {
+      mint,
+      chain: resolveChain(mint, pageChain),
+      onFullScan: openFullCard,
+    }, "after");
+    chips.set(id, span);
   }
-  if (message.type === "GET_SELECTED_ADDRESS") {
-    const address = getSelectedAddress();
-    sendResponse({ address });
+}
+
+function flush() {
+  flushTimer = null;
+  const roots = [...pendingRoots];
+  pendingRoots = new Set();
+  for (const root of roots) {
+    if (root.isConnected) processRoot(root);
   }
+}
+
+function start() {
+  if (observer) return;
+  processRoot(document.body);
+
+  observer = new MutationObserver((mutations) => {
+    for (const m of mutations) {
+      const target = m.type === "characterData" ? m.target.parentElement : m.target as Element;
+      // Ignore our own wraps and chip hosts
+      const external = m.type === "characterData" ||
+        Array.from(m.addedNodes).some((n) =>
+          !(n instanceof HTMLElement && (n.id.startsWith("rms-") || n.hasAttribute("data-rms-addr"))));
+      if (target && external) pendingRoots.add(target);
+    }
+    if (pendingRoots.size > 0 && !flushTimer) flushTimer = setTimeout(flush, 300);
+  });
+  observer.observe(document.body, { childList: true, subtree: true, characterData: true });
+}
+
+function stop() {
+  if (!observer) return;
+  observer.disconnect();
+  observer = null;
+  if (flushTimer) clearTimeout(flushTimer);
+  flushTimer = null;
+  pendingRoots.clear();
+  for (const id of chips.keys()) removeComponent(id);
+  chips.clear();
+  clearHighlights(document.body);
+}
+
+async function applySettings() {
+  const settings = await getSettings();
+  if (isUniversalSiteAllowed(window.location.hostname, settings)) start();
+  else stop();
+}
+
+applySettings();
+chrome.storage.onChanged.addListener((changes, area) => {
+  if (area === "local" && changes.settings) applySettings();
 });
 
-export {};
+} // end __rms_guard
@@ -1,212 +1,132 @@
 /**
- * Wallet Bridge — Content script that relays Phantom wallet operations
- * from the extension popup/background to the page's injected provider.
+ * Wallet Bridge — Content script that relays Solana wallet operations
+ * from the extension popup/background to the page's injected providers.
  *
- * Phantom injects window.phantom.solana into web pages, but extension
- * popups/backgrounds can't access it. This content script acts as a relay.
+ * Wallets (Phantom, Solflare, Backpack, Glow, any Wallet Standard wallet)
+ * inject into web pages, but extension popups/backgrounds can't access
+ * them. This content script acts as a relay.
  *
  * Flow:
- * 1. Background sends message: { action: "wallet-connect" | "wallet-sign", ... }
- * 2. Content script accesses window.phantom.solana on the page
+ * 1. Background sends message: { type: "WALLET_CONNECT" | "WALLET_SIGN" | "WALLET_SEND_TRANSACTION", wallet?, ... }
+ * 2. Content script forwards it to the wallet page agent (walletPage.ts)
  * 3. Returns result via sendResponse
  *
- * Since content scripts also can't directly access window.phantom (isolated world),
- * we inject a page-level script that communicates back via window.postMessage.
- */
-
-// Listen for messages from background/popup
-chrome.runtime.onMessage.addListener((msg, _sender, sendResponse) => {
-  if (msg.action === "wallet-detect") {
-    injectAndRelay("detect", {}, sendResponse);
-    return true; // async response
-  }
-
-  if (msg.action === "wallet-connect") {
-    injectAndRelay("connect", {}, sendResponse);
-    return true;
-  }
-
-  if (msg.action === "wallet-sign") {
-    injectAndRelay("sign", { message: msg.message, nonce: msg.nonce }, sendResponse);
-    return true;
-  }
-
-  if (msg.action === "wallet-disconnect") {
-    injectAndRelay("disconnect", {}, sendResponse);
-    return true;
-  }
-});
-
-/**
- * Inject a script into the page's main world to access window.phantom.solana.
- * Uses window.postMessage to relay results back to this content script.
+ * Content scripts can't reach page globals (isolated world), so the agent
+ * runs as a MAIN-world content script; the two talk over a private port
+ * that only the agent can pick up (see walletProtocol.ts).
  *
- * Chrome: inline script element injection
- * Firefox: wrappedJSObject for direct page context access (more reliable with CSP)
+ * Transaction guard (opt-in, settings.txSimulation): the agent sends every
+ * transaction a page asks a wallet to sign here first; the background
+ * reviews it and, if anything looks off, a warning asks the user before
+ * the wallet's popup opens.
  */
-function injectAndRelay(
-  action: string,
-  params: Record<string, any>,
-  sendResponse: (resp: any) => void
-) {
-  const requestId = `rmi-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
-
-  // Listen for the response from the injected page script
-  const handler = (event: MessageEvent) => {
-    if (
-      event.source !== window ||
-      event.data?.type !== "RMI_WALLET_RESPONSE" ||
-      event.data?.requestId !== requestId
-    ) return;
-
-    window.removeEventListener("message", handler);
+
+import { createMessageRouter, sendMessage } from "../utils/messaging";
+import { getSettings } from "../utils/config";
+import { showTxWarning } from "../utils/txWarning";
+import type { WalletBridgeResult } from "../types/messages";
+import {
+  WALLET_EVENTS,
+  type WalletAction, type WalletParams, type WalletHello, type WalletRequest, type WalletResponse,
+  type TxReviewRequest, type TxReviewVerdict,
+} from "./walletProtocol";
+
+// How long to wait for the agent to echo the hello before giving up on it
+const HANDSHAKE_TIMEOUT = 5000;
+
+// Per-session nonce — every message on the port must carry it
+const session = crypto.randomUUID();
+// Our end of the channel, once the agent answered the hello
+let port: MessagePort | null = null;
+const pending = new Map<string, (result: WalletBridgeResult) => void>();
+
+// ─── Handshake ──────────────────────────────────────────────────
+
+const channel = new MessageChannel();
+
+const connected = new Promise<boolean>((resolve) => {
+  const timeout = setTimeout(() => resolve(false), HANDSHAKE_TIMEOUT);
+  channel.port1.onmessage = (event: MessageEvent<WalletHello>) => {
+    if (event.data?.session !== session) return;
     clearTimeout(timeout);
-    sendResponse(event.data.result);
+    port = channel.port1;
+    port.onmessage = onResponse;
+    resolve(true);
+    syncGuard();
   };
+});
 
-  window.addEventListener("message", handler);
-
-  // Timeout after 60s (wallet popups can take time)
-  const timeout = setTimeout(() => {
-    window.removeEventListener("message", handler);
-    sendResponse({ success: false, error: "Wallet operation timed out" });
-  }, 60000);
-
-  // Firefox: use wrappedJSObject for direct page context access (bypasses CSP)
-  // Chrome: use inline script injection
-  const isFirefox = typeof (window as any).wrappedJSObject !== "undefined";
-
-  if (isFirefox) {
-    // Firefox content scripts can access page globals via wrappedJSObject
-    try {
-      const pageWin = (window as any).wrappedJSObject;
-
-      // Execute the page script logic directly via page context
-      const scriptBody = `(${pageScript.toString()})("${requestId}", "${action}", ${JSON.stringify(params)});`;
-      pageWin.eval(scriptBody);
-    } catch (e) {
-      // Fallback to script injection if wrappedJSObject fails
-      injectViaScript(requestId, action, params);
-    }
-  } else {
-    injectViaScript(requestId, action, params);
+function onResponse(event: MessageEvent<WalletResponse | TxReviewRequest>) {
+  const response = event.data;
+  if (response?.session !== session) return;
+  if ("review" in response) {
+    onReview(response);
+    return;
   }
+  pending.get(response.id)?.(response.result);
 }
 
-function injectViaScript(requestId: string, action: string, params: Record<string, any>) {
-  const script = document.createElement("script");
-  script.textContent = `(${pageScript.toString()})("${requestId}", "${action}", ${JSON.stringify(params)});`;
-  document.documentElement.appendChild(script);
-  script.remove();
-}
-
-/**
- * This function runs in the PAGE context (main world), with access to
- * window.phantom.solana. Results are sent back via postMessage.
- */
-function pageScript(requestId: string, action: string, params: any) {
-  const respond = (result: any) => {
-    window.postMessage({ type: "RMI_WALLET_RESPONSE", requestId, result }, "*");
-  };
+channel.port1.postMessage({ session } satisfies WalletHello);
+// The agent's capture listener takes the port before any page listener can see it
+window.dispatchEvent(new MessageEvent(WALLET_EVENTS.port, { ports: [channel.port2] }));
 
-  const phantom = (window as any).phantom?.solana;
+// ─── Transaction guard ──────────────────────────────────────────
 
-  if (action === "detect") {
-    respond({
-      success: true,
-      phantom: !!phantom,
-      isConnected: phantom?.isConnected || false,
-      publicKey: phantom?.publicKey?.toBase58?.() || null,
-    });
-    return;
-  }
+async function syncGuard() {
+  const { txSimulation } = await getSettings();
+  await relay("guard", { guard: txSimulation });
+}
 
-  if (!phantom) {
-    respond({ success: false, error: "Phantom wallet not found. Install Phantom to sign in." });
-    return;
-  }
+chrome.storage.onChanged.addListener((changes, area) => {
+  if (area === "local" && changes.settings && port) syncGuard();
+});
 
-  if (action === "connect") {
-    phantom.connect()
-      .then((resp: any) => {
-        respond({
-          success: true,
-          publicKey: resp.publicKey.toBase58(),
-          isConnected: true,
-        });
-      })
-      .catch((err: any) => {
-        respond({ success: false, error: err.message || "Connection rejected" });
-      });
-    return;
+async function onReview({ id, review }: TxReviewRequest) {
+  let allow = true;
+  try {
+    const result = await sendMessage({ type: "REVIEW_TRANSACTION", transaction: review, origin: window.location.origin });
+    if (result.severity !== "ok") allow = await showTxWarning(result, window.location.origin);
+  } catch (err) {
+    // A review that can't run must not lock the user out of their wallet
+    console.warn("[RMS] Transaction review failed:", err);
   }
+  port?.postMessage({ session, id, allow } satisfies TxReviewVerdict);
+}
 
-  if (action === "sign") {
-    // Must be connected first
-    const doSign = () => {
-      const messageBytes = new TextEncoder().encode(params.message);
-      phantom.signMessage(messageBytes, "utf8")
-        .then((result: any) => {
-          // Convert signature Uint8Array to base58
-          const sig = base58encode(result.signature);
-          respond({
-            success: true,
-            signature: sig,
-            publicKey: phantom.publicKey.toBase58(),
-          });
-        })
-        .catch((err: any) => {
-          respond({ success: false, error: err.message || "Signing rejected" });
-        });
+// ─── Relay ──────────────────────────────────────────────────────
+
+// Listen for wallet ops relayed by the background
+chrome.runtime.onMessage.addListener(createMessageRouter({
+  WALLET_DETECT: () => relay("detect", {}),
+  WALLET_CONNECT: (msg) => relay("connect", { wallet: msg.wallet }),
+  WALLET_SIGN: (msg) => relay("sign", { message: msg.message, nonce: msg.nonce, wallet: msg.wallet }),
+  WALLET_DISCONNECT: (msg) => relay("disconnect", { wallet: msg.wallet }),
+  WALLET_SEND_TRANSACTION: (msg) => relay("send", { from: msg.from, transaction: msg.transaction, wallet: msg.wallet }),
+}));
+
+async function relay(action: WalletAction, params: WalletParams): Promise<WalletBridgeResult> {
+  if (!(await connected)) {
+    return {
+      success: false,
+      error: "Wallet bridge isn't connected on this page. Refresh the page and try again.",
     };
-
-    if (!phantom.isConnected) {
-      phantom.connect().then(doSign).catch((err: any) => {
-        respond({ success: false, error: err.message || "Connection rejected" });
-      });
-    } else {
-      doSign();
-    }
-    return;
   }
+  const agent = port!;
 
-  if (action === "disconnect") {
-    phantom.disconnect()
-      .then(() => respond({ success: true }))
-      .catch((err: any) => respond({ success: false, error: err.message }));
-    return;
-  }
+  return new Promise((sendResponse) => {
+    const id = crypto.randomUUID();
 
-  respond({ success: false, error: `Unknown action: ${action}` });
-
-  // Minimal base58 encoder (no dependencies in page context)
-  function base58encode(bytes: Uint8Array): string {
-    const ALPHABET = "123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz";
-    const BASE = 58;
-    if (bytes.length === 0) return "";
-
-    // Count leading zeros
-    let zeros = 0;
-    for (let i = 0; i < bytes.length && bytes[i] === 0; i++) zeros++;
-
-    // Convert to base58
-    const size = Math.ceil(bytes.length * 138 / 100) + 1;
-    const b58 = new Uint8Array(size);
-    for (let i = zeros; i < bytes.length; i++) {
-      let carry = bytes[i];
-      for (let j = size - 1; j >= 0; j--) {
-        carry += 256 * b58[j];
-        b58[j] = carry % BASE;
-        carry = Math.floor(carry / BASE);
-      }
-    }
-
-    // Skip leading zeros in base58 result
-    let start = 0;
-    while (start < size && b58[start] === 0) start++;
-
-    let result = "1".repeat(zeros);
-    for (let i = start; i < size; i++) result += ALPHABET[b58[i]];
-    return result;
-  }
+    // Timeout after 60s (wallet popups can take time)
+    const timeout = setTimeout(() => {
+      pending.delete(id);
+      sendResponse({ success: false, error: "Wallet operation timed out" });
+    }, 60000);
+
+    pending.set(id, (result) => {
+      pending.delete(id);
+      clearTimeout(timeout);
+      sendResponse(result);
+    });
+    agent.postMessage({ session, id, action, params } satisfies WalletRequest);
+  });
 }
@@ -0,0 +1,395 @@
+/**
+ * Wallet Page Agent — MAIN-world content script that talks to the wallets'
+ * injected providers on behalf of the wallet bridge.
+ *
+ * Runs at document_start next to the page's own scripts (the isolated-world
+ * bridge can't see page globals), and takes requests only over ports handed
+ * to it by the handshake in walletProtocol.ts. No code is ever built
+ * from strings, so it works on pages whose CSP blocks inline scripts.
+ *
+ * Wallets are found two ways:
+ * - injected globals: Phantom, Solflare, Backpack, Glow
+ * - the Wallet Standard: announce "app-ready" and collect every wallet that
+ *   registers (synchronously) with Solana message signing
+ * A wallet that shows up both ways is kept once, under its injected id
+ * (sending transactions through its Wallet Standard side when it has one).
+ *
+ * "send" also covers EVM: approval revokes go to window.ethereum.
+ *
+ * With the transaction guard on (settings.txSimulation), the wallets'
+ * signTransaction / signAllTransactions / signAndSendTransaction are
+ * wrapped: each transaction goes to the bridge for review first, and one
+ * the user rejects never reaches the wallet's popup.
+ */
+
+// Type-only imports: see WALLET_EVENTS
+import type { WalletBridgeResult } from "../types/messages";
+import type {
+  WALLET_EVENTS, WalletAction, WalletParams, WalletHello, WalletRequest, WalletResponse,
+  TxReviewRequest, TxReviewVerdict,
+} from "./walletProtocol";
+
+const EVENTS: typeof WALLET_EVENTS = {
+  port: "rmi-wallet:port",
+};
+
+interface PageWallet {
+  id: string;
+  name: string;
+  icon: string | null;
+  publicKey: () => string | null;
+  connect: () => Promise<string>;
+  sign: (message: Uint8Array) => Promise<Uint8Array>;
+  disconnect: () => Promise<unknown>;
+  /** Sign and submit a wire-format transaction, resolving its signature */
+  signAndSend: ((transaction: Uint8Array) => Promise<string>) | null;
+}
+
+// One link per port offered: the bridge's, plus any a page script offered
+interface BridgeLink {
+  port: MessagePort;
+  /** Set by the hello; null until then */
+  session: string | null;
+  /** Transaction guard on for this link */
+  guard: boolean;
+}
+const links = new Set<BridgeLink>();
+// Reviews waiting on a link's verdict
+const reviews = new Map<string, { link: BridgeLink; settle: (allow: boolean) => void }>();
+
+// ─── Handshake ──────────────────────────────────────────────────
+
+// Taken before any page script runs, so patching the prototypes later can't
+// hide an offer from us, swap its port, or listen in on what we post
+const call = Function.prototype.call;
+const accessor = (proto: object, name: string) => Object.getOwnPropertyDescriptor(proto, name)!;
+const stopEvent = call.bind(Event.prototype.stopImmediatePropagation) as (event: Event) => void;
+const offeredPorts = call.bind(accessor(MessageEvent.prototype, "ports").get!) as (event: Event) => readonly MessagePort[];
+const setOnMessage = call.bind(accessor(MessagePort.prototype, "onmessage").set!) as
+  (port: MessagePort, handler: (event: MessageEvent) => void) => void;
+const postTo = call.bind(MessagePort.prototype.postMessage) as (port: MessagePort, message: unknown) => void;
+
+function onPortOffer(event: Event) {
+  // We're the first listener on window (capture phase, document_start): no page listener sees the offer
+  stopEvent(event);
+  const port = offeredPorts(event)?.[0];
+  if (port) serve(port);
+}
+
+function serve(port: MessagePort) {
+  const link: BridgeLink = { port, session: null, guard: false };
+  links.add(link);
+  setOnMessage(port, async (event: MessageEvent) => {
+    const request: WalletHello | WalletRequest | TxReviewVerdict = event.data;
+    if (typeof request?.session !== "string") return;
+    if (!link.session) {
+      link.session = request.session;
+      postTo(port, { session: link.session } satisfies WalletHello);
+      return;
+    }
+    if (request.session !== link.session) return;
+    if ("allow" in request) {
+      const pending = reviews.get(request.id);
+      if (pending?.link === link) pending.settle(request.allow === true);
+      return;
+    }
+    if (!("action" in request) || !Object.hasOwn(FAILURES, request.action)) return;
+    const result = await runWalletAction(link, request.action, request.params ?? {});
+    postTo(port, { session: link.session, id: request.id, result } satisfies WalletResponse);
+  });
+}
+
+window.addEventListener(EVENTS.port, onPortOffer, true);
+
+// ─── Wallets ────────────────────────────────────────────────────
+
+function findWallets(): PageWallet[] {
+  const w = window as any;
+  const wallets: PageWallet[] = [];
+
+  const injected = (id: string, name: string, provider: any) => {
+    if (!provider?.connect || !provider?.signMessage) return;
+    const key = () => provider.publicKey?.toBase58?.() || null;
+    wallets.push({
+      id, name, icon: null,
+      publicKey: () => (provider.isConnected === false ? null : key()),
+      // Phantom / Glow resolve { publicKey }; Solflare / Backpack set it on the provider
+      connect: () => provider.connect().then((r: any) => (r?.publicKey ?? provider.publicKey).toBase58()),
+      sign: (message) => provider.signMessage(message, "utf8").then((r: any) => r?.signature ?? r),
+      disconnect: () => Promise.resolve(provider.disconnect?.()),
+      // Phantom-style request API, which takes the base58 message only: drop
+      // the signature count and the (empty) signatures in front of it
+      signAndSend: provider.request
+        ? (tx) => provider.request({
+          method: "signAndSendTransaction", params: { message: base58encode(tx.subarray(1 + 64 * tx[0])) },
+        })
+          .then((r: any) => r.signature)
+        : null,
+    });
+  };
+  injected("phantom", "Phantom", w.phantom?.solana);
+  injected("solflare", "Solflare", w.solflare?.isSolflare ? w.solflare : null);
+  injected("backpack", "Backpack", w.backpack?.solana ?? w.backpack);
+  injected("glow", "Glow", w.glowSolana ?? w.glow?.solana);
+
+  for (const sw of standardWallets()) {
+    const f = sw?.features || {};
+    const solana = (sw?.chains || []).some((c: string) => c.startsWith("solana:"));
+    if (!solana || !f["standard:connect"] || !f["solana:signMessage"]) continue;
+
+    const send = f["solana:signAndSendTransaction"]
+      ? async (transaction: Uint8Array) => {
+        const account = sw.accounts?.[0] ?? (await f["standard:connect"].connect())?.accounts?.[0];
+        if (!account) throw new Error("No account authorized");
+        const chain = (account.chains || sw.chains).find((c: string) => c.startsWith("solana:"));
+        const [out] = await f["solana:signAndSendTransaction"].signAndSendTransaction({ account, transaction, chain });
+        return base58encode(out.signature);
+      }
+      : null;
+    const existing = wallets.find((x) => x.name.toLowerCase() === String(sw.name).toLowerCase());
+    if (existing) {
+      existing.signAndSend = send ?? existing.signAndSend;
+      continue;
+    }
+    wallets.push({
+      id: `standard:${sw.name}`,
+      name: sw.name,
+      icon: sw.icon || null,
+      publicKey: () => sw.accounts?.[0]?.address || null,
+      connect: () => f["standard:connect"].connect().then((r: any) => {
+        const account = r?.accounts?.[0] ?? sw.accounts?.[0];
+        if (!account) throw new Error("No account authorized");
+        return account.address;
+      }),
+      sign: (message) => f["solana:signMessage"]
+        .signMessage({ account: sw.accounts[0], message })
+        .then((out: any) => out[0].signature),
+      disconnect: () => Promise.resolve(f["standard:disconnect"]?.disconnect()),
+      signAndSend: send,
+    });
+  }
+
+  return wallets;
+}
+
+/** Every wallet that registers (synchronously) with the Wallet Standard */
+function standardWallets(): any[] {
+  const standard: any[] = [];
+  const api = { register: (...registered: any[]) => { standard.push(...registered); return () => {}; } };
+  const onRegister = (e: any) => { try { e.detail?.(api); } catch {} };
+  window.addEventListener("wallet-standard:register-wallet", onRegister);
+  try {
+    window.dispatchEvent(new CustomEvent("wallet-standard:app-ready", { detail: api }));
+  } catch {}
+  window.removeEventListener("wallet-standard:register-wallet", onRegister);
+  return standard;
+}
+
+// ─── Transaction guard ──────────────────────────────────────────
+
+const BLOCKED = "Transaction rejected by Rug Munch Intelligence";
+const GUARDED = "__rmiGuarded";
+
+function setGuard(link: BridgeLink, enabled: boolean) {
+  link.guard = enabled;
+  if (!enabled) return;
+  installGuard();
+  // Catch wallets that inject after we were turned on
+  if (document.readyState !== "complete") window.addEventListener("load", installGuard, { once: true });
+}
+
+function installGuard() {
+  const w = window as any;
+  const providers = [w.phantom?.solana, w.solflare, w.backpack?.solana ?? w.backpack, w.glowSolana ?? w.glow?.solana, w.solana];
+  for (const provider of providers) {
+    guardMethod(provider, "signTransaction", (args) => [args[0]]);
+    guardMethod(provider, "signAllTransactions", (args) => args[0] || []);
+    guardMethod(provider, "signAndSendTransaction", (args) => [args[0]]);
+  }
+  // Wallet Standard features take { transaction: Uint8Array, … } inputs
+  for (const sw of standardWallets()) {
+    const f = sw?.features || {};
+    guardMethod(f["solana:signTransaction"], "signTransaction", (inputs) => inputs.map((i) => i?.transaction));
+    guardMethod(f["solana:signAndSendTransaction"], "signAndSendTransaction", (inputs) => inputs.map((i) => i?.transaction));
+  }
+}
+
+/** Wrap `target[method]` so the transactions picked out of its arguments are reviewed first */
+function guardMethod(target: any, method: string, transactions: (args: any[]) => unknown[]) {
+  const original = target?.[method];
+  if (typeof original !== "function" || original[GUARDED]) return;
+  const guarded = async function (this: unknown, ...args: any[]) {
+    if (guarding()) {
+      for (const tx of transactions(args)) {
+        const bytes = serializeTransaction(tx);
+        // Shapes we can't serialize go through untouched rather than break the page
+        if (bytes && !(await review(bytes))) throw new Error(BLOCKED);
+      }
+    }
+    return original.apply(this, args);
+  };
+  try {
+    target[method] = Object.assign(guarded, { [GUARDED]: true });
+  } catch {} // frozen provider — nothing we can do
+}
+
+function serializeTransaction(tx: any): Uint8Array | null {
+  try {
+    if (tx instanceof Uint8Array) return tx;
+    if (typeof tx?.serialize !== "function") return null;
+    // VersionedTransaction takes no options; a legacy Transaction isn't signed yet
+    return "version" in tx ? tx.serialize() : tx.serialize({ requireAllSignatures: false, verifySignatures: false });
+  } catch {
+    return null;
+  }
+}
+
+const guarding = () => [...links].some((link) => link.guard);
+
+/** Ask every guarding link about one transaction; it may go to the wallet only if all of them allow it */
+async function review(transaction: Uint8Array): Promise<boolean> {
+  const encoded = btoa(String.fromCharCode(...transaction));
+  const verdicts = [...links].filter((link) => link.guard).map((link) => new Promise<boolean>((resolve) => {
+    const id = crypto.randomUUID();
+    reviews.set(id, {
+      link,
+      settle: (allow) => {
+        reviews.delete(id);
+        resolve(allow);
+      },
+    });
+    postTo(link.port, { session: link.session!, id, review: encoded } satisfies TxReviewRequest);
+  }));
+  return (await Promise.all(verdicts)).every(Boolean);
+}
+
+// Every action the agent takes, with its fallback error
+const FAILURES: Record<WalletAction, string> = {
+  detect: "Wallet detection failed",
+  connect: "Connection rejected",
+  sign: "Signing rejected",
+  disconnect: "Disconnect failed",
+  send: "Transaction rejected",
+  guard: "Transaction guard unavailable",
+};
+
+async function runWalletAction(link: BridgeLink, action: WalletAction, params: WalletParams): Promise<WalletBridgeResult> {
+  if (action === "guard") {
+    setGuard(link, params.guard === true);
+    return { success: true };
+  }
+  if (action === "send" && params.transaction?.kind === "evm") return sendEvmTransaction(params);
+
+  let wallets: PageWallet[];
+  try {
+    wallets = findWallets();
+  } catch (err: any) {
+    return { success: false, error: err?.message || FAILURES[action] };
+  }
+
+  if (action === "detect") {
+    return {
+      success: true,
+      wallets: wallets.map((x) => ({ id: x.id, name: x.name, icon: x.icon, publicKey: x.publicKey() })),
+      phantom: wallets.some((x) => x.id === "phantom"),
+    };
+  }
+
+  // The requested wallet, else the one holding `from`, else Phantom, else whatever is installed
+  const wallet = params.wallet
+    ? wallets.find((x) => x.id === params.wallet)
+    : wallets.find((x) => !!params.from && x.publicKey() === params.from)
+      ?? wallets.find((x) => x.id === "phantom") ?? wallets[0];
+  if (!wallet) {
+    return {
+      success: false,
+      error: params.wallet
+        ? `${params.wallet.replace(/^standard:/, "")} wallet not found on this page.`
+        : "No Solana wallet found. Install Phantom, Solflare, Backpack or Glow to sign in.",
+    };
+  }
+
+  try {
+    if (action === "connect") {
+      const publicKey = await wallet.connect();
+      return { success: true, wallet: wallet.id, publicKey, isConnected: true };
+    }
+    if (action === "sign") {
+      // Must be connected first
+      const publicKey = wallet.publicKey() ?? await wallet.connect();
+      const signature = await wallet.sign(new TextEncoder().encode(params.message ?? ""));
+      return { success: true, wallet: wallet.id, signature: base58encode(signature), publicKey };
+    }
+    if (action === "send") {
+      if (params.transaction?.kind !== "solana" || !wallet.signAndSend) {
+        return { success: false, wallet: wallet.id, error: `${wallet.name} can't send transactions from this page.` };
+      }
+      const publicKey = wallet.publicKey() ?? await wallet.connect();
+      if (publicKey !== params.from) {
+        return { success: false, wallet: wallet.id, error: `Switch ${wallet.name} to ${shortAddress(params.from)} and try again.` };
+      }
+      const serialized = Uint8Array.from(atob(params.transaction.serialized), (c) => c.charCodeAt(0));
+      const txid = await wallet.signAndSend(serialized);
+      return { success: true, wallet: wallet.id, publicKey, txid };
+    }
+    await wallet.disconnect();
+    return { success: true, wallet: wallet.id };
+  } catch (err: any) {
+    return { success: false, wallet: wallet.id, error: err?.message || FAILURES[action] };
+  }
+}
+
+async function sendEvmTransaction(params: WalletParams): Promise<WalletBridgeResult> {
+  const ethereum = (window as any).ethereum;
+  const tx = params.transaction;
+  if (tx?.kind !== "evm") return { success: false, error: FAILURES.send };
+  if (!ethereum?.request) return { success: false, error: "No EVM wallet found on this page." };
+
+  try {
+    const accounts: string[] = await ethereum.request({ method: "eth_requestAccounts" });
+    const from = accounts.find((a) => a.toLowerCase() === params.from?.toLowerCase());
+    if (!from) {
+      return { success: false, wallet: "ethereum", error: `Switch your wallet to ${shortAddress(params.from)} and try again.` };
+    }
+    await ethereum.request({ method: "wallet_switchEthereumChain", params: [{ chainId: `0x${tx.chainId.toString(16)}` }] });
+    const txid = await ethereum.request({ method: "eth_sendTransaction", params: [{ from, to: tx.to, data: tx.data }] });
+    return { success: true, wallet: "ethereum", publicKey: from, txid };
+  } catch (err: any) {
+    return { success: false, wallet: "ethereum", error: err?.message || FAILURES.send };
+  }
+}
+
+function shortAddress(address = ""): string {
+  return address.length > 12 ? `${address.slice(0, 4)}…${address.slice(-4)}` : address;
+}
+
+// Minimal base58 encoder (keeps this script dependency-free)
+function base58encode(bytes: Uint8Array): string {
+  const ALPHABET = "123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz";
+  const BASE = 58;
+  if (bytes.length === 0) return "";
+
+  // Count leading zeros
+  let zeros = 0;
+  for (let i = 0; i < bytes.length && bytes[i] === 0; i++) zeros++;
+
+  // Convert to base58
+  const size = Math.ceil(bytes.length * 138 / 100) + 1;
+  const b58 = new Uint8Array(size);
+  for (let i = zeros; i < bytes.length; i++) {
+    let carry = bytes[i];
+    for (let j = size - 1; j >= 0; j--) {
+      carry += 256 * b58[j];
+      b58[j] = carry % BASE;
+      carry = Math.floor(carry / BASE);
+    }
+  }
+
+  // Skip leading zeros in base58 result
+  let start = 0;
+  while (start < size && b58[start] === 0) start++;
+
+  let result = "1".repeat(zeros);
+  for (let i = start; i < size; i++) result += ALPHABET[b58[i]];
+  return result;
+}
@@ -0,0 +1,82 @@
+/**
+ * Wallet page protocol — shared by the wallet bridge (isolated world) and
+ * the wallet page agent (MAIN world, next to the wallets' providers).
+ *
+ * Handshake — the bridge opens the channel, the agent takes it:
+ * 1. The bridge creates a MessageChannel and dispatches one end in a "port"
+ *    MessageEvent on window. The event carries nothing else.
+ * 2. The agent is a classic script at document_start, so its capture-phase
+ *    "port" listener is registered before any page script's (and before the
+ *    bridge's async module loader runs). It sees every offer first and stops
+ *    it there: no page listener, capturing or not, ever gets the port.
+ * 3. Over the port, the bridge sends a WalletHello with a fresh per-session
+ *    nonce and the agent echoes it. The bridge relays nothing until then, and
+ *    every request / response afterwards is tagged with the nonce.
+ *
+ * A page can still offer the agent a port of its own. It gets a separate
+ * link: it can drive the page's wallets (which the page can do anyway) but
+ * can't read or answer the bridge's traffic, and with the transaction guard
+ * a transaction reaches the wallet only if every guarding link allows it.
+ * The agent also keeps its own copies of the DOM methods the handshake
+ * relies on, taken before a page script could patch the prototypes.
+ *
+ * The transaction guard runs the other way: the agent sends a
+ * TxReviewRequest and holds the wallet call until the bridge's verdict.
+ */
+
+import type { WalletBridgeResult, WalletTransaction } from "../types/messages";
+
+/**
+ * Handshake event names. The agent spells them out itself — it must stay
+ * import-free so the build ships it as one classic script, not a module
+ * loader — typed as `typeof WALLET_EVENTS` so the two can't drift.
+ */
+export const WALLET_EVENTS = {
+  port: "rmi-wallet:port",
+} as const;
+
+export type WalletAction = "detect" | "connect" | "sign" | "disconnect" | "send" | "guard";
+
+export interface WalletParams {
+  /** Provider id from "detect"; omitted = Phantom, else the first found */
+  wallet?: string;
+  message?: string;
+  nonce?: string;
+  /** "send": address that must sign, and what to send */
+  from?: string;
+  transaction?: WalletTransaction;
+  /** "guard": turn the transaction guard on / off */
+  guard?: boolean;
+}
+
+/** Bridge → agent, first on the port; the agent echoes it to finish the handshake */
+export interface WalletHello {
+  session: string;
+}
+
+export interface WalletRequest {
+  session: string;
+  id: string;
+  action: WalletAction;
+  params: WalletParams;
+}
+
+export interface WalletResponse {
+  session: string;
+  id: string;
+  result: WalletBridgeResult;
+}
+
+/** Agent → bridge: a transaction a page asked a wallet to sign */
+export interface TxReviewRequest {
+  session: string;
+  id: string;
+  /** Base64 wire-format transaction */
+  review: string;
+}
+
+export interface TxReviewVerdict {
+  session: string;
+  id: string;
+  allow: boolean;
+}
@@ -0,0 +1,193 @@
+/**
+ * Approvals — token delegates / allowances granted by the linked wallets.
+ *
+ * "Audit" fetches and scans them; approvals touching High or Critical
+ * tokens are flagged and listed first. "Revoke" has the owning wallet sign
+ * a revoke through the wallet bridge (needs a crypto tab open).
+ */
+
+import React, { useState, useEffect, useCallback } from "react";
+import { COLORS, riskColor, riskLabel } from "../utils/designTokens";
+import { CHAINS, type ChainId } from "../utils/chains";
+import { listWallets, type WalletInfo } from "../services/walletAuth";
+import { auditApprovals, revokeApproval, type ApprovalAudit, type ApprovalRow } from "../services/approvals";
+
+interface ApprovalsProps {
+  onBack: () => void;
+}
+
+const rowKey = (row: ApprovalRow) => `${row.owner}:${row.token_account || row.token}:${row.spender}`;
+const short = (address: string) => `${address.slice(0, 4)}…${address.slice(-4)}`;
+
+const Approvals: React.FC<ApprovalsProps> = ({ onBack }) => {
+  const [wallets, setWallets] = useState<WalletInfo[] | null>(null);
+  const [audit, setAudit] = useState<ApprovalAudit | null>(null);
+  const [auditing, setAuditing] = useState(false);
+  const [revoking, setRevoking] = useState<string | null>(null);
+  const [status, setStatus] = useState<{ key: string; error?: string; txid?: string } | null>(null);
+
+  const runAudit = useCallback(async (list: WalletInfo[]) => {
+    if (!list.length) return;
+    setAuditing(true);
+    try {
+      setAudit(await auditApprovals(list));
+    } finally {
+      setAuditing(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    listWallets().then((list) => {
+      setWallets(list);
+      runAudit(list);
+    });
+  }, [runAudit]);
+
+  const handleRevoke = async (row: ApprovalRow) => {
+    const key = rowKey(row);
+    setRevoking(key);
+    setStatus(null);
+    const result = await revokeApproval(row);
+    setRevoking(null);
+    if (result.success) {
+      setAudit((a) => a && { ...a, rows: a.rows.filter((r) => rowKey(r) !== key) });
+      setStatus({ key, txid: result.txid });
+    } else {
+      setStatus({ key, error: result.error || "Revoke failed" });
+    }
+  };
+
+  const labelOf = (address: string) => wallets?.find((w) => w.address === address)?.label || short(address);
+  const flaggedCount = audit?.rows.filter((r) => r.flagged).length ?? 0;
+
+  return (
+    <div style={{
+      width: "100%", maxWidth: 420, minHeight: "100%", boxSizing: "border-box" as const, maxHeight: 600, overflowY: "auto",
+      backgroundColor: COLORS.bg, color: COLORS.textPrimary, fontFamily: "system-ui", padding: 16,
+    }}>
+      <div style={{ display: "flex", alignItems: "center", gap: 8, marginBottom: 12 }}>
+        <button onClick={onBack} style={{ background: "none", border: "none", color: COLORS.textSecondary, cursor: "pointer", fontSize: 16, padding: 4 }}>←</button>
+        <span style={{ fontWeight: 700, fontSize: 16, flex: 1 }}>🔑 Approvals</span>
+        {!!wallets?.length && (
+          <button onClick={() => runAudit(wallets)} disabled={auditing} style={{
+            padding: "4px 10px", borderRadius: 6, fontSize: 10, fontWeight: 600,
+            backgroundColor: `${COLORS.purple}20`, border: `1px solid ${COLORS.purple}40`,
+            color: COLORS.purpleLight, cursor: auditing ? "wait" : "pointer",
+          }}>{auditing ? "Auditing..." : "↻ Audit"}</button>
+        )}
+      </div>
+
+      {status?.txid && (
+        <div style={{ fontSize: 10, color: COLORS.green, marginBottom: 8 }}>
+          ✓ Revoke sent · {short(status.txid)}
+        </div>
+      )}
+
+      {wallets?.length === 0 ? (
+        <EmptyState icon="🔑" text="Sign in and link a wallet in Settings to audit its token approvals." />
+      ) : !audit ? (
+        wallets && <EmptyState icon="🔍" text="Checking your wallets for open approvals..." />
+      ) : (
+        <>
+          {audit.failedWallets.length > 0 && (
+            <div style={{ fontSize: 10, color: COLORS.orange, marginBottom: 8 }}>
+              ⚠ Couldn't load approvals for {audit.failedWallets.map(labelOf).join(", ")}
+            </div>
+          )}
+          {audit.rows.length === 0 ? (
+            <EmptyState icon="✅" text="No open token approvals in your linked wallets." />
+          ) : (
+            <>
+              <div style={{ fontSize: 11, color: flaggedCount ? COLORS.red : COLORS.textSecondary, marginBottom: 8 }}>
+                {flaggedCount
+                  ? `${flaggedCount} of ${audit.rows.length} approvals touch High or Critical risk tokens`
+                  : `${audit.rows.length} open approvals, none flagged`}
+              </div>
+              {audit.rows.map((row) => {
+                const key = rowKey(row);
+                return (
+                  <ApprovalItem
+                    key={key}
+                    row={row}
+                    walletLabel={labelOf(row.owner)}
+                    revoking={revoking === key}
+                    error={status?.key === key ? status.error : undefined}
+                    onRevoke={() => handleRevoke(row)}
+                  />
+                );
+              })}
+            </>
+          )}
+          <div style={{ fontSize: 9, color: COLORS.textMuted, marginTop: 8, textAlign: "center" }}>
+            Audited {new Date(audit.scannedAt).toLocaleString()}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+const EmptyState: React.FC<{ icon: string; text: string }> = ({ icon, text }) => (
+  <div style={{
+    padding: 20, textAlign: "center", borderRadius: 10,
+    backgroundColor: COLORS.bgCard, border: `1px solid ${COLORS.border}`,
+  }}>
+    <div style={{ fontSize: 28, marginBottom: 8 }}>{icon}</div>
+    <div style={{ fontSize: 12, color: COLORS.textSecondary }}>{text}</div>
+  </div>
+);
+
+const ApprovalItem: React.FC<{
+  row: ApprovalRow;
+  walletLabel: string;
+  revoking: boolean;
+  error?: string;
+  onRevoke: () => void;
+}> = ({ row, walletLabel, revoking, error, onRevoke }) => {
+  const color = riskColor(row.risk_score);
+  const spenderColor = riskColor(row.spender_risk);
+  const amount = row.amount == null
+    ? "Unlimited"
+    : row.amount.toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+  return (
+    <div style={{
+      padding: 10, borderRadius: 8, marginBottom: 6,
+      backgroundColor: COLORS.bgCard, border: `1px solid ${row.flagged ? `${COLORS.red}60` : COLORS.border}`,
+    }}>
+      <div style={{ display: "flex", alignItems: "center", gap: 8 }}>
+        <div style={{ flex: 1, minWidth: 0 }}>
+          <div style={{ fontSize: 13, fontWeight: 700 }}>
+            ${row.symbol || short(row.token)}
+            <span style={{ fontSize: 9, fontWeight: 400, color: COLORS.textMuted, marginLeft: 6 }}>
+              {CHAINS[row.chain as ChainId]?.label || row.chain}
+            </span>
+          </div>
+          <div style={{
+            fontSize: 9, color: COLORS.textMuted,
+            overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap",
+          }}>
+            {amount} → {row.spender_label || short(row.spender)} · {walletLabel}
+          </div>
+        </div>
+        <div style={{ textAlign: "right", minWidth: 52 }}>
+          <div style={{ fontSize: 16, fontWeight: 800, color }}>{row.risk_score ?? "—"}</div>
+          <div style={{ fontSize: 9, color }}>{riskLabel(row.risk_score)}</div>
+        </div>
+        <button onClick={onRevoke} disabled={revoking} style={{
+          padding: "4px 10px", borderRadius: 6, fontSize: 10, fontWeight: 600,
+          backgroundColor: `${COLORS.red}20`, border: `1px solid ${COLORS.red}40`,
+          color: COLORS.red, cursor: revoking ? "wait" : "pointer",
+        }}>{revoking ? "Confirm in wallet..." : "Revoke"}</button>
+      </div>
+      {row.spender_risk != null && (
+        <div style={{ fontSize: 9, color: spenderColor, marginTop: 4 }}>
+          Spender tied to a {riskLabel(row.spender_risk)} risk token ({row.spender_risk}/100)
+        </div>
+      )}
+      {error && <div style={{ fontSize: 9, color: COLORS.orange, marginTop: 4 }}>⚠ {error}</div>}
+    </div>
+  );
+};
+
+export default Approvals;
@@ -0,0 +1,167 @@
+/**
+ * History — every scan the user has looked at, searchable and exportable.
+ *
+ * Shared by the popup and the side panel.
+ */
+
+import React, { useState, useEffect, useMemo, useCallback } from "react";
+import { COLORS, riskColor, riskLabel } from "../utils/designTokens";
+import {
+  getHistory, clearHistory, filterHistory, historyToCsv, historyToJson,
+  type HistoryEntry, type RiskBand,
+} from "../services/scanHistory";
+
+interface HistoryProps {
+  onBack: () => void;
+  onSelect: (mint: string, chain: string) => void;
+}
+
+const BANDS: RiskBand[] = ["Low", "Moderate", "High", "Critical"];
+const BAND_SCORES: Record<RiskBand, number | null> = {
+  Low: 0, Moderate: 25, High: 50, Critical: 75, Unknown: null,
+};
+const PAGE_SIZE = 100;
+
+const History: React.FC<HistoryProps> = ({ onBack, onSelect }) => {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [search, setSearch] = useState("");
+  const [bands, setBands] = useState<RiskBand[]>([]);
+  const [limit, setLimit] = useState(PAGE_SIZE);
+
+  useEffect(() => {
+    getHistory().then(setEntries);
+  }, []);
+
+  const filtered = useMemo(() => filterHistory(entries, { search, bands }), [entries, search, bands]);
+
+  const toggleBand = useCallback((band: RiskBand) => {
+    setBands((prev) => prev.includes(band) ? prev.filter((b) => b !== band) : [...prev, band]);
+  }, []);
+
+  const handleClear = useCallback(async () => {
+    if (!confirm("Delete all scan history?")) return;
+    await clearHistory();
+    setEntries([]);
+  }, []);
+
+  return (
+    <div style={{
+      width: "100%", maxWidth: 420, minHeight: "100%", boxSizing: "border-box" as const, maxHeight: 600, overflowY: "auto",
+      backgroundColor: COLORS.bg, color: COLORS.textPrimary, fontFamily: "system-ui", padding: 16,
+    }}>
+      <div style={{ display: "flex", alignItems: "center", gap: 8, marginBottom: 12 }}>
+        <button onClick={onBack} style={{ background: "none", border: "none", color: COLORS.textSecondary, cursor: "pointer", fontSize: 16, padding: 4 }}>←</button>
+        <span style={{ fontWeight: 700, fontSize: 16, flex: 1 }}>📜 Scan History</span>
+        <span style={{ fontSize: 10, color: COLORS.textMuted }}>{entries.length} scans</span>
+      </div>
+
+      {/* Search + filters */}
+      <input
+        type="text"
+        placeholder="Search symbol, name or address..."
+        value={search}
+        onChange={(e) => { setSearch(e.target.value); setLimit(PAGE_SIZE); }}
+        style={{
+          width: "100%", boxSizing: "border-box", padding: "8px 10px", marginBottom: 6,
+          backgroundColor: COLORS.bgCard, border: `1px solid ${COLORS.border}`, borderRadius: 8,
+          outline: "none", color: COLORS.textPrimary, fontSize: 12,
+        }}
+      />
+      <div style={{ display: "flex", gap: 4, marginBottom: 10 }}>
+        {BANDS.map((band) => {
+          const active = bands.includes(band);
+          const color = riskColor(BAND_SCORES[band]);
+          return (
+            <button key={band} onClick={() => toggleBand(band)} style={{
+              flex: 1, padding: "4px 0", borderRadius: 6, fontSize: 10, fontWeight: 600, cursor: "pointer",
+              backgroundColor: active ? `${color}20` : "transparent",
+              border: `1px solid ${active ? color : COLORS.border}`,
+              color: active ? color : COLORS.textMuted,
+            }}>{band}</button>
+          );
+        })}
+      </div>
+
+      {/* Export */}
+      <div style={{ display: "flex", gap: 4, marginBottom: 10 }}>
+        <ExportButton label="⬇ CSV" disabled={filtered.length === 0}
+          onClick={() => download(historyToCsv(filtered), "text/csv", "csv")} />
+        <ExportButton label="⬇ JSON" disabled={filtered.length === 0}
+          onClick={() => download(historyToJson(filtered), "application/json", "json")} />
+        <ExportButton label="🗑 Clear" disabled={entries.length === 0} onClick={handleClear} />
+      </div>
+
+      {filtered.length === 0 ? (
+        <div style={{
+          padding: 20, textAlign: "center", borderRadius: 10, fontSize: 12,
+          backgroundColor: COLORS.bgCard, border: `1px solid ${COLORS.border}`, color: COLORS.textSecondary,
+        }}>
+          {entries.length === 0 ? "No scans yet." : "No scans match these filters."}
+        </div>
+      ) : (
+        <>
+          {filtered.slice(0, limit).map((e) => (
+            <HistoryRow key={e.id ?? `${e.mint}-${e.timestamp}`} entry={e} onSelect={onSelect} />
+          ))}
+          {filtered.length > limit && (
+            <button onClick={() => setLimit((l) => l + PAGE_SIZE)} style={{
+              width: "100%", padding: "6px 0", borderRadius: 6, marginTop: 4,
+              backgroundColor: "transparent", border: `1px dashed ${COLORS.border}`,
+              color: COLORS.textSecondary, fontSize: 11, cursor: "pointer",
+            }}>Show more ({filtered.length - limit})</button>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+const HistoryRow: React.FC<{ entry: HistoryEntry; onSelect: (mint: string, chain: string) => void }> = ({ entry, onSelect }) => {
+  const color = riskColor(entry.risk_score);
+  return (
+    <div onClick={() => onSelect(entry.mint, entry.chain)} style={{
+      display: "flex", alignItems: "center", gap: 8, cursor: "pointer",
+      padding: "8px 10px", borderRadius: 8, marginBottom: 4,
+      backgroundColor: COLORS.bgCard, border: `1px solid ${color}25`,
+    }}>
+      <div style={{ flex: 1, minWidth: 0 }}>
+        <div style={{ fontSize: 12, fontWeight: 700 }}>
+          ${entry.symbol || "?"}
+          <span style={{ fontSize: 9, fontWeight: 400, color: COLORS.textMuted, marginLeft: 6 }}>{entry.source}</span>
+        </div>
+        <div style={{
+          fontSize: 9, fontFamily: "monospace", color: COLORS.textMuted,
+          overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap",
+        }}>{entry.mint}</div>
+      </div>
+      <div style={{ textAlign: "right", flexShrink: 0 }}>
+        <div style={{ fontSize: 14, fontWeight: 800, color }}>{entry.risk_score ?? "—"}</div>
+        <div style={{ fontSize: 9, color: COLORS.textMuted }}>
+          {riskLabel(entry.risk_score)} · {new Date(entry.timestamp).toLocaleString([], {
+            month: "short", day: "numeric", hour: "2-digit", minute: "2-digit",
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const ExportButton: React.FC<{ label: string; disabled: boolean; onClick: () => void }> = ({ label, disabled, onClick }) => (
+  <button onClick={onClick} disabled={disabled} style={{
+    flex: 1, padding: "5px 0", borderRadius: 6, fontSize: 10, fontWeight: 600,
+    backgroundColor: "transparent", border: `1px solid ${COLORS.border}`,
+    color: disabled ? COLORS.textMuted : COLORS.textSecondary,
+    cursor: disabled ? "default" : "pointer",
+  }}>{label}</button>
+);
+
+function download(content: string, mime: string, ext: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: mime }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = `rugmunch-history-${new Date().toISOString().slice(0, 10)}.${ext}`;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+export default History;
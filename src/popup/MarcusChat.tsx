@@ -9,10 +9,14 @@
 
 import React, { useState, useRef, useEffect, useCallback } from "react";
 import { COLORS } from "../utils/designTokens";
-import { getApiBase } from "../utils/config";
+import { apiRequest, ApiError } from "../services/http";
 import { scanToken, type ScanResult } from "../services/api";
 import { riskEmoji } from "../utils/designTokens";
 import { extractMintFromUrl } from "../utils/shadowInject";
+import { extractChainFromUrl } from "../utils/tokenExtractor";
+import { resolveChain } from "../utils/chains";
+import { sendTabMessage } from "../utils/messaging";
+import { runCatalogAction, type CatalogAction } from "../ui-catalog/actions";
 
 interface Message {
   role: "user" | "marcus" | "system";
@@ -108,20 +112,22 @@ async function detectTokenFromActiveTab(): Promise<{ mint: string; chain: string
           // Fallback to URL extraction
           if (tab?.url) {
             const mint = extractMintFromUrl(tab.url);
-            if (mint) return resolve({ mint, chain: "solana" });
+            if (mint) return resolve({ mint, chain: extractChainFromUrl(tab.url) });
           }
           return resolve(null);
         }
 
         // Ask content script for the real token (handles DexScreener pair→mint)
-        chrome.tabs.sendMessage(tab.id, { type: "GET_PAGE_TOKEN" }, (response) => {
-          if (chrome.runtime.lastError || !response?.mint) {
+        sendTabMessage(tab.id, { type: "GET_PAGE_TOKEN" })
+          .then((response) => {
+            if (!response?.mint) throw new Error("No token on page");
+            resolve({ mint: response.mint, chain: response.chain || extractChainFromUrl(tab.url!) });
+          })
+          .catch(() => {
             // Content script didn't respond — try URL extraction
             const mint = extractMintFromUrl(tab.url!);
-            return resolve(mint ? { mint, chain: "solana" } : null);
-          }
-          resolve({ mint: response.mint, chain: response.chain || "solana" });
-        });
+            resolve(mint ? { mint, chain: extractChainFromUrl(tab.url!) } : null);
+          });
       });
     } catch {
       resolve(null);
@@ -135,6 +141,7 @@ async function detectTokenFromActiveTab(): Promise<{ mint: string; chain: string
 /** ScoreCard rendered inline in chat bubble */
 const InlineScanCard: React.FC<{ data: ScanResult }> = ({ data }) => {
   const score = data.risk_score ?? 0;
+  const run = (action: CatalogAction) => runCatalogAction(action, undefined, { surface: "popup", getData: () => data });
   const color = score >= 75 ? COLORS.red : score >= 50 ? COLORS.orange : score >= 25 ? COLORS.gold : COLORS.green;
 
   return (
@@ -178,18 +185,15 @@ const InlineScanCard: React.FC<{ data: ScanResult }> = ({ data }) => {
 
       {/* Actions */}
       <div style={{ display: "flex", gap: 4, marginTop: 6, paddingTop: 6, borderTop: `1px solid ${COLORS.border}` }}>
-        <button onClick={() => navigator.clipboard.writeText(data.token_address)}
+        <button onClick={() => run("copy_address")}
           style={{ flex: 1, padding: "4px 0", borderRadius: 4, border: `1px solid ${COLORS.border}`, backgroundColor: "transparent", color: COLORS.textSecondary, fontSize: 9, cursor: "pointer" }}>
           📋 Copy CA
         </button>
-        <button onClick={() => window.open(`https://solscan.io/token/${data.token_address}`, "_blank")}
+        <button onClick={() => run("open_explorer")}
           style={{ flex: 1, padding: "4px 0", borderRadius: 4, border: `1px solid ${COLORS.border}`, backgroundColor: "transparent", color: COLORS.textSecondary, fontSize: 9, cursor: "pointer" }}>
           🔍 Explorer
         </button>
-        <button onClick={() => {
-          const text = `${riskEmoji(score)} $${data.token_symbol || "?"} Risk: ${score}/100\nScanned by Rug Munch Intelligence 🗿`;
-          navigator.clipboard.writeText(text);
-        }}
+        <button onClick={() => run("share_result")}
           style={{ flex: 1, padding: "4px 0", borderRadius: 4, border: `1px solid ${COLORS.border}`, backgroundColor: "transparent", color: COLORS.textSecondary, fontSize: 9, cursor: "pointer" }}>
           📤 Share
         </button>
@@ -197,7 +201,7 @@ const InlineScanCard: React.FC<{ data: ScanResult }> = ({ data }) => {
 
       {/* Full address */}
       <div style={{ marginTop: 4, fontSize: 8, fontFamily: "monospace", color: COLORS.textMuted, wordBreak: "break-all" as const, cursor: "pointer" }}
-        onClick={() => navigator.clipboard.writeText(data.token_address)}>
+        onClick={() => run("copy_address")}>
         {data.token_address}
       </div>
     </div>
@@ -211,6 +215,7 @@ const MarcusChat: React.FC<MarcusChatProps> = ({ onBack, initialScan, initialMin
   const [tier, setTier] = useState("free");
   const [authToken, setAuthToken] = useState<string | null>(null);
   const [detectedMint, setDetectedMint] = useState<string | null>(null);
+  const [detectedChain, setDetectedChain] = useState<string | null>(null);
   const [lastScan, setLastScan] = useState<ScanResult | null>(null);
   const [msgCount, setMsgCount] = useState(0);
   const [loaded, setLoaded] = useState(false);
@@ -272,6 +277,7 @@ const MarcusChat: React.FC<MarcusChatProps> = ({ onBack, initialScan, initialMin
       detectTokenFromActiveTab().then((result) => {
         if (result?.mint) {
           setDetectedMint(result.mint);
+          setDetectedChain(result.chain);
           setMessages(prev => [...prev, {
             role: "system" as const,
             text: `📍 Detected CA from tab: ${result.mint}`,
@@ -309,6 +315,7 @@ const MarcusChat: React.FC<MarcusChatProps> = ({ onBack, initialScan, initialMin
         const mint = extractMintFromUrl(info.url);
         if (mint && mint !== detectedMint) {
           setDetectedMint(mint);
+          setDetectedChain(extractChainFromUrl(info.url));
           addMessage({ role: "system", text: `📍 New CA detected: ${mint}` });
         }
       }
@@ -332,7 +339,7 @@ const MarcusChat: React.FC<MarcusChatProps> = ({ onBack, initialScan, initialMin
 
       if (ca) {
         addMessage({ role: "system", text: `⏳ Scanning ${ca}` });
-        const resp = await scanToken(ca);
+        const resp = await scanToken(ca, resolveChain(ca, ca === detectedMint ? detectedChain : null));
         const result = resp?.data || null;
         if (result && result.risk_score != null) {
           setLastScan(result);
@@ -353,7 +360,6 @@ const MarcusChat: React.FC<MarcusChatProps> = ({ onBack, initialScan, initialMin
           });
         } else {
           try {
-            const base = await getApiBase();
             const context: Record<string, unknown> = { source: "popup-marcus" };
             if (detectedMint) context.mint = detectedMint;
             if (lastScan) context.scan = lastScan;
@@ -363,31 +369,26 @@ const MarcusChat: React.FC<MarcusChatProps> = ({ onBack, initialScan, initialMin
               .slice(-10)
               .map(m => ({ role: m.role === "user" ? "user" : "marcus", content: m.text }));
 
-            const resp = await fetch(`${base}/ext/chat`, {
+            const data = await apiRequest("/ext/chat", {
               method: "POST",
-              headers: {
-                "Content-Type": "application/json",
-                "Authorization": `Bearer ${authToken}`,
-              },
-              body: JSON.stringify({
+              body: {
                 message: text,
                 context: Object.keys(context).length > 0 ? context : undefined,
                 history: apiHistory.length > 0 ? apiHistory : undefined,
-              }),
+              },
             });
-
-            if (resp.status === 403) {
+            addMessage({ role: "marcus", text: data.response || "No response from Marcus." });
+          } catch (e) {
+            const kind = e instanceof ApiError ? e.kind : "network";
+            if (kind === "tier_locked" || kind === "auth_expired") {
               addMessage({ role: "marcus", text: "🔒 Chat requires a linked account. Link Telegram via Settings. 🗿" });
-            } else if (resp.status === 429) {
+            } else if (kind === "rate_limited") {
               addMessage({ role: "marcus", text: "⏳ Daily limit reached. Come back tomorrow. 🗿" });
-            } else if (resp.ok) {
-              const data = await resp.json();
-              addMessage({ role: "marcus", text: data.response || "No response from Marcus." });
+            } else if (kind === "network") {
+              addMessage({ role: "marcus", text: "*stares stoically* Connection failed. Check your network and try again." });
             } else {
               addMessage({ role: "marcus", text: "*stares stoically* Something went wrong. Try again, citizen." });
             }
-          } catch {
-            addMessage({ role: "marcus", text: "*stares stoically* Connection failed. Check your network and try again." });
           }
         }
       }
@@ -397,7 +398,7 @@ const MarcusChat: React.FC<MarcusChatProps> = ({ onBack, initialScan, initialMin
       setLoading(false);
       inputRef.current?.focus();
     }
-  }, [input, loading, authToken, lastScan, detectedMint, messages, addMessage]);
+  }, [input, loading, authToken, lastScan, detectedMint, detectedChain, messages, addMessage]);
 
   if (!loaded) return null;
 
@@ -8,6 +8,9 @@
  * - Account tier display
  * - Link to Telegram
  * - Recent scans
+ * - Watchlist
+ * - Portfolio risk and token approvals for linked wallets
+ * - Scan history
  */
 
 import React, { useState, useEffect, useCallback } from "react";
@@ -18,21 +21,37 @@ import Reputation from "./Reputation";
 import Social from "./Social";
 import Onboarding from "./Onboarding";
 import MarcusChat from "./MarcusChat";
-import { scanToken, type ScanResult, type ExtScanResponse } from "../services/api";
+import Watchlist from "./Watchlist";
+import Portfolio from "./Portfolio";
+import Approvals from "./Approvals";
+import History from "./History";
+import { scanToken, onScanUpdated, type ScanResult, type ExtScanResponse } from "../services/api";
+import { apiRequest, getQuota, QUOTA_KEY, type QuotaInfo, type ApiErrorInfo } from "../services/http";
 import { trackScan } from "../services/analytics";
+import { removeFromWatchlist, isWatched } from "../services/watchlist";
+import { runCatalogAction, type CatalogAction } from "../ui-catalog/actions";
 import { riskColor, riskLabel, riskEmoji, COLORS } from "../utils/designTokens";
 import RiskBreakdownView from "../components/RiskBreakdown";
+import ScanDiffView from "../components/ScanDiff";
+import type { ScanDiff } from "../utils/scanDiff";
 import { extractMintFromUrl } from "../utils/shadowInject";
+import { extractChainFromUrl } from "../utils/tokenExtractor";
+import { CHAINS, EVM_CHAINS, isEvmAddress, isTokenAddress, resolveChain } from "../utils/chains";
+import { sendTabMessage } from "../utils/messaging";
 import { useAutoLink } from "../hooks/useAutoLink";
 
 const Popup: React.FC = () => {
-  const [view, setView] = useState<"main" | "settings" | "onboarding" | "upgrade" | "referral" | "reputation" | "social" | "marcus">("main");
+  const [view, setView] = useState<"main" | "settings" | "onboarding" | "upgrade" | "referral" | "reputation" | "social" | "marcus" | "watchlist" | "portfolio" | "approvals" | "history">("main");
   const [, setHasOnboarded] = useState(true);
   const [input, setInput] = useState("");
+  const [chainHint, setChainHint] = useState("solana");
   const [scanning, setScanning] = useState(false);
   const [result, setResult] = useState<ScanResult | null>(null);
+  const [diff, setDiff] = useState<ScanDiff | null>(null);
   const [notScanned, setNotScanned] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [apiError, setApiError] = useState<ApiErrorInfo | null>(null);
+  const [quota, setQuota] = useState<QuotaInfo | null>(null);
   const [tier, setTier] = useState("free");
   const [scanCount, setScanCount] = useState(0);
   const [linked, setLinked] = useState(false);
@@ -60,27 +79,21 @@ const Popup: React.FC = () => {
 
       // Fetch real usage from server
       if (data.auth_token) {
-        import("../utils/config").then(({ getApiBase }) => {
-          getApiBase().then(base => {
-            fetch(`${base}/ext/tier`, {
-              headers: { "Authorization": `Bearer ${data.auth_token}` }
-            })
-            .then(r => r.ok ? r.json() : null)
-            .then(info => {
-              if (info) {
-                if (info.tier) setTier(info.tier);
-                if (info.scans_today != null) setScansToday(info.scans_today);
-                if (info.scans_remaining != null) setScansRemaining(info.scans_remaining);
-              }
-            })
-            .catch(() => {});
-          });
-        });
+        apiRequest("/ext/tier")
+          .then(info => {
+            if (info.tier) setTier(info.tier);
+            if (info.scans_today != null) setScansToday(info.scans_today);
+            if (info.scans_remaining != null) setScansRemaining(info.scans_remaining);
+          })
+          .catch(() => {});
       }
     });
 
+    getQuota().then(setQuota);
+
     // Listen for storage changes (e.g., tier updated after linking)
     const listener = (changes: { [key: string]: chrome.storage.StorageChange }) => {
+      if (changes[QUOTA_KEY]) setQuota(changes[QUOTA_KEY].newValue || null);
       if (changes.tier) setTier(changes.tier.newValue || "free");
       if (changes.linked_telegram) setLinked(!!changes.linked_telegram.newValue);
       if (changes.scan_count) setScanCount(changes.scan_count.newValue || 0);
@@ -110,15 +123,17 @@ const Popup: React.FC = () => {
         if (!activeTabMint) {
           setActiveTabMint(dt.mint);
           setInput(dt.mint);
+          setChainHint(dt.chain || "solana");
         }
       }
     });
 
     // Check for pending scan from context menu
-    chrome.storage.local.get("pending_scan", (data) => {
+    chrome.storage.local.get(["pending_scan", "pending_scan_chain"], (data) => {
       if (data.pending_scan) {
         setInput(data.pending_scan);
-        chrome.storage.local.remove("pending_scan");
+        setChainHint(data.pending_scan_chain || "solana");
+        chrome.storage.local.remove(["pending_scan", "pending_scan_chain"]);
         setTimeout(() => {
           const scanBtn = document.querySelector("[data-scan-btn]") as HTMLButtonElement;
           scanBtn?.click();
@@ -133,25 +148,29 @@ const Popup: React.FC = () => {
       
       // Try content script first (reliable for DexScreener and other SPAs)
       if (tab.id) {
-        chrome.tabs.sendMessage(tab.id, { type: "GET_PAGE_TOKEN" }, (resp) => {
-          if (chrome.runtime.lastError || !resp?.mint) {
+        sendTabMessage(tab.id, { type: "GET_PAGE_TOKEN" })
+          .then((resp) => {
+            if (!resp?.mint) throw new Error("No token on page");
+            // Content script found the real token
+            setActiveTabMint(resp.mint);
+            setInput(resp.mint);
+            setChainHint(resp.chain || "solana");
+          })
+          .catch(() => {
             // Content script not available or no token — fall back to URL
             const mint = extractMintFromUrl(tab.url!);
             if (mint) {
               setActiveTabMint(mint);
               setInput(mint);
+              setChainHint(extractChainFromUrl(tab.url!));
             }
-            return;
-          }
-          // Content script found the real token
-          setActiveTabMint(resp.mint);
-          setInput(resp.mint);
-        });
+          });
       } else {
         const mint = extractMintFromUrl(tab.url);
         if (mint) {
           setActiveTabMint(mint);
           setInput(mint);
+          setChainHint(extractChainFromUrl(tab.url));
         }
       }
     });
@@ -159,32 +178,45 @@ const Popup: React.FC = () => {
 
   const handleScan = useCallback(async () => {
     const mint = input.trim();
-    if (!mint || mint.length < 32) {
-      setError("Enter a valid Solana contract address");
+    if (!mint || !isTokenAddress(mint)) {
+      setError("Enter a valid Solana or EVM (0x…) contract address");
       return;
     }
+    const chain = resolveChain(mint, chainHint);
 
     setScanning(true);
     setError(null);
+    setApiError(null);
     setResult(null);
+    setDiff(null);
     setNotScanned(false);
 
-    const resp: ExtScanResponse = await scanToken(mint);
+    const resp: ExtScanResponse = await scanToken(mint, chain);
     if (resp.success && resp.data) {
       // Check if the API returned real data vs "not_scanned" placeholder
       if ((resp.data as any).not_scanned && resp.data.risk_score == null) {
         setNotScanned(true);
       } else {
         setResult(resp.data);
+        setDiff(resp.diff ?? null);
         trackScan(mint, "popup");
       }
       setScanCount((c) => c + 1);
       chrome.storage.local.set({ scan_count: scanCount + 1 });
     } else {
       setError(resp.error || "Scan failed");
+      setApiError(resp.apiError ?? null);
     }
     setScanning(false);
-  }, [input, scanCount]);
+  }, [input, chainHint, scanCount]);
+
+  // A stale cached result was refreshed in the background
+  const shownToken = result?.token_address;
+  useEffect(() => onScanUpdated((_key, resp) => {
+    if (!resp.data || resp.data.token_address !== shownToken) return;
+    setResult(resp.data);
+    setDiff(resp.diff ?? null);
+  }), [shownToken]);
 
   const tierLabel = {
     free: "Free (3/day)",
@@ -226,6 +258,33 @@ const Popup: React.FC = () => {
     return <MarcusChat onBack={() => setView("main")} initialScan={result} initialMint={activeTabMint} />;
   }
 
+  // Jump back to the main view and scan a token picked from a list view
+  const scanFromList = (mint: string, chain: string) => {
+    setInput(mint);
+    setChainHint(chain);
+    setView("main");
+    setTimeout(() => {
+      const scanBtn = document.querySelector("[data-scan-btn]") as HTMLButtonElement;
+      scanBtn?.click();
+    }, 100);
+  };
+
+  if (view === "watchlist") {
+    return <Watchlist onBack={() => setView("main")} onScan={scanFromList} />;
+  }
+
+  if (view === "portfolio") {
+    return <Portfolio onBack={() => setView("main")} onScan={scanFromList} onApprovals={() => setView("approvals")} />;
+  }
+
+  if (view === "approvals") {
+    return <Approvals onBack={() => setView("portfolio")} />;
+  }
+
+  if (view === "history") {
+    return <History onBack={() => setView("main")} onSelect={scanFromList} />;
+  }
+
   if (view === "upgrade") {
     return <Upgrade onBack={() => setView("main")} currentTier={tier} />;
   }
@@ -271,6 +330,30 @@ const Popup: React.FC = () => {
             }}
             title="Marcus AI"
           >🗿</button>
+          <button
+            onClick={() => setView("watchlist")}
+            style={{
+              background: "none", border: "none", color: COLORS.textSecondary,
+              cursor: "pointer", fontSize: 14, padding: 2,
+            }}
+            title="Watchlist"
+          >👁</button>
+          <button
+            onClick={() => setView("portfolio")}
+            style={{
+              background: "none", border: "none", color: COLORS.textSecondary,
+              cursor: "pointer", fontSize: 14, padding: 2,
+            }}
+            title="Portfolio"
+          >💼</button>
+          <button
+            onClick={() => setView("history")}
+            style={{
+              background: "none", border: "none", color: COLORS.textSecondary,
+              cursor: "pointer", fontSize: 14, padding: 2,
+            }}
+            title="Scan history"
+          >📜</button>
           <button
             onClick={() => setView("social")}
             style={{
@@ -318,7 +401,7 @@ const Popup: React.FC = () => {
         }}>
           <input
             type="text"
-            placeholder="Paste Solana contract address..."
+            placeholder="Paste contract address (Solana or 0x…)"
             value={input}
             onChange={(e) => setInput(e.target.value)}
             onKeyDown={(e) => e.key === "Enter" && handleScan()}
@@ -329,6 +412,19 @@ const Popup: React.FC = () => {
               fontFamily: "monospace",
             }}
           />
+          {isEvmAddress(input.trim()) && (
+            <select
+              value={resolveChain(input.trim(), chainHint)}
+              onChange={(e) => setChainHint(e.target.value)}
+              title="Chain"
+              style={{
+                backgroundColor: COLORS.bgCard, color: COLORS.textSecondary,
+                border: `1px solid ${COLORS.border}`, borderRadius: 6, fontSize: 10,
+              }}
+            >
+              {EVM_CHAINS.map((c) => <option key={c} value={c}>{CHAINS[c].label}</option>)}
+            </select>
+          )}
           <button
             data-scan-btn
             onClick={handleScan}
@@ -368,7 +464,9 @@ const Popup: React.FC = () => {
       )}
 
       {/* Error */}
-      {error && (
+      {error && apiError && apiError.kind !== "request" ? (
+        <ApiErrorNotice error={apiError} onUpgrade={() => setView("upgrade")} onSignIn={() => setView("settings")} />
+      ) : error && (
         <div style={{
           padding: 10, borderRadius: 8,
           backgroundColor: `${COLORS.red}15`, border: `1px solid ${COLORS.red}30`,
@@ -415,7 +513,7 @@ const Popup: React.FC = () => {
 
       {/* Scan Result */}
       {result && !scanning && (
-        <_ScanResultCard result={result} />
+        <_ScanResultCard result={result} diff={diff} />
       )}
 
       {/* Footer */}
@@ -451,17 +549,99 @@ const Popup: React.FC = () => {
           <span style={{ fontSize: 10, color: COLORS.green }}>✓ Telegram linked</span>
         )}
         <span style={{ fontSize: 10, color: COLORS.textMuted }}>
-          {scansToday != null
-            ? `${scansToday} scans today${scansRemaining != null ? ` · ${scansRemaining} left` : ""}`
-            : `${scanCount} scans today`}
+          {quota?.remaining != null
+            ? `${quota.remaining}${quota.limit != null ? `/${quota.limit}` : ""} scans left${quota.resetAt ? ` · resets ${formatReset(quota.resetAt)}` : ""}`
+            : scansToday != null
+              ? `${scansToday} scans today${scansRemaining != null ? ` · ${scansRemaining} left` : ""}`
+              : `${scanCount} scans today`}
         </span>
       </div>
     </div>
   );
 };
 
-const _ScanResultCard: React.FC<{ result: ScanResult }> = ({ result }) => {
+/** "in 3h 12m" / "in 4m" / "now" */
+function formatReset(resetAt: number): string {
+  const mins = Math.ceil((resetAt - Date.now()) / 60_000);
+  if (mins <= 0) return "now";
+  if (mins < 60) return `in ${mins}m`;
+  return `in ${Math.floor(mins / 60)}h ${mins % 60}m`;
+}
+
+const ApiErrorNotice: React.FC<{
+  error: ApiErrorInfo;
+  onUpgrade: () => void;
+  onSignIn: () => void;
+}> = ({ error, onUpgrade, onSignIn }) => {
+  const { title, detail, action } = {
+    rate_limited: {
+      title: "⏳ Scan limit reached",
+      detail: error.quota?.resetAt
+        ? `${error.quota.limit != null ? `All ${error.quota.limit} scans used. ` : ""}Resets ${formatReset(error.quota.resetAt)}.`
+        : error.message,
+      action: { label: "Upgrade for more scans", onClick: onUpgrade },
+    },
+    tier_locked: {
+      title: "🔒 Needs a higher tier",
+      detail: error.message,
+      action: { label: "See plans", onClick: onUpgrade },
+    },
+    auth_expired: {
+      title: "🔑 Session expired",
+      detail: "Sign in again to keep your tier and scan quota.",
+      action: { label: "Open settings", onClick: onSignIn },
+    },
+    network: {
+      title: "📡 Can't reach Rug Munch",
+      detail: "Check your connection and try again.",
+      action: null,
+    },
+    server: {
+      title: "🛠 Server error",
+      detail: "The scanner is having trouble — try again in a minute.",
+      action: null,
+    },
+    request: { title: "Scan failed", detail: error.message, action: null },
+  }[error.kind];
+
+  const color = error.kind === "network" || error.kind === "server" ? COLORS.red : COLORS.gold;
+  return (
+    <div style={{
+      padding: 10, borderRadius: 8, marginBottom: 12,
+      backgroundColor: `${color}15`, border: `1px solid ${color}30`,
+    }}>
+      <div style={{ fontSize: 12, fontWeight: 700, color }}>{title}</div>
+      <div style={{ fontSize: 11, color: COLORS.textSecondary, marginTop: 2 }}>{detail}</div>
+      {action && (
+        <button onClick={action.onClick} style={{
+          marginTop: 8, padding: "5px 10px", borderRadius: 6, fontSize: 11, fontWeight: 600,
+          backgroundColor: COLORS.purple, border: "none", color: "#fff", cursor: "pointer",
+        }}>{action.label}</button>
+      )}
+    </div>
+  );
+};
+
+const _ScanResultCard: React.FC<{ result: ScanResult; diff: ScanDiff | null }> = ({ result, diff }) => {
   const [showBreakdown, setShowBreakdown] = useState(false);
+  const [watched, setWatched] = useState(false);
+
+  useEffect(() => {
+    isWatched(result.token_address, result.chain).then(setWatched);
+  }, [result.token_address, result.chain]);
+
+  const runAction = useCallback((action: CatalogAction) =>
+    runCatalogAction(action, undefined, { surface: "popup", getData: () => result }), [result]);
+
+  const toggleWatch = useCallback(async () => {
+    if (watched) {
+      await removeFromWatchlist(result.token_address, result.chain);
+      setWatched(false);
+    } else {
+      await runAction("add_watchlist");
+      setWatched(await isWatched(result.token_address, result.chain));
+    }
+  }, [watched, result, runAction]);
   const score = result.risk_score;
   const color = riskColor(score);
   const label = riskLabel(score);
@@ -539,6 +719,9 @@ const _ScanResultCard: React.FC<{ result: ScanResult }> = ({ result }) => {
         </div>
       )}
 
+      {/* Changed since last scan */}
+      {diff && <ScanDiffView diff={diff} />}
+
       {/* Expand/collapse breakdown toggle */}
       {hasBreakdown && (
         <div style={{ marginTop: 10, paddingTop: 8, borderTop: `1px solid ${COLORS.border}` }}>
@@ -579,15 +762,12 @@ const _ScanResultCard: React.FC<{ result: ScanResult }> = ({ result }) => {
         </div>
       )}
 
-      {/* Share button */}
-      <div style={{ marginTop: 10, paddingTop: 8, borderTop: `1px solid ${COLORS.border}` }}>
+      {/* Share + watch buttons */}
+      <div style={{ marginTop: 10, paddingTop: 8, borderTop: `1px solid ${COLORS.border}`, display: "flex", gap: 6 }}>
         <button
-          onClick={() => {
-            const shareText = `${emoji} $${result.token_symbol || "?"} Risk: ${score ?? "?"}/100 (${label})\nPrice: ${result.price_usd ? `$${formatPrice(result.price_usd)}` : "—"} | Liq: ${formatUsd(result.liquidity_usd)}\nScanned by Rug Munch Intelligence 🗿 https://t.me/rug_munchy_bot`;
-            navigator.clipboard.writeText(shareText);
-          }}
+          onClick={() => runAction("share_result")}
           style={{
-            width: "100%", padding: "6px 0", borderRadius: 6,
+            flex: 1, padding: "6px 0", borderRadius: 6,
             border: `1px solid ${COLORS.border}`, backgroundColor: "transparent",
             color: COLORS.textSecondary, fontSize: 11, cursor: "pointer",
             display: "flex", alignItems: "center", justifyContent: "center", gap: 4,
@@ -595,6 +775,17 @@ const _ScanResultCard: React.FC<{ result: ScanResult }> = ({ result }) => {
         >
           📤 Share Scan Result
         </button>
+        <button
+          onClick={toggleWatch}
+          style={{
+            flex: 1, padding: "6px 0", borderRadius: 6,
+            border: `1px solid ${watched ? COLORS.cyan : COLORS.border}`,
+            backgroundColor: watched ? `${COLORS.cyan}15` : "transparent",
+            color: watched ? COLORS.cyan : COLORS.textSecondary, fontSize: 11, cursor: "pointer",
+          }}
+        >
+          {watched ? "👁 Watching" : "👁 Watch"}
+        </button>
       </div>
 
       {/* Full address */}
@@ -603,7 +794,7 @@ const _ScanResultCard: React.FC<{ result: ScanResult }> = ({ result }) => {
         fontSize: 9, fontFamily: "monospace", color: COLORS.textMuted,
         wordBreak: "break-all", cursor: "pointer",
       }}
-        onClick={() => navigator.clipboard.writeText(result.token_address)}
+        onClick={() => runAction("copy_address")}
         title="Click to copy"
       >
         {result.token_address}
@@ -0,0 +1,174 @@
+/**
+ * Portfolio — risk table for the SPL tokens in the user's linked wallets.
+ *
+ * Opens on the last report; "Scan now" re-fetches holdings and batch-scans
+ * them. Wallets with auto-sync on are also re-checked hourly by the
+ * background worker, which notifies when a held token turns Critical.
+ * The wallets' token approvals are audited on their own page (Approvals).
+ */
+
+import React, { useState, useEffect, useCallback } from "react";
+import { COLORS, RISK_COLORS, riskColor, riskLabel } from "../utils/designTokens";
+import { formatUsd } from "../ui-catalog/scanToSpec";
+import { listWallets, type WalletInfo } from "../services/walletAuth";
+import {
+  scanPortfolio, savePortfolio, getLastPortfolio,
+  type PortfolioReport, type PortfolioRow,
+} from "../services/portfolio";
+
+interface PortfolioProps {
+  onBack: () => void;
+  onScan: (mint: string, chain: string) => void;
+  onApprovals: () => void;
+}
+
+const Portfolio: React.FC<PortfolioProps> = ({ onBack, onScan, onApprovals }) => {
+  const [wallets, setWallets] = useState<WalletInfo[] | null>(null);
+  const [report, setReport] = useState<PortfolioReport | null>(null);
+  const [scanning, setScanning] = useState(false);
+
+  useEffect(() => {
+    listWallets().then(setWallets);
+    getLastPortfolio().then(setReport);
+  }, []);
+
+  const scan = useCallback(async () => {
+    if (!wallets?.length) return;
+    setScanning(true);
+    try {
+      const fresh = await scanPortfolio(wallets);
+      await savePortfolio(fresh);
+      setReport(fresh);
+    } finally {
+      setScanning(false);
+    }
+  }, [wallets]);
+
+  const labelOf = (address: string) =>
+    wallets?.find((w) => w.address === address)?.label || `${address.slice(0, 4)}…${address.slice(-4)}`;
+
+  return (
+    <div style={{
+      width: "100%", maxWidth: 420, minHeight: "100%", boxSizing: "border-box" as const, maxHeight: 600, overflowY: "auto",
+      backgroundColor: COLORS.bg, color: COLORS.textPrimary, fontFamily: "system-ui", padding: 16,
+    }}>
+      <div style={{ display: "flex", alignItems: "center", gap: 8, marginBottom: 12 }}>
+        <button onClick={onBack} style={{ background: "none", border: "none", color: COLORS.textSecondary, cursor: "pointer", fontSize: 16, padding: 4 }}>←</button>
+        <span style={{ fontWeight: 700, fontSize: 16, flex: 1 }}>💼 Portfolio</span>
+        {!!wallets?.length && (
+          <button onClick={onApprovals} title="Token approvals" style={{
+            padding: "4px 10px", borderRadius: 6, fontSize: 10, fontWeight: 600,
+            backgroundColor: COLORS.bgCard, border: `1px solid ${COLORS.border}`,
+            color: COLORS.textSecondary, cursor: "pointer",
+          }}>🔑 Approvals</button>
+        )}
+        {!!wallets?.length && (
+          <button onClick={scan} disabled={scanning} style={{
+            padding: "4px 10px", borderRadius: 6, fontSize: 10, fontWeight: 600,
+            backgroundColor: `${COLORS.purple}20`, border: `1px solid ${COLORS.purple}40`,
+            color: COLORS.purpleLight, cursor: scanning ? "wait" : "pointer",
+          }}>{scanning ? "Scanning..." : "↻ Scan now"}</button>
+        )}
+      </div>
+
+      {wallets?.length === 0 ? (
+        <EmptyState icon="💼" text="Sign in and link a wallet in Settings to see the risk of the tokens you hold." />
+      ) : !report ? (
+        wallets && <EmptyState icon="🔍" text={`Scan the tokens held by your ${wallets.length} linked wallet${wallets.length === 1 ? "" : "s"} for rug risk.`} />
+      ) : (
+        <>
+          <ExposureSummary report={report} />
+          {report.failedWallets.length > 0 && (
+            <div style={{ fontSize: 10, color: COLORS.orange, marginBottom: 8 }}>
+              ⚠ Couldn't load holdings for {report.failedWallets.map(labelOf).join(", ")}
+            </div>
+          )}
+          {report.scanFailed && (
+            <div style={{ fontSize: 10, color: COLORS.orange, marginBottom: 8 }}>
+              ⚠ Couldn't scan every token — some risk scores are missing
+            </div>
+          )}
+          {report.rows.length === 0 ? (
+            <EmptyState icon="🪙" text="No SPL tokens found in your linked wallets." />
+          ) : (
+            report.rows.map((row) => (
+              <HoldingRow key={row.mint} row={row} walletLabels={row.wallets.map(labelOf)} onScan={onScan} />
+            ))
+          )}
+          <div style={{ fontSize: 9, color: COLORS.textMuted, marginTop: 8, textAlign: "center" }}>
+            Last scanned {new Date(report.scannedAt).toLocaleString()}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+const EmptyState: React.FC<{ icon: string; text: string }> = ({ icon, text }) => (
+  <div style={{
+    padding: 20, textAlign: "center", borderRadius: 10,
+    backgroundColor: COLORS.bgCard, border: `1px solid ${COLORS.border}`,
+  }}>
+    <div style={{ fontSize: 28, marginBottom: 8 }}>{icon}</div>
+    <div style={{ fontSize: 12, color: COLORS.textSecondary }}>{text}</div>
+  </div>
+);
+
+/** Total value and how much of it sits in High / Critical tokens */
+const ExposureSummary: React.FC<{ report: PortfolioReport }> = ({ report }) => {
+  const { totalValue, high, critical } = report.exposure;
+  const share = (v: number) => (totalValue > 0 ? `${Math.round((v / totalValue) * 100)}% of total` : "");
+  const stat = (label: string, value: number, color: string, suffix = "") => (
+    <div style={{ flex: 1, textAlign: "center" }}>
+      <div style={{ fontSize: 9, color: COLORS.textMuted, textTransform: "uppercase" as const, letterSpacing: 0.5 }}>{label}</div>
+      <div style={{ fontSize: 14, fontWeight: 800, color }}>{value > 0 ? formatUsd(value) : "$0"}</div>
+      {suffix && <div style={{ fontSize: 9, color }}>{suffix}</div>}
+    </div>
+  );
+
+  return (
+    <div style={{
+      display: "flex", gap: 8, padding: 10, borderRadius: 10, marginBottom: 10,
+      backgroundColor: COLORS.bgCard, border: `1px solid ${critical > 0 ? `${COLORS.red}60` : COLORS.border}`,
+    }}>
+      {stat("Total", totalValue, COLORS.textPrimary, `${report.rows.length} tokens`)}
+      {stat("High", high, RISK_COLORS.high, share(high))}
+      {stat("Critical", critical, RISK_COLORS.critical, share(critical))}
+    </div>
+  );
+};
+
+const HoldingRow: React.FC<{
+  row: PortfolioRow;
+  walletLabels: string[];
+  onScan: (mint: string, chain: string) => void;
+}> = ({ row, walletLabels, onScan }) => {
+  const color = riskColor(row.risk_score);
+
+  return (
+    <div onClick={() => onScan(row.mint, row.chain)} style={{
+      padding: 10, borderRadius: 8, marginBottom: 6, cursor: "pointer",
+      backgroundColor: COLORS.bgCard, border: `1px solid ${color}30`,
+      display: "flex", alignItems: "center", gap: 8,
+    }}>
+      <div style={{ flex: 1, minWidth: 0 }}>
+        <div style={{ fontSize: 13, fontWeight: 700 }}>${row.symbol || "?"}</div>
+        <div style={{
+          fontSize: 9, color: COLORS.textMuted,
+          overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap",
+        }}>
+          {row.amount.toLocaleString(undefined, { maximumFractionDigits: 2 })} · {walletLabels.join(", ")}
+        </div>
+      </div>
+      <div style={{ textAlign: "right", minWidth: 56 }}>
+        <div style={{ fontSize: 12, fontWeight: 600 }}>{formatUsd(row.value_usd)}</div>
+      </div>
+      <div style={{ textAlign: "right", minWidth: 52 }}>
+        <div style={{ fontSize: 16, fontWeight: 800, color }}>{row.risk_score ?? "—"}</div>
+        <div style={{ fontSize: 9, color }}>{riskLabel(row.risk_score)}</div>
+      </div>
+    </div>
+  );
+};
+
+export default Portfolio;
@@ -4,7 +4,7 @@
 
 import React, { useState, useEffect, useCallback } from "react";
 import { COLORS } from "../utils/designTokens";
-import { getApiBase } from "../utils/config";
+import { apiRequest, ApiError } from "../services/http";
 
 interface ReferralProps {
   onBack: () => void;
@@ -50,37 +50,26 @@ const Referral: React.FC<ReferralProps> = ({ onBack }) => {
 
   const loadData = async () => {
     try {
-      const base = await getApiBase();
       const token = (await chrome.storage.local.get("auth_token")).auth_token;
       if (!token) return;
 
       // Get or create referral code
-      const codeResp = await fetch(`${base}/ext/referral/code`, {
-        method: "POST",
-        headers: { Authorization: `Bearer ${token}` },
-      });
-      if (codeResp.ok) {
-        const codeData = await codeResp.json();
+      const codeData = await apiRequest("/ext/referral/code", { method: "POST" }).catch(() => null);
+      if (codeData) {
         setCode(codeData.code);
         setShareUrl(codeData.extension_share_url);
       }
 
       // Get stats
-      const statsResp = await fetch(`${base}/ext/referral/stats`, {
-        headers: { Authorization: `Bearer ${token}` },
-      });
-      if (statsResp.ok) setData(await statsResp.json());
+      const stats = await apiRequest<ReferralData>("/ext/referral/stats").catch(() => null);
+      if (stats) setData(stats);
     } catch {}
   };
 
   const loadLeaderboard = async () => {
     try {
-      const base = await getApiBase();
-      const resp = await fetch(`${base}/ext/referral/leaderboard`);
-      if (resp.ok) {
-        const d = await resp.json();
-        setLeaders(d.leaderboard || []);
-      }
+      const d = await apiRequest("/ext/referral/leaderboard", { auth: false });
+      setLeaders(d.leaderboard || []);
     } catch {}
   };
 
@@ -105,27 +94,11 @@ const Referral: React.FC<ReferralProps> = ({ onBack }) => {
     setApplySuccess(null);
 
     try {
-      const base = await getApiBase();
-      const token = (await chrome.storage.local.get("auth_token")).auth_token;
-      const resp = await fetch(`${base}/ext/referral/apply`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${token}`,
-        },
-        body: JSON.stringify({ code: c }),
-      });
-
-      if (resp.ok) {
-        const d = await resp.json();
-        setApplySuccess(d.message);
-        setApplyCode("");
-      } else {
-        const err = await resp.json().catch(() => ({}));
-        setApplyError(err.detail || "Failed to apply code");
-      }
-    } catch {
-      setApplyError("Connection failed");
+      const d = await apiRequest("/ext/referral/apply", { method: "POST", body: { code: c } });
+      setApplySuccess(d.message);
+      setApplyCode("");
+    } catch (e) {
+      setApplyError(e instanceof ApiError && e.kind !== "network" ? e.message : "Connection failed");
     }
   }, [applyCode]);
 
@@ -14,14 +14,19 @@ import { COLORS } from "../utils/designTokens";
 import {
   getSettings, updateSettings, type ExtensionSettings,
   getAccount, updateAccount, type AccountState, DEFAULT_SETTINGS,
+  type ApiProfile, normalizeApiUrl, activeApiProfile, PRODUCTION_API_BASE, UNIVERSAL_ORIGINS,
 } from "../utils/config";
 import { connectViaDeeplink } from "../services/phantomDeeplink";
 import {
-  detectPhantom, authenticateWithPhantom, authenticateWithAddress,
-  listWallets, addWallet, removeWallet,
+  detectWallets, authenticateWithWallet, authenticateWithAddress,
+  listWallets, addWallet, removeWallet, updateWallet,
   type WalletInfo,
 } from "../services/walletAuth";
+import { getCacheStats, clearScanCache, type CacheStats } from "../services/scanCache";
+import { checkApiHealth, type ApiHealth } from "../services/http";
 import { useAutoLink } from "../hooks/useAutoLink";
+import { resetCardLayouts } from "../ui-catalog/cardLayout";
+import type { WalletProviderInfo } from "../types/messages";
 
 interface SettingsProps {
   onBack: () => void;
@@ -32,6 +37,7 @@ const Settings: React.FC<SettingsProps> = ({ onBack }) => {
   const [settings, setSettings] = useState<ExtensionSettings>(DEFAULT_SETTINGS);
   const [account, setAccount] = useState<AccountState | null>(null);
   const [wallets, setWallets] = useState<WalletInfo[]>([]);
+  const [cacheStats, setCacheStats] = useState<CacheStats | null>(null);
 
   // Telegram auto-link (shared hook)
   const autoLink = useAutoLink();
@@ -65,6 +71,21 @@ const Settings: React.FC<SettingsProps> = ({ onBack }) => {
     return () => chrome.storage.onChanged.removeListener(listener);
   }, []);
 
+  useEffect(() => {
+    getCacheStats().then(setCacheStats);
+  }, []);
+
+  const handleClearCache = useCallback(async () => {
+    await clearScanCache();
+    setCacheStats(await getCacheStats());
+  }, []);
+
+  const [layoutsReset, setLayoutsReset] = useState(false);
+  const handleResetLayouts = useCallback(async () => {
+    await resetCardLayouts();
+    setLayoutsReset(true);
+  }, []);
+
   // Load wallets when logged in
   useEffect(() => {
     if (isLoggedIn) {
@@ -77,26 +98,35 @@ const Settings: React.FC<SettingsProps> = ({ onBack }) => {
     setSettings(updated);
   }, [settings]);
 
+  // Highlighting needs access to every https site — asked for only when it's turned on
+  const toggleUniversalHighlight = useCallback(async () => {
+    if (!settings.universalHighlight && !(await requestUniversalAccess())) return;
+    await toggleSetting("universalHighlight");
+  }, [settings, toggleSetting]);
+
   // ─── Wallet Sign-In ───────────────────────────────────────────
   // Platform detection
   const isSafariIOS = /Safari/.test(navigator.userAgent) && /iPhone|iPad/.test(navigator.userAgent);
   const [deeplinkStatus, setDeeplinkStatus] = useState<string | null>(null);
 
-  // Phantom detection state
-  const [phantomAvailable, setPhantomAvailable] = useState<boolean | null>(null);
+  // Wallets detected on an open crypto tab (null = still looking)
+  const [walletProviders, setWalletProviders] = useState<WalletProviderInfo[] | null>(null);
   const isSafariMac = /Safari/.test(navigator.userAgent) && /Macintosh/.test(navigator.userAgent) && !/Chrome|Firefox/.test(navigator.userAgent);
   const showDeeplinkPrimary = isSafariIOS; // Only iOS gets deeplink as primary
 
-  // Detect Phantom on mount
   useEffect(() => {
-    detectPhantom().then((r) => setPhantomAvailable(r.available));
+    detectWallets().then(setWalletProviders);
   }, []);
 
-  const handlePhantomAuth = useCallback(async () => {
+  // The user's pick if it's on this tab, else the first wallet found
+  const selectedWallet = walletProviders?.find((w) => w.id === settings.preferredWallet)
+    ?? walletProviders?.[0] ?? null;
+
+  const handleWalletAuth = useCallback(async () => {
     setWalletLoading(true);
     setWalletError(null);
 
-    const result = await authenticateWithPhantom();
+    const result = await authenticateWithWallet(selectedWallet?.id);
 
     if (result.success) {
       const updated = await updateAccount({
@@ -116,7 +146,7 @@ const Settings: React.FC<SettingsProps> = ({ onBack }) => {
     }
 
     setWalletLoading(false);
-  }, [account]);
+  }, [account, selectedWallet]);
 
   const handlePhantomDeeplink = useCallback(async () => {
     setWalletLoading(true);
@@ -206,6 +236,14 @@ const Settings: React.FC<SettingsProps> = ({ onBack }) => {
     }
   }, []);
 
+  // Auto-sync wallets get their holdings re-checked hourly (see Portfolio)
+  const handleToggleAutoSync = useCallback(async (w: WalletInfo) => {
+    const result = await updateWallet(w.id, { autoSync: !w.autoSync });
+    if (result.success) {
+      listWallets().then(setWallets).catch(() => {});
+    }
+  }, []);
+
   // ─── Logout ───────────────────────────────────────────────────
   const logout = useCallback(async () => {
     autoLink.cancel();
@@ -284,9 +322,9 @@ const Settings: React.FC<SettingsProps> = ({ onBack }) => {
           </div>
 
           {authTab === "wallet" ? (
-            /* Wallet Auth — Phantom signing or manual fallback */
+            /* Wallet Auth — wallet signing or manual fallback */
             <div style={{ padding: 12, borderRadius: 8, backgroundColor: COLORS.bgCard, marginBottom: 8 }}>
-              {/* Primary: Phantom sign-in (extension bridge or deeplink) */}
+              {/* Primary: wallet sign-in (extension bridge, or Phantom deeplink on iOS) */}
               {showDeeplinkPrimary ? (
                 <>
                   <button onClick={handlePhantomDeeplink} disabled={walletLoading}
@@ -309,24 +347,28 @@ const Settings: React.FC<SettingsProps> = ({ onBack }) => {
                 </>
               ) : (
                 <>
-                  <button onClick={handlePhantomAuth} disabled={walletLoading}
+                  {walletProviders && walletProviders.length > 1 && (
+                    <WalletPicker wallets={walletProviders} selected={selectedWallet?.id ?? null}
+                      onSelect={async (preferredWallet) => setSettings(await updateSettings({ preferredWallet }))} />
+                  )}
+                  <button onClick={handleWalletAuth} disabled={walletLoading}
                     style={{
                       width: "100%", padding: "10px 0", borderRadius: 8,
-                      backgroundColor: phantomAvailable ? "#AB9FF2" : COLORS.border,
+                      backgroundColor: selectedWallet ? "#AB9FF2" : COLORS.border,
                       color: "#fff", border: "none", fontSize: 13, fontWeight: 700,
                       cursor: walletLoading ? "default" : "pointer",
                       display: "flex", alignItems: "center", justifyContent: "center", gap: 8,
                       opacity: walletLoading ? 0.7 : 1,
                       marginBottom: 8,
                     }}>
-                    {walletLoading ? "Connecting..." : "👻 Sign In with Phantom"}
+                    {walletLoading ? "Connecting..." : `🔑 Sign In with ${selectedWallet?.name ?? "Wallet"}`}
                   </button>
-                  {!phantomAvailable && (
+                  {walletProviders?.length === 0 && (
                     <div style={{ fontSize: 10, color: COLORS.textMuted, textAlign: "center", marginBottom: 8, padding: "4px 8px", borderRadius: 4, backgroundColor: `${COLORS.gold}10` }}>
-                      ⚠️ Phantom not detected on current tab. Open a crypto site (DexScreener, Pump.fun, etc.) and try again.
+                      ⚠️ No wallet detected on current tab. Open a crypto site (DexScreener, Pump.fun, etc.) and try again.
                     </div>
                   )}
-                  {phantomAvailable === false && !isSafariMac && (
+                  {walletProviders?.length === 0 && !isSafariMac && (
                     <button onClick={handlePhantomDeeplink} disabled={walletLoading}
                       style={{
                         width: "100%", padding: "8px 0", borderRadius: 8,
@@ -344,7 +386,7 @@ const Settings: React.FC<SettingsProps> = ({ onBack }) => {
               {/* Fallback: Manual address entry */}
               <details open={/Safari/.test(navigator.userAgent) && /iPhone|iPad/.test(navigator.userAgent)} style={{ marginTop: 4 }}>
                 <summary style={{ fontSize: 10, color: COLORS.textMuted, cursor: "pointer", userSelect: "none" }}>
-                  Don't have Phantom? Enter address manually
+                  No wallet extension? Enter address manually
                 </summary>
                 <div style={{ marginTop: 8 }}>
                   <input type="text" placeholder="Your Solana wallet address..."
@@ -366,7 +408,7 @@ const Settings: React.FC<SettingsProps> = ({ onBack }) => {
                     {walletLoading ? "Verifying..." : "Sign In with Address"}
                   </button>
                   <div style={{ marginTop: 4, fontSize: 9, color: COLORS.textMuted }}>
-                    ⚠️ Manual entry has limited verification. Use Phantom for full security.
+                    ⚠️ Manual entry has limited verification. Sign with a wallet for full security.
                   </div>
                 </div>
               </details>
@@ -432,6 +474,14 @@ const Settings: React.FC<SettingsProps> = ({ onBack }) => {
                   {w.address}
                 </div>
               </div>
+              <button onClick={() => handleToggleAutoSync(w)} style={{
+                padding: "2px 6px", borderRadius: 4, fontSize: 9, fontWeight: 600,
+                backgroundColor: w.autoSync ? `${COLORS.green}20` : "transparent",
+                border: `1px solid ${w.autoSync ? `${COLORS.green}40` : COLORS.border}`,
+                color: w.autoSync ? COLORS.green : COLORS.textMuted, cursor: "pointer",
+              }} title="Re-check this wallet's tokens hourly and alert when one turns Critical">
+                {w.autoSync ? "🔔 Auto-check" : "🔕 Auto-check"}
+              </button>
               <button onClick={() => handleRemoveWallet(w.id)} style={{
                 background: "none", border: "none", color: COLORS.textMuted,
                 cursor: "pointer", fontSize: 12, padding: 4,
@@ -494,9 +544,89 @@ const Settings: React.FC<SettingsProps> = ({ onBack }) => {
         <Toggle label="Show risk badges"
           description="Inject risk badges on token pages"
           checked={settings.showBadges} onChange={() => toggleSetting("showBadges")} />
+        {settings.showBadges && (
+          <div style={{
+            padding: "8px 10px", borderRadius: 8, backgroundColor: COLORS.bgCard, marginBottom: 4,
+            display: "flex", justifyContent: "space-between", alignItems: "center",
+          }}>
+            <div style={{ fontSize: 11, color: COLORS.textSecondary }}>
+              {layoutsReset ? "Cards back in their default spot" : "Floating cards remember where you drag them"}
+            </div>
+            <button onClick={handleResetLayouts} disabled={layoutsReset} style={{
+              padding: "4px 10px", borderRadius: 6, fontSize: 10, fontWeight: 600,
+              backgroundColor: "transparent", border: `1px solid ${COLORS.border}`,
+              color: layoutsReset ? COLORS.textMuted : COLORS.textSecondary,
+              cursor: layoutsReset ? "default" : "pointer",
+            }}>Reset card positions</button>
+          </div>
+        )}
+        <Toggle label="List badges"
+          description="Compact risk badges on DexScreener trending and new-pair lists"
+          checked={settings.compactBadges} onChange={() => toggleSetting("compactBadges")} />
         <Toggle label="Swap warnings"
-          description="Warn before swapping into high-risk tokens"
+          description="Block swaps into risky tokens on Jupiter and Raydium until confirmed"
           checked={settings.swapWarnings} onChange={() => toggleSetting("swapWarnings")} />
+        {settings.swapWarnings && (
+          <OptionPicker label="Swap warning threshold"
+            description="Confirm before swapping into tokens scoring at or above"
+            options={SWAP_THRESHOLDS} value={settings.swapWarningThreshold}
+            onChange={async (swapWarningThreshold) => setSettings(await updateSettings({ swapWarningThreshold }))} />
+        )}
+        <Toggle label="Transaction simulation"
+          description="Simulate Solana transactions before your wallet signs them and warn about approvals, drains and risky tokens"
+          checked={settings.txSimulation} onChange={() => toggleSetting("txSimulation")} />
+        <Toggle label="Watchlist alerts"
+          description="Notify when a watched token changes risk band, loses liquidity or flips authority"
+          checked={settings.watchlistAlerts} onChange={() => toggleSetting("watchlistAlerts")} />
+        <Toggle label="Highlight addresses everywhere"
+          description="Risk chips next to contract addresses on X, Telegram Web, Discord and other sites"
+          checked={settings.universalHighlight} onChange={toggleUniversalHighlight} />
+        {settings.universalHighlight && (
+          <>
+            <SiteList label="Allowed sites"
+              description="Only highlight on these sites — leave empty for every site"
+              sites={settings.universalAllow}
+              onChange={async (universalAllow) => setSettings(await updateSettings({ universalAllow }))} />
+            <SiteList label="Blocked sites"
+              description="Never highlight on these sites"
+              sites={settings.universalDeny}
+              onChange={async (universalDeny) => setSettings(await updateSettings({ universalDeny }))} />
+          </>
+        )}
+      </Section>
+
+      {/* ─── Scan Cache ─── */}
+      <Section title="Cache">
+        <div style={{
+          padding: "8px 10px", borderRadius: 8, backgroundColor: COLORS.bgCard, marginBottom: 4,
+          display: "flex", justifyContent: "space-between", alignItems: "center",
+        }}>
+          <div style={{ fontSize: 11, color: COLORS.textSecondary }}>
+            {cacheStats
+              ? `${cacheStats.entries} tokens · ${formatBytes(cacheStats.bytes)} · ${hitRate(cacheStats)} hit rate`
+              : "Loading..."}
+          </div>
+          <button onClick={handleClearCache} disabled={!cacheStats?.entries} style={{
+            padding: "4px 10px", borderRadius: 6, fontSize: 10, fontWeight: 600,
+            backgroundColor: "transparent", border: `1px solid ${COLORS.border}`,
+            color: cacheStats?.entries ? COLORS.textSecondary : COLORS.textMuted,
+            cursor: cacheStats?.entries ? "pointer" : "default",
+          }}>Clear cache</button>
+        </div>
+        <OptionPicker label="Market data freshness"
+          description="Price and liquidity older than this are refreshed in the background"
+          options={CACHE_TTL_MINUTES} value={settings.cacheMarketTtlMinutes} format={(v) => `${v}m`}
+          onChange={async (cacheMarketTtlMinutes) => setSettings(await updateSettings({ cacheMarketTtlMinutes }))} />
+        <OptionPicker label="Cache size"
+          description="Tokens kept before the least recently viewed are dropped"
+          options={CACHE_SIZES} value={settings.cacheMaxEntries} format={String}
+          onChange={async (cacheMaxEntries) => setSettings(await updateSettings({ cacheMaxEntries }))} />
+      </Section>
+
+      {/* ─── API Endpoint ─── */}
+      <Section title="API Endpoint">
+        <ApiEndpoints settings={settings}
+          onChange={async (updates) => setSettings(await updateSettings(updates))} />
       </Section>
 
       {/* Version */}
@@ -650,6 +780,106 @@ const Toggle: React.FC<{
   </div>
 );
 
+const SWAP_THRESHOLDS = [25, 50, 60, 75];
+
+const CACHE_TTL_MINUTES = [1, 5, 15, 60];
+const CACHE_SIZES = [100, 500, 1000, 2000];
+
+const OptionPicker: React.FC<{
+  label: string; description: string; options: number[]; value: number; onChange: (value: number) => void;
+  format?: (value: number) => string;
+}> = ({ label, description, options, value, onChange, format = (v) => `${v}+` }) => (
+  <div style={{
+    padding: "8px 10px", borderRadius: 8, backgroundColor: COLORS.bgCard, marginBottom: 4,
+  }}>
+    <div style={{ fontSize: 12, fontWeight: 500 }}>{label}</div>
+    <div style={{ fontSize: 9, color: COLORS.textMuted, marginTop: 1 }}>{description}</div>
+    <div style={{ display: "flex", gap: 4, marginTop: 6 }}>
+      {options.map((opt) => (
+        <button key={opt} onClick={() => onChange(opt)} style={{
+          flex: 1, padding: "4px 0", borderRadius: 6, fontSize: 11, fontWeight: 600,
+          cursor: "pointer",
+          backgroundColor: opt === value ? COLORS.purple : "transparent",
+          border: `1px solid ${opt === value ? COLORS.purple : COLORS.border}`,
+          color: opt === value ? "#fff" : COLORS.textSecondary,
+        }}>{format(opt)}</button>
+      ))}
+    </div>
+  </div>
+);
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function hitRate({ hits, staleHits, misses }: CacheStats): string {
+  const total = hits + staleHits + misses;
+  return total ? `${Math.round(((hits + staleHits) / total) * 100)}%` : "—";
+}
+
+/** Host access for address highlighting; needs the toggle's user gesture */
+async function requestUniversalAccess(): Promise<boolean> {
+  try {
+    return await chrome.permissions.request({ origins: UNIVERSAL_ORIGINS });
+  } catch {
+    return false;
+  }
+}
+
+/** "https://www.X.com/home" → "x.com" */
+function normalizeSite(value: string): string {
+  return value.trim().toLowerCase().replace(/^[a-z]+:\/\//, "").replace(/^www\./, "").split(/[/?#:]/)[0];
+}
+
+const SiteList: React.FC<{
+  label: string; description: string; sites: string[]; onChange: (sites: string[]) => void;
+}> = ({ label, description, sites, onChange }) => {
+  const [draft, setDraft] = useState("");
+  const add = () => {
+    const site = normalizeSite(draft);
+    if (site && !sites.includes(site)) onChange([...sites, site]);
+    setDraft("");
+  };
+
+  return (
+    <div style={{
+      padding: "8px 10px", borderRadius: 8, backgroundColor: COLORS.bgCard, marginBottom: 4,
+    }}>
+      <div style={{ fontSize: 12, fontWeight: 500 }}>{label}</div>
+      <div style={{ fontSize: 9, color: COLORS.textMuted, marginTop: 1 }}>{description}</div>
+      <div style={{ display: "flex", flexWrap: "wrap", gap: 4, marginTop: 6 }}>
+        {sites.map((site) => (
+          <span key={site} style={{
+            display: "inline-flex", alignItems: "center", gap: 4, padding: "2px 6px",
+            borderRadius: 6, border: `1px solid ${COLORS.border}`, fontSize: 10, color: COLORS.textSecondary,
+          }}>
+            {site}
+            <span onClick={() => onChange(sites.filter((s) => s !== site))}
+              style={{ cursor: "pointer", color: COLORS.textMuted }} title="Remove">✕</span>
+          </span>
+        ))}
+      </div>
+      <div style={{ display: "flex", gap: 4, marginTop: 6 }}>
+        <input type="text" placeholder="example.com" value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && add()}
+          style={{
+            flex: 1, padding: "4px 8px", borderRadius: 6,
+            backgroundColor: COLORS.bg, border: `1px solid ${COLORS.border}`,
+            color: COLORS.textPrimary, fontSize: 10, outline: "none",
+          }} />
+        <button onClick={add} disabled={!normalizeSite(draft)} style={{
+          padding: "4px 10px", borderRadius: 6, fontSize: 10, fontWeight: 600,
+          backgroundColor: "transparent", border: `1px solid ${COLORS.border}`,
+          color: COLORS.textSecondary, cursor: "pointer",
+        }}>Add</button>
+      </div>
+    </div>
+  );
+};
+
 const TierBadge: React.FC<{ tier: string }> = ({ tier }) => {
   const cfg: Record<string, { label: string; color: string }> = {
     free: { label: "Free", color: COLORS.textMuted },
@@ -681,4 +911,195 @@ const TabButton: React.FC<{ label: string; active?: boolean; onClick?: () => voi
   }}>{label}</button>
 );
 
+/** Choose which detected wallet signs in — the pick is saved to settings */
+const WalletPicker: React.FC<{
+  wallets: WalletProviderInfo[]; selected: string | null; onSelect: (id: string) => void;
+}> = ({ wallets, selected, onSelect }) => (
+  <div style={{ display: "flex", flexWrap: "wrap", gap: 4, marginBottom: 8 }}>
+    {wallets.map((w) => (
+      <button key={w.id} onClick={() => onSelect(w.id)} title={w.publicKey ? `Connected: ${w.publicKey}` : w.name} style={{
+        flex: "1 1 30%", padding: "5px 6px", borderRadius: 6, fontSize: 11, fontWeight: 600,
+        display: "flex", alignItems: "center", justifyContent: "center", gap: 4,
+        cursor: "pointer",
+        backgroundColor: w.id === selected ? `${COLORS.purple}20` : "transparent",
+        border: `1px solid ${w.id === selected ? COLORS.purple : COLORS.border}`,
+        color: w.id === selected ? COLORS.purpleLight : COLORS.textSecondary,
+      }}>
+        {w.icon && <img src={w.icon} alt="" width={14} height={14} style={{ borderRadius: 3 }} />}
+        {w.name}
+      </button>
+    ))}
+  </div>
+);
+
+// ─── API Endpoint Profiles ──────────────────────────────────────
+
+/**
+ * Ask for host access to a non-bundled API origin (local dev server,
+ * staging). Needs the click's user gesture, so call it from a handler.
+ */
+async function ensureHostAccess(url: string): Promise<boolean> {
+  const origin = `${new URL(url).origin}/*`;
+  if (chrome.runtime.getManifest().host_permissions?.some((p: string) => p === origin)) return true;
+  try {
+    return await chrome.permissions.request({ origins: [origin] });
+  } catch {
+    // No way to ask (e.g. no optional host permissions) — don't switch blind
+    return false;
+  }
+}
+
+const ApiEndpoints: React.FC<{
+  settings: ExtensionSettings;
+  onChange: (updates: Partial<ExtensionSettings>) => Promise<void>;
+}> = ({ settings, onChange }) => {
+  const [health, setHealth] = useState<ApiHealth | null>(null);
+  const [checking, setChecking] = useState(false);
+  const [draftName, setDraftName] = useState("");
+  const [draftUrl, setDraftUrl] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const active = activeApiProfile(settings);
+
+  const check = useCallback(async (base: string) => {
+    setChecking(true);
+    setHealth(await checkApiHealth(base));
+    setChecking(false);
+  }, []);
+
+  // Check whichever endpoint is live when Settings opens
+  useEffect(() => {
+    check(settings.apiBase);
+  }, [settings.apiBase, check]);
+
+  const select = async (profile: ApiProfile) => {
+    setError(null);
+    const { host } = new URL(profile.url);
+    if (!(await ensureHostAccess(profile.url))) {
+      setError(`Access to ${host} was denied`);
+      return;
+    }
+    // Vet the candidate before every request starts going to it
+    setChecking(true);
+    const candidate = await checkApiHealth(profile.url);
+    setChecking(false);
+    if (!candidate.ok) {
+      const failure = `${host}: ${candidate.error || "Unreachable"}`;
+      if (!confirm(`${failure}\n\nSwitch to this endpoint anyway?`)) {
+        setError(failure);
+        return;
+      }
+    }
+    // Services re-read the base on the next request — no reload needed
+    await onChange({ apiBase: profile.url });
+  };
+
+  const add = async () => {
+    const url = normalizeApiUrl(draftUrl);
+    const name = draftName.trim();
+    if (!url || !name) return;
+    if (settings.apiProfiles.some((p) => p.url === url)) {
+      setError("That URL already has a profile");
+      return;
+    }
+    await onChange({ apiProfiles: [...settings.apiProfiles, { id: `custom-${Date.now()}`, name, url }] });
+    setDraftName("");
+    setDraftUrl("");
+    setError(null);
+  };
+
+  const toggleAuth = async (profile: ApiProfile) => {
+    await onChange({
+      apiProfiles: settings.apiProfiles.map((p) => (p.id === profile.id ? { ...p, sendAuth: !p.sendAuth } : p)),
+    });
+  };
+
+  const remove = async (profile: ApiProfile) => {
+    const apiProfiles = settings.apiProfiles.filter((p) => p.id !== profile.id);
+    // Removing the live endpoint falls back to the first profile
+    await onChange(profile.url === settings.apiBase
+      ? { apiProfiles, apiBase: apiProfiles[0].url }
+      : { apiProfiles });
+  };
+
+  const inputStyle: React.CSSProperties = {
+    padding: "4px 8px", borderRadius: 6, minWidth: 0,
+    backgroundColor: COLORS.bg, border: `1px solid ${COLORS.border}`,
+    color: COLORS.textPrimary, fontSize: 10, outline: "none",
+  };
+
+  return (
+    <div style={{ padding: "8px 10px", borderRadius: 8, backgroundColor: COLORS.bgCard, marginBottom: 4 }}>
+      {settings.apiProfiles.map((profile) => {
+        const selected = profile.url === settings.apiBase;
+        return (
+          <div key={profile.id} onClick={() => !selected && select(profile)} style={{
+            display: "flex", alignItems: "center", gap: 8, padding: "6px 8px", marginBottom: 4,
+            borderRadius: 6, cursor: selected ? "default" : "pointer",
+            border: `1px solid ${selected ? COLORS.purple : COLORS.border}`,
+            backgroundColor: selected ? `${COLORS.purple}15` : "transparent",
+          }}>
+            <div style={{ flex: 1, minWidth: 0 }}>
+              <div style={{ fontSize: 11, fontWeight: 600 }}>{profile.name}</div>
+              <div style={{
+                fontSize: 9, fontFamily: "monospace", color: COLORS.textMuted,
+                overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap",
+              }}>{profile.url}</div>
+            </div>
+            {profile.url !== PRODUCTION_API_BASE && (
+              <span onClick={(e) => { e.stopPropagation(); toggleAuth(profile); }}
+                title="Send your sign-in token to this endpoint — only for servers you run or trust"
+                style={{
+                  cursor: "pointer", fontSize: 9, whiteSpace: "nowrap",
+                  color: profile.sendAuth ? COLORS.orange : COLORS.textMuted,
+                }}>{profile.sendAuth ? "🔑 Sends token" : "No token"}</span>
+            )}
+            {!profile.builtIn && (
+              <span onClick={(e) => { e.stopPropagation(); remove(profile); }}
+                style={{ cursor: "pointer", color: COLORS.textMuted, fontSize: 10 }} title="Remove">✕</span>
+            )}
+          </div>
+        );
+      })}
+      {!active && (
+        <div style={{ fontSize: 9, color: COLORS.textMuted, marginBottom: 4 }}>
+          Using {settings.apiBase} (not a saved profile)
+        </div>
+      )}
+
+      {/* Health of the live endpoint */}
+      <div style={{ display: "flex", alignItems: "center", gap: 6, marginTop: 2 }}>
+        <div style={{
+          flex: 1, fontSize: 10,
+          color: checking || !health ? COLORS.textMuted : health.ok ? COLORS.green : COLORS.red,
+        }}>
+          {checking || !health ? "Checking..."
+            : health.ok
+              ? `● Online · ${health.latencyMs} ms${health.version ? ` · v${health.version}` : ""}`
+              : `● ${health.error || "Unreachable"}`}
+        </div>
+        <button onClick={() => check(settings.apiBase)} disabled={checking} style={{
+          padding: "3px 8px", borderRadius: 6, fontSize: 10, fontWeight: 600,
+          backgroundColor: "transparent", border: `1px solid ${COLORS.border}`,
+          color: COLORS.textSecondary, cursor: checking ? "wait" : "pointer",
+        }}>Check</button>
+      </div>
+
+      {/* Add profile */}
+      <div style={{ display: "flex", gap: 4, marginTop: 8 }}>
+        <input type="text" placeholder="Staging" value={draftName}
+          onChange={(e) => setDraftName(e.target.value)} style={{ ...inputStyle, width: 70 }} />
+        <input type="text" placeholder="https://staging.example.com/api" value={draftUrl}
+          onChange={(e) => setDraftUrl(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && add()} style={{ ...inputStyle, flex: 1 }} />
+        <button onClick={add} disabled={!draftName.trim() || !normalizeApiUrl(draftUrl)} style={{
+          padding: "4px 10px", borderRadius: 6, fontSize: 10, fontWeight: 600,
+          backgroundColor: "transparent", border: `1px solid ${COLORS.border}`,
+          color: COLORS.textSecondary, cursor: "pointer",
+        }}>Add</button>
+      </div>
+      {error && <div style={{ fontSize: 10, color: COLORS.red, marginTop: 4 }}>{error}</div>}
+    </div>
+  );
+};
+
 export default Settings;
@@ -9,7 +9,7 @@
 
 import React, { useState, useEffect, useCallback, useRef } from "react";
 import { COLORS } from "../utils/designTokens";
-import { getApiBase } from "../utils/config";
+import { apiRequest, toApiErrorInfo } from "../services/http";
 
 interface UpgradeProps {
   onBack: () => void;
@@ -67,9 +67,7 @@ const Upgrade: React.FC<UpgradeProps> = ({ onBack, currentTier }) => {
 
   const fetchPricing = async () => {
     try {
-      const base = await getApiBase();
-      const resp = await fetch(`${base}/ext/payments/pricing`);
-      if (resp.ok) setPricing(await resp.json());
+      setPricing(await apiRequest("/ext/payments/pricing", { auth: false }));
     } catch {}
   };
 
@@ -83,28 +81,18 @@ const Upgrade: React.FC<UpgradeProps> = ({ onBack, currentTier }) => {
     if (!selectedTier) return;
     setError(null);
     try {
-      const base = await getApiBase();
       const token = (await chrome.storage.local.get("auth_token")).auth_token;
       if (!token) { setError("Sign in first"); return; }
 
-      const resp = await fetch(`${base}/ext/payments/intent`, {
+      const data = await apiRequest<PaymentIntent>("/ext/payments/intent", {
         method: "POST",
-        headers: { "Content-Type": "application/json", "Authorization": `Bearer ${token}` },
-        body: JSON.stringify({ tier: selectedTier, currency, months: 1 }),
+        body: { tier: selectedTier, currency, months: 1 },
       });
-
-      if (!resp.ok) {
-        const err = await resp.json().catch(() => ({}));
-        setError(err.detail || "Failed to create payment");
-        return;
-      }
-
-      const data: PaymentIntent = await resp.json();
       setIntent(data);
       setStep("pay");
       startPolling(data.payment_id);
-    } catch (e: any) {
-      setError(e.message || "Connection failed");
+    } catch (e) {
+      setError(toApiErrorInfo(e).message || "Failed to create payment");
     }
   }, [selectedTier, currency]);
 
@@ -122,13 +110,7 @@ const Upgrade: React.FC<UpgradeProps> = ({ onBack, currentTier }) => {
         return;
       }
       try {
-        const base = await getApiBase();
-        const token = (await chrome.storage.local.get("auth_token")).auth_token;
-        const resp = await fetch(`${base}/ext/payments/check/${paymentId}`, {
-          headers: { "Authorization": `Bearer ${token}` },
-        });
-        if (!resp.ok) return;
-        const data = await resp.json();
+        const data = await apiRequest(`/ext/payments/check/${paymentId}`, { retries: 0 });
         if (data.status === "verified") {
           clearAll();
           chrome.storage.local.set({ tier: data.tier });
@@ -0,0 +1,156 @@
+/**
+ * Watchlist — watched tokens with their score history.
+ *
+ * The background worker re-scans every 15 min; "Re-check now" runs the
+ * same batch scan from the popup (without notifications).
+ */
+
+import React, { useState, useEffect, useCallback } from "react";
+import { COLORS, riskColor, riskLabel } from "../utils/designTokens";
+import { batchScan, type ScanResult } from "../services/api";
+import {
+  getWatchlist, removeFromWatchlist, applyWatchResults, keyWatchResults, latestSnapshot,
+  type WatchedToken, type WatchSnapshot,
+} from "../services/watchlist";
+
+interface WatchlistProps {
+  onBack: () => void;
+  onScan: (mint: string, chain: string) => void;
+}
+
+const Watchlist: React.FC<WatchlistProps> = ({ onBack, onScan }) => {
+  const [tokens, setTokens] = useState<WatchedToken[]>([]);
+  const [refreshing, setRefreshing] = useState(false);
+
+  useEffect(() => {
+    getWatchlist().then(setTokens);
+    const listener = (changes: Record<string, chrome.storage.StorageChange>, area: string) => {
+      if (area === "local" && changes.watchlist) setTokens(changes.watchlist.newValue || []);
+    };
+    chrome.storage.onChanged.addListener(listener);
+    return () => chrome.storage.onChanged.removeListener(listener);
+  }, []);
+
+  const refresh = useCallback(async () => {
+    setRefreshing(true);
+    try {
+      const byChain = new Map<string, string[]>();
+      for (const t of tokens) byChain.set(t.chain, [...(byChain.get(t.chain) || []), t.mint]);
+      const results: Record<string, ScanResult> = {};
+      for (const [chain, mints] of byChain) {
+        Object.assign(results, keyWatchResults((await batchScan(mints, chain)).results, chain));
+      }
+      await applyWatchResults(results);
+      setTokens(await getWatchlist());
+    } finally {
+      setRefreshing(false);
+    }
+  }, [tokens]);
+
+  const remove = useCallback(async (token: WatchedToken) => {
+    await removeFromWatchlist(token.mint, token.chain);
+    setTokens(await getWatchlist());
+  }, []);
+
+  return (
+    <div style={{
+      width: "100%", maxWidth: 420, minHeight: "100%", boxSizing: "border-box" as const, maxHeight: 600, overflowY: "auto",
+      backgroundColor: COLORS.bg, color: COLORS.textPrimary, fontFamily: "system-ui", padding: 16,
+    }}>
+      <div style={{ display: "flex", alignItems: "center", gap: 8, marginBottom: 12 }}>
+        <button onClick={onBack} style={{ background: "none", border: "none", color: COLORS.textSecondary, cursor: "pointer", fontSize: 16, padding: 4 }}>←</button>
+        <span style={{ fontWeight: 700, fontSize: 16, flex: 1 }}>👁 Watchlist</span>
+        {tokens.length > 0 && (
+          <button onClick={refresh} disabled={refreshing} style={{
+            padding: "4px 10px", borderRadius: 6, fontSize: 10, fontWeight: 600,
+            backgroundColor: `${COLORS.purple}20`, border: `1px solid ${COLORS.purple}40`,
+            color: COLORS.purpleLight, cursor: refreshing ? "wait" : "pointer",
+          }}>{refreshing ? "Checking..." : "↻ Re-check now"}</button>
+        )}
+      </div>
+
+      {tokens.length === 0 ? (
+        <div style={{
+          padding: 20, textAlign: "center", borderRadius: 10,
+          backgroundColor: COLORS.bgCard, border: `1px solid ${COLORS.border}`,
+        }}>
+          <div style={{ fontSize: 28, marginBottom: 8 }}>👁</div>
+          <div style={{ fontSize: 12, color: COLORS.textSecondary }}>
+            No watched tokens yet. Add one from a scan result, an on-page ScoreCard,
+            or by right-clicking a contract address.
+          </div>
+        </div>
+      ) : (
+        tokens.map((t) => <WatchRow key={`${t.chain}:${t.mint}`} token={t} onScan={onScan} onRemove={remove} />)
+      )}
+    </div>
+  );
+};
+
+const WatchRow: React.FC<{
+  token: WatchedToken;
+  onScan: (mint: string, chain: string) => void;
+  onRemove: (token: WatchedToken) => void;
+}> = ({ token, onScan, onRemove }) => {
+  const last = latestSnapshot(token);
+  const score = last?.risk_score ?? null;
+  const color = riskColor(score);
+  const first = token.history.find((h) => h.risk_score != null);
+  const delta = score != null && first?.risk_score != null ? score - first.risk_score : 0;
+
+  return (
+    <div style={{
+      padding: 10, borderRadius: 8, marginBottom: 6,
+      backgroundColor: COLORS.bgCard, border: `1px solid ${color}30`,
+    }}>
+      <div style={{ display: "flex", alignItems: "center", gap: 8 }}>
+        <div style={{ flex: 1, cursor: "pointer", minWidth: 0 }} onClick={() => onScan(token.mint, token.chain)}>
+          <div style={{ fontSize: 13, fontWeight: 700 }}>${token.symbol || "?"}</div>
+          <div style={{
+            fontSize: 9, fontFamily: "monospace", color: COLORS.textMuted,
+            overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap",
+          }}>{token.mint}</div>
+        </div>
+        <div style={{ textAlign: "right" }}>
+          <div style={{ fontSize: 16, fontWeight: 800, color }}>{score ?? "—"}</div>
+          <div style={{ fontSize: 9, color }}>
+            {riskLabel(score)}
+            {delta !== 0 && (
+              <span style={{ color: delta > 0 ? COLORS.red : COLORS.green, marginLeft: 4 }}>
+                {delta > 0 ? "▲" : "▼"}{Math.abs(delta)}
+              </span>
+            )}
+          </div>
+        </div>
+        <button onClick={() => onRemove(token)} title="Stop watching" style={{
+          background: "none", border: "none", color: COLORS.textMuted, cursor: "pointer", fontSize: 14, padding: 2,
+        }}>✕</button>
+      </div>
+      {token.history.length > 1 && <ScoreHistory history={token.history} />}
+      {last && (
+        <div style={{ fontSize: 9, color: COLORS.textMuted, marginTop: 4 }}>
+          Last checked {new Date(last.timestamp).toLocaleString()}
+        </div>
+      )}
+    </div>
+  );
+};
+
+/** Bar sparkline of risk scores, oldest → newest. */
+const ScoreHistory: React.FC<{ history: WatchSnapshot[] }> = ({ history }) => (
+  <div style={{ display: "flex", alignItems: "flex-end", gap: 1, height: 24, marginTop: 6 }}>
+    {history.map((h, i) => (
+      <div
+        key={i}
+        title={`${new Date(h.timestamp).toLocaleString()}: ${h.risk_score ?? "?"}`}
+        style={{
+          flex: 1, minHeight: 2,
+          height: `${Math.max(h.risk_score ?? 0, 4)}%`,
+          backgroundColor: riskColor(h.risk_score), borderRadius: 1,
+        }}
+      />
+    ))}
+  </div>
+);
+
+export default Watchlist;
@@ -5,14 +5,7 @@
  * Events: scan, badge_click, swap_warning, side_panel_open, page_detect
  */
 
-import { getApiBase } from "../utils/config";
-
-let _apiBase: string | null = null;
-
-async function getBase(): Promise<string> {
-  if (!_apiBase) _apiBase = await getApiBase();
-  return _apiBase;
-}
+import { apiRequest } from "./http";
 
 export async function trackEvent(
   event: string,
@@ -21,16 +14,10 @@ export async function trackEvent(
   metadata?: Record<string, any>
 ): Promise<void> {
   try {
-    const base = await getBase();
-    const token = (await chrome.storage.local.get("auth_token")).auth_token;
-    const headers: Record<string, string> = { "Content-Type": "application/json" };
-    if (token) headers["Authorization"] = `Bearer ${token}`;
-
     // Fire and forget — don't await in caller
-    fetch(`${base}/ext/analytics`, {
+    apiRequest("/ext/analytics", {
       method: "POST",
-      headers,
-      body: JSON.stringify({ event, context, token_address: tokenAddress, metadata }),
+      body: { event, context, token_address: tokenAddress, metadata },
     }).catch(() => {}); // Swallow errors
   } catch {
     // Never throw from analytics
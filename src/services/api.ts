@@ -2,19 +2,21 @@
  * Rug Munch Extension API Service
  *
  * All requests go through the internal API — never DexScreener/CoinGecko directly.
- * Cache-first with stale-while-revalidate pattern via IndexedDB.
+ * Cache-first with stale-while-revalidate via the shared scan cache
+ * (services/scanCache.ts). Scans are owned by the background worker,
+ * which coalesces concurrent requests for the same token.
  */
 
-import { getApiBase } from "../utils/config";
+import { sendMessage, createMessageRouter } from "../utils/messaging";
+import { apiRequest, isContentScript, toApiErrorInfo, type ApiErrorInfo } from "./http";
+import { addHistoryEntry } from "./scanHistory";
 import type { RiskBreakdown } from "../types/scan";
-
-let _apiBaseCache: string | null = null;
-async function getApiBaseUrl(): Promise<string> {
-  if (!_apiBaseCache) {
-    _apiBaseCache = await getApiBase();
-  }
-  return _apiBaseCache;
-}
+import { diffScans, type ScanDiff } from "../utils/scanDiff";
+import { tokenKey } from "../utils/chains";
+import {
+  getCachedScan, putCachedScan, getTtlPolicy, freshness, diffFromSnapshots, recordCacheLookup,
+  type CachedScan,
+} from "./scanCache";
 
 export interface ScanResult {
   token_address: string;
@@ -48,7 +50,13 @@ export interface ExtScanResponse {
   success: boolean;
   data?: ScanResult;
   cached: boolean;
+  /** Served from cache past a field's TTL — a refresh is under way */
+  stale?: boolean;
   error?: string;
+  /** Why the scan failed — rate limit, expired session, tier lock… */
+  apiError?: ApiErrorInfo;
+  /** Changes vs. the previous scan of this token, when one is cached */
+  diff?: ScanDiff | null;
 }
 
 export interface BatchScanResponse {
@@ -61,179 +69,156 @@ export interface BatchScanResponse {
 
 
 /**
- * Detect if we're running in a content script (vs popup/background).
- * Content scripts in MV3 are subject to page CORS — must proxy through background.
+ * Where a scan was requested from — host page for content scripts,
+ * otherwise the extension surface.
  */
-function isContentScript(): boolean {
-  try {
-    // Test override — force direct fetch in test environment
-    if ((globalThis as any).__RMS_TEST_DIRECT_FETCH) return false;
-    // Content scripts have window.location set to the host page
-    // Background/popup have chrome-extension:// origin
-    return typeof window !== "undefined" &&
-           !window.location.protocol.startsWith("chrome-extension") &&
-           !window.location.protocol.startsWith("moz-extension");
-  } catch {
-    return false;
-  }
+function scanSource(): string {
+  if (typeof window === "undefined") return "background";
+  if (isContentScript()) return window.location.hostname.replace(/^www\./, "");
+  return window.location.pathname.includes("sidepanel") ? "sidepanel" : "popup";
 }
 
+
 /**
- * Proxy an API request through the background service worker.
- * Avoids CORS issues when calling from content scripts.
+ * Scans run in the background worker so every surface shares one cache
+ * and one in-flight request per token. Popup, side panel and content
+ * scripts ask it via SCAN_TOKEN.
  */
-async function proxyViaBackground(
-  path: string,
-  body?: any,
-  method = "POST"
-): Promise<any> {
-  return new Promise((resolve, reject) => {
-    chrome.runtime.sendMessage(
-      { type: "API_PROXY", path, body, method },
-      (response) => {
-        if (chrome.runtime.lastError) {
-          reject(new Error(chrome.runtime.lastError.message || "Background proxy failed"));
-          return;
-        }
-        if (!response?.success) {
-          reject(new Error(response?.error || "Proxy request failed"));
-          return;
-        }
-        const data = response.data;
-        if (data?.__proxy_error) {
-          reject(new Error(data.detail || `HTTP ${data.status}`));
-          return;
-        }
-        resolve(data);
-      }
-    );
-  });
+function isScanOwner(): boolean {
+  return typeof window === "undefined" || !!(globalThis as any).__RMS_TEST_DIRECT_FETCH;
 }
 
-async function getAuthToken(): Promise<string | null> {
-  try {
-    const result = await chrome.storage.local.get(["auth_token"]);
-    return result.auth_token || null;
-  } catch {
-    return null;
-  }
-}
+type ScanUpdateListener = (key: string, resp: ExtScanResponse) => void;
+const scanUpdateListeners = new Set<ScanUpdateListener>();
 
+// token key → pending /ext/scan call, shared by concurrent requesters
+const inFlight = new Map<string, Promise<ExtScanResponse>>();
 
+/**
+ * Subscribe to background refreshes of stale cache entries. In the
+ * background itself listeners are called directly; extension pages get
+ * them as SCAN_UPDATED broadcasts. Returns an unsubscribe function.
+ */
+export function onScanUpdated(listener: ScanUpdateListener): () => void {
+  if (isScanOwner()) {
+    scanUpdateListeners.add(listener);
+    return () => scanUpdateListeners.delete(listener);
+  }
+  const router = createMessageRouter({
+    SCAN_UPDATED: (message) => listener(tokenKey(message.data.token_address, message.data.chain), {
+      success: true, data: message.data, cached: false, diff: message.diff ?? null,
+    }),
+  });
+  chrome.runtime.onMessage.addListener(router);
+  return () => chrome.runtime.onMessage.removeListener(router);
+}
 
 export async function scanToken(mint: string, chain = "solana"): Promise<ExtScanResponse> {
   // Rate limiting is server-side (Valkey). Client just passes through.
 
-  try {
-    // Check IndexedDB cache first
-    const cached = await getCachedScan(mint);
-    if (cached && Date.now() - cached.timestamp < 300_000) {
-      return { success: true, data: cached.data, cached: true };
-    }
-
-    let data: ScanResult;
-
-    if (isContentScript()) {
-      // Content scripts must proxy through background to avoid CORS
-      data = await proxyViaBackground("/ext/scan", { token_address: mint, chain });
-    } else {
-      const token = await getAuthToken();
-      const headers: Record<string, string> = { "Content-Type": "application/json" };
-      if (token) headers["Authorization"] = `Bearer ${token}`;
-
-      const baseUrl = await getApiBaseUrl();
-      const resp = await fetch(`${baseUrl}/ext/scan`, {
-        method: "POST",
-        headers,
-        body: JSON.stringify({ token_address: mint, chain }),
-      });
-
-      if (!resp.ok) {
-        // Return stale cache if available
-        if (cached) return { success: true, data: cached.data, cached: true };
-        const err = await resp.json().catch(() => ({}));
-        return { success: false, cached: false, error: err.detail || `HTTP ${resp.status}` };
+  if (!isScanOwner()) {
+    try {
+      return await sendMessage({ type: "SCAN_TOKEN", mint, chain, source: scanSource() });
+    } catch (e: any) {
+      if (isContentScript()) {
+        return { success: false, cached: false, error: e.message || "Background unreachable" };
       }
-
-      data = await resp.json();
+      // Extension page with no worker to answer — scan here instead
     }
+  }
+  return scanWithCache(mint, chain, scanSource());
+}
 
-    // Store in IndexedDB (only if we got real data)
-    if (!data.not_scanned) {
-      await cacheScan(mint, data);
+/**
+ * Cache-first scan. Fresh → cached result. Stale → cached result now plus
+ * a background refresh announced via onScanUpdated. Expired or missing →
+ * network (expired entries are still served when offline).
+ */
+export async function scanWithCache(mint: string, chain: string, source: string): Promise<ExtScanResponse> {
+  // Keyed per chain for EVM addresses
+  const key = tokenKey(mint, chain);
+  const cached = await getCachedScan(key);
+
+  if (cached) {
+    const state = freshness(cached, await getTtlPolicy());
+    const offline = typeof navigator !== "undefined" && navigator.onLine === false;
+    if (state !== "expired" || offline) {
+      await recordCacheLookup(state === "fresh" ? "hit" : "stale");
+      await addHistoryEntry(cached.data, source);
+      if (state !== "fresh" && !offline) revalidate(key, mint, chain);
+      return {
+        success: true, data: cached.data, cached: true,
+        stale: state !== "fresh", diff: diffFromSnapshots(cached),
+      };
     }
-
-    return { success: true, data, cached: false };
-  } catch (e: any) {
-    // Network error — return stale cache
-    const cached = await getCachedScan(mint);
-    if (cached) return { success: true, data: cached.data, cached: true };
-    return { success: false, cached: false, error: e.message || "Network error" };
   }
-}
 
-export async function batchScan(mints: string[], chain = "solana"): Promise<BatchScanResponse> {
-  try {
-    const token = await getAuthToken();
-    const headers: Record<string, string> = { "Content-Type": "application/json" };
-    if (token) headers["Authorization"] = `Bearer ${token}`;
+  await recordCacheLookup("miss");
+  const resp = await fetchScanShared(key, mint, chain, cached);
+  if (resp.success && !resp.cached && resp.data) await addHistoryEntry(resp.data, source);
+  return resp;
+}
 
-    const baseUrl = await getApiBaseUrl();
-    const resp = await fetch(`${baseUrl}/ext/batch`, {
-      method: "POST",
-      headers,
-      body: JSON.stringify({ tokens: mints, chain }),
-    });
+function revalidate(key: string, mint: string, chain: string): void {
+  if (inFlight.has(key)) return;
+  getCachedScan(key)
+    .then((cached) => fetchScanShared(key, mint, chain, cached))
+    .then((resp) => {
+      if (!resp.success || resp.cached) return;
+      for (const listener of scanUpdateListeners) listener(key, resp);
+    })
+    .catch((e) => console.debug("[RMS] Background revalidation failed:", e));
+}
 
-    if (!resp.ok) throw new Error(`HTTP ${resp.status}`);
-    return await resp.json();
-  } catch {
-    return { results: {}, cached_count: 0, fresh_count: 0 };
+/**
+ * fetchScan, coalesced: concurrent scans of one token share a single
+ * network call and all get its result.
+ */
+function fetchScanShared(key: string, mint: string, chain: string, cached: CachedScan | null): Promise<ExtScanResponse> {
+  let pending = inFlight.get(key);
+  if (!pending) {
+    pending = fetchScan(key, mint, chain, cached).finally(() => inFlight.delete(key));
+    inFlight.set(key, pending);
   }
+  return pending;
 }
 
-// ─── IndexedDB Cache ───────────────────────────────────────────
+/**
+ * Fetch from the API and cache the result. Falls back to `cached`
+ * (however old) when the request fails.
+ */
+async function fetchScan(key: string, mint: string, chain: string, cached: CachedScan | null): Promise<ExtScanResponse> {
+  try {
+    const data: ScanResult = await apiRequest("/ext/scan", {
+      method: "POST",
+      body: { token_address: mint, chain },
+      retries: 2,
+    });
 
-const DB_NAME = "rugmunch_cache";
-const DB_VERSION = 1;
-const STORE_NAME = "scans";
+    // Store only real data
+    let diff: ScanDiff | null = null;
+    if (!data.not_scanned) {
+      if (cached) diff = diffScans(cached.data, data, cached.timestamp);
+      await putCachedScan(key, data);
+    }
 
-function openDB(): Promise<IDBDatabase> {
-  return new Promise((resolve, reject) => {
-    const req = indexedDB.open(DB_NAME, DB_VERSION);
-    req.onupgradeneeded = () => {
-      const db = req.result;
-      if (!db.objectStoreNames.contains(STORE_NAME)) {
-        db.createObjectStore(STORE_NAME, { keyPath: "mint" });
-      }
-    };
-    req.onsuccess = () => resolve(req.result);
-    req.onerror = () => reject(req.error);
-  });
+    return { success: true, data, cached: false, diff };
+  } catch (e) {
+    const apiError = toApiErrorInfo(e);
+    // Serve whatever we have cached, however old
+    if (cached) return { success: true, data: cached.data, cached: true, stale: true, apiError };
+    return { success: false, cached: false, error: apiError.message, apiError };
+  }
 }
 
-async function getCachedScan(mint: string): Promise<{ data: ScanResult; timestamp: number } | null> {
+export async function batchScan(mints: string[], chain = "solana"): Promise<BatchScanResponse> {
   try {
-    const db = await openDB();
-    return new Promise((resolve) => {
-      const tx = db.transaction(STORE_NAME, "readonly");
-      const req = tx.objectStore(STORE_NAME).get(mint);
-      req.onsuccess = () => resolve(req.result || null);
-      req.onerror = () => resolve(null);
-    });
+    return await apiRequest("/ext/batch", { method: "POST", body: { tokens: mints, chain }, retries: 2 });
   } catch {
-    return null;
+    return { results: {}, cached_count: 0, fresh_count: 0 };
   }
 }
 
-async function cacheScan(mint: string, data: ScanResult): Promise<void> {
-  try {
-    const db = await openDB();
-    const tx = db.transaction(STORE_NAME, "readwrite");
-    tx.objectStore(STORE_NAME).put({ mint, data, timestamp: Date.now() });
-  } catch {}
-}
-
 // ─── Auto-Link Flow ────────────────────────────────────────────
 
 export interface LinkInitResponse {
@@ -256,14 +241,11 @@ export interface LinkStatusResponse {
  */
 export async function initLink(extensionId?: string): Promise<LinkInitResponse | null> {
   try {
-    const baseUrl = await getApiBaseUrl();
-    const resp = await fetch(`${baseUrl}/ext/link/init`, {
+    return await apiRequest("/ext/link/init", {
       method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ extension_id: extensionId || "" }),
+      body: { extension_id: extensionId || "" },
+      auth: false,
     });
-    if (!resp.ok) return null;
-    return await resp.json();
   } catch {
     return null;
   }
@@ -274,10 +256,8 @@ export async function initLink(extensionId?: string): Promise<LinkInitResponse |
  */
 export async function checkLinkStatus(token: string): Promise<LinkStatusResponse> {
   try {
-    const baseUrl = await getApiBaseUrl();
-    const resp = await fetch(`${baseUrl}/ext/link/status/${token}`);
-    if (!resp.ok) return { status: "expired" };
-    return await resp.json();
+    // Polled — the next poll is the retry
+    return await apiRequest(`/ext/link/status/${token}`, { auth: false, retries: 0 });
   } catch {
     return { status: "expired" };
   }
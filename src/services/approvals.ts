@@ -0,0 +1,156 @@
+/**
+ * Approvals — outstanding token approvals granted by the user's linked
+ * wallets, and revoking them.
+ *
+ * The API lists SPL token delegates (Solana) and ERC-20 allowances (EVM)
+ * per wallet. Both the approved tokens and the tokens the API ties to each
+ * spender are batch-scanned; an approval is flagged when either side is
+ * High or Critical risk. Revokes are built by utils/revokeTx and signed
+ * and sent through the wallet bridge.
+ */
+
+import { apiRequest, toApiErrorInfo } from "./http";
+import { scanInBatches } from "./portfolio";
+import { sendWalletTransaction, type WalletInfo } from "./walletAuth";
+import type { ScanResult } from "./api";
+import { CHAINS, isEvmAddress, isEvmChain, type ChainId } from "../utils/chains";
+import { riskLabel } from "../utils/designTokens";
+import { buildSplRevokeTransaction, erc20RevokeCalldata, TOKEN_PROGRAM_ID } from "../utils/revokeTx";
+import { TOKEN_2022_PROGRAM_ID } from "../utils/txDecode";
+
+// The only programs a revoke may invoke — row.program comes from the API
+const TOKEN_PROGRAMS = [TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID];
+
+export interface TokenApproval {
+  /** SPL mint / ERC-20 contract */
+  token: string;
+  /** Delegate (Solana) / spender contract (EVM) */
+  spender: string;
+  /** Solana: the token account carrying the delegate */
+  token_account?: string | null;
+  /** Solana: program owning token_account; omitted = SPL Token */
+  program?: string | null;
+  /** Approved amount in UI units; null = unlimited */
+  amount: number | null;
+  /** Known name of the spender ("Jupiter v6", …) */
+  spender_label?: string | null;
+  /** Tokens the spender deployed or is tied to */
+  spender_tokens?: string[];
+}
+
+export interface ApprovalRow extends TokenApproval {
+  chain: string;
+  /** Address of the linked wallet that granted it */
+  owner: string;
+  symbol: string | null;
+  /** Risk of the approved token */
+  risk_score: number | null;
+  /** Highest risk among the spender's tokens */
+  spender_risk: number | null;
+  /** High or Critical on either side */
+  flagged: boolean;
+}
+
+export interface ApprovalAudit {
+  rows: ApprovalRow[];
+  scannedAt: number;
+  /** Wallets whose approvals couldn't be fetched */
+  failedWallets: string[];
+}
+
+export async function getWalletApprovals(wallet: WalletInfo): Promise<TokenApproval[]> {
+  const data = await apiRequest(`/ext/wallets/${wallet.id}/approvals`);
+  return data.approvals || [];
+}
+
+function isFlagged(score: number | null): boolean {
+  const band = riskLabel(score);
+  return band === "High" || band === "Critical";
+}
+
+const worstRisk = (row: ApprovalRow) => Math.max(row.risk_score ?? -1, row.spender_risk ?? -1);
+
+/** Flagged first, then by the worse of token / spender risk */
+export function compareApprovalRows(a: ApprovalRow, b: ApprovalRow): number {
+  if (a.flagged !== b.flagged) return a.flagged ? -1 : 1;
+  return worstRisk(b) - worstRisk(a);
+}
+
+/**
+ * Fetch every linked wallet's approvals and scan what they touch. A wallet
+ * that fails is listed in `failedWallets`; the rest still count.
+ */
+export async function auditApprovals(wallets: WalletInfo[]): Promise<ApprovalAudit> {
+  const found: { approval: TokenApproval; wallet: WalletInfo }[] = [];
+  const failedWallets: string[] = [];
+
+  for (const wallet of wallets.filter((w) => w.chain === "solana" || isEvmChain(w.chain))) {
+    try {
+      for (const approval of await getWalletApprovals(wallet)) found.push({ approval, wallet });
+    } catch {
+      failedWallets.push(wallet.address);
+    }
+  }
+
+  // One scan pass per chain over approved and spender-linked tokens
+  const toScan = new Map<string, Set<string>>();
+  for (const { approval, wallet } of found) {
+    const mints = toScan.get(wallet.chain) ?? new Set<string>();
+    mints.add(approval.token);
+    approval.spender_tokens?.forEach((t) => mints.add(t));
+    toScan.set(wallet.chain, mints);
+  }
+  const scans = new Map<string, Record<string, ScanResult>>();
+  for (const [chain, mints] of toScan) scans.set(chain, (await scanInBatches([...mints], chain)).results);
+
+  const rows: ApprovalRow[] = found.map(({ approval, wallet }) => {
+    const results = scans.get(wallet.chain) || {};
+    const scanOf = (mint: string) => {
+      const data = results[mint] ?? results[mint.toLowerCase()];
+      return data && !data.not_scanned ? data : null;
+    };
+    const token = scanOf(approval.token);
+    const spenderScores = (approval.spender_tokens || [])
+      .map((t) => scanOf(t)?.risk_score)
+      .filter((s): s is number => s != null);
+    const risk_score = token?.risk_score ?? null;
+    const spender_risk = spenderScores.length ? Math.max(...spenderScores) : null;
+    return {
+      ...approval,
+      chain: wallet.chain,
+      owner: wallet.address,
+      symbol: token?.token_symbol ?? null,
+      risk_score,
+      spender_risk,
+      flagged: isFlagged(risk_score) || isFlagged(spender_risk),
+    };
+  }).sort(compareApprovalRows);
+
+  return { rows, scannedAt: Date.now(), failedWallets };
+}
+
+/**
+ * Revoke one approval: build the transaction and have the owner's wallet
+ * sign and send it through the wallet bridge.
+ */
+export async function revokeApproval(row: ApprovalRow): Promise<{ success: boolean; txid?: string; error?: string }> {
+  try {
+    if (row.chain === "solana") {
+      if (!row.token_account) return { success: false, error: "Missing token account for this delegate" };
+      const program = row.program || TOKEN_PROGRAM_ID;
+      if (!TOKEN_PROGRAMS.includes(program)) return { success: false, error: `Unknown token program ${program}` };
+      const { blockhash } = await apiRequest("/ext/solana/blockhash");
+      const tx = buildSplRevokeTransaction(row.owner, row.token_account, blockhash, program);
+      const serialized = btoa(String.fromCharCode(...tx));
+      return await sendWalletTransaction({ kind: "solana", serialized }, row.owner);
+    }
+
+    const chainId = CHAINS[row.chain as ChainId]?.evmChainId;
+    if (!chainId) return { success: false, error: `Revoking on ${row.chain} isn't supported` };
+    if (!isEvmAddress(row.token)) return { success: false, error: `Invalid token contract: ${row.token}` };
+    const data = erc20RevokeCalldata(row.spender);
+    return await sendWalletTransaction({ kind: "evm", chainId, to: row.token, data }, row.owner);
+  } catch (e) {
+    return { success: false, error: toApiErrorInfo(e).message };
+  }
+}
@@ -0,0 +1,392 @@
+/**
+ * HTTP client for the Rug Munch API — every service and view calls the
+ * API through `apiRequest`.
+ *
+ * - Base URL comes from settings, re-read whenever settings change
+ * - Injects the stored auth token; a 401 triggers one /ext/auth/refresh
+ *   and a retry with the new token
+ * - Content scripts are routed through the background (page CORS)
+ * - Retries transient failures (network, 5xx) with exponential backoff
+ * - Honours Retry-After on 429 / 503 when the wait is short enough
+ * - Throws ApiError with a kind the UI can act on
+ * - Records rate-limit headers so the popup can show remaining quota
+ */
+
+import { authTokenAllowed, getApiBase } from "../utils/config";
+import { sendMessage } from "../utils/messaging";
+
+export const QUOTA_KEY = "api_quota";
+
+const BACKOFF_BASE_MS = 400;
+const BACKOFF_MAX_MS = 8_000;
+// Longer Retry-After waits are surfaced to the user instead of slept through
+const MAX_RETRY_WAIT_MS = 10_000;
+const RETRYABLE_STATUS = new Set([500, 502, 503, 504]);
+
+export type ApiErrorKind =
+  | "rate_limited"  // 429 — quota or burst limit
+  | "auth_expired"  // 401 — token missing or expired
+  | "tier_locked"   // 402 / 403 — feature needs a higher tier
+  | "network"       // offline, DNS, CORS, aborted
+  | "server"        // 5xx
+  | "request";      // other 4xx
+
+export interface QuotaInfo {
+  limit: number | null;
+  remaining: number | null;
+  /** Epoch ms when the quota resets */
+  resetAt: number | null;
+}
+
+/** Plain-object form of ApiError — survives chrome.runtime messaging */
+export interface ApiErrorInfo {
+  kind: ApiErrorKind;
+  message: string;
+  status: number | null;
+  retryAfterMs: number | null;
+  quota: QuotaInfo | null;
+}
+
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind;
+  readonly status: number | null;
+  readonly retryAfterMs: number | null;
+  readonly quota: QuotaInfo | null;
+
+  constructor(info: Omit<ApiErrorInfo, "status" | "retryAfterMs" | "quota"> & Partial<ApiErrorInfo>) {
+    super(info.message);
+    this.name = "ApiError";
+    this.kind = info.kind;
+    this.status = info.status ?? null;
+    this.retryAfterMs = info.retryAfterMs ?? null;
+    this.quota = info.quota ?? null;
+  }
+
+  toInfo(): ApiErrorInfo {
+    return {
+      kind: this.kind, message: this.message, status: this.status,
+      retryAfterMs: this.retryAfterMs, quota: this.quota,
+    };
+  }
+}
+
+/**
+ * Normalise anything thrown by a request into ApiErrorInfo.
+ */
+export function toApiErrorInfo(e: unknown): ApiErrorInfo {
+  if (e instanceof ApiError) return e.toInfo();
+  const message = e instanceof Error ? e.message : String(e);
+  return { kind: "network", message: message || "Network error", status: null, retryAfterMs: null, quota: null };
+}
+
+export function classifyStatus(status: number): ApiErrorKind {
+  if (status === 401) return "auth_expired";
+  if (status === 402 || status === 403) return "tier_locked";
+  if (status === 429) return "rate_limited";
+  if (status >= 500) return "server";
+  return "request";
+}
+
+/**
+ * Retry-After is either delta-seconds or an HTTP date. Returns ms to wait.
+ */
+export function parseRetryAfter(value: string | null, now = Date.now()): number | null {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+/**
+ * X-RateLimit-* headers. Reset may be epoch seconds or seconds from now.
+ */
+export function parseQuota(headers: Headers, now = Date.now()): QuotaInfo | null {
+  const num = (name: string) => {
+    const v = headers.get(name);
+    return v != null && v !== "" && Number.isFinite(Number(v)) ? Number(v) : null;
+  };
+  const limit = num("X-RateLimit-Limit");
+  const remaining = num("X-RateLimit-Remaining");
+  const reset = num("X-RateLimit-Reset");
+  if (limit == null && remaining == null) return null;
+  const resetAt = reset == null ? null : reset > 1e9 ? reset * 1000 : now + reset * 1000;
+  return { limit, remaining, resetAt };
+}
+
+/** Exponential backoff with jitter: ~400ms, 800ms, 1.6s … capped at 8s */
+export function backoffDelay(attempt: number): number {
+  const base = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** attempt);
+  return base / 2 + Math.random() * (base / 2);
+}
+
+export async function getQuota(): Promise<QuotaInfo | null> {
+  try {
+    const { [QUOTA_KEY]: quota } = await chrome.storage.local.get(QUOTA_KEY);
+    return quota || null;
+  } catch {
+    return null;
+  }
+}
+
+async function saveQuota(quota: QuotaInfo): Promise<void> {
+  try {
+    await chrome.storage.local.set({ [QUOTA_KEY]: quota });
+  } catch {}
+}
+
+async function storedAuthToken(): Promise<string | null> {
+  try {
+    if (!(await authTokenAllowed())) return null;
+    const { auth_token } = await chrome.storage.local.get("auth_token");
+    return auth_token || null;
+  } catch {
+    return null;
+  }
+}
+
+// ─── Base URL ───────────────────────────────────────────────────
+
+let baseCache: Promise<string> | null = null;
+
+/**
+ * Configured API base, cached until settings change.
+ */
+export function getApiBaseUrl(): Promise<string> {
+  if (!baseCache) baseCache = getApiBase();
+  return baseCache;
+}
+
+try {
+  chrome.storage.onChanged.addListener((changes, area) => {
+    if (area === "local" && changes.settings) baseCache = null;
+  });
+} catch {}
+
+export interface ApiHealth {
+  ok: boolean;
+  latencyMs: number | null;
+  /** From the body's `version` or the X-API-Version header */
+  version: string | null;
+  error?: string;
+}
+
+const HEALTH_TIMEOUT_MS = 5_000;
+
+/**
+ * Probe `${base}/health` — used by Settings to vet an endpoint before and
+ * after switching to it. Never throws.
+ */
+export async function checkApiHealth(base: string): Promise<ApiHealth> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), HEALTH_TIMEOUT_MS);
+  const started = performance.now();
+  try {
+    const resp = await fetch(`${base}/health`, { signal: controller.signal, cache: "no-store" });
+    const latencyMs = Math.round(performance.now() - started);
+    const body = await resp.json().catch(() => ({}));
+    const version = body.version ?? resp.headers?.get("X-API-Version") ?? null;
+    return resp.ok
+      ? { ok: true, latencyMs, version }
+      : { ok: false, latencyMs, version, error: `HTTP ${resp.status}` };
+  } catch (e: any) {
+    const error = e?.name === "AbortError" ? `No response in ${HEALTH_TIMEOUT_MS / 1000}s` : e?.message || "Unreachable";
+    return { ok: false, latencyMs: null, version: null, error };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// ─── Context ────────────────────────────────────────────────────
+
+/**
+ * Detect if we're running in a content script (vs popup/background).
+ * Content scripts in MV3 are subject to page CORS — must proxy through background.
+ */
+export function isContentScript(): boolean {
+  try {
+    // Test override — force direct fetch in test environment
+    if ((globalThis as any).__RMS_TEST_DIRECT_FETCH) return false;
+    // Content scripts have window.location set to the host page
+    // Background/popup have chrome-extension:// origin
+    return typeof window !== "undefined" &&
+           !window.location.protocol.startsWith("chrome-extension") &&
+           !window.location.protocol.startsWith("moz-extension");
+  } catch {
+    return false;
+  }
+}
+
+async function proxyViaBackground<T>(path: string, options: ApiRequestOptions): Promise<T> {
+  let response;
+  try {
+    response = await sendMessage({
+      type: "API_PROXY", path, body: options.body, method: options.method || "GET",
+      auth: options.auth, retries: options.retries,
+    });
+  } catch (e: any) {
+    throw new ApiError({ kind: "network", message: e.message || "Background proxy failed" });
+  }
+  if (!response?.success) {
+    throw new ApiError(response?.apiError || { kind: "network", message: response?.error || "Proxy request failed" });
+  }
+  return response.data;
+}
+
+// ─── Auth Refresh ───────────────────────────────────────────────
+
+export interface AuthRefresh {
+  authenticated: boolean;
+  auth_token?: string;
+  tier?: string;
+  telegram_id?: number;
+}
+
+let refreshing: Promise<AuthRefresh | null> | null = null;
+
+/**
+ * Ask the API to refresh the stored token (it may be migrated to a merged
+ * identity) and store the new token, tier and Telegram link. Concurrent
+ * callers share one request. Returns null when there's no valid session.
+ */
+export function refreshAuth(): Promise<AuthRefresh | null> {
+  if (!refreshing) refreshing = doRefreshAuth().finally(() => { refreshing = null; });
+  return refreshing;
+}
+
+async function doRefreshAuth(): Promise<AuthRefresh | null> {
+  const data = await chrome.storage.local.get(["auth_token", "tier", "linked_telegram", "account"]);
+  const token: string | undefined = data.auth_token;
+  if (!token || !(await authTokenAllowed())) return null;
+
+  // linked_telegram is the fallback when the old token no longer exists in the DB
+  const query = data.linked_telegram ? `?telegram_id=${data.linked_telegram}` : "";
+  let resp: Response;
+  try {
+    resp = await fetch(`${await getApiBaseUrl()}/ext/auth/refresh${query}`, {
+      headers: { "Authorization": `Bearer ${token}` },
+    });
+  } catch {
+    return null;
+  }
+  if (!resp.ok) return null;
+  const refresh: AuthRefresh = await resp.json();
+  if (!refresh.authenticated) return null;
+
+  const updates: Record<string, unknown> = {};
+  if (refresh.auth_token && refresh.auth_token !== token) {
+    console.log(`[RMS] Token migrated: old=${token.slice(0,8)}… → new=${refresh.auth_token.slice(0,8)}…`);
+    updates.auth_token = refresh.auth_token;
+  }
+  if (refresh.tier && refresh.tier !== data.tier) {
+    console.log(`[RMS] Tier sync: ${data.tier} → ${refresh.tier}`);
+    updates.tier = refresh.tier;
+  }
+  if (refresh.telegram_id) updates.linked_telegram = refresh.telegram_id;
+
+  if (Object.keys(updates).length > 0) {
+    const acct = data.account || {};
+    if (updates.auth_token) acct.authToken = updates.auth_token;
+    if (updates.tier) acct.tier = updates.tier;
+    if (updates.linked_telegram) acct.telegramId = updates.linked_telegram;
+    await chrome.storage.local.set({ ...updates, account: acct });
+  }
+  return refresh;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export interface ApiRequestOptions {
+  method?: "GET" | "POST" | "PUT" | "DELETE";
+  body?: unknown;
+  /** Send the stored auth token (default true) */
+  auth?: boolean;
+  /**
+   * Extra attempts for transient failures. Defaults to 2 for GET and 0
+   * otherwise — only retry writes the server treats as idempotent.
+   */
+  retries?: number;
+}
+
+/**
+ * Call `${apiBase}${path}` and return the parsed JSON body.
+ * Throws ApiError on any failure.
+ */
+export async function apiRequest<T = any>(path: string, options: ApiRequestOptions = {}): Promise<T> {
+  if (isContentScript()) return proxyViaBackground<T>(path, options);
+
+  const token = options.auth !== false ? await storedAuthToken() : null;
+  try {
+    return await send<T>(path, options, token);
+  } catch (e) {
+    if (!(token && e instanceof ApiError && e.kind === "auth_expired")) throw e;
+    // Expired or migrated token — refresh once and retry with the new one
+    const refreshed = await refreshAuth();
+    const newToken = await storedAuthToken();
+    if (!refreshed || !newToken || newToken === token) throw e;
+    return send<T>(path, options, newToken);
+  }
+}
+
+async function send<T>(path: string, options: ApiRequestOptions, token: string | null): Promise<T> {
+  const method = options.method || "GET";
+  const retries = options.retries ?? (method === "GET" ? 2 : 0);
+
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (token) headers["Authorization"] = `Bearer ${token}`;
+  const url = `${await getApiBaseUrl()}${path}`;
+
+  for (let attempt = 0; ; attempt++) {
+    let resp: Response;
+    try {
+      resp = await fetch(url, {
+        method,
+        headers,
+        body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+      });
+    } catch (e: any) {
+      if (attempt < retries) {
+        await sleep(backoffDelay(attempt));
+        continue;
+      }
+      throw new ApiError({ kind: "network", message: e?.message || "Network error" });
+    }
+
+    const quota = resp.headers ? parseQuota(resp.headers) : null;
+    if (quota) await saveQuota(quota);
+
+    if (resp.ok) return await resp.json();
+
+    const kind = classifyStatus(resp.status);
+    const retryAfterMs = resp.headers ? parseRetryAfter(resp.headers.get("Retry-After")) : null;
+    const canRetry = attempt < retries && (
+      kind === "rate_limited"
+        ? retryAfterMs != null && retryAfterMs <= MAX_RETRY_WAIT_MS
+        : RETRYABLE_STATUS.has(resp.status)
+    );
+    if (canRetry) {
+      await sleep(retryAfterMs != null && retryAfterMs <= MAX_RETRY_WAIT_MS ? retryAfterMs : backoffDelay(attempt));
+      continue;
+    }
+
+    // A 429 means the quota is spent, whatever the headers said
+    let errorQuota = quota;
+    if (kind === "rate_limited") {
+      errorQuota = {
+        limit: quota?.limit ?? null,
+        remaining: 0,
+        resetAt: quota?.resetAt ?? (retryAfterMs != null ? Date.now() + retryAfterMs : null),
+      };
+      await saveQuota(errorQuota);
+    }
+
+    const err = await resp.json().catch(() => ({}));
+    throw new ApiError({
+      kind,
+      message: typeof err.detail === "string" ? err.detail : err.message || `HTTP ${resp.status}`,
+      status: resp.status,
+      retryAfterMs,
+      quota: errorQuota,
+    });
+  }
+}
@@ -9,7 +9,7 @@
  * 5. Authenticate with the address
  */
 
-import { getApiBase } from "../utils/config";
+import { apiRequest, toApiErrorInfo } from "./http";
 
 interface DeeplinkInitResponse {
   session_token: string;
@@ -23,26 +23,13 @@ interface DeeplinkStatus {
   error?: string;
 }
 
-let _apiBase: string | null = null;
-
-async function getBase(): Promise<string> {
-  if (!_apiBase) _apiBase = await getApiBase();
-  return _apiBase;
-}
-
 /**
  * Initialize a Phantom deeplink connect session.
  * Returns the URL to open and a session token for polling.
  */
 export async function initPhantomDeeplink(): Promise<DeeplinkInitResponse | null> {
   try {
-    const base = await getBase();
-    const resp = await fetch(`${base}/ext/phantom-deeplink/init`, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-    });
-    if (!resp.ok) return null;
-    return await resp.json();
+    return await apiRequest("/ext/phantom-deeplink/init", { method: "POST", auth: false });
   } catch {
     return null;
   }
@@ -53,12 +40,10 @@ export async function initPhantomDeeplink(): Promise<DeeplinkInitResponse | null
  */
 export async function checkDeeplinkStatus(sessionToken: string): Promise<DeeplinkStatus> {
   try {
-    const base = await getBase();
-    const resp = await fetch(`${base}/ext/phantom-deeplink/status/${sessionToken}`);
-    if (!resp.ok) return { status: "error", error: `HTTP ${resp.status}` };
-    return await resp.json();
-  } catch {
-    return { status: "error", error: "Network error" };
+    return await apiRequest(`/ext/phantom-deeplink/status/${sessionToken}`, { auth: false, retries: 0 });
+  } catch (e) {
+    const err = toApiErrorInfo(e);
+    return { status: "error", error: err.status ? `HTTP ${err.status}` : "Network error" };
   }
 }
 
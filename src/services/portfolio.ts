@@ -0,0 +1,184 @@
+/**
+ * Portfolio — risk across the SPL tokens held by the user's linked wallets.
+ *
+ * Holdings come from the API per wallet, are merged by mint and
+ * batch-scanned, then sorted riskiest first. The popup keeps its last
+ * report in chrome.storage.local ("portfolio_report") to open on; the
+ * background "portfolio-recheck" alarm re-runs the scan for wallets with
+ * auto-sync on and notifies when a held token turns Critical — but only
+ * after a complete run, see newlyCriticalHoldings().
+ */
+
+import { apiRequest } from "./http";
+import type { BatchScanResponse, ScanResult } from "./api";
+import type { WalletInfo } from "./walletAuth";
+import { riskLabel } from "../utils/designTokens";
+
+const REPORT_KEY = "portfolio_report";
+const CRITICAL_KEY = "portfolio_critical";
+/** Tokens per /ext/batch call */
+const BATCH_SIZE = 50;
+
+export interface TokenHolding {
+  mint: string;
+  /** UI amount (decimals applied) */
+  amount: number;
+  /** API valuation, when it has one; otherwise amount × scan price */
+  value_usd?: number | null;
+}
+
+export interface PortfolioRow {
+  mint: string;
+  chain: string;
+  symbol: string | null;
+  name: string | null;
+  risk_score: number | null;
+  amount: number;
+  value_usd: number;
+  /** Addresses of the linked wallets holding it */
+  wallets: string[];
+}
+
+export interface PortfolioExposure {
+  totalValue: number;
+  /** USD held in High-risk tokens */
+  high: number;
+  /** USD held in Critical-risk tokens */
+  critical: number;
+}
+
+export interface PortfolioReport {
+  rows: PortfolioRow[];
+  exposure: PortfolioExposure;
+  scannedAt: number;
+  /** Wallets whose holdings couldn't be fetched */
+  failedWallets: string[];
+  /** A batch scan failed, so some rows are unscanned for no reason of their own */
+  scanFailed: boolean;
+}
+
+export async function getWalletHoldings(wallet: WalletInfo): Promise<TokenHolding[]> {
+  const data = await apiRequest(`/ext/wallets/${wallet.id}/holdings`);
+  return (data.holdings || []).filter((h: TokenHolding) => h.amount > 0);
+}
+
+/** Riskiest first; unscanned tokens after scored ones; then by value */
+export function comparePortfolioRows(a: PortfolioRow, b: PortfolioRow): number {
+  if (a.risk_score !== b.risk_score) {
+    if (a.risk_score == null) return 1;
+    if (b.risk_score == null) return -1;
+    return b.risk_score - a.risk_score;
+  }
+  return b.value_usd - a.value_usd;
+}
+
+export function portfolioExposure(rows: PortfolioRow[]): PortfolioExposure {
+  const exposure: PortfolioExposure = { totalValue: 0, high: 0, critical: 0 };
+  for (const row of rows) {
+    exposure.totalValue += row.value_usd;
+    const band = riskLabel(row.risk_score);
+    if (band === "Critical") exposure.critical += row.value_usd;
+    else if (band === "High") exposure.high += row.value_usd;
+  }
+  return exposure;
+}
+
+/**
+ * Batch-scan any number of tokens on one chain, BATCH_SIZE per call. A
+ * batch that fails is skipped and reported through `failed`.
+ */
+export async function scanInBatches(
+  mints: string[],
+  chain: string,
+): Promise<{ results: Record<string, ScanResult>; failed: boolean }> {
+  const results: Record<string, ScanResult> = {};
+  let failed = false;
+  for (let i = 0; i < mints.length; i += BATCH_SIZE) {
+    try {
+      const resp: BatchScanResponse = await apiRequest("/ext/batch", {
+        method: "POST", body: { tokens: mints.slice(i, i + BATCH_SIZE), chain }, retries: 2,
+      });
+      Object.assign(results, resp.results);
+    } catch {
+      failed = true;
+    }
+  }
+  return { results, failed };
+}
+
+/**
+ * Fetch every Solana wallet's holdings and scan them. A wallet that fails
+ * is listed in `failedWallets`; the rest still count. A failed batch scan
+ * sets `scanFailed`.
+ */
+export async function scanPortfolio(wallets: WalletInfo[]): Promise<PortfolioReport> {
+  const holdings = new Map<string, { amount: number; value: number | null; wallets: string[] }>();
+  const failedWallets: string[] = [];
+
+  for (const wallet of wallets.filter((w) => w.chain === "solana")) {
+    let held: TokenHolding[];
+    try {
+      held = await getWalletHoldings(wallet);
+    } catch {
+      failedWallets.push(wallet.address);
+      continue;
+    }
+    for (const h of held) {
+      const entry = holdings.get(h.mint) ?? { amount: 0, value: null, wallets: [] };
+      entry.amount += h.amount;
+      if (h.value_usd != null) entry.value = (entry.value ?? 0) + h.value_usd;
+      entry.wallets.push(wallet.address);
+      holdings.set(h.mint, entry);
+    }
+  }
+
+  const mints = [...holdings.keys()];
+  const { results, failed: scanFailed } = await scanInBatches(mints, "solana");
+
+  const rows: PortfolioRow[] = mints.map((mint) => {
+    const held = holdings.get(mint)!;
+    const data = results[mint];
+    const scanned = data && !data.not_scanned ? data : null;
+    return {
+      mint,
+      chain: "solana",
+      symbol: scanned?.token_symbol ?? null,
+      name: scanned?.token_name ?? null,
+      risk_score: scanned?.risk_score ?? null,
+      amount: held.amount,
+      value_usd: held.value ?? held.amount * (scanned?.price_usd || 0),
+      wallets: held.wallets,
+    };
+  }).sort(comparePortfolioRows);
+
+  return { rows, exposure: portfolioExposure(rows), scannedAt: Date.now(), failedWallets, scanFailed };
+}
+
+export async function savePortfolio(report: PortfolioReport): Promise<void> {
+  await chrome.storage.local.set({ [REPORT_KEY]: report });
+}
+
+export async function getLastPortfolio(): Promise<PortfolioReport | null> {
+  try {
+    const result = await chrome.storage.local.get(REPORT_KEY);
+    return result[REPORT_KEY] || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Rows that are Critical now but weren't at the previous call, then
+ * remember the current set. The first call only records a baseline, so
+ * turning auto-sync on doesn't alert on tokens that were already Critical.
+ * An incomplete report (a wallet or batch scan failed) changes nothing:
+ * it would shrink the set and re-alert on the next full run.
+ */
+export async function newlyCriticalHoldings(report: PortfolioReport): Promise<PortfolioRow[]> {
+  if (report.failedWallets.length > 0 || report.scanFailed) return [];
+  const critical = report.rows.filter((r) => riskLabel(r.risk_score) === "Critical");
+  const { [CRITICAL_KEY]: previous } = await chrome.storage.local.get(CRITICAL_KEY);
+  await chrome.storage.local.set({ [CRITICAL_KEY]: critical.map((r) => r.mint) });
+  if (!Array.isArray(previous)) return [];
+  return critical.filter((r) => !previous.includes(r.mint));
+}
@@ -0,0 +1,225 @@
+/**
+ * Scan Cache — latest result per token, shared by every extension surface.
+ *
+ * Lives in one IndexedDB store on the extension origin; content scripts
+ * scan through the background (SCAN_TOKEN) so nothing is cached in a host
+ * page's IndexedDB.
+ *
+ * - Per-field TTLs: market data goes stale in minutes, contract authority
+ *   in a day. Stale entries are still served while api.ts revalidates;
+ *   past the longest TTL an entry is expired and only used offline.
+ * - LRU cap: least recently read entries are evicted past the size limit.
+ * - Hit / miss counters for the Settings page.
+ */
+
+import type { ScanResult } from "./api";
+import { diffScans, type ScanDiff } from "../utils/scanDiff";
+import { getSettings } from "../utils/config";
+
+const DB_NAME = "rugmunch_cache";
+const DB_VERSION = 2;
+const STORE_NAME = "scans";
+const STATS_KEY = "scan_cache_stats";
+const MAX_SNAPSHOTS = 5;
+
+export type FieldGroup = "market" | "holders" | "risk" | "authority";
+export type TtlPolicy = Record<FieldGroup, number>;
+
+export const DEFAULT_TTL: TtlPolicy = {
+  market: 5 * 60_000,
+  holders: 15 * 60_000,
+  risk: 30 * 60_000,
+  authority: 24 * 60 * 60_000,
+};
+
+const FIELD_GROUPS: Record<FieldGroup, (keyof ScanResult)[]> = {
+  market: [
+    "price_usd", "liquidity_usd", "market_cap", "volume_24h", "price_change_24h",
+    "txns_24h_buys", "txns_24h_sells",
+  ],
+  holders: ["holder_count", "top_10_holder_percent"],
+  risk: ["risk_score", "risk_label", "risk_factors", "risk_breakdown"],
+  authority: ["mint_authority", "freeze_authority", "creator_address", "created_at"],
+};
+
+export interface ScanSnapshot {
+  data: ScanResult;
+  timestamp: number;
+}
+
+export interface CachedScan extends ScanSnapshot {
+  /** tokenKey() — mint, or chain:address for EVM */
+  mint: string;
+  lastAccess?: number;
+  /** Prior results for this token, oldest first */
+  snapshots?: ScanSnapshot[];
+}
+
+export type Freshness = "fresh" | "stale" | "expired";
+
+export interface CacheStats {
+  entries: number;
+  bytes: number;
+  oldest: number | null;
+  hits: number;
+  staleHits: number;
+  misses: number;
+}
+
+function openDB(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      const store = db.objectStoreNames.contains(STORE_NAME)
+        ? req.transaction!.objectStore(STORE_NAME)
+        : db.createObjectStore(STORE_NAME, { keyPath: "mint" });
+      if (!store.indexNames.contains("lastAccess")) store.createIndex("lastAccess", "lastAccess");
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function promisify<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+// ─── Policy ─────────────────────────────────────────────────────
+
+export async function getTtlPolicy(): Promise<TtlPolicy> {
+  const settings = await getSettings();
+  return { ...DEFAULT_TTL, market: settings.cacheMarketTtlMinutes * 60_000 };
+}
+
+/**
+ * Field groups whose TTL has run out. Groups the API didn't return
+ * don't count — a missing field can't be stale.
+ */
+export function staleGroups(entry: ScanSnapshot, ttl: TtlPolicy, now = Date.now()): FieldGroup[] {
+  const age = now - entry.timestamp;
+  return (Object.keys(FIELD_GROUPS) as FieldGroup[]).filter((group) =>
+    age >= ttl[group] && FIELD_GROUPS[group].some((field) => entry.data[field] != null),
+  );
+}
+
+export function freshness(entry: ScanSnapshot, ttl: TtlPolicy, now = Date.now()): Freshness {
+  if (now - entry.timestamp >= Math.max(...Object.values(ttl))) return "expired";
+  return staleGroups(entry, ttl, now).length > 0 ? "stale" : "fresh";
+}
+
+export function diffFromSnapshots(entry: CachedScan): ScanDiff | null {
+  const prev = entry.snapshots?.[entry.snapshots.length - 1];
+  return prev ? diffScans(prev.data, entry.data, prev.timestamp) : null;
+}
+
+/**
+ * Keys to drop so at most `max` entries remain, least recently used first.
+ */
+export function lruEvictions(entries: CachedScan[], max: number): string[] {
+  if (entries.length <= max) return [];
+  return [...entries]
+    .sort((a, b) => (a.lastAccess ?? a.timestamp) - (b.lastAccess ?? b.timestamp))
+    .slice(0, entries.length - max)
+    .map((e) => e.mint);
+}
+
+// ─── Storage ────────────────────────────────────────────────────
+
+/**
+ * Cached entry for a token key. Reading marks it as recently used.
+ */
+export async function getCachedScan(key: string): Promise<CachedScan | null> {
+  try {
+    const db = await openDB();
+    const store = db.transaction(STORE_NAME, "readwrite").objectStore(STORE_NAME);
+    const entry: CachedScan | undefined = await promisify(store.get(key));
+    if (!entry) return null;
+    store.put({ ...entry, lastAccess: Date.now() });
+    return entry;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Store the latest result, pushing the previous one onto `snapshots`
+ * so consecutive scans can be diffed, then enforce the size cap.
+ */
+export async function putCachedScan(key: string, data: ScanResult): Promise<void> {
+  try {
+    const existing = await getCachedScan(key);
+    const snapshots = existing
+      ? [...(existing.snapshots || []), { data: existing.data, timestamp: existing.timestamp }].slice(-MAX_SNAPSHOTS)
+      : [];
+    const { cacheMaxEntries } = await getSettings();
+    const now = Date.now();
+    const db = await openDB();
+    const store = db.transaction(STORE_NAME, "readwrite").objectStore(STORE_NAME);
+    await promisify(store.put({ mint: key, data, timestamp: now, lastAccess: now, snapshots } satisfies CachedScan));
+
+    const count = await promisify(store.count());
+    if (count > cacheMaxEntries) await pruneScanCache();
+  } catch {}
+}
+
+/**
+ * Drop expired entries and evict down to the configured size cap.
+ */
+export async function pruneScanCache(): Promise<void> {
+  try {
+    const [ttl, { cacheMaxEntries }] = await Promise.all([getTtlPolicy(), getSettings()]);
+    const db = await openDB();
+    const store = db.transaction(STORE_NAME, "readwrite").objectStore(STORE_NAME);
+    const all: CachedScan[] = await promisify(store.getAll());
+    const now = Date.now();
+
+    const live = all.filter((e) => {
+      if (freshness(e, ttl, now) !== "expired") return true;
+      store.delete(e.mint);
+      return false;
+    });
+    for (const key of lruEvictions(live, cacheMaxEntries)) store.delete(key);
+  } catch (e) {
+    console.error("[RMS] Cache cleanup error:", e);
+  }
+}
+
+// ─── Stats ──────────────────────────────────────────────────────
+
+export async function recordCacheLookup(kind: "hit" | "stale" | "miss"): Promise<void> {
+  try {
+    const { [STATS_KEY]: stats = { hits: 0, staleHits: 0, misses: 0 } } = await chrome.storage.local.get(STATS_KEY);
+    if (kind === "hit") stats.hits++;
+    else if (kind === "stale") stats.staleHits++;
+    else stats.misses++;
+    await chrome.storage.local.set({ [STATS_KEY]: stats });
+  } catch {}
+}
+
+export async function getCacheStats(): Promise<CacheStats> {
+  const { [STATS_KEY]: counters = { hits: 0, staleHits: 0, misses: 0 } } = await chrome.storage.local.get(STATS_KEY);
+  try {
+    const db = await openDB();
+    const all: CachedScan[] = await promisify(db.transaction(STORE_NAME, "readonly").objectStore(STORE_NAME).getAll());
+    return {
+      entries: all.length,
+      bytes: all.reduce((sum, e) => sum + JSON.stringify(e).length, 0),
+      oldest: all.length ? Math.min(...all.map((e) => e.timestamp)) : null,
+      ...counters,
+    };
+  } catch {
+    return { entries: 0, bytes: 0, oldest: null, ...counters };
+  }
+}
+
+export async function clearScanCache(): Promise<void> {
+  try {
+    const db = await openDB();
+    await promisify(db.transaction(STORE_NAME, "readwrite").objectStore(STORE_NAME).clear());
+  } catch {}
+  await chrome.storage.local.remove(STATS_KEY);
+}
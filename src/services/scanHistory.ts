@@ -0,0 +1,181 @@
+/**
+ * Scan History — durable log of every scan the user has looked at.
+ *
+ * Unlike the scan cache (services/scanCache.ts — latest result per token,
+ * evicted by TTL and size), history keeps one entry per scan with
+ * timestamp, source site and the full ScanResult. Lives in its own
+ * IndexedDB database on the extension origin; content-script scans are
+ * recorded by the background, which runs them (SCAN_TOKEN).
+ */
+
+import type { ScanResult } from "./api";
+import { riskLabel } from "../utils/designTokens";
+
+const DB_NAME = "rugmunch_history";
+const DB_VERSION = 1;
+const STORE_NAME = "history";
+export const MAX_HISTORY_ENTRIES = 5000;
+/** Same token from the same source within this window is one "look" */
+const DEDUPE_WINDOW_MS = 60_000;
+
+export interface HistoryEntry {
+  id?: number;
+  mint: string;
+  chain: string;
+  symbol: string | null;
+  name: string | null;
+  risk_score: number | null;
+  source: string;
+  timestamp: number;
+  data: ScanResult;
+}
+
+export type RiskBand = "Low" | "Moderate" | "High" | "Critical" | "Unknown";
+
+export interface HistoryFilter {
+  search?: string;
+  bands?: RiskBand[];
+}
+
+function openDB(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        const store = db.createObjectStore(STORE_NAME, { keyPath: "id", autoIncrement: true });
+        store.createIndex("mint", "mint");
+        store.createIndex("timestamp", "timestamp");
+      }
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function promisify<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+export async function addHistoryEntry(data: ScanResult, source: string): Promise<void> {
+  if (data.not_scanned) return;
+  try {
+    const db = await openDB();
+    const store = db.transaction(STORE_NAME, "readwrite").objectStore(STORE_NAME);
+    const now = Date.now();
+
+    const previous: HistoryEntry[] = await promisify(store.index("mint").getAll(data.token_address));
+    const recent = previous.find((e) => e.source === source && now - e.timestamp < DEDUPE_WINDOW_MS);
+    if (recent?.id != null) {
+      // Refresh the existing entry instead of logging a duplicate
+      store.put({ ...recent, risk_score: data.risk_score, timestamp: now, data });
+      return;
+    }
+
+    store.add({
+      mint: data.token_address,
+      chain: data.chain || "solana",
+      symbol: data.token_symbol,
+      name: data.token_name,
+      risk_score: data.risk_score,
+      source,
+      timestamp: now,
+      data,
+    } satisfies HistoryEntry);
+
+    // Cap size — drop the oldest entries
+    const count = await promisify(store.count());
+    if (count > MAX_HISTORY_ENTRIES) {
+      let excess = count - MAX_HISTORY_ENTRIES;
+      const cursorReq = store.index("timestamp").openCursor();
+      cursorReq.onsuccess = () => {
+        const cursor = cursorReq.result;
+        if (!cursor || excess <= 0) return;
+        cursor.delete();
+        excess--;
+        cursor.continue();
+      };
+    }
+  } catch (e) {
+    console.debug("[RMS] History write failed:", e);
+  }
+}
+
+/**
+ * All history entries, newest first, optionally filtered.
+ */
+export async function getHistory(filter: HistoryFilter = {}): Promise<HistoryEntry[]> {
+  try {
+    const db = await openDB();
+    const store = db.transaction(STORE_NAME, "readonly").objectStore(STORE_NAME);
+    const all: HistoryEntry[] = await promisify(store.getAll());
+    return filterHistory(all, filter);
+  } catch {
+    return [];
+  }
+}
+
+export async function clearHistory(): Promise<void> {
+  try {
+    const db = await openDB();
+    await promisify(db.transaction(STORE_NAME, "readwrite").objectStore(STORE_NAME).clear());
+  } catch {}
+}
+
+export function riskBand(score: number | null | undefined): RiskBand {
+  return riskLabel(score) as RiskBand;
+}
+
+/**
+ * Search by symbol / name / mint (case-insensitive) and filter by risk band.
+ * Returns newest first.
+ */
+export function filterHistory(entries: HistoryEntry[], filter: HistoryFilter = {}): HistoryEntry[] {
+  const q = filter.search?.trim().toLowerCase();
+  const bands = filter.bands?.length ? new Set(filter.bands) : null;
+
+  return entries
+    .filter((e) => {
+      if (bands && !bands.has(riskBand(e.risk_score))) return false;
+      if (!q) return true;
+      return e.mint.toLowerCase().includes(q) ||
+        (e.symbol || "").toLowerCase().includes(q) ||
+        (e.name || "").toLowerCase().includes(q);
+    })
+    .sort((a, b) => b.timestamp - a.timestamp);
+}
+
+// ─── Export ─────────────────────────────────────────────────────
+
+const CSV_COLUMNS = [
+  "timestamp", "mint", "chain", "symbol", "name", "risk_score", "risk_band", "source",
+  "price_usd", "liquidity_usd", "market_cap", "holder_count", "top_10_holder_percent",
+] as const;
+
+function csvCell(value: unknown): string {
+  if (value == null) return "";
+  let s = String(value);
+  // Token names / symbols are attacker-chosen: keep spreadsheets from running them as formulas
+  if (typeof value === "string" && /^[=+\-@\t\r]/.test(s)) s = `'${s}`;
+  return /[",\n\r]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+export function historyToCsv(entries: HistoryEntry[]): string {
+  const rows = entries.map((e) => [
+    new Date(e.timestamp).toISOString(), e.mint, e.chain, e.symbol, e.name,
+    e.risk_score, riskBand(e.risk_score), e.source,
+    e.data.price_usd, e.data.liquidity_usd, e.data.market_cap,
+    e.data.holder_count, e.data.top_10_holder_percent,
+  ].map(csvCell).join(","));
+  return [CSV_COLUMNS.join(","), ...rows].join("\n");
+}
+
+export function historyToJson(entries: HistoryEntry[]): string {
+  return JSON.stringify(entries.map(({ id: _id, ...e }) => ({
+    ...e,
+    timestamp: new Date(e.timestamp).toISOString(),
+  })), null, 2);
+}
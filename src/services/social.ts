@@ -2,22 +2,7 @@
  * Social & Reputation API — follow system, reputation perks, feeds.
  */
 
-import { getApiBase } from "../utils/config";
-
-let _apiBaseCache: string | null = null;
-async function base(): Promise<string> {
-  if (!_apiBaseCache) _apiBaseCache = await getApiBase();
-  return _apiBaseCache;
-}
-
-async function authHeaders(): Promise<Record<string, string>> {
-  const h: Record<string, string> = { "Content-Type": "application/json" };
-  try {
-    const { auth_token } = await chrome.storage.local.get("auth_token");
-    if (auth_token) h["Authorization"] = `Bearer ${auth_token}`;
-  } catch {}
-  return h;
-}
+import { apiRequest, ApiError } from "./http";
 
 // ─── Reputation ────────────────────────────────────────────────
 
@@ -73,41 +58,35 @@ export interface RepLeader {
 
 export async function getReputation(): Promise<ReputationProfile | null> {
   try {
-    const r = await fetch(`${await base()}/ext/reputation`, { headers: await authHeaders() });
-    return r.ok ? await r.json() : null;
+    return await apiRequest(`/ext/reputation`);
   } catch { return null; }
 }
 
 export async function getRepHistory(limit = 20, offset = 0): Promise<{ events: RepEvent[]; total: number } | null> {
   try {
-    const r = await fetch(`${await base()}/ext/reputation/history?limit=${limit}&offset=${offset}`, { headers: await authHeaders() });
-    return r.ok ? await r.json() : null;
+    return await apiRequest(`/ext/reputation/history?limit=${limit}&offset=${offset}`);
   } catch { return null; }
 }
 
 export async function getRepPerks(): Promise<{ perks: Perk[]; tiers: Record<string, any>; point_values: Record<string, number> } | null> {
   try {
-    const r = await fetch(`${await base()}/ext/reputation/perks`);
-    return r.ok ? await r.json() : null;
+    return await apiRequest(`/ext/reputation/perks`, { auth: false });
   } catch { return null; }
 }
 
 export async function getRepLeaderboard(period = "alltime", limit = 10): Promise<{ leaders: RepLeader[] } | null> {
   try {
-    const r = await fetch(`${await base()}/ext/reputation/leaderboard?period=${period}&limit=${limit}`);
-    return r.ok ? await r.json() : null;
+    return await apiRequest(`/ext/reputation/leaderboard?period=${period}&limit=${limit}`, { auth: false });
   } catch { return null; }
 }
 
 export async function claimPerk(perkId: string): Promise<{ success: boolean; message: string } | null> {
   try {
-    const r = await fetch(`${await base()}/ext/reputation/claim`, {
-      method: "POST",
-      headers: await authHeaders(),
-      body: JSON.stringify({ perk_id: perkId }),
-    });
-    return await r.json();
-  } catch { return null; }
+    return await apiRequest("/ext/reputation/claim", { method: "POST", body: { perk_id: perkId } });
+  } catch (e) {
+    // Server explains refusals (not enough points, already claimed…)
+    return e instanceof ApiError && e.status != null ? { success: false, message: e.message } : null;
+  }
 }
 
 // ─── Social / Follow ───────────────────────────────────────────
@@ -156,66 +135,51 @@ export interface FeedItem {
 
 export async function getSocialProfile(userId: number): Promise<SocialProfile | null> {
   try {
-    const r = await fetch(`${await base()}/ext/social/profile/${userId}`, { headers: await authHeaders() });
-    return r.ok ? await r.json() : null;
+    return await apiRequest(`/ext/social/profile/${userId}`);
   } catch { return null; }
 }
 
 export async function updateProfile(data: { display_name?: string; bio?: string; is_public?: boolean; show_scans?: boolean }): Promise<boolean> {
   try {
-    const r = await fetch(`${await base()}/ext/social/profile`, {
-      method: "PUT",
-      headers: await authHeaders(),
-      body: JSON.stringify(data),
-    });
-    return r.ok;
+    await apiRequest("/ext/social/profile", { method: "PUT", body: data });
+    return true;
   } catch { return false; }
 }
 
 export async function followUser(userId: number): Promise<boolean> {
   try {
-    const r = await fetch(`${await base()}/ext/social/follow/${userId}`, {
-      method: "POST",
-      headers: await authHeaders(),
-    });
-    return r.ok;
+    await apiRequest(`/ext/social/follow/${userId}`, { method: "POST" });
+    return true;
   } catch { return false; }
 }
 
 export async function unfollowUser(userId: number): Promise<boolean> {
   try {
-    const r = await fetch(`${await base()}/ext/social/follow/${userId}`, {
-      method: "DELETE",
-      headers: await authHeaders(),
-    });
-    return r.ok;
+    await apiRequest(`/ext/social/follow/${userId}`, { method: "DELETE" });
+    return true;
   } catch { return false; }
 }
 
 export async function getFollowing(): Promise<{ following: FollowUser[]; count: number } | null> {
   try {
-    const r = await fetch(`${await base()}/ext/social/following`, { headers: await authHeaders() });
-    return r.ok ? await r.json() : null;
+    return await apiRequest(`/ext/social/following`);
   } catch { return null; }
 }
 
 export async function getFollowers(): Promise<{ followers: FollowUser[]; count: number } | null> {
   try {
-    const r = await fetch(`${await base()}/ext/social/followers`, { headers: await authHeaders() });
-    return r.ok ? await r.json() : null;
+    return await apiRequest(`/ext/social/followers`);
   } catch { return null; }
 }
 
 export async function getFeed(limit = 20, offset = 0): Promise<{ feed: FeedItem[]; count: number } | null> {
   try {
-    const r = await fetch(`${await base()}/ext/social/feed?limit=${limit}&offset=${offset}`, { headers: await authHeaders() });
-    return r.ok ? await r.json() : null;
+    return await apiRequest(`/ext/social/feed?limit=${limit}&offset=${offset}`);
   } catch { return null; }
 }
 
 export async function discoverUsers(limit = 10): Promise<{ users: FollowUser[] } | null> {
   try {
-    const r = await fetch(`${await base()}/ext/social/discover?limit=${limit}`);
-    return r.ok ? await r.json() : null;
+    return await apiRequest(`/ext/social/discover?limit=${limit}`, { auth: false });
   } catch { return null; }
 }
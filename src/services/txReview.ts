@@ -0,0 +1,178 @@
+/**
+ * Transaction review — what a pending Solana transaction would do, for the
+ * opt-in transaction guard (settings.txSimulation).
+ *
+ * Runs in the background for the wallet bridge: decodes the transaction
+ * (utils/txDecode), asks the API to simulate it for the signer's balance
+ * changes, and scans every mint involved. The result's severity decides
+ * whether the bridge stops the transaction with a warning:
+ * - danger: approvals, authority hand-overs, closing an account into
+ *   someone else's wallet, or a Critical-risk mint
+ * - warning: SOL or tokens sent from any of the signers to someone else,
+ *   value leaving the wallet with nothing coming back, a High-risk mint, a
+ *   failing simulation, or an undecodable transaction
+ * - ok: nothing notable — it goes straight to the wallet
+ */
+
+import { apiRequest, toApiErrorInfo } from "./http";
+import { batchScan } from "./api";
+import { decodeTransaction, LOOKUP_ACCOUNT, type DecodedInstruction, type DecodedTransaction } from "../utils/txDecode";
+import { riskLabel } from "../utils/designTokens";
+import { formatUsd } from "../ui-catalog/scanToSpec";
+
+const WRAPPED_SOL = "So11111111111111111111111111111111111111112";
+const U64_MAX = "18446744073709551615";
+const LAMPORTS_PER_SOL = 1_000_000_000;
+// Outflow (USD) that, with nothing coming back, looks like a drain rather than a trade
+const DRAIN_USD = 100;
+
+export type ReviewSeverity = "ok" | "warning" | "danger";
+
+export interface BalanceChange {
+  /** Native SOL is reported under the wrapped SOL mint */
+  mint: string;
+  symbol: string | null;
+  /** UI amount for the signer; negative = leaving the wallet */
+  amount: number;
+  value_usd?: number | null;
+}
+
+export interface TxSimulation {
+  /** False when the transaction would fail on-chain */
+  success: boolean;
+  error?: string | null;
+  balance_changes: BalanceChange[];
+}
+
+export interface RiskyMint {
+  mint: string;
+  symbol: string | null;
+  risk_score: number;
+}
+
+export interface TxReview {
+  severity: ReviewSeverity;
+  /** Instructions worth a warning, in plain words */
+  warnings: string[];
+  balanceChanges: BalanceChange[];
+  /** High / Critical mints the transaction touches, riskiest first */
+  riskyMints: RiskyMint[];
+  /** Why the simulation failed, or couldn't run */
+  simulationError: string | null;
+}
+
+const RANK: Record<ReviewSeverity, number> = { ok: 0, warning: 1, danger: 2 };
+
+const short = (address: string) =>
+  address === LOOKUP_ACCOUNT ? "a lookup-table account" : `${address.slice(0, 4)}…${address.slice(-4)}`;
+
+export async function simulateTransaction(serialized: string, origin: string): Promise<TxSimulation> {
+  return apiRequest("/ext/simulate", {
+    method: "POST",
+    body: { transaction: serialized, chain: "solana", origin },
+  });
+}
+
+/**
+ * Plain-words warning for an instruction that can hand over a signer's
+ * funds. Every required signer counts, not just the fee payer: a drainer
+ * can pay the fee itself and add the victim as a co-signer.
+ */
+export function instructionWarning(
+  ix: DecodedInstruction,
+  signers: string[],
+): { severity: ReviewSeverity; text: string } | null {
+  const { accounts } = ix;
+  switch (ix.kind) {
+    case "approve":
+      return {
+        severity: "danger",
+        text: `Lets ${short(accounts.delegate)} spend ${ix.amount === U64_MAX ? "all" : "some"} of the tokens in ${short(accounts.source)}`,
+      };
+    case "set-authority":
+      return ix.newAuthority
+        ? { severity: "danger", text: `Hands ${ix.authorityType} authority over ${short(accounts.account)} to ${short(ix.newAuthority)}` }
+        : { severity: "warning", text: `Removes ${ix.authorityType} authority from ${short(accounts.account)}` };
+    case "sol-transfer":
+      return signers.includes(accounts.source) && accounts.destination !== accounts.source
+        ? { severity: "warning", text: `Sends ${Number(ix.amount ?? 0) / LAMPORTS_PER_SOL} SOL to ${short(accounts.destination)}` }
+        : null;
+    case "transfer":
+      return signers.includes(accounts.owner)
+        ? { severity: "warning", text: `Sends tokens from ${short(accounts.source)} to ${short(accounts.destination)}` }
+        : null;
+    case "close-account":
+      return accounts.destination && accounts.destination !== accounts.owner
+        ? { severity: "danger", text: `Closes ${short(accounts.account)} and sends what's left to ${short(accounts.destination)}` }
+        : null;
+    default:
+      return null;
+  }
+}
+
+/** Sizeable outflows in a transaction where nothing comes back to the signer */
+function drainWarnings(changes: BalanceChange[]): string[] {
+  if (changes.some((c) => c.amount > 0)) return [];
+  return changes
+    .filter((c) => c.amount < 0 && Math.abs(c.value_usd ?? 0) >= DRAIN_USD)
+    .map((c) => `Sends ${formatUsd(Math.abs(c.value_usd!))} of ${c.symbol ? `$${c.symbol}` : short(c.mint)} out with nothing coming back`);
+}
+
+export async function reviewTransaction(serialized: string, origin: string): Promise<TxReview> {
+  const review: TxReview = { severity: "ok", warnings: [], balanceChanges: [], riskyMints: [], simulationError: null };
+  const raise = (severity: ReviewSeverity) => {
+    if (RANK[severity] > RANK[review.severity]) review.severity = severity;
+  };
+  const mints = new Set<string>();
+
+  let decoded: DecodedTransaction | null = null;
+  try {
+    decoded = decodeTransaction(Uint8Array.from(atob(serialized), (c) => c.charCodeAt(0)));
+  } catch {
+    review.warnings.push("Couldn't decode this transaction");
+    raise("warning");
+  }
+  for (const ix of decoded?.instructions || []) {
+    const warning = instructionWarning(ix, decoded!.signers);
+    if (warning) {
+      review.warnings.push(warning.text);
+      raise(warning.severity);
+    }
+    if (ix.accounts.mint) mints.add(ix.accounts.mint);
+  }
+
+  try {
+    const simulation = await simulateTransaction(serialized, origin);
+    review.balanceChanges = simulation.balance_changes || [];
+    review.balanceChanges.forEach((c) => mints.add(c.mint));
+    for (const text of drainWarnings(review.balanceChanges)) {
+      review.warnings.push(text);
+      raise("warning");
+    }
+    if (!simulation.success) {
+      review.simulationError = simulation.error || "Transaction would fail";
+      raise("warning");
+    }
+  } catch (e) {
+    // Simulation being unavailable isn't a reason to stop the user on its own
+    review.simulationError = toApiErrorInfo(e).message;
+  }
+
+  mints.delete(WRAPPED_SOL);
+  if (mints.size) {
+    try {
+      const { results } = await batchScan([...mints], "solana");
+      for (const data of Object.values(results)) {
+        const band = riskLabel(data.risk_score);
+        if (data.not_scanned || data.risk_score == null || (band !== "High" && band !== "Critical")) continue;
+        review.riskyMints.push({ mint: data.token_address, symbol: data.token_symbol, risk_score: data.risk_score });
+        raise(band === "Critical" ? "danger" : "warning");
+      }
+      review.riskyMints.sort((a, b) => b.risk_score - a.risk_score);
+    } catch {
+      // No scan data — the instructions and simulation still stand on their own
+    }
+  }
+
+  return review;
+}
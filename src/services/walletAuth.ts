@@ -3,82 +3,69 @@
  *
  * Flow:
  * 1. Extension requests a challenge nonce from API
- * 2. Background relays to content script → page-level Phantom.signMessage
+ * 2. Background relays to content script → the page wallet's signMessage
  * 3. Extension sends signature to API for verification
  * 4. API returns auth_token
  *
  * Also handles multi-wallet management.
  */
 
-import { getApiBase } from "../utils/config";
+import { sendMessage } from "../utils/messaging";
+import { apiRequest, toApiErrorInfo } from "./http";
+import type { WalletBridgeResult, WalletMessage, WalletProviderInfo, WalletTransaction } from "../types/messages";
 
-let _apiBase: string | null = null;
-async function getBase(): Promise<string> {
-  if (!_apiBase) _apiBase = await getApiBase();
-  return _apiBase;
-}
+// ─── Wallet Bridge ──────────────────────────────────────────────
 
-async function getHeaders(): Promise<Record<string, string>> {
-  const headers: Record<string, string> = { "Content-Type": "application/json" };
-  const result = await chrome.storage.local.get("auth_token");
-  if (result.auth_token) {
-    headers["Authorization"] = `Bearer ${result.auth_token}`;
+/**
+ * Send a message to the wallet bridge content script via the background.
+ */
+async function walletBridgeCall(message: WalletMessage): Promise<WalletBridgeResult> {
+  try {
+    const response = await sendMessage(message);
+    return response || { success: false, error: "No response from wallet bridge" };
+  } catch (e: any) {
+    return { success: false, error: e.message || "Bridge communication failed" };
   }
-  return headers;
-}
-
-// ─── Phantom Wallet Bridge ──────────────────────────────────────
-
-interface WalletBridgeResult {
-  success: boolean;
-  publicKey?: string;
-  isConnected?: boolean;
-  phantom?: boolean;
-  signature?: string;
-  error?: string;
 }
 
 /**
- * Send a message to the wallet bridge content script via the background.
+ * Solana wallets available on an open crypto tab — injected providers
+ * (Phantom, Solflare, Backpack, Glow) and Wallet Standard wallets.
  */
-async function walletBridgeCall(action: string, params: Record<string, any> = {}): Promise<WalletBridgeResult> {
-  return new Promise((resolve) => {
-    chrome.runtime.sendMessage({ action, ...params }, (response) => {
-      if (chrome.runtime.lastError) {
-        resolve({ success: false, error: chrome.runtime.lastError.message || "Bridge communication failed" });
-        return;
-      }
-      resolve(response || { success: false, error: "No response from wallet bridge" });
-    });
-  });
+export async function detectWallets(): Promise<WalletProviderInfo[]> {
+  const result = await walletBridgeCall({ type: "WALLET_DETECT" });
+  return result.success ? result.wallets || [] : [];
 }
 
 /**
- * Detect if Phantom wallet is available on any open tab.
+ * Connect a wallet and get its public key. Without `walletId` the bridge
+ * uses Phantom, else the first wallet it finds.
  */
-export async function detectPhantom(): Promise<{ available: boolean; connected: boolean; publicKey: string | null }> {
-  const result = await walletBridgeCall("wallet-detect");
-  return {
-    available: result.success && !!result.phantom,
-    connected: result.success && !!result.isConnected,
-    publicKey: result.publicKey || null,
-  };
+export async function connectWallet(walletId?: string): Promise<{ success: boolean; publicKey?: string; error?: string }> {
+  return walletBridgeCall({ type: "WALLET_CONNECT", wallet: walletId });
 }
 
 /**
- * Connect to Phantom wallet and get the public key.
+ * Sign a message with a wallet and return the base58-encoded signature.
  */
-export async function connectPhantom(): Promise<{ success: boolean; publicKey?: string; error?: string }> {
-  const result = await walletBridgeCall("wallet-connect");
-  return result;
+export async function signWithWallet(
+  message: string,
+  nonce: string,
+  walletId?: string,
+): Promise<{ success: boolean; signature?: string; publicKey?: string; error?: string }> {
+  return walletBridgeCall({ type: "WALLET_SIGN", message, nonce, wallet: walletId });
 }
 
 /**
- * Sign a message with Phantom and return the base58-encoded signature.
+ * Have the wallet holding `from` sign and submit a transaction. Without
+ * `walletId` the bridge picks the Solana wallet connected as `from`.
  */
-export async function signWithPhantom(message: string, nonce: string): Promise<{ success: boolean; signature?: string; publicKey?: string; error?: string }> {
-  const result = await walletBridgeCall("wallet-sign", { message, nonce });
-  return result;
+export async function sendWalletTransaction(
+  transaction: WalletTransaction,
+  from: string,
+  walletId?: string,
+): Promise<{ success: boolean; txid?: string; error?: string }> {
+  return walletBridgeCall({ type: "WALLET_SEND_TRANSACTION", transaction, from, wallet: walletId });
 }
 
 // ─── Auth Flow ──────────────────────────────────────────────────
@@ -99,33 +86,27 @@ export interface AuthResult {
  */
 export async function getChallenge(): Promise<{ nonce: string; message: string } | null> {
   try {
-    const base = await getBase();
-    const resp = await fetch(`${base}/ext/auth/challenge`, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-    });
-    if (!resp.ok) return null;
-    return await resp.json();
+    return await apiRequest("/ext/auth/challenge", { method: "POST", auth: false });
   } catch {
     return null;
   }
 }
 
 /**
- * Full wallet auth flow using Phantom signing:
+ * Full wallet auth flow:
  * 1. Get challenge nonce
- * 2. Sign with Phantom
+ * 2. Sign it with the chosen wallet
  * 3. Send signature to API
  */
-export async function authenticateWithPhantom(): Promise<AuthResult> {
+export async function authenticateWithWallet(walletId?: string): Promise<AuthResult> {
   // Step 1: Get challenge
   const challenge = await getChallenge();
   if (!challenge) {
     return { success: false, error: "Couldn't connect to API" };
   }
 
-  // Step 2: Sign with Phantom
-  const signResult = await signWithPhantom(challenge.message, challenge.nonce);
+  // Step 2: Sign with the wallet
+  const signResult = await signWithWallet(challenge.message, challenge.nonce, walletId);
   if (!signResult.success || !signResult.signature || !signResult.publicKey) {
     return { success: false, error: signResult.error || "Wallet signing failed" };
   }
@@ -143,24 +124,16 @@ export async function verifyWalletSignature(
   nonce: string
 ): Promise<AuthResult> {
   try {
-    const base = await getBase();
-    const resp = await fetch(`${base}/ext/auth/verify`, {
+    const data = await apiRequest("/ext/auth/verify", {
       method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
+      body: {
         wallet_address: walletAddress,
         signature,
         nonce,
-      }),
+      },
+      auth: false,
     });
 
-    if (!resp.ok) {
-      const err = await resp.json().catch(() => ({}));
-      return { success: false, error: err.detail || `Error ${resp.status}` };
-    }
-
-    const data = await resp.json();
-
     // Store auth in chrome.storage
     await chrome.storage.local.set({
       auth_token: data.auth_token,
@@ -182,13 +155,13 @@ export async function verifyWalletSignature(
       walletCount: data.wallet_count,
       isNewUser: data.is_new_user,
     };
-  } catch (e: any) {
-    return { success: false, error: e.message || "Connection failed" };
+  } catch (e) {
+    return { success: false, error: toApiErrorInfo(e).message || "Connection failed" };
   }
 }
 
 /**
- * Manual wallet auth (paste address) — fallback when Phantom isn't available.
+ * Manual wallet auth (paste address) — fallback when no wallet is available.
  * Uses a simplified flow without signature verification.
  */
 export async function authenticateWithAddress(walletAddress: string): Promise<AuthResult> {
@@ -213,11 +186,7 @@ export interface WalletInfo {
 
 export async function listWallets(): Promise<WalletInfo[]> {
   try {
-    const base = await getBase();
-    const headers = await getHeaders();
-    const resp = await fetch(`${base}/ext/wallets`, { headers });
-    if (!resp.ok) return [];
-    const data = await resp.json();
+    const data = await apiRequest("/ext/wallets");
     return data.wallets || [];
   } catch {
     return [];
@@ -230,20 +199,13 @@ export async function addWallet(
   label?: string
 ): Promise<{ success: boolean; error?: string }> {
   try {
-    const base = await getBase();
-    const headers = await getHeaders();
-    const resp = await fetch(`${base}/ext/wallets`, {
+    await apiRequest("/ext/wallets", {
       method: "POST",
-      headers,
-      body: JSON.stringify({ wallet_address: address, chain, label }),
+      body: { wallet_address: address, chain, label },
     });
-    if (!resp.ok) {
-      const err = await resp.json().catch(() => ({}));
-      return { success: false, error: err.detail || `Error ${resp.status}` };
-    }
     return { success: true };
-  } catch (e: any) {
-    return { success: false, error: e.message };
+  } catch (e) {
+    return { success: false, error: toApiErrorInfo(e).message };
   }
 }
 
@@ -251,19 +213,10 @@ export async function removeWallet(
   walletId: number
 ): Promise<{ success: boolean; error?: string }> {
   try {
-    const base = await getBase();
-    const headers = await getHeaders();
-    const resp = await fetch(`${base}/ext/wallets/${walletId}`, {
-      method: "DELETE",
-      headers,
-    });
-    if (!resp.ok) {
-      const err = await resp.json().catch(() => ({}));
-      return { success: false, error: err.detail };
-    }
+    await apiRequest(`/ext/wallets/${walletId}`, { method: "DELETE" });
     return { success: true };
-  } catch (e: any) {
-    return { success: false, error: e.message };
+  } catch (e) {
+    return { success: false, error: toApiErrorInfo(e).message };
   }
 }
 
@@ -272,18 +225,15 @@ export async function updateWallet(
   updates: { label?: string; autoSync?: boolean; isPrimary?: boolean }
 ): Promise<{ success: boolean }> {
   try {
-    const base = await getBase();
-    const headers = await getHeaders();
-    const resp = await fetch(`${base}/ext/wallets/${walletId}`, {
+    await apiRequest(`/ext/wallets/${walletId}`, {
       method: "PUT",
-      headers,
-      body: JSON.stringify({
+      body: {
         label: updates.label,
         auto_sync: updates.autoSync,
         is_primary: updates.isPrimary,
-      }),
+      },
     });
-    return { success: resp.ok };
+    return { success: true };
   } catch {
     return { success: false };
   }
@@ -0,0 +1,177 @@
+/**
+ * Watchlist — tokens the user wants re-checked in the background.
+ *
+ * Stored in chrome.storage.local ("watchlist") so popup, content scripts
+ * and the background worker all share one list. The background
+ * "watchlist-rescan" alarm re-scans every entry via batchScan and raises
+ * alerts from detectWatchChanges().
+ *
+ * Entries are told apart by tokenKey(): the same EVM contract can be
+ * watched on several chains, and EVM addresses match case-insensitively.
+ */
+
+import type { ScanResult } from "./api";
+import { riskLabel } from "../utils/designTokens";
+import { tokenKey } from "../utils/chains";
+
+const STORAGE_KEY = "watchlist";
+export const MAX_WATCHED = 50;
+const MAX_HISTORY = 48;
+/** Liquidity falling by this fraction or more between checks triggers an alert */
+const LIQUIDITY_DROP_RATIO = 0.5;
+
+export interface WatchSnapshot {
+  timestamp: number;
+  risk_score: number | null;
+  liquidity_usd: number;
+  mint_authority: boolean | null;
+  freeze_authority: boolean | null;
+}
+
+export interface WatchedToken {
+  mint: string;
+  chain: string;
+  symbol: string | null;
+  name: string | null;
+  addedAt: number;
+  /** Oldest first, capped at MAX_HISTORY */
+  history: WatchSnapshot[];
+}
+
+export type WatchAlertKind = "risk_band" | "liquidity_drop" | "mint_authority" | "freeze_authority";
+
+export interface WatchAlert {
+  kind: WatchAlertKind;
+  message: string;
+}
+
+export function snapshotOf(data: ScanResult, timestamp = Date.now()): WatchSnapshot {
+  return {
+    timestamp,
+    risk_score: data.risk_score,
+    liquidity_usd: data.liquidity_usd || 0,
+    mint_authority: data.mint_authority ?? null,
+    freeze_authority: data.freeze_authority ?? null,
+  };
+}
+
+export function latestSnapshot(token: WatchedToken): WatchSnapshot | null {
+  return token.history[token.history.length - 1] || null;
+}
+
+export async function getWatchlist(): Promise<WatchedToken[]> {
+  try {
+    const result = await chrome.storage.local.get(STORAGE_KEY);
+    return result[STORAGE_KEY] || [];
+  } catch {
+    return [];
+  }
+}
+
+async function saveWatchlist(list: WatchedToken[]): Promise<void> {
+  await chrome.storage.local.set({ [STORAGE_KEY]: list });
+}
+
+const sameToken = (t: WatchedToken, key: string) => tokenKey(t.mint, t.chain) === key;
+
+export async function isWatched(mint: string, chain = "solana"): Promise<boolean> {
+  const list = await getWatchlist();
+  return list.some((t) => sameToken(t, tokenKey(mint, chain)));
+}
+
+/**
+ * Add a token. Seeds history with the scan it was added from, if any.
+ * Returns false when already watched or the list is full.
+ */
+export async function addToWatchlist(
+  mint: string,
+  chain = "solana",
+  data?: ScanResult | null,
+): Promise<boolean> {
+  const list = await getWatchlist();
+  if (list.some((t) => sameToken(t, tokenKey(mint, chain))) || list.length >= MAX_WATCHED) return false;
+  list.push({
+    mint,
+    chain,
+    symbol: data?.token_symbol ?? null,
+    name: data?.token_name ?? null,
+    addedAt: Date.now(),
+    history: data && !data.not_scanned ? [snapshotOf(data)] : [],
+  });
+  await saveWatchlist(list);
+  return true;
+}
+
+export async function removeFromWatchlist(mint: string, chain = "solana"): Promise<void> {
+  const list = await getWatchlist();
+  await saveWatchlist(list.filter((t) => !sameToken(t, tokenKey(mint, chain))));
+}
+
+/**
+ * Re-key one chain's batchScan results by tokenKey(), ready to merge with
+ * other chains' and hand to applyWatchResults().
+ */
+export function keyWatchResults(results: Record<string, ScanResult>, chain: string): Record<string, ScanResult> {
+  return Object.fromEntries(Object.entries(results).map(([address, data]) => [tokenKey(address, chain), data]));
+}
+
+/**
+ * Compare two consecutive snapshots of the same token.
+ */
+export function detectWatchChanges(prev: WatchSnapshot, next: WatchSnapshot): WatchAlert[] {
+  const alerts: WatchAlert[] = [];
+
+  if (prev.risk_score != null && next.risk_score != null &&
+      riskLabel(prev.risk_score) !== riskLabel(next.risk_score)) {
+    alerts.push({
+      kind: "risk_band",
+      message: `Risk ${riskLabel(prev.risk_score)} → ${riskLabel(next.risk_score)} (${prev.risk_score} → ${next.risk_score})`,
+    });
+  }
+
+  if (prev.liquidity_usd > 0 && next.liquidity_usd <= prev.liquidity_usd * (1 - LIQUIDITY_DROP_RATIO)) {
+    const pct = Math.round((1 - next.liquidity_usd / prev.liquidity_usd) * 100);
+    alerts.push({ kind: "liquidity_drop", message: `Liquidity dropped ${pct}%` });
+  }
+
+  for (const kind of ["mint_authority", "freeze_authority"] as const) {
+    if (prev[kind] != null && next[kind] != null && prev[kind] !== next[kind]) {
+      const label = kind === "mint_authority" ? "Mint authority" : "Freeze authority";
+      alerts.push({ kind, message: `${label} ${next[kind] ? "enabled" : "revoked"}` });
+    }
+  }
+
+  return alerts;
+}
+
+/**
+ * Apply fresh scan results (keyed by tokenKey(), see keyWatchResults) to
+ * the watchlist and return the alerts per token. Tokens missing from
+ * `results` are left untouched.
+ */
+export async function applyWatchResults(
+  results: Record<string, ScanResult>,
+): Promise<Array<{ token: WatchedToken; alerts: WatchAlert[] }>> {
+  const list = await getWatchlist();
+  const changed: Array<{ token: WatchedToken; alerts: WatchAlert[] }> = [];
+  const now = Date.now();
+
+  for (const token of list) {
+    const data = results[tokenKey(token.mint, token.chain)];
+    if (!data || data.not_scanned) continue;
+
+    const next = snapshotOf(data, now);
+    const prev = latestSnapshot(token);
+    token.symbol = data.token_symbol ?? token.symbol;
+    token.name = data.token_name ?? token.name;
+    token.history = [...token.history, next].slice(-MAX_HISTORY);
+
+    if (prev) {
+      const alerts = detectWatchChanges(prev, next);
+      if (alerts.length > 0) changed.push({ token, alerts });
+    }
+  }
+
+  await saveWatchlist(list);
+  return changed;
+}
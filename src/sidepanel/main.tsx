@@ -14,8 +14,13 @@ import React, { useState, useEffect, useRef, useCallback } from "react";
 import { createRoot } from "react-dom/client";
 import { scanToken, type ScanResult } from "../services/api";
 import { trackSidePanelOpen } from "../services/analytics";
+import { apiRequest, ApiError } from "../services/http";
 import { riskLabel, riskEmoji, COLORS } from "../utils/designTokens";
 import { extractMintFromUrl } from "../utils/shadowInject";
+import { extractChainFromUrl } from "../utils/tokenExtractor";
+import { resolveChain } from "../utils/chains";
+import History from "../popup/History";
+import { SIDEPANEL_HANDOFF_KEY, type SidePanelHandoff } from "../ui-catalog/actions";
 
 interface ChatMessage {
   role: "user" | "marcus" | "system";
@@ -40,8 +45,11 @@ const SidePanel: React.FC = () => {
   const [linked, setLinked] = useState(false);
   const [authToken, setAuthToken] = useState<string | null>(null);
   const [detectedMint, setDetectedMint] = useState<string | null>(null);
+  const [detectedChain, setDetectedChain] = useState<string | null>(null);
   const [msgCount] = useState(0);
   const [lastScanResult, setLastScanResult] = useState<ScanResult | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  const [autoSend, setAutoSend] = useState(false);
   const chatEndRef = useRef<HTMLDivElement>(null);
 
   const msgLimit = TIER_SCAN_LIMITS[tier] || 3; // Side panel uses scan limits
@@ -55,18 +63,11 @@ const SidePanel: React.FC = () => {
 
       // Fetch real tier + usage from server
       if (data.auth_token) {
-        import("../utils/config").then(({ getApiBase }) => {
-          getApiBase().then(base => {
-            fetch(`${base}/ext/tier`, {
-              headers: { "Authorization": `Bearer ${data.auth_token}` }
-            })
-            .then(r => r.ok ? r.json() : null)
-            .then(info => {
-              if (info?.tier) setTier(info.tier);
-            })
-            .catch(() => {});
-          });
-        });
+        apiRequest("/ext/tier")
+          .then(info => {
+            if (info?.tier) setTier(info.tier);
+          })
+          .catch(() => {});
       }
     });
 
@@ -93,6 +94,7 @@ const SidePanel: React.FC = () => {
           const mint = extractMintFromUrl(tabs[0].url);
           if (mint && mint !== detectedMint) {
             setDetectedMint(mint);
+            setDetectedChain(extractChainFromUrl(tabs[0].url));
             setMessages(prev => [...prev, {
               role: "system",
               content: `📍 Detected token: \`${mint}\` — type "scan" to analyze it.`,
@@ -114,6 +116,39 @@ const SidePanel: React.FC = () => {
     };
   }, [detectedMint]);
 
+  // Tokens handed over by right-click scans and the catalog's full_scan /
+  // open_chat actions
+  useEffect(() => {
+    const takePending = () => {
+      chrome.storage.local.get(SIDEPANEL_HANDOFF_KEY, (data) => {
+        const pending: SidePanelHandoff | undefined = data[SIDEPANEL_HANDOFF_KEY];
+        if (!pending?.mint) return;
+        chrome.storage.local.remove(SIDEPANEL_HANDOFF_KEY);
+        setShowHistory(false);
+        setDetectedMint(pending.mint);
+        setDetectedChain(pending.chain || null);
+
+        // Chat: start from the scan the user was looking at and let them ask
+        if (pending.mode === "chat" && pending.scan) {
+          const scan = pending.scan;
+          setLastScanResult(scan);
+          setMessages(prev => [...prev, { role: "marcus", content: scanAnalysis(scan), timestamp: Date.now(), scanResult: scan }]);
+          setInput(`What should I watch out for with $${scan.token_symbol || "this token"}?`);
+          return;
+        }
+        setInput(`scan ${pending.mint}`);
+        setAutoSend(true);
+      });
+    };
+    const listener = (changes: Record<string, chrome.storage.StorageChange>, area: string) => {
+      if (area === "local" && changes[SIDEPANEL_HANDOFF_KEY]?.newValue) takePending();
+    };
+
+    takePending();
+    chrome.storage.onChanged.addListener(listener);
+    return () => chrome.storage.onChanged.removeListener(listener);
+  }, []);
+
   // Auto-scroll
   useEffect(() => {
     chatEndRef.current?.scrollIntoView({ behavior: "smooth" });
@@ -142,38 +177,11 @@ const SidePanel: React.FC = () => {
 
     if (mintToScan) {
       // Real token scan
-      const resp = await scanToken(mintToScan);
+      const resp = await scanToken(mintToScan, resolveChain(mintToScan, mintToScan === detectedMint ? detectedChain : null));
       if (resp.success && resp.data && !resp.data.not_scanned) {
         const d = resp.data;
         setLastScanResult(d);
-        const score = d.risk_score;
-        const emoji = riskEmoji(score);
-        const label = riskLabel(score);
-
-        let analysis = `${emoji} **${d.token_symbol || "Unknown"}** — ${label} Risk (${score ?? "??"}/100)\n\n`;
-        analysis += `**Price:** $${d.price_usd ? formatPrice(d.price_usd) : "—"}\n`;
-        analysis += `**Market Cap:** ${formatUsd(d.market_cap)}\n`;
-        analysis += `**Liquidity:** ${formatUsd(d.liquidity_usd)}\n`;
-        analysis += `**Holders:** ${d.holder_count?.toLocaleString() || "—"}\n`;
-        analysis += `**Top 10%:** ${d.top_10_holder_percent ? d.top_10_holder_percent.toFixed(1) + "%" : "—"}\n`;
-
-        if (d.risk_factors && d.risk_factors.length > 0) {
-          analysis += `\n⚠️ **Risk Factors:**\n`;
-          d.risk_factors.forEach(f => { analysis += `• ${f}\n`; });
-        }
-
-        const verdicts: Record<string, string> = {
-          critical: `\n🚨 *"The obstacle is not the obstacle. The obstacle is your failure to walk away."*`,
-          high: `\n⚠️ *"Begin at once to live, and count each day as a separate life."* Proceed with extreme caution.`,
-          moderate: `\n🟡 Moderate risk. DYOR — not financial advice.`,
-          low: `\n🟢 Low risk indicators, but stay vigilant. No token is truly safe.`,
-        };
-        if (score != null) {
-          const key = score >= 75 ? "critical" : score >= 50 ? "high" : score >= 25 ? "moderate" : "low";
-          analysis += verdicts[key];
-        }
-
-        addMessage("marcus", analysis, d);
+        addMessage("marcus", scanAnalysis(d), d);
       } else {
         addMessage("marcus", `❓ Couldn't analyze that token. It may not exist yet or the scan service timed out. Try the full scan via Telegram: @rug_munchy_bot`);
       }
@@ -199,7 +207,13 @@ const SidePanel: React.FC = () => {
     }
 
     setLoading(false);
-  }, [input, loading, msgCount, msgLimit, tier, detectedMint, lastScanResult, addMessage]);
+  }, [input, loading, msgCount, msgLimit, tier, detectedMint, detectedChain, lastScanResult, addMessage]);
+
+  useEffect(() => {
+    if (!autoSend || loading) return;
+    setAutoSend(false);
+    handleSend();
+  }, [autoSend, loading, handleSend]);
 
   // Gate: any authenticated user
   const hasAccess = tier !== "free" || !!linked || !!authToken;
@@ -234,6 +248,17 @@ const SidePanel: React.FC = () => {
     );
   }
 
+  if (showHistory) {
+    return (
+      <div style={{ minHeight: "100vh", backgroundColor: COLORS.bg }}>
+        <History
+          onBack={() => setShowHistory(false)}
+          onSelect={(mint, chain) => { setShowHistory(false); setDetectedChain(chain); setInput(`scan ${mint}`); }}
+        />
+      </div>
+    );
+  }
+
   return (
     <div style={{
       height: "100vh", backgroundColor: COLORS.bg,
@@ -257,6 +282,14 @@ const SidePanel: React.FC = () => {
         <span style={{ fontSize: 10, color: COLORS.textMuted, marginLeft: "auto" }}>
           {msgCount}/{msgLimit >= 999999 ? "∞" : msgLimit + "/day"}
         </span>
+        <button
+          onClick={() => setShowHistory(true)}
+          title="Scan history"
+          style={{
+            background: "none", border: "none", color: COLORS.textSecondary,
+            cursor: "pointer", fontSize: 14, padding: 2,
+          }}
+        >📜</button>
       </div>
 
       {/* Chat messages */}
@@ -348,6 +381,40 @@ const SidePanel: React.FC = () => {
   );
 };
 
+// ─── Scan Summary ───────────────────────────────────────────────
+
+/** Marcus's chat summary of a scan */
+function scanAnalysis(d: ScanResult): string {
+  const score = d.risk_score;
+  const emoji = riskEmoji(score);
+  const label = riskLabel(score);
+
+  let analysis = `${emoji} **${d.token_symbol || "Unknown"}** — ${label} Risk (${score ?? "??"}/100)\n\n`;
+  analysis += `**Price:** $${d.price_usd ? formatPrice(d.price_usd) : "—"}\n`;
+  analysis += `**Market Cap:** ${formatUsd(d.market_cap)}\n`;
+  analysis += `**Liquidity:** ${formatUsd(d.liquidity_usd)}\n`;
+  analysis += `**Holders:** ${d.holder_count?.toLocaleString() || "—"}\n`;
+  analysis += `**Top 10%:** ${d.top_10_holder_percent ? d.top_10_holder_percent.toFixed(1) + "%" : "—"}\n`;
+
+  if (d.risk_factors && d.risk_factors.length > 0) {
+    analysis += `\n⚠️ **Risk Factors:**\n`;
+    d.risk_factors.forEach(f => { analysis += `• ${f}\n`; });
+  }
+
+  const verdicts: Record<string, string> = {
+    critical: `\n🚨 *"The obstacle is not the obstacle. The obstacle is your failure to walk away."*`,
+    high: `\n⚠️ *"Begin at once to live, and count each day as a separate life."* Proceed with extreme caution.`,
+    moderate: `\n🟡 Moderate risk. DYOR — not financial advice.`,
+    low: `\n🟢 Low risk indicators, but stay vigilant. No token is truly safe.`,
+  };
+  if (score != null) {
+    const key = score >= 75 ? "critical" : score >= 50 ? "high" : score >= 25 ? "moderate" : "low";
+    analysis += verdicts[key];
+  }
+
+  return analysis;
+}
+
 // ─── Chat Bubble ────────────────────────────────────────────────
 
 const ChatBubble: React.FC<{ message: ChatMessage }> = ({ message }) => {
@@ -496,7 +563,6 @@ async function callMarcusChat(
   if (!authToken) return null; // Need auth for Marcus chat
 
   try {
-    const base = await getApiBase();
     const context: Record<string, unknown> = {};
     if (detectedMint) context.mint = detectedMint;
     if (lastScan) context.scan = lastScan;
@@ -506,43 +572,27 @@ async function callMarcusChat(
       content: m.content,
     }));
 
-    const resp = await fetch(`${base}/ext/chat`, {
+    const data = await apiRequest("/ext/chat", {
       method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "Authorization": `Bearer ${authToken}`,
-      },
-      body: JSON.stringify({
+      body: {
         message,
         context: Object.keys(context).length > 0 ? context : undefined,
         history: apiHistory.length > 0 ? apiHistory : undefined,
-      }),
+      },
     });
-
-    if (resp.status === 403) {
+    return data.response || null;
+  } catch (e) {
+    const kind = e instanceof ApiError ? e.kind : "network";
+    if (kind === "tier_locked") {
       // Tier too low for chat
       return "🔒 Marcus chat requires **Holder** tier or above. Upgrade to unlock the full Marcus experience in the side panel.\n\n*\"The impediment to action advances action.\"* — Upgrade, citizen. 🗿";
     }
 
-    if (resp.status === 429) {
+    if (kind === "rate_limited") {
       return "⏳ Daily Marcus chat limit reached. Even Stoics must rest.\n\n*\"The soul becomes dyed with the color of its thoughts.\"* Come back tomorrow. 🗿";
     }
 
-    if (!resp.ok) return null; // Fall back to local
-
-    const data = await resp.json();
-    return data.response || null;
-  } catch {
-    return null; // Network error — fall back to local
-  }
-}
-
-async function getApiBase(): Promise<string> {
-  try {
-    const result = await chrome.storage.local.get("api_base");
-    return result.api_base || "https://cryptorugmunch.app/api";
-  } catch {
-    return "https://cryptorugmunch.app/api";
+    return null; // Network / server error — fall back to local
   }
 }
 
@@ -0,0 +1,16 @@
+/**
+ * Axiom — /meme/PAIR carries the pair address, so the mint is read from
+ * the token's explorer links once the page renders.
+ */
+
+import type { SiteAdapter } from "../types";
+import { extractTokenFromExplorerLinks } from "../../utils/tokenExtractor";
+
+export const axiom: SiteAdapter = {
+  id: "axiom",
+  name: "Axiom",
+  hosts: ["axiom.trade"],
+  extractMint: () => extractTokenFromExplorerLinks(),
+  extractRetries: 5,
+  navigation: { watchDom: true, settleMs: 800 },
+};
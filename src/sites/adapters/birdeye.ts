@@ -0,0 +1,16 @@
+/**
+ * Birdeye — /token/MINT?chain=….
+ */
+
+import type { SiteAdapter } from "../types";
+import { extractMintFromUrl } from "../../utils/shadowInject";
+import { extractChainFromUrl } from "../../utils/tokenExtractor";
+
+export const birdeye: SiteAdapter = {
+  id: "birdeye",
+  name: "Birdeye",
+  hosts: ["birdeye.so"],
+  extractMint: extractMintFromUrl,
+  extractChain: extractChainFromUrl,
+  navigation: { watchDom: true, settleMs: 800 },
+};
@@ -0,0 +1,16 @@
+/**
+ * BullX — ?address=MINT&chainId=….
+ */
+
+import type { SiteAdapter } from "../types";
+import { extractMintFromUrl } from "../../utils/shadowInject";
+import { extractChainFromUrl } from "../../utils/tokenExtractor";
+
+export const bullx: SiteAdapter = {
+  id: "bullx",
+  name: "BullX",
+  hosts: ["bullx.io"],
+  extractMint: extractMintFromUrl,
+  extractChain: extractChainFromUrl,
+  navigation: { watchDom: true, settleMs: 800 },
+};
@@ -0,0 +1,26 @@
+/**
+ * DexScreener — URLs carry the PAIR address, so the token mint is read
+ * from explorer links in the DOM. Trending / new-pairs rows get badges.
+ */
+
+import type { SiteAdapter } from "../types";
+import {
+  extractTokenFromDexScreener, extractTokenFromDexScreenerRow, extractChainFromUrl,
+} from "../../utils/tokenExtractor";
+
+export const dexscreener: SiteAdapter = {
+  id: "dex",
+  name: "DexScreener",
+  hosts: ["dexscreener.com"],
+  extractMint: () => extractTokenFromDexScreener(),
+  extractChain: extractChainFromUrl,
+  extractRetries: 5,
+  // Under the token info block, clear of the trade panel
+  anchor: { position: "after", selector: ".ds-pair-info" },
+  navigation: { watchDom: true, popstate: true, settleMs: 1500 },
+  listRows: {
+    selector: "a.ds-dex-table-row",
+    extract: extractTokenFromDexScreenerRow,
+    badgeAnchor: ".ds-dex-table-row-base-token-symbol",
+  },
+};
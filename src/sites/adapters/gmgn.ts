@@ -0,0 +1,16 @@
+/**
+ * GMGN — /sol/token/MINT, /eth|base|bsc/token/0x….
+ */
+
+import type { SiteAdapter } from "../types";
+import { extractMintFromUrl } from "../../utils/shadowInject";
+import { extractChainFromUrl } from "../../utils/tokenExtractor";
+
+export const gmgn: SiteAdapter = {
+  id: "gmgn",
+  name: "GMGN",
+  hosts: ["gmgn.ai"],
+  extractMint: extractMintFromUrl,
+  extractChain: extractChainFromUrl,
+  navigation: { watchDom: true, settleMs: 800 },
+};
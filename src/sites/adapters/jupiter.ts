@@ -0,0 +1,17 @@
+/**
+ * Jupiter — no card; scans the swap's output ("buy") token and arms the
+ * pre-swap guard when it scores at or above the user's threshold.
+ */
+
+import type { SiteAdapter } from "../types";
+import { extractSwapOutputMint } from "../../utils/tokenExtractor";
+
+export const jupiter: SiteAdapter = {
+  id: "jupiter",
+  name: "Jupiter",
+  hosts: ["jup.ag"],
+  extractMint: extractSwapOutputMint,
+  navigation: { watchDom: true, settleMs: 800 },
+  card: false,
+  swapGuard: true,
+};
@@ -0,0 +1,16 @@
+/**
+ * Meteora — /dlmm/POOL and /dyn/POOL carry the pool address; the
+ * non-base token comes from the pool's explorer links.
+ */
+
+import type { SiteAdapter } from "../types";
+import { extractTokenFromExplorerLinks } from "../../utils/tokenExtractor";
+
+export const meteora: SiteAdapter = {
+  id: "meteora",
+  name: "Meteora",
+  hosts: ["app.meteora.ag"],
+  extractMint: () => extractTokenFromExplorerLinks(),
+  extractRetries: 5,
+  navigation: { watchDom: true, settleMs: 800 },
+};
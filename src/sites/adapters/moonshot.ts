@@ -0,0 +1,16 @@
+/**
+ * Moonshot — /token/MINT or /MINT, explorer links as a fallback.
+ */
+
+import type { SiteAdapter } from "../types";
+import { extractMintFromUrl } from "../../utils/shadowInject";
+import { extractTokenFromExplorerLinks } from "../../utils/tokenExtractor";
+
+export const moonshot: SiteAdapter = {
+  id: "moonshot",
+  name: "Moonshot",
+  hosts: ["moonshot.money"],
+  extractMint: (url) => extractMintFromUrl(url) ?? extractTokenFromExplorerLinks(),
+  extractRetries: 3,
+  navigation: { watchDom: true, settleMs: 800 },
+};
@@ -0,0 +1,18 @@
+/**
+ * Orca — /tokens/MINT and swap ?tokenOut=MINT from the URL; pool pages
+ * (/pools/POOL) from explorer links.
+ */
+
+import type { SiteAdapter } from "../types";
+import { extractMintFromUrl } from "../../utils/shadowInject";
+import { extractTokenFromExplorerLinks } from "../../utils/tokenExtractor";
+
+export const orca: SiteAdapter = {
+  id: "orca",
+  name: "Orca",
+  hosts: ["www.orca.so", "orca.so"],
+  extractMint: (url) => extractMintFromUrl(url)
+    ?? (new URL(url).pathname.startsWith("/pools/") ? extractTokenFromExplorerLinks() : null),
+  extractRetries: 5,
+  navigation: { watchDom: true, settleMs: 800 },
+};
@@ -0,0 +1,14 @@
+/**
+ * Photon — /en/lp/MINT.
+ */
+
+import type { SiteAdapter } from "../types";
+import { extractMintFromUrl } from "../../utils/shadowInject";
+
+export const photon: SiteAdapter = {
+  id: "photon",
+  name: "Photon",
+  hosts: ["photon-sol.tinyastro.io"],
+  extractMint: extractMintFromUrl,
+  navigation: { watchDom: true, settleMs: 800 },
+};
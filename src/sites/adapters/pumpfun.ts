@@ -0,0 +1,16 @@
+/**
+ * Pump.fun — /coin/MINT.
+ */
+
+import type { SiteAdapter } from "../types";
+import { extractMintFromUrl } from "../../utils/shadowInject";
+
+export const pumpfun: SiteAdapter = {
+  id: "pumpfun",
+  name: "Pump.fun",
+  hosts: ["pump.fun"],
+  extractMint: extractMintFromUrl,
+  // Beside the bonding-curve widget, away from the chart controls
+  anchor: { position: "after", selector: ".bonding-curve" },
+  navigation: { watchDom: true, settleMs: 800 },
+};
@@ -0,0 +1,16 @@
+/**
+ * Raydium — ?outputCurrency=MINT. Shows the card and guards swaps into
+ * the output token.
+ */
+
+import type { SiteAdapter } from "../types";
+import { extractMintFromUrl } from "../../utils/shadowInject";
+
+export const raydium: SiteAdapter = {
+  id: "raydium",
+  name: "Raydium",
+  hosts: ["raydium.io"],
+  extractMint: extractMintFromUrl,
+  navigation: { watchDom: true, settleMs: 800 },
+  swapGuard: true,
+};
@@ -0,0 +1,15 @@
+/**
+ * SolanaFM — /address/MINT. Wallet addresses share the route; the API
+ * answers those as not_scanned, so no card is shown.
+ */
+
+import type { SiteAdapter } from "../types";
+import { extractMintFromUrl } from "../../utils/shadowInject";
+
+export const solanafm: SiteAdapter = {
+  id: "solanafm",
+  name: "SolanaFM",
+  hosts: ["solana.fm"],
+  extractMint: extractMintFromUrl,
+  navigation: { watchDom: true, settleMs: 800 },
+};
@@ -0,0 +1,14 @@
+/**
+ * Solscan — /token/MINT. Account pages are wallets and get no card.
+ */
+
+import type { SiteAdapter } from "../types";
+import { extractMintFromUrl } from "../../utils/shadowInject";
+
+export const solscan: SiteAdapter = {
+  id: "solscan",
+  name: "Solscan",
+  hosts: ["solscan.io"],
+  extractMint: extractMintFromUrl,
+  navigation: { watchDom: true, settleMs: 800 },
+};
@@ -0,0 +1,133 @@
+/**
+ * List Row Badges — compact RiskBadges on trending / new-pairs tables.
+ *
+ * These tables are virtualized: rows are recycled as the user scrolls, so
+ * a row's token can change under us. Each row gets a stable id; its badge
+ * is re-injected whenever the row's token changes.
+ */
+
+import { batchScan, type ScanResult } from "../services/api";
+import { injectComponent, removeComponent } from "../utils/shadowInject";
+import { RiskBadge } from "../components/RiskBadge";
+import type { ListRowConfig } from "./types";
+
+const BATCH_SIZE = 30;
+
+export function watchListRows(config: ListRowConfig): void {
+  const rowScores = new Map<string, ScanResult | null>(); // `${chain}:${mint}` → result (null = not scanned)
+  const rowBadges = new Map<string, { row: Element; key: string }>(); // row id → badged token
+  let nextRowId = 0;
+  let rowScanTimer: ReturnType<typeof setTimeout> | null = null;
+  let rowScanRunning = false;
+  let rowScanDirty = false;
+
+  function rowId(row: Element): string {
+    let id = row.getAttribute("data-rms-row");
+    if (!id) {
+      id = String(nextRowId++);
+      row.setAttribute("data-rms-row", id);
+    }
+    return id;
+  }
+
+  function badgeRow(row: Element, key: string, data: ScanResult) {
+    const id = rowId(row);
+    const existing = rowBadges.get(id);
+    if (existing?.key === key) return;
+    if (existing) removeComponent(`row-${id}`);
+
+    const anchor = config.badgeAnchor ? row.querySelector(config.badgeAnchor) : null;
+    injectComponent(
+      `row-${id}`,
+      anchor || row,
+      RiskBadge,
+      { score: data.risk_score, symbol: data.token_symbol || undefined, mint: data.token_address, compact: true },
+      anchor ? "after" : "append",
+    );
+    rowBadges.set(id, { row, key });
+  }
+
+  async function scanListRows() {
+    if (rowScanRunning) {
+      rowScanDirty = true;
+      return;
+    }
+    rowScanRunning = true;
+    rowScanDirty = false;
+
+    try {
+      // Drop badges whose rows were unmounted by the virtualized list
+      for (const [id, entry] of rowBadges) {
+        if (!entry.row.isConnected) {
+          removeComponent(`row-${id}`);
+          rowBadges.delete(id);
+        }
+      }
+
+      const pending = new Map<string, Set<string>>(); // chain → mints to fetch
+      const rows: Array<{ row: Element; key: string }> = [];
+
+      for (const row of Array.from(document.querySelectorAll(config.selector))) {
+        const token = config.extract(row);
+        if (!token) continue;
+        const key = `${token.chain}:${token.mint}`;
+        rows.push({ row, key });
+        if (!rowScores.has(key)) {
+          if (!pending.has(token.chain)) pending.set(token.chain, new Set());
+          pending.get(token.chain)!.add(token.mint);
+        }
+      }
+
+      for (const [chain, mintSet] of pending) {
+        const mints = [...mintSet];
+        for (let i = 0; i < mints.length; i += BATCH_SIZE) {
+          const chunk = mints.slice(i, i + BATCH_SIZE);
+          const resp = await batchScan(chunk, chain);
+          for (const mint of chunk) {
+            const data = resp.results[mint];
+            rowScores.set(`${chain}:${mint}`, data && !data.not_scanned ? data : null);
+          }
+        }
+      }
+
+      for (const { row, key } of rows) {
+        const data = rowScores.get(key);
+        if (data && data.risk_score != null) {
+          badgeRow(row, key, data);
+        } else {
+          // Recycled row now shows an unscanned token — drop the stale badge
+          const id = rowId(row);
+          if (rowBadges.has(id)) {
+            removeComponent(`row-${id}`);
+            rowBadges.delete(id);
+          }
+        }
+      }
+    } catch (e) {
+      console.error("[RMS] List badge error:", e);
+    } finally {
+      rowScanRunning = false;
+      // List scrolled while we were fetching — catch up
+      if (rowScanDirty) scheduleRowScan();
+    }
+  }
+
+  function scheduleRowScan() {
+    if (rowScanTimer) clearTimeout(rowScanTimer);
+    rowScanTimer = setTimeout(scanListRows, 400);
+  }
+
+  scheduleRowScan();
+  const rowObserver = new MutationObserver((mutations) => {
+    // Ignore our own badge insertions; recycled rows only swap href/src
+    const external = mutations.some((m) =>
+      m.type === "attributes" ||
+      Array.from(m.addedNodes).some((n) => !(n instanceof HTMLElement && n.id.startsWith("rms-")))
+    );
+    if (external) scheduleRowScan();
+  });
+  rowObserver.observe(document.body, {
+    childList: true, subtree: true,
+    attributes: true, attributeFilter: ["href", "src"],
+  });
+}
@@ -0,0 +1,52 @@
+/**
+ * Manifest generation — fills the site-specific parts of
+ * public/manifest.json from the adapter registry at build time
+ * (vite.config.ts), so a new adapter needs no manifest edits.
+ */
+
+import { SITE_ADAPTERS, WALLET_BRIDGE_HOSTS, matchPatterns } from "./registry";
+
+export const SITES_SCRIPT = "src/content/sites.ts";
+export const WALLET_BRIDGE_SCRIPT = "src/content/walletBridge.ts";
+export const WALLET_PAGE_SCRIPT = "src/content/walletPage.ts";
+
+interface ContentScriptEntry {
+  matches: string[];
+  js: string[];
+  run_at?: string;
+  world?: string;
+  all_frames?: boolean;
+}
+
+interface ManifestTemplate {
+  host_permissions: string[];
+  content_scripts: ContentScriptEntry[];
+}
+
+/**
+ * - host_permissions: every adapter host, then the template's own (API hosts)
+ * - content_scripts: the shared site runtime on every adapter host, then the
+ *   template's entries, with the matches of the wallet bridge and its
+ *   MAIN-world page agent set from the registry
+ *
+ * The opt-in universal script isn't a manifest entry: the background
+ * registers it once the user turns highlighting on.
+ */
+export function buildManifest<M extends ManifestTemplate>(template: M): M {
+  const siteMatches = matchPatterns(SITE_ADAPTERS.flatMap((a) => a.hosts));
+
+  const contentScripts = template.content_scripts
+    .filter((cs) => !cs.js.includes(SITES_SCRIPT))
+    .map((cs) => cs.js.includes(WALLET_BRIDGE_SCRIPT) || cs.js.includes(WALLET_PAGE_SCRIPT)
+      ? { ...cs, matches: matchPatterns(WALLET_BRIDGE_HOSTS) }
+      : cs);
+
+  return {
+    ...template,
+    host_permissions: [...new Set([...siteMatches, ...template.host_permissions])],
+    content_scripts: [
+      { matches: siteMatches, js: [SITES_SCRIPT], run_at: "document_idle" },
+      ...contentScripts,
+    ],
+  };
+}
@@ -0,0 +1,75 @@
+/**
+ * Site Adapter Registry
+ *
+ * Single source of truth for the sites we inject into. The manifest's
+ * host permissions / content scripts (manifest.ts) and the background's
+ * wallet-tab and Safari re-injection lists are all derived from here.
+ */
+
+import type { SiteAdapter } from "./types";
+import { dexscreener } from "./adapters/dexscreener";
+import { pumpfun } from "./adapters/pumpfun";
+import { jupiter } from "./adapters/jupiter";
+import { gmgn } from "./adapters/gmgn";
+import { bullx } from "./adapters/bullx";
+import { birdeye } from "./adapters/birdeye";
+import { raydium } from "./adapters/raydium";
+import { photon } from "./adapters/photon";
+import { axiom } from "./adapters/axiom";
+import { moonshot } from "./adapters/moonshot";
+import { meteora } from "./adapters/meteora";
+import { orca } from "./adapters/orca";
+import { solscan } from "./adapters/solscan";
+import { solanafm } from "./adapters/solanafm";
+
+export const SITE_ADAPTERS: SiteAdapter[] = [
+  dexscreener,
+  pumpfun,
+  jupiter,
+  gmgn,
+  bullx,
+  birdeye,
+  raydium,
+  photon,
+  axiom,
+  moonshot,
+  meteora,
+  orca,
+  solscan,
+  solanafm,
+];
+
+// Wallet bridge also runs where there's a wallet but nothing to scan
+const WALLET_ONLY_HOSTS = ["phantom.app"];
+
+export const WALLET_BRIDGE_HOSTS = [...SITE_ADAPTERS.flatMap((a) => a.hosts), ...WALLET_ONLY_HOSTS];
+
+export function hostMatches(hostname: string, host: string): boolean {
+  return hostname === host || hostname.endsWith(`.${host}`);
+}
+
+export function adapterForHost(hostname: string): SiteAdapter | null {
+  return SITE_ADAPTERS.find((a) => a.hosts.some((h) => hostMatches(hostname, h))) ?? null;
+}
+
+export function adapterForUrl(url: string): SiteAdapter | null {
+  try {
+    return adapterForHost(new URL(url).hostname);
+  } catch {
+    return null;
+  }
+}
+
+export function isWalletBridgeUrl(url: string): boolean {
+  try {
+    const { hostname } = new URL(url);
+    return WALLET_BRIDGE_HOSTS.some((h) => hostMatches(hostname, h));
+  } catch {
+    return false;
+  }
+}
+
+/** Manifest match patterns for hostnames */
+export function matchPatterns(hosts: string[]): string[] {
+  return hosts.map((h) => `https://${h}/*`);
+}
@@ -0,0 +1,130 @@
+/**
+ * Site Runtime — the content-script loop every adapter shares:
+ * find the page token, scan it, show the ScoreCard, arm the swap guard,
+ * and start over when the SPA navigates.
+ */
+
+import { scanToken, type ScanResult } from "../services/api";
+import { injectScoreCard, removeAllCards } from "../ui-catalog/injectCard";
+import { armSwapGuard, disarmSwapGuard } from "../utils/swapGuard";
+import { extractSwapOutputMint } from "../utils/tokenExtractor";
+import { waitForElement } from "../utils/shadowInject";
+import { getSettings } from "../utils/config";
+import { sendMessage, createMessageRouter } from "../utils/messaging";
+import type { ScanDiff } from "../utils/scanDiff";
+import { watchListRows } from "./listRows";
+import type { SiteAdapter } from "./types";
+
+const DEFAULT_CHAIN = "solana";
+
+// How long an inline anchor gets to render before the card floats instead
+const ANCHOR_WAIT_MS = 3000;
+
+async function injectCard(
+  adapter: SiteAdapter, mint: string, data: ScanResult, diff: ScanDiff | null | undefined,
+  isCurrent: () => boolean,
+) {
+  const anchor = adapter.anchor ?? { position: "float-right" };
+  const target = anchor.position === "after" ? await waitForElement(anchor.selector, ANCHOR_WAIT_MS) : null;
+  if (!isCurrent()) return; // navigated away while waiting for the anchor
+  injectScoreCard(`${adapter.id}-${mint}`, target ?? document.body, data, {
+    // Inline anchor never rendered — float rather than lose the card
+    position: anchor.position === "after" && !target ? "float-right" : anchor.position,
+    diff,
+    site: adapter.id,
+  });
+}
+
+export function runSiteAdapter(adapter: SiteAdapter): void {
+  const chainOf = (url: string) => adapter.extractChain?.(url) ?? DEFAULT_CHAIN;
+  const showCard = adapter.card !== false;
+
+  let currentMint: string | null = null;
+  let currentChain = DEFAULT_CHAIN;
+  let scanInProgress = false;
+
+  /** Extract the page token, retrying while a DOM-based site renders */
+  async function findMint(): Promise<string | null> {
+    let mint = adapter.extractMint(window.location.href);
+    for (let i = 0; !mint && i < (adapter.extractRetries ?? 0); i++) {
+      await new Promise((r) => setTimeout(r, 500 * (i + 1)));
+      mint = adapter.extractMint(window.location.href);
+    }
+    return mint;
+  }
+
+  async function checkPage() {
+    if (scanInProgress) return;
+    const mint = await findMint();
+    if (!mint || mint === currentMint) return;
+
+    const url = window.location.href;
+    currentMint = mint;
+    currentChain = chainOf(url);
+    scanInProgress = true;
+
+    try {
+      // Only guard the token being bought, never the one being sold
+      const settings = await getSettings();
+      const guard = !!adapter.swapGuard && settings.swapWarnings && extractSwapOutputMint(url) === mint;
+      if (!showCard && !guard) return;
+
+      // Notify popup/background of detected token
+      sendMessage({ type: "PAGE_TOKEN_DETECTED", mint, chain: currentChain, url }).catch(() => {});
+
+      if (showCard) removeAllCards();
+      const result = await scanToken(mint, currentChain);
+      if (mint !== currentMint) return; // navigated away mid-scan
+      if (!result.success || !result.data || result.data.not_scanned) return;
+
+      sendMessage({ type: "UPDATE_BADGE", score: result.data.risk_score }).catch(() => {});
+      if (showCard) await injectCard(adapter, mint, result.data, result.diff, () => mint === currentMint);
+      // Hard stop on the swap button — blocking modal until the user confirms
+      if (guard) armSwapGuard(result.data, settings.swapWarningThreshold);
+    } catch (e) {
+      console.error(`[RMS] ${adapter.name} injection error:`, e);
+    } finally {
+      scanInProgress = false;
+    }
+  }
+
+  function onNavigate() {
+    currentMint = null;
+    removeAllCards();
+    if (adapter.swapGuard) disarmSwapGuard();
+    setTimeout(checkPage, adapter.navigation.settleMs);
+  }
+
+  checkPage();
+
+  // Watch for SPA navigation
+  let lastUrl = window.location.href;
+  if (adapter.navigation.watchDom) {
+    new MutationObserver(() => {
+      if (window.location.href === lastUrl) return;
+      lastUrl = window.location.href;
+      onNavigate();
+    }).observe(document.body, { childList: true, subtree: true });
+  }
+  if (adapter.navigation.popstate) {
+    window.addEventListener("popstate", () => {
+      lastUrl = window.location.href;
+      onNavigate();
+    });
+  }
+
+  if (adapter.listRows) {
+    const rows = adapter.listRows;
+    getSettings().then((settings) => {
+      if (settings.showBadges && settings.compactBadges) watchListRows(rows);
+    });
+  }
+
+  // Listen for popup requesting the detected token
+  chrome.runtime.onMessage.addListener(createMessageRouter({
+    GET_PAGE_TOKEN: () => {
+      const url = window.location.href;
+      return { mint: currentMint ?? adapter.extractMint(url), chain: chainOf(url), url };
+    },
+  }));
+}
@@ -0,0 +1,60 @@
+/**
+ * Site Adapter — everything the shared content-script runtime needs to
+ * know about one DEX / explorer. Adding a site is one adapter file plus
+ * an entry in registry.ts; the manifest and the background's site lists
+ * are generated from the registry.
+ */
+
+export interface PageToken {
+  mint: string;
+  chain: string;
+}
+
+/** Where the ScoreCard goes */
+export type CardAnchor =
+  | { position: "float-right" | "float-left" }
+  /** Inline, after the first element matching `selector` (floats right if it never renders) */
+  | { position: "after"; selector: string };
+
+/** How the site's SPA router signals a page change */
+export interface NavigationStrategy {
+  /** Poll `location.href` on DOM mutations */
+  watchDom: boolean;
+  /** Also re-check on history back / forward */
+  popstate?: boolean;
+  /** Wait for the new page to render before extracting (ms) */
+  settleMs: number;
+}
+
+/** Trending / new-pairs tables that get a compact badge per row */
+export interface ListRowConfig {
+  selector: string;
+  extract: (row: Element) => PageToken | null;
+  /** Badge goes after this element inside the row (appended to the row otherwise) */
+  badgeAnchor?: string;
+}
+
+export interface SiteAdapter {
+  /** Short id — card ids, log prefixes */
+  id: string;
+  name: string;
+  /** Hostnames this adapter runs on (manifest: https://<host>/*) */
+  hosts: string[];
+  /**
+   * Token on the current page. May read the DOM; return null while the
+   * SPA is still rendering and `extractRetries` will try again.
+   */
+  extractMint: (url: string) => string | null;
+  /** Chain of the current page. Defaults to Solana. */
+  extractChain?: (url: string) => string;
+  /** Extra extraction attempts (500ms, 1s, 1.5s …) for DOM-based sites */
+  extractRetries?: number;
+  /** Defaults to floating on the right */
+  anchor?: CardAnchor;
+  navigation: NavigationStrategy;
+  listRows?: ListRowConfig;
+  /** Show the ScoreCard for the page token (default true) */
+  card?: boolean;
+  /** Arm the pre-swap guard when the page token is the swap's output */
+  swapGuard?: boolean;
+}
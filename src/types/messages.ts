@@ -0,0 +1,217 @@
+/**
+ * Extension message protocol — single source of truth for every
+ * chrome.runtime / chrome.tabs message exchanged between the background
+ * service worker, content scripts, popup and side panel.
+ *
+ * Messages are a discriminated union on `type`. Incoming messages are
+ * validated against ExtMessageSchema; anything that doesn't match
+ * (unknown type, missing/mistyped fields) is rejected by the router.
+ */
+
+import { z } from "zod";
+import type { ScanResult, ExtScanResponse } from "../services/api";
+import type { ScanDiff } from "../utils/scanDiff";
+import type { ApiErrorInfo } from "../services/http";
+import type { TxReview } from "../services/txReview";
+
+const ScanResultPayload = z.custom<ScanResult>(
+  (v) => !!v && typeof v === "object" && typeof (v as ScanResult).token_address === "string",
+);
+const ScanDiffPayload = z.custom<ScanDiff>((v) => !!v && typeof v === "object").nullable().optional();
+
+// ─── Runtime messages (→ background) ────────────────────────────
+
+const UpdateBadge = z.object({
+  type: z.literal("UPDATE_BADGE"),
+  score: z.number().nullable(),
+});
+
+const PageTokenDetected = z.object({
+  type: z.literal("PAGE_TOKEN_DETECTED"),
+  mint: z.string().min(1),
+  chain: z.string().optional(),
+  url: z.string(),
+});
+
+const OpenSidePanel = z.object({
+  type: z.literal("OPEN_SIDE_PANEL"),
+});
+
+const GetStorage = z.object({
+  type: z.literal("GET_STORAGE"),
+  keys: z.union([z.string(), z.array(z.string())]),
+});
+
+const SetStorage = z.object({
+  type: z.literal("SET_STORAGE"),
+  data: z.record(z.string(), z.unknown()),
+});
+
+const ApiProxy = z.object({
+  type: z.literal("API_PROXY"),
+  path: z.string().startsWith("/"),
+  method: z.enum(["GET", "POST", "PUT", "DELETE"]).optional(),
+  body: z.unknown().optional(),
+  /** ApiRequestOptions.auth / retries, carried over from the content script */
+  auth: z.boolean().optional(),
+  retries: z.number().int().min(0).max(5).optional(),
+});
+
+// Every surface scans through the background: one cache, one request per token
+const ScanTokenMessage = z.object({
+  type: z.literal("SCAN_TOKEN"),
+  mint: z.string().min(1),
+  chain: z.string(),
+  source: z.string(),
+});
+
+// Wallet ops — relayed by the background to the wallet bridge on a crypto tab
+
+// `wallet` is a provider id from WALLET_DETECT; omitted = Phantom, else the first found
+const WalletDetect = z.object({ type: z.literal("WALLET_DETECT") });
+const WalletConnect = z.object({ type: z.literal("WALLET_CONNECT"), wallet: z.string().optional() });
+const WalletSign = z.object({
+  type: z.literal("WALLET_SIGN"),
+  message: z.string(),
+  nonce: z.string(),
+  wallet: z.string().optional(),
+});
+const WalletDisconnect = z.object({ type: z.literal("WALLET_DISCONNECT"), wallet: z.string().optional() });
+// A revoke built by utils/revokeTx — Solana: base64 wire transaction; EVM: a call from `from`
+const WalletTransactionPayload = z.discriminatedUnion("kind", [
+  z.object({ kind: z.literal("solana"), serialized: z.string().min(1) }),
+  z.object({ kind: z.literal("evm"), chainId: z.number().int(), to: z.string(), data: z.string() }),
+]);
+const WalletSendTransaction = z.object({
+  type: z.literal("WALLET_SEND_TRANSACTION"),
+  // Wallet address that must sign it
+  from: z.string().min(1),
+  transaction: WalletTransactionPayload,
+  wallet: z.string().optional(),
+});
+
+// Transaction guard — the wallet bridge asks for a review before a wallet signs
+const ReviewTransaction = z.object({
+  type: z.literal("REVIEW_TRANSACTION"),
+  // Base64 wire-format Solana transaction
+  transaction: z.string().min(1),
+  origin: z.string(),
+});
+
+// ─── Tab messages (→ content scripts) ───────────────────────────
+
+const GetPageToken = z.object({ type: z.literal("GET_PAGE_TOKEN") });
+const DetectAddresses = z.object({ type: z.literal("DETECT_ADDRESSES") });
+const GetSelectedAddress = z.object({ type: z.literal("GET_SELECTED_ADDRESS") });
+const ShowScanCard = z.object({
+  type: z.literal("SHOW_SCAN_CARD"),
+  data: ScanResultPayload,
+  diff: ScanDiffPayload,
+});
+// A stale cached result was refreshed — update open ScoreCards
+const ScanUpdated = z.object({
+  type: z.literal("SCAN_UPDATED"),
+  data: ScanResultPayload,
+  diff: ScanDiffPayload,
+});
+
+export const ExtMessageSchema = z.discriminatedUnion("type", [
+  UpdateBadge,
+  PageTokenDetected,
+  OpenSidePanel,
+  GetStorage,
+  SetStorage,
+  ApiProxy,
+  ScanTokenMessage,
+  WalletDetect,
+  WalletConnect,
+  WalletSign,
+  WalletDisconnect,
+  WalletSendTransaction,
+  ReviewTransaction,
+  GetPageToken,
+  DetectAddresses,
+  GetSelectedAddress,
+  ShowScanCard,
+  ScanUpdated,
+]);
+
+export type ExtMessage = z.infer<typeof ExtMessageSchema>;
+export type ExtMessageType = ExtMessage["type"];
+export type MessageOf<T extends ExtMessageType> = Extract<ExtMessage, { type: T }>;
+export type WalletMessage = MessageOf<
+  "WALLET_DETECT" | "WALLET_CONNECT" | "WALLET_SIGN" | "WALLET_DISCONNECT" | "WALLET_SEND_TRANSACTION"
+>;
+export type WalletTransaction = z.infer<typeof WalletTransactionPayload>;
+
+// ─── Responses ──────────────────────────────────────────────────
+
+export interface ApiProxyResponse {
+  success: boolean;
+  data?: any;
+  error?: string;
+  apiError?: ApiErrorInfo;
+}
+
+/** A Solana wallet found on the bridge tab */
+export interface WalletProviderInfo {
+  /** "phantom" | "solflare" | "backpack" | "glow" | "standard:<name>" */
+  id: string;
+  name: string;
+  /** Data URI from the Wallet Standard registration */
+  icon: string | null;
+  /** Set when the wallet is already connected to the page */
+  publicKey: string | null;
+}
+
+export interface WalletBridgeResult {
+  success: boolean;
+  publicKey?: string;
+  isConnected?: boolean;
+  phantom?: boolean;
+  /** WALLET_DETECT: every wallet found */
+  wallets?: WalletProviderInfo[];
+  /** Provider id that handled a connect / sign / disconnect */
+  wallet?: string;
+  signature?: string;
+  /** WALLET_SEND_TRANSACTION: Solana signature / EVM tx hash */
+  txid?: string;
+  error?: string;
+}
+
+export interface PageTokenResponse {
+  mint: string | null;
+  chain: string;
+  url: string;
+}
+
+export interface ExtMessageResponses {
+  UPDATE_BADGE: void;
+  PAGE_TOKEN_DETECTED: void;
+  OPEN_SIDE_PANEL: void;
+  GET_STORAGE: Record<string, any>;
+  SET_STORAGE: { success: boolean };
+  API_PROXY: ApiProxyResponse;
+  SCAN_TOKEN: ExtScanResponse;
+  WALLET_DETECT: WalletBridgeResult;
+  WALLET_CONNECT: WalletBridgeResult;
+  WALLET_SIGN: WalletBridgeResult;
+  WALLET_DISCONNECT: WalletBridgeResult;
+  WALLET_SEND_TRANSACTION: WalletBridgeResult;
+  REVIEW_TRANSACTION: TxReview;
+  GET_PAGE_TOKEN: PageTokenResponse;
+  DETECT_ADDRESSES: { addresses: string[] };
+  GET_SELECTED_ADDRESS: { address: string | null };
+  SHOW_SCAN_CARD: void;
+  SCAN_UPDATED: void;
+}
+
+export type ResponseOf<T extends ExtMessageType> = ExtMessageResponses[T];
+
+/**
+ * Sent back by the router when an incoming message fails validation.
+ */
+export interface RejectedMessage {
+  rejected: true;
+  error: string;
+}
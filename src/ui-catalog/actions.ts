@@ -0,0 +1,147 @@
+/**
+ * Catalog Action Dispatcher
+ *
+ * One implementation of the actions declared in catalog.ts, shared by the
+ * injected card, popup and side panel. Pass `catalogHandlers(ctx)` to a
+ * json-render provider, or call `runCatalogAction` from hand-written UI.
+ *
+ * Spec params (`{ address, chain }`) name the token, so server-authored
+ * specs work too; the surface's current scan fills in whatever they omit.
+ */
+
+import type { ScanResult } from "../services/api";
+import { addToWatchlist } from "../services/watchlist";
+import { explorerTokenUrl } from "../utils/chains";
+import { riskEmoji, riskLabel } from "../utils/designTokens";
+import { sendMessage } from "../utils/messaging";
+import { formatPrice, formatUsd } from "./scanToSpec";
+
+export type CatalogAction =
+  | "full_scan" | "share_result" | "copy_address"
+  | "open_explorer" | "add_watchlist" | "open_chat";
+
+/** Where the action runs — decides how the side panel is reached */
+export type ActionSurface = "content" | "popup" | "sidepanel";
+
+export interface ActionContext {
+  surface: ActionSurface;
+  /** Scan the action is about, if the surface has one */
+  getData?: () => ScanResult | null | undefined;
+  /** Called after an action completes, e.g. to flip a "Watching" label */
+  onDone?: (action: CatalogAction, token: ActionToken) => void;
+}
+
+export interface ActionToken {
+  address: string;
+  chain: string;
+  /** Scan data — only when it's for this address */
+  data: ScanResult | null;
+}
+
+/** chrome.storage key the side panel watches for handed-off tokens */
+export const SIDEPANEL_HANDOFF_KEY = "sidepanel_scan";
+
+export interface SidePanelHandoff {
+  mint: string;
+  chain: string;
+  /** "scan" (default) runs a scan; "chat" opens Marcus seeded with `scan` */
+  mode?: "scan" | "chat";
+  scan?: ScanResult;
+}
+
+export function shareText(data: ScanResult): string {
+  const score = data.risk_score;
+  return `${riskEmoji(score)} $${data.token_symbol || "?"} Risk: ${score ?? "?"}/100 (${riskLabel(score)})\n`
+    + `Price: ${data.price_usd ? formatPrice(data.price_usd) : "—"} | Liq: ${formatUsd(data.liquidity_usd)}\n`
+    + `Scanned by Rug Munch Intelligence 🗿 https://t.me/rug_munchy_bot?start=scan_${data.token_address}`;
+}
+
+function resolveToken(params: Record<string, unknown> | undefined, ctx: ActionContext): ActionToken | null {
+  const current = ctx.getData?.() ?? null;
+  const address = typeof params?.address === "string" ? params.address : current?.token_address;
+  if (!address) return null;
+  const data = current?.token_address === address ? current : null;
+  const chain = typeof params?.chain === "string" ? params.chain : data?.chain || "solana";
+  return { address, chain, data };
+}
+
+async function openSidePanel(handoff: SidePanelHandoff, surface: ActionSurface): Promise<void> {
+  // The panel reads this on load and through storage.onChanged, so it can
+  // land after the panel opens — open first, inside the click's user gesture
+  const written = chrome.storage.local.set({ [SIDEPANEL_HANDOFF_KEY]: handoff });
+  if (surface === "content") {
+    // Content scripts can't open it — the background uses the sender's window
+    sendMessage({ type: "OPEN_SIDE_PANEL" }).catch(() => {});
+  } else if (surface === "popup") {
+    try {
+      chrome.sidePanel.open({ windowId: chrome.windows.WINDOW_ID_CURRENT }).catch(() => {});
+    } catch {
+      // Firefox fallback — sidebar
+      try {
+        (chrome as any).sidebarAction?.open?.();
+      } catch {}
+    }
+  }
+  await written;
+}
+
+function openTab(url: string, surface: ActionSurface): void {
+  // chrome.tabs isn't available to content scripts
+  if (surface === "content") window.open(url, "_blank");
+  else chrome.tabs.create({ url });
+}
+
+const ACTIONS: Record<CatalogAction, (token: ActionToken, ctx: ActionContext) => Promise<unknown> | unknown> = {
+  full_scan: (t, ctx) => openSidePanel({ mint: t.address, chain: t.chain }, ctx.surface),
+
+  open_chat: (t, ctx) => openSidePanel(
+    { mint: t.address, chain: t.chain, mode: "chat", ...(t.data ? { scan: t.data } : {}) },
+    ctx.surface,
+  ),
+
+  copy_address: (t) => navigator.clipboard.writeText(t.address),
+
+  share_result: async (t) => {
+    const text = t.data ? shareText(t.data) : `${t.address}\nhttps://t.me/rug_munchy_bot?start=scan_${t.address}`;
+    // Native share sheet where there is one (Safari, mobile), clipboard otherwise
+    if (navigator.share) {
+      try {
+        await navigator.share({ text });
+        return;
+      } catch {}
+    }
+    await navigator.clipboard.writeText(text);
+  },
+
+  open_explorer: (t, ctx) => openTab(explorerTokenUrl(t.address, t.chain), ctx.surface),
+
+  add_watchlist: (t) => addToWatchlist(t.address, t.chain, t.data),
+};
+
+/**
+ * Run one catalog action. Unknown actions and actions with no token to act
+ * on are ignored (with a warning) — specs can come from the server.
+ */
+export async function runCatalogAction(
+  action: string,
+  params: Record<string, unknown> | undefined,
+  ctx: ActionContext,
+): Promise<void> {
+  const run = Object.hasOwn(ACTIONS, action) ? ACTIONS[action as CatalogAction] : undefined;
+  const token = resolveToken(params, ctx);
+  if (!run || !token) {
+    console.warn(`[RMS] Ignoring catalog action "${action}"`, params);
+    return;
+  }
+  await run(token, ctx);
+  ctx.onDone?.(action as CatalogAction, token);
+}
+
+/** Handlers for a json-render provider (`JSONUIProvider handlers={...}`) */
+export function catalogHandlers(ctx: ActionContext): Record<CatalogAction, (params: Record<string, unknown>) => Promise<void>> {
+  const handlers = {} as Record<CatalogAction, (params: Record<string, unknown>) => Promise<void>>;
+  for (const action of Object.keys(ACTIONS) as CatalogAction[]) {
+    handlers[action] = (params) => runCatalogAction(action, params, ctx);
+  }
+  return handlers;
+}
@@ -0,0 +1,55 @@
+/**
+ * Floating card layout — where the user dragged the ScoreCard and how far
+ * they folded it, remembered per site (adapter id, or hostname).
+ */
+
+export type CardMode = "expanded" | "collapsed" | "pill";
+
+export interface CardLayout {
+  /** Viewport px of the card's top-left corner; null = default corner */
+  x: number | null;
+  y: number | null;
+  mode: CardMode;
+}
+
+const LAYOUT_KEY = "card_layout";
+
+export const DEFAULT_CARD_LAYOUT: CardLayout = { x: null, y: null, mode: "expanded" };
+
+// Part of the card that must stay on screen so it can be dragged back
+const MIN_VISIBLE = 48;
+
+export async function getCardLayout(site: string): Promise<CardLayout> {
+  try {
+    const { [LAYOUT_KEY]: layouts = {} } = await chrome.storage.local.get(LAYOUT_KEY);
+    return { ...DEFAULT_CARD_LAYOUT, ...layouts[site] };
+  } catch {
+    return DEFAULT_CARD_LAYOUT;
+  }
+}
+
+export async function saveCardLayout(site: string, patch: Partial<CardLayout>): Promise<void> {
+  try {
+    const { [LAYOUT_KEY]: layouts = {} } = await chrome.storage.local.get(LAYOUT_KEY);
+    layouts[site] = { ...DEFAULT_CARD_LAYOUT, ...layouts[site], ...patch };
+    await chrome.storage.local.set({ [LAYOUT_KEY]: layouts });
+  } catch {}
+}
+
+export async function resetCardLayouts(): Promise<void> {
+  await chrome.storage.local.remove(LAYOUT_KEY);
+}
+
+/**
+ * Keep a dragged / restored card reachable: at least MIN_VISIBLE px of it
+ * inside the viewport, and its top edge (the drag handle) never above it.
+ */
+export function clampCardPosition(
+  x: number, y: number, width: number,
+  viewport: { width: number; height: number },
+): { x: number; y: number } {
+  return {
+    x: Math.min(Math.max(x, MIN_VISIBLE - width), viewport.width - MIN_VISIBLE),
+    y: Math.min(Math.max(y, 0), viewport.height - MIN_VISIBLE),
+  };
+}
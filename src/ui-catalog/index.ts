@@ -4,9 +4,12 @@
  * Usage:
  *   import { registry, Renderer, scanToSpec } from "../ui-catalog";
  *   const spec = scanToSpec(scanData);
- *   <Renderer spec={spec} registry={registry} />
+ *   <JSONUIProvider registry={registry} handlers={catalogHandlers({ surface: "popup", getData })}>
+ *     <Renderer spec={spec} registry={registry} />
+ *   </JSONUIProvider>
  */
 
 export { rugMunchCatalog } from "./catalog";
 export { registry, Renderer, BRAND_COLORS } from "./registry";
 export { scanToSpec, scanToCompactSpec } from "./scanToSpec";
+export { catalogHandlers, runCatalogAction, shareText, type CatalogAction, type ActionContext } from "./actions";
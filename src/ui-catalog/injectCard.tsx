@@ -1,129 +1,155 @@
 /**
  * Content Script Card Injector
  *
- * Injects a scan ScoreCard into host pages via Shadow DOM.
- * Uses direct React rendering (no json-render) for reliability.
+ * Injects a scan ScoreCard into host pages via Shadow DOM. The card is the
+ * catalog spec from scanToSpec (or one the server sent) drawn by the same
+ * json-render Renderer as every other surface.
  */
 
 import { createRoot } from "react-dom/client";
-import { createElement, useState } from "react";
+import { createElement, useEffect, useRef, useState } from "react";
+import { JSONUIProvider } from "@json-render/react";
 import type { ScanResult } from "../services/api";
+import type { ScanDiff } from "../utils/scanDiff";
+import { createMessageRouter } from "../utils/messaging";
+import { registry, Renderer, BRAND_COLORS as C, riskColor } from "./registry";
+import { scanToSpec, riskEmoji, type RMSpec } from "./scanToSpec";
+import { catalogHandlers } from "./actions";
+import { RenderErrorBoundary } from "./ErrorBoundary";
+import { getCardLayout, saveCardLayout, clampCardPosition, type CardLayout } from "./cardLayout";
+
+const injectedCards = new Map<string, {
+  root: any;
+  host: HTMLElement;
+  data: ScanResult;
+  render: (data: ScanResult, diff?: ScanDiff | null) => void;
+}>();
+let listeningForUpdates = false;
+
+function CatalogCard({ data, diff, spec, compact }: {
+  data: ScanResult;
+  diff?: ScanDiff | null;
+  spec?: RMSpec;
+  compact?: boolean;
+}) {
+  const [watched, setWatched] = useState(false);
+  // The provider keeps its first handlers, so they read the latest scan through a ref
+  const dataRef = useRef(data);
+  dataRef.current = data;
+  const [handlers] = useState(() => catalogHandlers({
+    surface: "content",
+    getData: () => dataRef.current,
+    onDone: (action) => { if (action === "add_watchlist") setWatched(true); },
+  }));
+
+  return createElement(RenderErrorBoundary, null,
+    createElement(JSONUIProvider, {
+      registry, handlers,
+      children: createElement(Renderer, { spec: spec ?? scanToSpec(data, { diff, watched, compact }), registry }),
+    }),
+  );
+}
 
-const C = {
-  bg: "#0B0714", bgCard: "#13101D", border: "#2A2440",
-  gold: "#E7C55F", purple: "#7E4CFF", purpleLight: "#A78BFA",
-  cyan: "#5FDDE7", red: "#FF4757", orange: "#FF8C00", green: "#2ED573",
-  textPrimary: "#F0EDF6", textSecondary: "#A09BB0", textMuted: "#6B6580",
-};
-
-function riskColor(s: number) { return s >= 75 ? C.red : s >= 50 ? C.orange : s >= 25 ? C.gold : C.green; }
-function riskEmoji(s: number) { return s >= 75 ? "🔴" : s >= 50 ? "🟠" : s >= 25 ? "🟡" : "🟢"; }
-function riskLabel(s: number) { return s >= 75 ? "Critical" : s >= 50 ? "High" : s >= 25 ? "Moderate" : "Low"; }
-function fmtUsd(v?: number) { if (!v) return "—"; if (v >= 1e6) return `$${(v/1e6).toFixed(1)}M`; if (v >= 1e3) return `$${(v/1e3).toFixed(1)}K`; return `$${v.toFixed(2)}`; }
-function fmtPrice(v: number) { if (v === 0) return "0"; if (v < 0.000001) return v.toExponential(2); if (v < 0.01) return v.toFixed(8); if (v < 1) return v.toFixed(4); return v.toFixed(2); }
+// Pointer travel before a press on the handle / pill counts as a drag
+const DRAG_THRESHOLD = 4;
 
-const injectedCards = new Map<string, { root: any; host: HTMLElement }>();
+function viewport() {
+  return { width: window.innerWidth, height: window.innerHeight };
+}
 
-function ScoreCard({ data }: { data: ScanResult }) {
-  const [expanded, setExpanded] = useState(false);
+/**
+ * Floating ScoreCard chrome: drag handle, collapse to the header, or
+ * minimize to a pill. Position and mode are saved per site.
+ */
+function FloatingCard({ host, site, ...card }: Parameters<typeof CatalogCard>[0] & { host: HTMLElement; site: string }) {
+  const { data } = card;
+  const [layout, setLayout] = useState<CardLayout | null>(null);
+  const drag = useRef<{ dx: number; dy: number; startX: number; startY: number; moved: boolean } | null>(null);
   const score = data.risk_score ?? 0;
   const color = riskColor(score);
-  const breakdown = data.risk_breakdown;
-  const hasBreakdown = breakdown && Object.keys(breakdown).length > 0;
-
-  return createElement("div", {
-    style: { fontFamily: "system-ui, -apple-system, sans-serif", backgroundColor: C.bg, borderRadius: 12, border: `1px solid ${color}40`, padding: 14, color: C.textPrimary, maxWidth: 340, boxSizing: "border-box", boxShadow: `0 4px 20px ${color}15` },
-  },
-    // Header
-    createElement("div", { style: { display: "flex", justifyContent: "space-between", alignItems: "center", marginBottom: 8 } },
-      createElement("div", null,
-        createElement("div", { style: { fontWeight: 700, fontSize: 15 } }, `$${data.token_symbol || "?"}`),
-        createElement("div", { style: { fontSize: 10, color: C.textSecondary } }, data.token_name || "", data.chain ? ` · ${data.chain}` : ""),
-      ),
-      createElement("div", { style: { textAlign: "right" } },
-        createElement("div", { style: { fontSize: 22, fontWeight: 800, color } }, riskEmoji(score)),
-        createElement("div", { style: { fontSize: 11, color, fontWeight: 600 } }, `${score}/100 — ${riskLabel(score)}`),
-      ),
-    ),
 
-    // Risk bar
-    createElement("div", { style: { width: "100%", height: 5, backgroundColor: C.border, borderRadius: 3, marginBottom: 10 } },
-      createElement("div", { style: { width: `${score}%`, height: "100%", backgroundColor: color, borderRadius: 3 } }),
-    ),
+  useEffect(() => {
+    getCardLayout(site).then(setLayout);
+  }, [site]);
+
+  // Restore the saved position, pulled back on screen if the window shrank
+  useEffect(() => {
+    if (layout?.x == null || layout.y == null) return;
+    const pos = clampCardPosition(layout.x, layout.y, host.offsetWidth, viewport());
+    Object.assign(host.style, { left: `${pos.x}px`, top: `${pos.y}px`, right: "auto" });
+  }, [host, layout?.x, layout?.y]);
+
+  if (!layout) return null;
+
+  const update = (patch: Partial<CardLayout>) => {
+    setLayout((l) => ({ ...l!, ...patch }));
+    saveCardLayout(site, patch);
+  };
+
+  const onPointerDown = (e: { clientX: number; clientY: number; target: EventTarget }) => {
+    if ((e.target as Element).closest("button")) return;
+    const rect = host.getBoundingClientRect();
+    drag.current = { dx: e.clientX - rect.left, dy: e.clientY - rect.top, startX: e.clientX, startY: e.clientY, moved: false };
+
+    const move = (ev: PointerEvent) => {
+      const d = drag.current!;
+      if (!d.moved && Math.hypot(ev.clientX - d.startX, ev.clientY - d.startY) < DRAG_THRESHOLD) return;
+      d.moved = true;
+      const pos = clampCardPosition(ev.clientX - d.dx, ev.clientY - d.dy, rect.width, viewport());
+      Object.assign(host.style, { left: `${pos.x}px`, top: `${pos.y}px`, right: "auto" });
+    };
+    const up = () => {
+      window.removeEventListener("pointermove", move);
+      window.removeEventListener("pointerup", up);
+      if (!drag.current?.moved) return;
+      const r = host.getBoundingClientRect();
+      update({ x: Math.round(r.left), y: Math.round(r.top) });
+    };
+    window.addEventListener("pointermove", move);
+    window.addEventListener("pointerup", up);
+  };
+
+  if (layout.mode === "pill") {
+    return createElement("div", {
+      "data-rms-pill": "",
+      title: "Rug Munch — click to expand, drag to move",
+      onPointerDown,
+      onClick: () => { if (!drag.current?.moved) update({ mode: "expanded" }); },
+      style: {
+        display: "inline-flex", alignItems: "center", gap: 4, padding: "4px 10px", borderRadius: 999,
+        backgroundColor: C.bg, border: `1px solid ${color}80`, color, fontSize: 12, fontWeight: 700,
+        fontFamily: "system-ui", cursor: "grab", userSelect: "none", boxShadow: `0 2px 10px ${color}30`,
+      },
+    }, `🗿 ${riskEmoji(score)} ${score}`);
+  }
 
-    // Metrics
-    createElement("div", { style: { display: "grid", gridTemplateColumns: "1fr 1fr", gap: 6, fontSize: 11 } },
-      ...[
-        ["Price", data.price_usd ? `$${fmtPrice(data.price_usd)}` : "—"],
-        ["MCap", fmtUsd(data.market_cap)],
-        ["Liquidity", fmtUsd(data.liquidity_usd)],
-        ["Holders", data.holder_count ? data.holder_count.toLocaleString() : "—"],
-        ["Top 10%", data.top_10_holder_percent ? `${data.top_10_holder_percent.toFixed(1)}%` : "—"],
-        ["Age", data.token_age_days != null ? (data.token_age_days < 1 ? "<1d" : `${Math.floor(data.token_age_days)}d`) : "—"],
-      ].map(([label, value]) =>
-        createElement("div", { key: label, style: { padding: "5px 8px", borderRadius: 6, backgroundColor: C.bgCard, border: `1px solid ${C.border}` } },
-          createElement("div", { style: { fontSize: 9, color: C.textMuted } }, label),
-          createElement("div", { style: { fontSize: 12, fontWeight: 600 } }, value),
-        )
-      ),
-    ),
+  const collapsed = layout.mode === "collapsed";
+  const toolButton = (label: string, title: string, onClick: () => void) =>
+    createElement("button", {
+      key: title, title, onClick,
+      style: { background: "none", border: "none", color: C.textSecondary, fontSize: 12, cursor: "pointer", padding: "0 4px", fontFamily: "system-ui" },
+    }, label);
 
-    // Risk factors
-    data.risk_factors && data.risk_factors.length > 0
-      ? createElement("div", { style: { marginTop: 8, paddingTop: 8, borderTop: `1px solid ${C.border}` } },
-          createElement("div", { style: { fontSize: 9, color: C.textMuted, marginBottom: 3 } }, "⚠️ Risk Factors"),
-          ...data.risk_factors.slice(0, 5).map((f: string, i: number) =>
-            createElement("div", { key: i, style: { fontSize: 10, color: C.orange, paddingLeft: 6 } }, `• ${f}`)
-          ),
-        )
-      : null,
-
-    // Expandable breakdown
-    hasBreakdown
-      ? createElement("div", { style: { marginTop: 8, paddingTop: 8, borderTop: `1px solid ${C.border}` } },
-          createElement("div", {
-            onClick: () => setExpanded(!expanded),
-            style: { fontSize: 10, color: C.purpleLight, cursor: "pointer", textAlign: "center", padding: "4px 0" },
-          }, expanded ? "▲ Hide Details" : "▼ Show Details"),
-          expanded ? createElement("div", { style: { marginTop: 6, display: "flex", flexDirection: "column", gap: 4 } },
-            ...Object.entries(breakdown!).map(([cat, catData]: [string, any]) =>
-              createElement("div", { key: cat, style: { padding: "6px 8px", borderRadius: 6, backgroundColor: C.bgCard } },
-                createElement("div", { style: { fontSize: 10, fontWeight: 600, color: C.textSecondary, marginBottom: 3 } }, cat.replace(/_/g, " ").toUpperCase()),
-                ...(catData?.items || []).slice(0, 6).map((item: any, i: number) => {
-                  const sevColor = item.severity === "critical" ? C.red : item.severity === "high" ? C.orange : item.severity === "moderate" ? C.gold : item.severity === "safe" ? C.green : C.textSecondary;
-                  return createElement("div", { key: i, style: { display: "flex", justifyContent: "space-between", fontSize: 10, padding: "2px 0" } },
-                    createElement("span", { style: { color: C.textPrimary } }, item.metric || item.label),
-                    createElement("span", { style: { color: sevColor, fontWeight: 600 } }, item.value),
-                  );
-                }),
-              )
-            ),
-          ) : null,
-        )
-      : null,
-
-    // Actions
-    createElement("div", { style: { display: "flex", gap: 4, marginTop: 8, paddingTop: 8, borderTop: `1px solid ${C.border}` } },
-      ...[
-        { label: "📋 Copy", action: () => navigator.clipboard.writeText(data.token_address) },
-        { label: "🔍 Explorer", action: () => window.open(`https://solscan.io/token/${data.token_address}`, "_blank") },
-        { label: "📤 Share", action: () => {
-          navigator.clipboard.writeText(`${riskEmoji(score)} $${data.token_symbol || "?"} Risk: ${score}/100\nPrice: ${data.price_usd ? `$${fmtPrice(data.price_usd)}` : "—"} | Liq: ${fmtUsd(data.liquidity_usd)}\nScanned by Rug Munch Intelligence 🗿 https://t.me/rug_munchy_bot`);
-        }},
-      ].map(btn =>
-        createElement("button", {
-          key: btn.label, onClick: btn.action,
-          style: { flex: 1, padding: "5px 0", borderRadius: 5, border: `1px solid ${C.border}`, backgroundColor: "transparent", color: C.textSecondary, fontSize: 10, cursor: "pointer", fontFamily: "system-ui" },
-        }, btn.label)
+  return createElement("div", { style: { maxWidth: 380 } },
+    createElement("div", {
+      "data-rms-handle": "",
+      onPointerDown,
+      style: {
+        display: "flex", alignItems: "center", justifyContent: "space-between", gap: 6,
+        padding: "4px 8px", marginBottom: collapsed ? 0 : 4, borderRadius: 8,
+        backgroundColor: C.bgCard, border: `1px solid ${C.border}`, color: C.textSecondary,
+        fontSize: 10, fontFamily: "system-ui", cursor: "grab", userSelect: "none",
+      },
+    },
+      createElement("span", null, collapsed
+        ? createElement("span", { style: { color, fontWeight: 700 } }, `⠿ $${data.token_symbol || "?"} ${riskEmoji(score)} ${score}`)
+        : "⠿ Rug Munch"),
+      createElement("span", null,
+        toolButton(collapsed ? "▾" : "▴", collapsed ? "Expand" : "Collapse", () => update({ mode: collapsed ? "expanded" : "collapsed" })),
+        toolButton("●", "Minimize to pill", () => update({ mode: "pill" })),
       ),
     ),
-
-    // Full address
-    createElement("div", {
-      style: { marginTop: 6, fontSize: 8, fontFamily: "monospace", color: C.textMuted, wordBreak: "break-all", cursor: "pointer" },
-      onClick: () => navigator.clipboard.writeText(data.token_address),
-      title: "Click to copy",
-    }, data.token_address),
+    collapsed ? null : createElement(CatalogCard, card),
   );
 }
 
@@ -131,7 +157,15 @@ export function injectScoreCard(
   id: string,
   targetElement: Element,
   data: ScanResult,
-  options?: { compact?: boolean; position?: "after" | "float-right" | "float-left" }
+  options?: {
+    compact?: boolean;
+    position?: "after" | "float-right" | "float-left";
+    diff?: ScanDiff | null;
+    /** Key for the floating card's saved position / mode (default: hostname) */
+    site?: string;
+    /** Server-authored spec to show instead of scanToSpec(data) until the next SCAN_UPDATED */
+    spec?: RMSpec;
+  }
 ): void {
   if (injectedCards.has(id)) return;
 
@@ -174,8 +208,34 @@ export function injectScoreCard(
   }
 
   const root = createRoot(mountPoint);
-  root.render(createElement(ScoreCard, { data }));
-  injectedCards.set(id, { root, host });
+  const site = options?.site || window.location.hostname;
+  const render = (data: ScanResult, diff?: ScanDiff | null, spec?: RMSpec) => {
+    const card = { data, diff, spec, compact: options?.compact };
+    root.render(pos === "after"
+      ? createElement(CatalogCard, card)
+      : createElement(FloatingCard, { ...card, host, site }));
+  };
+  render(data, options?.diff, options?.spec);
+  injectedCards.set(id, { root, host, data, render });
+
+  // Background pushes refreshed results for stale cache hits
+  if (!listeningForUpdates) {
+    listeningForUpdates = true;
+    chrome.runtime.onMessage.addListener(createMessageRouter({
+      SCAN_UPDATED: (message) => updateScoreCards(message.data, message.diff ?? null),
+    }));
+  }
+}
+
+/**
+ * Re-render open cards for this token with fresher data.
+ */
+export function updateScoreCards(data: ScanResult, diff: ScanDiff | null): void {
+  for (const entry of injectedCards.values()) {
+    if (entry.data.token_address !== data.token_address) continue;
+    entry.data = data;
+    entry.render(data, diff);
+  }
 }
 
 export function removeCard(id: string): void {
@@ -453,4 +453,4 @@ export const { registry } = defineRegistry(rugMunchCatalog, {
 });
 
 export { Renderer };
-export { C as BRAND_COLORS };
+export { C as BRAND_COLORS, riskColor };
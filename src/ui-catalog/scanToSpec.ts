@@ -8,15 +8,16 @@
  */
 
 import type { ScanResult } from "../services/api";
+import type { ScanDiff } from "../utils/scanDiff";
 
-interface RMElement {
+export interface RMElement {
   type: string;
   props: Record<string, any>;
   children: string[];
   on?: Record<string, { action: string; params?: Record<string, any> }>;
 }
 
-interface RMSpec {
+export interface RMSpec {
   root: string;
   elements: Record<string, RMElement>;
 }
@@ -30,21 +31,21 @@ function riskLabel(score: number): string {
   return "Low Risk";
 }
 
-function riskEmoji(score: number): string {
+export function riskEmoji(score: number): string {
   if (score >= 75) return "🔴";
   if (score >= 50) return "🟠";
   if (score >= 25) return "🟡";
   return "🟢";
 }
 
-function formatUsd(v: number | undefined | null): string {
+export function formatUsd(v: number | undefined | null): string {
   if (!v) return "—";
   if (v >= 1_000_000) return `$${(v / 1_000_000).toFixed(1)}M`;
   if (v >= 1_000) return `$${(v / 1_000).toFixed(1)}K`;
   return `$${v.toFixed(2)}`;
 }
 
-function formatPrice(v: number): string {
+export function formatPrice(v: number): string {
   if (v === 0) return "$0";
   if (v < 0.000001) return `$${v.toExponential(2)}`;
   if (v < 0.01) return `$${v.toFixed(8)}`;
@@ -60,6 +61,14 @@ function formatAge(days: number | null | undefined): string {
   return `${Math.floor(days / 365)}y`;
 }
 
+function formatAgo(ts: number): string {
+  const m = Math.floor((Date.now() - ts) / 60000);
+  if (m < 1) return "just now";
+  if (m < 60) return `${m}m ago`;
+  if (m < 1440) return `${Math.floor(m / 60)}h ago`;
+  return `${Math.floor(m / 1440)}d ago`;
+}
+
 type Severity = "critical" | "high" | "moderate" | "safe" | "info";
 
 function scoreSeverity(score: number): Severity {
@@ -87,6 +96,10 @@ export function scanToSpec(data: ScanResult, options?: {
   compact?: boolean;
   showActions?: boolean;
   showBreakdown?: boolean;
+  /** "Changed since last scan" section for re-scans */
+  diff?: ScanDiff | null;
+  /** Token is already on the watchlist */
+  watched?: boolean;
 }): RMSpec {
   const opts = { compact: false, showActions: true, showBreakdown: true, ...options };
   const score = data.risk_score ?? 0;
@@ -253,6 +266,50 @@ export function scanToSpec(data: ScanResult, options?: {
     }
   }
 
+  // ── Changed Since Last Scan ───────────────────────────────
+  const diff = opts.diff;
+  if (diff?.hasChanges) {
+    elements["div-diff"] = { type: "Divider", props: { spacing: 6 }, children: [] };
+    elements["diff-label"] = {
+      type: "Text",
+      props: { content: `🔄 Changed since last scan · ${formatAgo(diff.since)}`, size: "xs", color: "muted" },
+      children: [],
+    };
+    rootChildren.push("div-diff", "diff-label");
+
+    const changes: Array<{ metric: string; value: string; severity: Severity }> = [];
+    const delta = diff.score.delta;
+    if (delta) {
+      changes.push({
+        metric: "Risk score",
+        value: `${diff.score.from} → ${diff.score.to} (${delta > 0 ? "+" : ""}${delta})`,
+        severity: delta > 0 ? "high" : "safe",
+      });
+    }
+    for (const f of diff.factorsAdded.slice(0, 4)) changes.push({ metric: `+ ${f}`, value: "new", severity: "high" });
+    for (const f of diff.factorsRemoved.slice(0, 4)) changes.push({ metric: `− ${f}`, value: "gone", severity: "safe" });
+    for (const c of diff.severityChanges.slice(0, 6)) {
+      changes.push({
+        metric: c.metric,
+        value: `${c.from || "—"} → ${c.to || "—"}`,
+        severity: (["critical", "high", "moderate", "safe"].includes(c.to || "") ? c.to : "info") as Severity,
+      });
+    }
+    const shift = (label: string, d: NonNullable<ScanDiff["liquidity"]>, usd: boolean) => changes.push({
+      metric: label,
+      value: `${d.change > 0 ? "▲" : "▼"} ${usd ? formatUsd(Math.abs(d.change)) : Math.abs(d.change).toLocaleString()}`
+        + (d.pct != null ? ` (${d.change > 0 ? "+" : ""}${(d.pct * 100).toFixed(0)}%)` : ""),
+      severity: d.change > 0 ? "safe" : "high",
+    });
+    if (diff.liquidity) shift("Liquidity", diff.liquidity, true);
+    if (diff.holders) shift("Holders", diff.holders, false);
+
+    changes.forEach((c, i) => {
+      elements[`diff-${i}`] = { type: "RiskMetric", props: c, children: [] };
+      rootChildren.push(`diff-${i}`);
+    });
+  }
+
   // ── Detailed Breakdown ────────────────────────────────────
   if (opts.showBreakdown && Object.keys(rb).length > 0) {
     elements["div-3"] = { type: "Divider", props: { spacing: 8 }, children: [] };
@@ -318,24 +375,37 @@ export function scanToSpec(data: ScanResult, options?: {
     elements["div-actions"] = { type: "Divider", props: { spacing: 8 }, children: [] };
     rootChildren.push("div-actions");
 
-    elements["btn-share"] = {
-      type: "ActionButton",
-      props: { label: "Share", icon: "📤", variant: "secondary", action: "share_result" },
-      children: [],
-      on: { press: { action: "share_result" } },
+    // Params name the token so a handler can act on any spec, not just its own card
+    const params = { address: data.token_address, chain: data.chain || "solana" };
+    const button = (id: string, label: string, icon: string, action: string, variant = "secondary") => {
+      elements[id] = {
+        type: "ActionButton",
+        props: { label, icon, variant, action },
+        children: [],
+        on: { press: { action, params } },
+      };
+      return id;
     };
-    elements["btn-chat"] = {
-      type: "ActionButton",
-      props: { label: "Ask Marcus", icon: "🗿", variant: "primary", action: "open_chat" },
-      children: [],
-      on: { press: { action: "open_chat" } },
+
+    elements["actions-token"] = {
+      type: "ActionRow",
+      props: { align: "stretch" },
+      children: [
+        button("btn-copy", "Copy", "📋", "copy_address", "ghost"),
+        button("btn-explorer", "Explorer", "🔍", "open_explorer", "ghost"),
+        button("btn-watch", opts.watched ? "Watching" : "Watch", "👁", "add_watchlist", "ghost"),
+      ],
     };
     elements["actions"] = {
       type: "ActionRow",
       props: { align: "stretch" },
-      children: ["btn-share", "btn-chat"],
+      children: [
+        button("btn-share", "Share", "📤", "share_result"),
+        button("btn-full", "Full Scan", "🔬", "full_scan"),
+        button("btn-chat", "Ask Marcus", "🗿", "open_chat", "primary"),
+      ],
     };
-    rootChildren.push("actions");
+    rootChildren.push("actions-token", "actions");
   }
 
   // ── Address Footer ────────────────────────────────────────
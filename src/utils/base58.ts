@@ -0,0 +1,46 @@
+/**
+ * Base58 (Bitcoin alphabet) — Solana addresses, blockhashes and signatures.
+ */
+
+const ALPHABET = "123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz";
+
+export function base58encode(bytes: Uint8Array): string {
+  // Little-endian base58 digits while accumulating, reversed at the end
+  const digits: number[] = [];
+  for (const byte of bytes) {
+    let carry = byte;
+    for (let i = 0; i < digits.length; i++) {
+      carry += digits[i] << 8;
+      digits[i] = carry % 58;
+      carry = Math.floor(carry / 58);
+    }
+    while (carry > 0) {
+      digits.push(carry % 58);
+      carry = Math.floor(carry / 58);
+    }
+  }
+  // Each leading zero byte is a leading "1"
+  let result = "";
+  for (let i = 0; i < bytes.length && bytes[i] === 0; i++) result += "1";
+  for (let i = digits.length - 1; i >= 0; i--) result += ALPHABET[digits[i]];
+  return result;
+}
+
+export function base58decode(value: string): Uint8Array {
+  const bytes: number[] = [];
+  for (const char of value) {
+    let carry = ALPHABET.indexOf(char);
+    if (carry < 0) throw new Error(`Invalid base58 character "${char}"`);
+    for (let i = 0; i < bytes.length; i++) {
+      carry += bytes[i] * 58;
+      bytes[i] = carry & 0xff;
+      carry >>= 8;
+    }
+    while (carry > 0) {
+      bytes.push(carry & 0xff);
+      carry >>= 8;
+    }
+  }
+  for (let i = 0; i < value.length && value[i] === "1"; i++) bytes.push(0);
+  return Uint8Array.from(bytes.reverse());
+}
@@ -0,0 +1,94 @@
+/**
+ * Chain registry — address formats and block explorers per chain.
+ *
+ * Solana uses base58 mints; every EVM chain shares the 0x + 40 hex format,
+ * so an EVM address alone doesn't tell us the chain — callers pass a
+ * chain hint from the page (URL path, explorer host, query param).
+ */
+
+export type ChainId =
+  | "solana" | "ethereum" | "base" | "bsc" | "polygon"
+  | "arbitrum" | "optimism" | "avalanche";
+
+interface ChainInfo {
+  label: string;
+  explorer: string;        // Token page URL prefix
+  explorerHosts: string[]; // Hosts whose links identify this chain
+  evmChainId?: number;     // EIP-155 id, for wallet transactions
+}
+
+export const CHAINS: Record<ChainId, ChainInfo> = {
+  solana: {
+    label: "Solana",
+    explorer: "https://solscan.io/token/",
+    explorerHosts: ["solscan.io", "explorer.solana.com", "solana.fm"],
+  },
+  ethereum: { label: "Ethereum", explorer: "https://etherscan.io/token/", explorerHosts: ["etherscan.io"], evmChainId: 1 },
+  base: { label: "Base", explorer: "https://basescan.org/token/", explorerHosts: ["basescan.org"], evmChainId: 8453 },
+  bsc: { label: "BNB Chain", explorer: "https://bscscan.com/token/", explorerHosts: ["bscscan.com"], evmChainId: 56 },
+  polygon: { label: "Polygon", explorer: "https://polygonscan.com/token/", explorerHosts: ["polygonscan.com"], evmChainId: 137 },
+  arbitrum: { label: "Arbitrum", explorer: "https://arbiscan.io/token/", explorerHosts: ["arbiscan.io"], evmChainId: 42161 },
+  optimism: {
+    label: "Optimism",
+    explorer: "https://optimistic.etherscan.io/token/",
+    explorerHosts: ["optimistic.etherscan.io"],
+    evmChainId: 10,
+  },
+  avalanche: { label: "Avalanche", explorer: "https://snowtrace.io/token/", explorerHosts: ["snowtrace.io"], evmChainId: 43114 },
+};
+
+export const EVM_CHAINS = (Object.keys(CHAINS) as ChainId[]).filter((c) => c !== "solana");
+
+export const SOLANA_ADDRESS_RE = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/;
+export const EVM_ADDRESS_RE = /^0x[a-fA-F0-9]{40}$/;
+
+export function isSolanaAddress(value: string): boolean {
+  return SOLANA_ADDRESS_RE.test(value);
+}
+
+export function isEvmAddress(value: string): boolean {
+  return EVM_ADDRESS_RE.test(value);
+}
+
+export function isTokenAddress(value: string): boolean {
+  return isSolanaAddress(value) || isEvmAddress(value);
+}
+
+export function isEvmChain(chain: string | null | undefined): boolean {
+  return !!chain && chain !== "solana" && chain in CHAINS;
+}
+
+/**
+ * Pick the chain for an address. Base58 is always Solana; 0x addresses use
+ * the hint when it's an EVM chain, otherwise Ethereum.
+ */
+export function resolveChain(address: string, hint?: string | null): string {
+  if (isEvmAddress(address)) return isEvmChain(hint) ? hint! : "ethereum";
+  return "solana";
+}
+
+/**
+ * Chain for an explorer URL (etherscan.io → ethereum, basescan.org → base…).
+ * Longest host first so optimistic.etherscan.io doesn't match etherscan.io.
+ */
+export function chainFromExplorerHost(hostname: string): ChainId | null {
+  const entries = (Object.entries(CHAINS) as [ChainId, ChainInfo][])
+    .flatMap(([id, info]) => info.explorerHosts.map((h) => [id, h] as const))
+    .sort((a, b) => b[1].length - a[1].length);
+  for (const [id, host] of entries) {
+    if (hostname === host || hostname.endsWith(`.${host}`)) return id;
+  }
+  return null;
+}
+
+export function explorerTokenUrl(address: string, chain: string | null | undefined): string {
+  const info = CHAINS[resolveChain(address, chain) as ChainId] || CHAINS.solana;
+  return `${info.explorer}${address}`;
+}
+
+/**
+ * Cache / storage key — EVM contracts can share an address across chains.
+ */
+export function tokenKey(address: string, chain: string | null | undefined): string {
+  return isEvmAddress(address) ? `${resolveChain(address, chain)}:${address.toLowerCase()}` : address;
+}
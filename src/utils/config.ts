@@ -7,16 +7,52 @@ export interface ExtensionSettings {
   autoScan: boolean;          // Auto-scan tokens on supported pages
   showBadges: boolean;        // Show risk badges on pages
   swapWarnings: boolean;      // Show pre-swap warnings on Jupiter/Raydium
-  compactBadges: boolean;     // Use compact badge style in lists
-  apiBase: string;            // API base URL
+  swapWarningThreshold: number; // Block swaps into tokens scoring at or above this
+  txSimulation: boolean;      // Simulate wallet transactions and warn before signing
+  compactBadges: boolean;     // Compact risk badges on token list rows
+  watchlistAlerts: boolean;   // Notify when a watched token's risk changes
+  universalHighlight: boolean; // Highlight contract addresses on any site
+  universalAllow: string[];   // Sites to highlight on (empty = every site)
+  universalDeny: string[];    // Sites never to highlight on
+  cacheMarketTtlMinutes: number; // Price / liquidity freshness before a background refresh
+  cacheMaxEntries: number;    // Scan cache size cap (least recently used evicted)
+  apiBase: string;            // API base URL (the active endpoint profile)
+  apiProfiles: ApiProfile[];  // Named API endpoints to switch between
+  preferredWallet: string | null; // Wallet provider id for sign-in (null = first detected)
 }
 
+export interface ApiProfile {
+  id: string;
+  name: string;
+  url: string;
+  builtIn?: boolean;
+  /** Send the sign-in token to this endpoint (production always gets it) */
+  sendAuth?: boolean;
+}
+
+export const PRODUCTION_API_BASE = "https://cryptorugmunch.app/api";
+
+export const DEFAULT_API_PROFILES: ApiProfile[] = [
+  { id: "production", name: "Production", url: PRODUCTION_API_BASE, builtIn: true },
+  { id: "local", name: "Local dev server", url: "http://localhost:8000/api", builtIn: true },
+];
+
 export const DEFAULT_SETTINGS: ExtensionSettings = {
   autoScan: true,
   showBadges: true,
   swapWarnings: true,
-  compactBadges: false,
-  apiBase: "https://cryptorugmunch.app/api",
+  swapWarningThreshold: 50,
+  txSimulation: false,
+  compactBadges: true,
+  watchlistAlerts: true,
+  universalHighlight: false,
+  universalAllow: ["x.com", "twitter.com", "web.telegram.org", "discord.com"],
+  universalDeny: [],
+  cacheMarketTtlMinutes: 5,
+  cacheMaxEntries: 500,
+  apiBase: PRODUCTION_API_BASE,
+  apiProfiles: DEFAULT_API_PROFILES,
+  preferredWallet: null,
 };
 
 export async function getSettings(): Promise<ExtensionSettings> {
@@ -35,11 +71,68 @@ export async function updateSettings(updates: Partial<ExtensionSettings>): Promi
   return merged;
 }
 
+/**
+ * Host access the universal highlighting script runs with — optional, asked
+ * for only when the user turns highlighting on (see Settings)
+ */
+export const UNIVERSAL_ORIGINS = ["https://*/*"];
+
+/**
+ * Whether universal highlighting may run on a host. A site entry matches
+ * itself and its subdomains; the deny list wins over the allow list.
+ */
+export function isUniversalSiteAllowed(hostname: string, settings: ExtensionSettings): boolean {
+  if (!settings.universalHighlight) return false;
+  const matches = (site: string) => hostname === site || hostname.endsWith(`.${site}`);
+  if (settings.universalDeny.some(matches)) return false;
+  return settings.universalAllow.length === 0 || settings.universalAllow.some(matches);
+}
+
 export async function getApiBase(): Promise<string> {
   const settings = await getSettings();
   return settings.apiBase;
 }
 
+// The only hosts an API base may use plain http for
+const LOCAL_HOSTS = new Set(["localhost", "127.0.0.1"]);
+
+/**
+ * "staging.example.com/api/" → "https://staging.example.com/api",
+ * "localhost:8000/api/" → "http://localhost:8000/api". Returns null for
+ * anything that isn't https, or http to localhost / 127.0.0.1 — the
+ * sign-in token must never travel in cleartext.
+ */
+export function normalizeApiUrl(value: string): string | null {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  const local = LOCAL_HOSTS.has(trimmed.split(/[/:]/)[0].toLowerCase());
+  const withScheme = /^[a-z]+:\/\//i.test(trimmed) ? trimmed : `${local ? "http" : "https"}://${trimmed}`;
+  try {
+    const url = new URL(withScheme);
+    if (url.protocol !== "https:" && !(url.protocol === "http:" && LOCAL_HOSTS.has(url.hostname))) return null;
+    return `${url.origin}${url.pathname}`.replace(/\/+$/, "");
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Profile whose URL is the current API base — null for a base set
+ * outside the profile list.
+ */
+export function activeApiProfile(settings: ExtensionSettings): ApiProfile | null {
+  return settings.apiProfiles.find((p) => p.url === settings.apiBase) || null;
+}
+
+/**
+ * Whether the stored sign-in token may go to the current API base:
+ * production always, any other endpoint only if its profile opted in.
+ */
+export async function authTokenAllowed(): Promise<boolean> {
+  const settings = await getSettings();
+  return settings.apiBase === PRODUCTION_API_BASE || activeApiProfile(settings)?.sendAuth === true;
+}
+
 // Account state
 export interface AccountState {
   tier: "free" | "free_linked" | "holder" | "scout" | "whale" | "analyst" | "syndicate" | "og" | "vip";
@@ -0,0 +1,100 @@
+/**
+ * Typed messaging helpers on top of the protocol in types/messages.ts.
+ *
+ * - sendMessage / sendTabMessage: request → typed response promises
+ * - createMessageRouter: one onMessage listener per context that validates
+ *   incoming messages and dispatches to per-type handlers
+ */
+
+import {
+  ExtMessageSchema,
+  type ExtMessage, type ExtMessageType, type MessageOf, type ResponseOf, type RejectedMessage,
+} from "../types/messages";
+
+/**
+ * Validate an incoming message. Returns null for unknown or malformed messages.
+ */
+export function parseMessage(raw: unknown): ExtMessage | null {
+  const result = ExtMessageSchema.safeParse(raw);
+  return result.success ? result.data : null;
+}
+
+function isRejected(resp: unknown): resp is RejectedMessage {
+  return !!resp && typeof resp === "object" && (resp as RejectedMessage).rejected === true;
+}
+
+function settle<T>(resolve: (v: T) => void, reject: (e: Error) => void, fallback: string) {
+  return (response: unknown) => {
+    if (chrome.runtime.lastError) {
+      reject(new Error(chrome.runtime.lastError.message || fallback));
+      return;
+    }
+    if (isRejected(response)) {
+      reject(new Error(response.error));
+      return;
+    }
+    resolve(response as T);
+  };
+}
+
+/**
+ * Send a message to the background (and any open extension pages).
+ */
+export function sendMessage<T extends ExtMessageType>(message: MessageOf<T>): Promise<ResponseOf<T>> {
+  return new Promise((resolve, reject) => {
+    chrome.runtime.sendMessage(message, settle(resolve, reject, "Background unreachable"));
+  });
+}
+
+/**
+ * Send a message to the content scripts of a specific tab.
+ */
+export function sendTabMessage<T extends ExtMessageType>(tabId: number, message: MessageOf<T>): Promise<ResponseOf<T>> {
+  return new Promise((resolve, reject) => {
+    chrome.tabs.sendMessage(tabId, message, settle(resolve, reject, "Content script unreachable"));
+  });
+}
+
+export type MessageHandler<T extends ExtMessageType> = (
+  message: MessageOf<T>,
+  sender: chrome.runtime.MessageSender,
+) => ResponseOf<T> | Promise<ResponseOf<T>>;
+
+export type MessageHandlers = { [K in ExtMessageType]?: MessageHandler<K> };
+
+/**
+ * Build a chrome.runtime.onMessage listener from a handler map.
+ *
+ * - Malformed / unknown messages are answered with a RejectedMessage.
+ * - Valid messages without a handler in this context are ignored, so other
+ *   listeners (e.g. a second content script in the same tab) can answer.
+ */
+export function createMessageRouter(handlers: MessageHandlers) {
+  return (
+    raw: unknown,
+    sender: chrome.runtime.MessageSender,
+    sendResponse: (response?: unknown) => void,
+  ): boolean => {
+    const message = parseMessage(raw);
+    if (!message) {
+      const type = (raw as any)?.type;
+      console.warn("[RMS] Rejected malformed message:", type ?? raw);
+      sendResponse({ rejected: true, error: `Invalid message${type ? `: ${type}` : ""}` } satisfies RejectedMessage);
+      return false;
+    }
+
+    const handler = handlers[message.type] as MessageHandler<typeof message.type> | undefined;
+    if (!handler) return false;
+
+    Promise.resolve()
+      .then(() => handler(message as never, sender))
+      .then(
+        (response) => sendResponse(response),
+        (e: any) => {
+          console.error(`[RMS] ${message.type} handler failed:`, e);
+          sendResponse({ rejected: true, error: e?.message || `${message.type} failed` } satisfies RejectedMessage);
+        },
+      );
+    return true; // async response
+  };
+}
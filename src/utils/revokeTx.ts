@@ -0,0 +1,53 @@
+/**
+ * Revoke transactions — the one-click fix for approvals found by the
+ * approval audit (services/approvals.ts).
+ *
+ * Built locally rather than by the API, so the only thing the wallet is
+ * ever asked to sign from the audit is a revoke:
+ * - Solana: a legacy transaction with one SPL Token `Revoke` instruction,
+ *   paid for and signed by the token account's owner
+ * - EVM: ERC-20 `approve(spender, 0)` calldata
+ */
+
+import { isEvmAddress } from "./chains";
+import { base58decode } from "./base58";
+
+export const TOKEN_PROGRAM_ID = "TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA";
+// SPL Token (and Token-2022) instruction index
+const REVOKE_INSTRUCTION = 5;
+// approve(address,uint256)
+const APPROVE_SELECTOR = "0x095ea7b3";
+
+function publicKey(address: string): Uint8Array {
+  const bytes = base58decode(address);
+  if (bytes.length !== 32) throw new Error(`Invalid Solana address: ${address}`);
+  return bytes;
+}
+
+/**
+ * Unsigned wire-format transaction removing `tokenAccount`'s delegate.
+ * The owner's signature slot is left zeroed for the wallet to fill.
+ */
+export function buildSplRevokeTransaction(
+  owner: string,
+  tokenAccount: string,
+  recentBlockhash: string,
+  programId = TOKEN_PROGRAM_ID,
+): Uint8Array {
+  const message = [
+    // Header: 1 signature (owner), 0 read-only signers, 1 read-only account (program)
+    1, 0, 1,
+    // Account keys: owner (fee payer), token account, token program
+    3, ...publicKey(owner), ...publicKey(tokenAccount), ...publicKey(programId),
+    ...publicKey(recentBlockhash),
+    // One instruction: program #2, accounts [token account, owner], data [Revoke]
+    1, 2, 2, 1, 0, 1, REVOKE_INSTRUCTION,
+  ];
+  return Uint8Array.from([1, ...new Array(64).fill(0), ...message]);
+}
+
+/** Calldata setting `spender`'s ERC-20 allowance to zero */
+export function erc20RevokeCalldata(spender: string): string {
+  if (!isEvmAddress(spender)) throw new Error(`Invalid EVM address: ${spender}`);
+  return APPROVE_SELECTOR + spender.slice(2).toLowerCase().padStart(64, "0") + "0".repeat(64);
+}
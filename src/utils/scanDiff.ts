@@ -0,0 +1,105 @@
+/**
+ * Scan diffing — what changed between two scans of the same token.
+ *
+ * Used by the scan layer (api.ts) to attach a "Changed since last scan"
+ * summary to fresh results.
+ */
+
+import type { ScanResult } from "../services/api";
+import type { RiskBreakdown, RiskMetricItem } from "../types/scan";
+
+export interface SeverityChange {
+  category: string;
+  metric: string;
+  from: RiskMetricItem["severity"] | null;
+  to: RiskMetricItem["severity"] | null;
+}
+
+export interface NumericDelta {
+  from: number;
+  to: number;
+  change: number;
+  /** Relative change, null when `from` is 0 */
+  pct: number | null;
+}
+
+export interface ScanDiff {
+  /** Timestamp of the previous scan */
+  since: number;
+  score: { from: number | null; to: number | null; delta: number | null };
+  factorsAdded: string[];
+  factorsRemoved: string[];
+  severityChanges: SeverityChange[];
+  liquidity: NumericDelta | null;
+  holders: NumericDelta | null;
+  hasChanges: boolean;
+}
+
+/** Ignore liquidity / holder moves smaller than this fraction */
+const MIN_RELATIVE_CHANGE = 0.05;
+
+function numericDelta(from: number | null | undefined, to: number | null | undefined): NumericDelta | null {
+  if (from == null || to == null || from === to) return null;
+  const pct = from !== 0 ? (to - from) / from : null;
+  if (pct != null && Math.abs(pct) < MIN_RELATIVE_CHANGE) return null;
+  return { from, to, change: to - from, pct };
+}
+
+function severityMap(breakdown: RiskBreakdown | undefined): Map<string, { category: string; metric: string; severity: RiskMetricItem["severity"] }> {
+  const map = new Map();
+  for (const [category, cat] of Object.entries(breakdown || {})) {
+    for (const item of cat?.items || []) {
+      map.set(`${category}:${item.metric}`, { category, metric: item.metric, severity: item.severity });
+    }
+  }
+  return map;
+}
+
+export function diffScans(prev: ScanResult, next: ScanResult, since: number): ScanDiff {
+  const scoreDelta = prev.risk_score != null && next.risk_score != null
+    ? next.risk_score - prev.risk_score
+    : null;
+
+  const prevFactors = new Set(prev.risk_factors || []);
+  const nextFactors = new Set(next.risk_factors || []);
+  const factorsAdded = [...nextFactors].filter((f) => !prevFactors.has(f));
+  const factorsRemoved = [...prevFactors].filter((f) => !nextFactors.has(f));
+
+  // Only compare categories present in both — a missing category means
+  // the API didn't return it, not that every metric disappeared.
+  const severityChanges: SeverityChange[] = [];
+  if (prev.risk_breakdown && next.risk_breakdown) {
+    const before = severityMap(prev.risk_breakdown);
+    const after = severityMap(next.risk_breakdown);
+    const shared = new Set(
+      Object.keys(prev.risk_breakdown).filter((k) => k in next.risk_breakdown!),
+    );
+    for (const key of new Set([...before.keys(), ...after.keys()])) {
+      const b = before.get(key);
+      const a = after.get(key);
+      const category = (a || b)!.category;
+      if (!shared.has(category) || b?.severity === a?.severity) continue;
+      severityChanges.push({
+        category,
+        metric: (a || b)!.metric,
+        from: b?.severity ?? null,
+        to: a?.severity ?? null,
+      });
+    }
+  }
+
+  const liquidity = numericDelta(prev.liquidity_usd, next.liquidity_usd);
+  const holders = numericDelta(prev.holder_count, next.holder_count);
+
+  return {
+    since,
+    score: { from: prev.risk_score, to: next.risk_score, delta: scoreDelta },
+    factorsAdded,
+    factorsRemoved,
+    severityChanges,
+    liquidity,
+    holders,
+    hasChanges: !!scoreDelta || factorsAdded.length > 0 || factorsRemoved.length > 0 ||
+      severityChanges.length > 0 || !!liquidity || !!holders,
+  };
+}
@@ -109,7 +109,8 @@ export function waitForElement(
 }
 
 /**
- * Extract Solana contract address from any supported site URL.
+ * Extract a token address (Solana mint or EVM contract) from any supported
+ * site URL. Pair with extractChainFromUrl for the chain.
  * Used by popup for auto-detection from active tab.
  */
 export function extractMintFromUrl(url: string): string | null {
@@ -137,9 +138,9 @@ export function extractMintFromUrl(url: string): string | null {
       if (m) return m[1];
     }
 
-    // GMGN: /sol/token/MINT
+    // GMGN: /sol/token/MINT, /eth|base|bsc/token/0x…
     if (host.includes("gmgn.ai")) {
-      const m = path.match(/\/sol\/token\/([A-Za-z0-9]{32,50})/);
+      const m = path.match(/\/(?:sol|eth|base|bsc)\/token\/([A-Za-z0-9]{32,50})/);
       if (m) return m[1];
     }
 
@@ -169,12 +170,53 @@ export function extractMintFromUrl(url: string): string | null {
       if (m) return m[1];
     }
 
-    // Generic fallback: base58 address in path
+    // Axiom: /meme/PAIR — pair address; token comes from the DOM
+    if (host.includes("axiom.trade")) {
+      return null;
+    }
+
+    // Moonshot: /token/MINT or /MINT
+    if (host.includes("moonshot.money")) {
+      const m = path.match(/^\/(?:token\/)?([1-9A-HJ-NP-Za-km-z]{32,44})/);
+      return m ? m[1] : null;
+    }
+
+    // Meteora: /dlmm/POOL, /dyn/POOL — pool address; token comes from the DOM
+    if (host.includes("meteora.ag")) {
+      return null;
+    }
+
+    // Orca: /tokens/MINT or swap ?tokenOut=MINT; /pools/POOL comes from the DOM
+    if (host.includes("orca.so")) {
+      const m = path.match(/^\/tokens\/([1-9A-HJ-NP-Za-km-z]{32,44})/);
+      if (m) return m[1];
+      const out = u.searchParams.get("tokenOut");
+      return out && /^[1-9A-HJ-NP-Za-km-z]{32,44}$/.test(out) ? out : null;
+    }
+
+    // Solscan: /token/MINT only — /account/ is a wallet
+    if (host.includes("solscan.io")) {
+      const m = path.match(/^\/token\/([1-9A-HJ-NP-Za-km-z]{32,44})/);
+      return m ? m[1] : null;
+    }
+
+    // SolanaFM: /address/MINT (tokens and wallets share it; wallets scan as not_scanned)
+    if (host.includes("solana.fm")) {
+      const m = path.match(/^\/(?:address|token)\/([1-9A-HJ-NP-Za-km-z]{32,44})/);
+      return m ? m[1] : null;
+    }
+
+    // Generic fallback: EVM contract or base58 address in path
+    // (covers Etherscan / Basescan / BscScan /token/0x… and Solscan /token/MINT)
+    const evmMatch = path.match(/\/(0x[a-fA-F0-9]{40})(?![a-fA-F0-9])/);
+    if (evmMatch) return evmMatch[1];
     const genericMatch = path.match(/\/([A-HJ-NP-Za-km-z1-9]{32,44})/);
     if (genericMatch) return genericMatch[1];
 
   } catch {
     // Invalid URL — try regex on raw string
+    const evm = url.match(/(0x[a-fA-F0-9]{40})/);
+    if (evm) return evm[1];
     const m = url.match(/([A-HJ-NP-Za-km-z1-9]{32,44})/);
     if (m) return m[1];
   }
@@ -0,0 +1,123 @@
+/**
+ * Pre-swap guard for DEX swap UIs (Jupiter, Raydium).
+ *
+ * While armed with a risky scan result, swap-button clicks are intercepted
+ * in the capture phase (before the page's own handlers) and a blocking
+ * SwapGuardModal is shown. Confirming replays the original click once.
+ */
+
+import { createRoot, Root } from "react-dom/client";
+import { createElement } from "react";
+import { SwapGuardModal } from "../components/SwapGuardModal";
+import type { ScanResult } from "../services/api";
+
+const HOST_ID = "rms-swap-guard";
+
+let armed: ScanResult | null = null;
+let bypass: HTMLButtonElement | null = null;
+let listening = false;
+let modal: { root: Root; host: HTMLElement; onKey: (e: KeyboardEvent) => void } | null = null;
+
+/**
+ * Whether a scan result should block swaps at the given threshold.
+ * Unknown scores never block.
+ */
+export function shouldGuardSwap(data: ScanResult | null | undefined, threshold: number): boolean {
+  if (!data || data.not_scanned || data.risk_score == null) return false;
+  return data.risk_score >= threshold;
+}
+
+/**
+ * Heuristic for the primary swap button: a short label containing "swap".
+ * Icon-only buttons (flip direction, settings) have no text and are ignored.
+ */
+export function isSwapButton(button: Element): boolean {
+  if (button.closest(`#${HOST_ID}`)) return false;
+  const text = (button.textContent || "").trim();
+  return text.length > 0 && text.length <= 40 && /\bswap\b/i.test(text);
+}
+
+/**
+ * Arm the guard for the current output token. Disarms when the result
+ * is below the threshold, so callers can pass every fresh scan through.
+ */
+export function armSwapGuard(data: ScanResult, threshold: number): boolean {
+  if (!shouldGuardSwap(data, threshold)) {
+    disarmSwapGuard();
+    return false;
+  }
+  armed = data;
+  if (!listening) {
+    window.addEventListener("click", onClickCapture, true);
+    listening = true;
+  }
+  return true;
+}
+
+export function disarmSwapGuard(): void {
+  armed = null;
+  bypass = null;
+  closeModal();
+}
+
+function onClickCapture(e: MouseEvent) {
+  if (!armed) return;
+  const button = (e.target as Element | null)?.closest?.("button");
+  if (!button || !isSwapButton(button)) return;
+
+  // Replayed click after the user confirmed
+  if (bypass === button) {
+    bypass = null;
+    return;
+  }
+
+  e.preventDefault();
+  e.stopImmediatePropagation();
+  openModal(armed, button);
+}
+
+function openModal(data: ScanResult, button: HTMLButtonElement) {
+  closeModal();
+
+  const host = document.createElement("div");
+  host.id = HOST_ID;
+  host.style.cssText = "position: fixed; inset: 0; z-index: 2147483647;";
+
+  const shadow = host.attachShadow({ mode: "closed" });
+  const style = document.createElement("style");
+  style.textContent = `
+    :host { all: initial; }
+    * { box-sizing: border-box; margin: 0; padding: 0; }
+  `;
+  shadow.appendChild(style);
+  const mountPoint = document.createElement("div");
+  shadow.appendChild(mountPoint);
+  document.body.appendChild(host);
+
+  const onKey = (e: KeyboardEvent) => {
+    if (e.key === "Escape") closeModal();
+  };
+  window.addEventListener("keydown", onKey, true);
+
+  const root = createRoot(mountPoint);
+  root.render(createElement(SwapGuardModal, {
+    data,
+    onCancel: closeModal,
+    onProceed: () => {
+      closeModal();
+      bypass = button;
+      button.click();
+    },
+  }));
+  modal = { root, host, onKey };
+}
+
+function closeModal() {
+  if (!modal) return;
+  const { root, host, onKey } = modal;
+  modal = null;
+  window.removeEventListener("keydown", onKey, true);
+  host.remove();
+  // Defer unmount — closeModal is usually called from inside a React handler
+  queueMicrotask(() => root.unmount());
+}
@@ -6,6 +6,8 @@
  * page DOM, explorer links, or structured data.
  */
 
+import { isEvmAddress, isTokenAddress, chainFromExplorerHost, CHAINS } from "./chains";
+
 // Known wrapped/base tokens to exclude when detecting "the" token
 const BASE_TOKENS = new Set([
   "So11111111111111111111111111111111111111112",   // Wrapped SOL
@@ -13,9 +15,46 @@ const BASE_TOKENS = new Set([
   "TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA",  // Token program
   "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v", // USDC
   "Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB", // USDT
+  // EVM — lowercase
+  "0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2",   // WETH (Ethereum)
+  "0x4200000000000000000000000000000000000006",   // WETH (Base / Optimism)
+  "0xbb4cdb9cbd36b01bd1cbaebf2de08d9173bc095c",   // WBNB
+  "0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48",   // USDC (Ethereum)
+  "0x833589fcd6edb6e08f4c7c32d4f71b54bda02913",   // USDC (Base)
+  "0xdac17f958d2ee523a2206206994597c13d831ec7",   // USDT (Ethereum)
+  "0x55d398326f99059ff775485246999027b3197955",   // USDT (BSC)
 ]);
 
-// Solana base58 address pattern (32-44 chars, proper base58 charset)
+function isBaseToken(address: string): boolean {
+  return BASE_TOKENS.has(isEvmAddress(address) ? address.toLowerCase() : address);
+}
+
+// Token address in an explorer path: base58 mint or 0x contract
+const EXPLORER_PATH_RE = /(?:token|account|address)\/([1-9A-HJ-NP-Za-km-z]{32,44}|0x[a-fA-F0-9]{40})(?![a-zA-Z0-9])/;
+
+const EXPLORER_LINK_SELECTOR = Object.values(CHAINS)
+  .flatMap((c) => c.explorerHosts)
+  .flatMap((host) => ["token", "account", "address"].map((kind) => `a[href*="${host}/${kind}/"]`))
+  .join(", ");
+
+/**
+ * First non-base token linked to a block explorer — Solscan / Solana
+ * Explorer / SolanaFM on Solana, Etherscan-family on EVM chains.
+ * Pair / pool pages (DexScreener, Axiom, Meteora, Orca) link the token
+ * they trade even though their URL is the pool's.
+ */
+export function extractTokenFromExplorerLinks(root: ParentNode = document): string | null {
+  const candidates: string[] = [];
+  for (const link of Array.from(root.querySelectorAll(EXPLORER_LINK_SELECTOR))) {
+    const href = (link as HTMLAnchorElement).href;
+    const match = href.match(EXPLORER_PATH_RE);
+    if (!match || isBaseToken(match[1])) continue;
+    // /token/ links beat /account/ ones, which are often the pool itself
+    if (href.includes("/token/")) return match[1];
+    candidates.push(match[1]);
+  }
+  return candidates[0] ?? null;
+}
 
 /**
  * Extract real token mint from DexScreener page.
@@ -27,24 +66,8 @@ const BASE_TOKENS = new Set([
  */
 export function extractTokenFromDexScreener(): string | null {
   // Strategy 1: Explorer links (most reliable — always present in DexScreener)
-  const explorerLinks = document.querySelectorAll(
-    'a[href*="solscan.io/token/"], a[href*="solscan.io/account/"], ' +
-    'a[href*="explorer.solana.com/address/"], a[href*="solana.fm/address/"]'
-  );
-
-  const candidates: string[] = [];
-  for (const link of Array.from(explorerLinks)) {
-    const href = (link as HTMLAnchorElement).href;
-    const match = href.match(/(?:token|account|address)\/([1-9A-HJ-NP-Za-km-z]{32,44})/);
-    if (match && !BASE_TOKENS.has(match[1])) {
-      candidates.push(match[1]);
-    }
-  }
-
-  // First non-base token from explorer links is usually the target token
-  if (candidates.length > 0) {
-    return candidates[0];
-  }
+  const linked = extractTokenFromExplorerLinks();
+  if (linked) return linked;
 
   // Strategy 2: __NEXT_DATA__ (DexScreener uses Next.js)
   const nextData = document.getElementById("__NEXT_DATA__");
@@ -60,8 +83,8 @@ export function extractTokenFromDexScreener(): string | null {
           const baseToken = pair.baseToken?.address;
           const quoteToken = pair.quoteToken?.address;
           // Return the non-SOL token
-          if (baseToken && !BASE_TOKENS.has(baseToken)) return baseToken;
-          if (quoteToken && !BASE_TOKENS.has(quoteToken)) return quoteToken;
+          if (baseToken && !isBaseToken(baseToken)) return baseToken;
+          if (quoteToken && !isBaseToken(quoteToken)) return quoteToken;
         }
       }
     } catch {
@@ -75,7 +98,7 @@ export function extractTokenFromDexScreener(): string | null {
     const addr = el.getAttribute("data-address") ||
                  el.getAttribute("data-token-address") ||
                  el.getAttribute("data-mint");
-    if (addr && addr.length >= 32 && addr.length <= 44 && !BASE_TOKENS.has(addr)) {
+    if (addr && isTokenAddress(addr) && !isBaseToken(addr)) {
       return addr;
     }
   }
@@ -84,9 +107,8 @@ export function extractTokenFromDexScreener(): string | null {
   const copyBtns = document.querySelectorAll('button[class*="copy"], [data-clipboard], [class*="address"]');
   for (const btn of Array.from(copyBtns)) {
     const text = btn.textContent?.trim() || "";
-    const addrMatch = text.match(/^([1-9A-HJ-NP-Za-km-z]{32,44})$/);
-    if (addrMatch && !BASE_TOKENS.has(addrMatch[1])) {
-      return addrMatch[1];
+    if (isTokenAddress(text) && !isBaseToken(text)) {
+      return text;
     }
   }
 
@@ -113,12 +135,43 @@ export function extractTokenFromPage(hostname: string): string | null {
   return null; // Caller falls back to extractMintFromUrl
 }
 
+// GMGN path prefixes → chain
+const GMGN_CHAINS: Record<string, string> = { sol: "solana", eth: "ethereum", base: "base", bsc: "bsc" };
+
+// BullX ?chainId= values → chain
+const BULLX_CHAIN_IDS: Record<string, string> = {
+  "1399811149": "solana", "1": "ethereum", "8453": "base", "56": "bsc",
+  "137": "polygon", "42161": "arbitrum", "10": "optimism", "43114": "avalanche",
+};
+
 /**
- * Extract chain from DexScreener URL path.
+ * Extract chain from a page URL.
+ * DexScreener / GMGN path prefixes, Birdeye ?chain=, BullX ?chainId=,
+ * and block explorer hosts. Defaults to Solana.
  */
 export function extractChainFromUrl(url: string): string {
   try {
-    const path = new URL(url).pathname;
+    const u = new URL(url);
+    const path = u.pathname;
+
+    const explorerChain = chainFromExplorerHost(u.hostname);
+    if (explorerChain) return explorerChain;
+
+    if (u.hostname.includes("gmgn.ai")) {
+      const m = path.match(/^\/([a-z]+)\/token\//);
+      if (m && GMGN_CHAINS[m[1]]) return GMGN_CHAINS[m[1]];
+    }
+
+    if (u.hostname.includes("birdeye.so")) {
+      const chain = u.searchParams.get("chain");
+      if (chain && chain in CHAINS) return chain;
+    }
+
+    if (u.hostname.includes("bullx.io")) {
+      const id = u.searchParams.get("chainId");
+      if (id && BULLX_CHAIN_IDS[id]) return BULLX_CHAIN_IDS[id];
+    }
+
     if (path.startsWith("/solana/")) return "solana";
     if (path.startsWith("/base/")) return "base";
     if (path.startsWith("/ethereum/")) return "ethereum";
@@ -130,3 +183,48 @@ export function extractChainFromUrl(url: string): string {
   } catch {}
   return "solana"; // Default
 }
+
+/**
+ * Extract token mint + chain from a DexScreener list row (trending / new pairs).
+ *
+ * Row hrefs are PAIR addresses (same trap as pair pages), but every row
+ * renders the base token icon from DexScreener's CDN, whose URL embeds
+ * the token address: /ds-data/tokens/{chain}/{address}.png
+ */
+export function extractTokenFromDexScreenerRow(row: Element): { mint: string; chain: string } | null {
+  const imgs = row.querySelectorAll('img[src*="/tokens/"]');
+  for (const img of Array.from(imgs)) {
+    const src = img.getAttribute("src") || "";
+    const match = src.match(/\/tokens\/([a-z]+)\/([A-Za-z0-9]{32,44})(?:\.\w+)?(?:[?#]|$)/);
+    if (match && isTokenAddress(match[2]) && !isBaseToken(match[2])) {
+      return { chain: match[1], mint: match[2] };
+    }
+  }
+  return null;
+}
+
+/**
+ * Extract the OUTPUT (buy-side) token of a swap from Jupiter / Raydium URLs.
+ * Unlike extractMintFromUrl, never falls back to the input token — the
+ * pre-swap guard must only fire for what the user is buying.
+ */
+export function extractSwapOutputMint(url: string): string | null {
+  try {
+    const u = new URL(url);
+    const valid = (v: string | null | undefined) => !!v && /^[1-9A-HJ-NP-Za-km-z]{32,44}$/.test(v);
+
+    if (u.hostname.includes("jup.ag")) {
+      // /swap/SOL-MINT (legacy) or ?sell=...&buy=MINT
+      const buy = u.searchParams.get("buy");
+      if (valid(buy)) return buy;
+      const m = u.pathname.match(/\/swap\/[A-Za-z0-9]+-([A-Za-z0-9]{32,44})/);
+      if (m && valid(m[1])) return m[1];
+    }
+
+    if (u.hostname.includes("raydium.io")) {
+      const output = u.searchParams.get("outputMint") || u.searchParams.get("outputCurrency");
+      if (valid(output)) return output;
+    }
+  } catch {}
+  return null;
+}
@@ -0,0 +1,146 @@
+/**
+ * Solana transaction decoder — reads a wire-format transaction (legacy or
+ * v0) and names the instructions the transaction guard cares about:
+ * SOL and SPL token transfers, approvals, revokes, close-account and
+ * set-authority. Everything else decodes as "other".
+ *
+ * Accounts loaded from v0 address lookup tables can't be resolved without
+ * an RPC call; they show up as LOOKUP_ACCOUNT.
+ */
+
+import { base58encode } from "./base58";
+import { TOKEN_PROGRAM_ID } from "./revokeTx";
+
+export const SYSTEM_PROGRAM_ID = "11111111111111111111111111111111";
+export const TOKEN_2022_PROGRAM_ID = "TokenzQdBNbLqP5VEhdkAS6EjFLTnKRVQwZNfHpP1Up";
+export const LOOKUP_ACCOUNT = "(lookup table)";
+
+const AUTHORITY_TYPES = ["mint tokens", "freeze account", "account owner", "close account"];
+
+export type InstructionKind =
+  | "sol-transfer" | "transfer" | "approve" | "revoke" | "close-account" | "set-authority" | "other";
+
+export interface DecodedInstruction {
+  kind: InstructionKind;
+  programId: string;
+  /** Accounts by role: source, destination, owner, delegate, mint, account… */
+  accounts: Record<string, string>;
+  /** Raw amount (lamports / token base units) as a decimal string */
+  amount?: string;
+  /** set-authority: which authority, and who gets it (null = removed) */
+  authorityType?: string;
+  newAuthority?: string | null;
+}
+
+export interface DecodedTransaction {
+  version: "legacy" | 0;
+  /** Static account keys; [0] is the fee payer */
+  accountKeys: string[];
+  /** Keys that must sign: the fee payer first, then any co-signers */
+  signers: string[];
+  instructions: DecodedInstruction[];
+}
+
+class Reader {
+  private offset = 0;
+  constructor(private readonly bytes: Uint8Array) {}
+
+  u8(): number {
+    if (this.offset >= this.bytes.length) throw new Error("Transaction is truncated");
+    return this.bytes[this.offset++];
+  }
+
+  /** Solana "compact-u16": 7 bits per byte, high bit = more */
+  compactU16(): number {
+    let value = 0;
+    for (let shift = 0; shift < 21; shift += 7) {
+      const byte = this.u8();
+      value |= (byte & 0x7f) << shift;
+      if (!(byte & 0x80)) return value;
+    }
+    throw new Error("Bad compact-u16");
+  }
+
+  take(length: number): Uint8Array {
+    if (this.offset + length > this.bytes.length) throw new Error("Transaction is truncated");
+    const slice = this.bytes.slice(this.offset, this.offset + length);
+    this.offset += length;
+    return slice;
+  }
+
+  peek(): number {
+    return this.bytes[this.offset];
+  }
+}
+
+function u64(data: Uint8Array, offset: number): string | undefined {
+  if (data.length < offset + 8) return undefined;
+  let value = 0n;
+  for (let i = 7; i >= 0; i--) value = (value << 8n) | BigInt(data[offset + i]);
+  return value.toString();
+}
+
+export function decodeTransaction(bytes: Uint8Array): DecodedTransaction {
+  const reader = new Reader(bytes);
+  reader.take(reader.compactU16() * 64); // signatures
+
+  let version: DecodedTransaction["version"] = "legacy";
+  if (reader.peek() & 0x80) {
+    const v = reader.u8() & 0x7f;
+    if (v !== 0) throw new Error(`Unsupported transaction version ${v}`);
+    version = 0;
+  }
+
+  const requiredSignatures = reader.u8();
+  reader.take(2); // read-only signed / unsigned counts
+  const accountKeys = Array.from({ length: reader.compactU16() }, () => base58encode(reader.take(32)));
+  reader.take(32); // recent blockhash
+
+  const instructions = Array.from({ length: reader.compactU16() }, () => {
+    const programIndex = reader.u8();
+    const accountIndexes = [...reader.take(reader.compactU16())];
+    const data = reader.take(reader.compactU16());
+    const key = (i: number) => accountKeys[i] ?? LOOKUP_ACCOUNT;
+    return decodeInstruction(key(programIndex), accountIndexes.map(key), data);
+  });
+
+  return { version, accountKeys, signers: accountKeys.slice(0, requiredSignatures), instructions };
+}
+
+function decodeInstruction(programId: string, keys: string[], data: Uint8Array): DecodedInstruction {
+  const named = (...roles: string[]): Record<string, string> =>
+    Object.fromEntries(roles.map((role, i) => [role, keys[i]]).filter(([, key]) => key));
+
+  if (programId === SYSTEM_PROGRAM_ID && data[0] === 2 && data[1] === 0 && data[2] === 0 && data[3] === 0) {
+    return { kind: "sol-transfer", programId, accounts: named("source", "destination"), amount: u64(data, 4) };
+  }
+
+  if (programId === TOKEN_PROGRAM_ID || programId === TOKEN_2022_PROGRAM_ID) {
+    switch (data[0]) {
+      case 3:
+        return { kind: "transfer", programId, accounts: named("source", "destination", "owner"), amount: u64(data, 1) };
+      case 12:
+        return {
+          kind: "transfer", programId, accounts: named("source", "mint", "destination", "owner"), amount: u64(data, 1),
+        };
+      case 4:
+        return { kind: "approve", programId, accounts: named("source", "delegate", "owner"), amount: u64(data, 1) };
+      case 13:
+        return {
+          kind: "approve", programId, accounts: named("source", "mint", "delegate", "owner"), amount: u64(data, 1),
+        };
+      case 5:
+        return { kind: "revoke", programId, accounts: named("source", "owner") };
+      case 6:
+        return {
+          kind: "set-authority", programId, accounts: named("account", "authority"),
+          authorityType: AUTHORITY_TYPES[data[1]] ?? "authority",
+          newAuthority: data[2] === 1 && data.length >= 35 ? base58encode(data.slice(3, 35)) : null,
+        };
+      case 9:
+        return { kind: "close-account", programId, accounts: named("account", "destination", "owner") };
+    }
+  }
+
+  return { kind: "other", programId, accounts: {} };
+}
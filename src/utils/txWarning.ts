@@ -0,0 +1,62 @@
+/**
+ * Transaction guard warning for the wallet bridge.
+ *
+ * Shows a blocking TxWarningModal over the page while a wallet signature
+ * waits on the user; resolves true to let the transaction through to the
+ * wallet, false to reject it. A newer request rejects the one on screen.
+ */
+
+import { createRoot, Root } from "react-dom/client";
+import { createElement } from "react";
+import { TxWarningModal } from "../components/TxWarningModal";
+import type { TxReview } from "../services/txReview";
+
+const HOST_ID = "rms-tx-warning";
+
+let modal: { root: Root; host: HTMLElement; onKey: (e: KeyboardEvent) => void; settle: (allow: boolean) => void } | null = null;
+
+export function showTxWarning(review: TxReview, origin: string): Promise<boolean> {
+  closeWarning(false);
+
+  return new Promise((resolve) => {
+    const host = document.createElement("div");
+    host.id = HOST_ID;
+    host.style.cssText = "position: fixed; inset: 0; z-index: 2147483647;";
+
+    const shadow = host.attachShadow({ mode: "closed" });
+    const style = document.createElement("style");
+    style.textContent = `
+      :host { all: initial; }
+      * { box-sizing: border-box; margin: 0; padding: 0; }
+    `;
+    shadow.appendChild(style);
+    const mountPoint = document.createElement("div");
+    shadow.appendChild(mountPoint);
+    document.body.appendChild(host);
+
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === "Escape") closeWarning(false);
+    };
+    window.addEventListener("keydown", onKey, true);
+
+    const root = createRoot(mountPoint);
+    modal = { root, host, onKey, settle: resolve };
+    root.render(createElement(TxWarningModal, {
+      review,
+      origin,
+      onCancel: () => closeWarning(false),
+      onProceed: () => closeWarning(true),
+    }));
+  });
+}
+
+function closeWarning(allow: boolean) {
+  if (!modal) return;
+  const { root, host, onKey, settle } = modal;
+  modal = null;
+  window.removeEventListener("keydown", onKey, true);
+  host.remove();
+  // Defer unmount — closeWarning is usually called from inside a React handler
+  queueMicrotask(() => root.unmount());
+  settle(allow);
+}
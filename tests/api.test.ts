@@ -17,6 +17,7 @@ globalThis.fetch = mockFetch;
 // Mock config module
 vi.mock("../src/utils/config", () => ({
   getApiBase: vi.fn().mockResolvedValue("https://test-api.example.com/api"),
+  authTokenAllowed: vi.fn().mockResolvedValue(true),
   getSettings: vi.fn().mockResolvedValue({
     autoScan: true, showBadges: true, swapWarnings: true,
     compactBadges: false, apiBase: "https://test-api.example.com/api",
@@ -73,15 +74,18 @@ describe("scanToken", () => {
 
     expect(result.success).toBe(false);
     expect(result.error).toContain("Rate limit exceeded");
+    expect(result.apiError?.kind).toBe("rate_limited");
   });
 
   it("handles network errors gracefully", async () => {
-    mockFetch.mockRejectedValueOnce(new Error("Network request failed"));
+    // Every attempt fails, retries included
+    mockFetch.mockRejectedValue(new Error("Network request failed"));
 
     const result = await scanToken("SomeToken123456789012345678901234");
 
     expect(result.success).toBe(false);
     expect(result.error).toContain("Network");
+    expect(result.apiError?.kind).toBe("network");
   });
 
   it("sends auth token when available", async () => {
@@ -114,4 +118,30 @@ describe("scanToken", () => {
     // All 5 should have hit the server (no client-side blocking)
     expect(mockFetch.mock.calls.length).toBeGreaterThanOrEqual(5);
   });
+
+  it("coalesces concurrent scans of the same token into one request", async () => {
+    let respond!: (value: unknown) => void;
+    mockFetch.mockReturnValueOnce(new Promise((resolve) => { respond = resolve; }));
+
+    const mint = "Eme5T2s2HB7B8W4YgLG1eReQpnadEVUnQBRjaKTdBAGS";
+    const pending = [scanToken(mint), scanToken(mint), scanToken(mint)];
+    await vi.waitFor(() => expect(mockFetch).toHaveBeenCalledTimes(1));
+    respond({ ok: true, json: async () => ({ token_address: mint, risk_score: 42 }) });
+
+    const results = await Promise.all(pending);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(results.map((r) => r.data?.risk_score)).toEqual([42, 42, 42]);
+  });
+
+  it("scans the same address on different chains separately", async () => {
+    mockFetch.mockResolvedValue({
+      ok: true,
+      json: async () => ({ token_address: "0x", risk_score: 10 }),
+    });
+
+    const addr = "0x6982508145454ce325ddbe47a25d4ec3d2311933";
+    await Promise.all([scanToken(addr, "ethereum"), scanToken(addr, "base")]);
+
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
 });
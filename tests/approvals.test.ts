@@ -0,0 +1,140 @@
+/**
+ * Approval Audit Tests
+ *
+ * Delegates / allowances of linked wallets → scanned and flagged, and the
+ * revoke transactions sent through the wallet bridge.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { installMockApi } from "./mocks/mockApi";
+import { auditApprovals, revokeApproval } from "../src/services/approvals";
+import { buildSplRevokeTransaction, erc20RevokeCalldata, TOKEN_PROGRAM_ID } from "../src/utils/revokeTx";
+import { base58decode } from "../src/utils/base58";
+import type { WalletInfo } from "../src/services/walletAuth";
+
+const OWNER = "7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU";
+const EVM_OWNER = "0x742d35Cc6634C0532925a3b844Bc454e4438f44e";
+const BCT = "9BB6NFEcjBCtnNLFko2FqVQBq8HHM13kCyYcdQbgpump";
+const BLOCKHASH = "EkSnNWid2cvwEVnVx9aBqawnmiCNiDgp3gUdkDPTKN1N";
+
+const api = installMockApi();
+
+const SOLANA_WALLET: WalletInfo = { id: 1, address: OWNER, chain: "solana", label: "Main", isPrimary: true, autoSync: true };
+const EVM_WALLET: WalletInfo = { id: 2, address: EVM_OWNER, chain: "ethereum", label: "Metamask", isPrimary: false, autoSync: false };
+
+beforeEach(() => api.reset());
+
+describe("auditApprovals", () => {
+  it("flags approvals touching High / Critical tokens and lists them first", async () => {
+    const { rows } = await auditApprovals([SOLANA_WALLET]);
+
+    expect(rows.map((r) => [r.symbol, r.flagged])).toEqual([
+      ["BCT", true],
+      [null, true],
+      ["CRM", false],
+    ]);
+    // Unscanned token, but its spender is tied to BCT
+    expect(rows[1]).toMatchObject({ risk_score: null, spender_risk: 82 });
+    expect(rows[2]).toMatchObject({ owner: OWNER, chain: "solana", spender_label: "Jupiter v6", amount: 250 });
+    // Approved and spender-linked tokens share one scan
+    expect(api.callsTo("/ext/batch")).toHaveLength(1);
+  });
+
+  it("covers EVM allowances, scanning them on the wallet's chain", async () => {
+    api.override("GET", "/ext/wallets/1/approvals", { status: 500, body: { detail: "RPC down" } });
+    const audit = await auditApprovals([SOLANA_WALLET, EVM_WALLET]);
+
+    expect(audit.failedWallets).toEqual([OWNER]);
+    expect(audit.rows).toHaveLength(1);
+    expect(audit.rows[0]).toMatchObject({ symbol: "PEPE", chain: "ethereum", amount: null, flagged: false });
+    expect(api.callsTo("/ext/batch")[0].body.chain).toBe("ethereum");
+  });
+});
+
+describe("revoke transactions", () => {
+  it("builds an SPL Token Revoke signed by the owner", () => {
+    const account = "3Fz9gkTmbvHVEbA5RL4xhhCkbrVnDRzE1MLLr9fiqP1m";
+    const tx = buildSplRevokeTransaction(OWNER, account, BLOCKHASH);
+
+    // One empty signature slot, then the message
+    expect(tx[0]).toBe(1);
+    expect(tx.slice(1, 65).every((b) => b === 0)).toBe(true);
+    const message = tx.slice(65);
+    expect([...message.slice(0, 4)]).toEqual([1, 0, 1, 3]);
+    expect(message.slice(4, 36)).toEqual(base58decode(OWNER));
+    expect(message.slice(36, 68)).toEqual(base58decode(account));
+    expect(message.slice(68, 100)).toEqual(base58decode(TOKEN_PROGRAM_ID));
+    expect(message.slice(100, 132)).toEqual(base58decode(BLOCKHASH));
+    expect([...message.slice(132)]).toEqual([1, 2, 2, 1, 0, 1, 5]);
+  });
+
+  it("zeroes an ERC-20 allowance", () => {
+    expect(erc20RevokeCalldata("0x000000000022D473030F116dDEE9F6B43aC78BA3")).toBe(
+      "0x095ea7b3" + "000000000000000000000000000000000022d473030f116ddee9f6b43ac78ba3" + "0".repeat(64),
+    );
+    expect(() => erc20RevokeCalldata("not-an-address")).toThrow("Invalid EVM address");
+  });
+
+  it("rejects malformed base58", () => {
+    expect(base58decode("1111")).toEqual(new Uint8Array(4));
+    expect(() => base58decode("0OIl")).toThrow("Invalid base58");
+  });
+});
+
+describe("revokeApproval", () => {
+  let send: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    send = vi.spyOn(chrome.runtime, "sendMessage").mockImplementation(((_msg: any, cb: any) =>
+      cb({ success: true, txid: "5sig" })) as any);
+  });
+
+  afterEach(() => send.mockRestore());
+
+  it("sends a Solana revoke through the wallet bridge", async () => {
+    const { rows } = await auditApprovals([SOLANA_WALLET]);
+    const result = await revokeApproval(rows[0]);
+
+    expect(result).toEqual({ success: true, txid: "5sig" });
+    expect(api.callsTo("/ext/solana/blockhash")).toHaveLength(1);
+    const [message] = send.mock.calls[0] as any[];
+    expect(message).toMatchObject({ type: "WALLET_SEND_TRANSACTION", from: OWNER, transaction: { kind: "solana" } });
+    const bytes = Uint8Array.from(atob(message.transaction.serialized), (c) => c.charCodeAt(0));
+    expect(bytes).toEqual(buildSplRevokeTransaction(OWNER, rows[0].token_account!, BLOCKHASH));
+  });
+
+  it("sends an EVM revoke to the token contract on the wallet's chain", async () => {
+    const { rows } = await auditApprovals([EVM_WALLET]);
+    await revokeApproval(rows[0]);
+
+    const [message] = send.mock.calls[0] as any[];
+    expect(message.transaction).toEqual({
+      kind: "evm",
+      chainId: 1,
+      to: rows[0].token,
+      data: erc20RevokeCalldata(rows[0].spender),
+    });
+  });
+
+  it("refuses to sign for anything but the SPL Token programs", async () => {
+    const { rows } = await auditApprovals([SOLANA_WALLET]);
+    const result = await revokeApproval({ ...rows[0], program: "JUP6LkbZbjS1jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4" });
+
+    expect(result).toEqual({ success: false, error: "Unknown token program JUP6LkbZbjS1jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4" });
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  it("refuses an EVM revoke to something that isn't a contract address", async () => {
+    const { rows } = await auditApprovals([EVM_WALLET]);
+    const result = await revokeApproval({ ...rows[0], token: "0x6982; drop" });
+
+    expect(result).toEqual({ success: false, error: "Invalid token contract: 0x6982; drop" });
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  it("surfaces bridge failures", async () => {
+    send.mockImplementation(((_msg: any, cb: any) => cb({ success: false, error: "Transaction rejected" })) as any);
+    const { rows } = await auditApprovals([EVM_WALLET]);
+    expect(await revokeApproval(rows[0])).toEqual({ success: false, error: "Transaction rejected" });
+  });
+});
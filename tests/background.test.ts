@@ -0,0 +1,161 @@
+/**
+ * Background Router Tests
+ *
+ * Drives the service worker's message router the way content scripts
+ * and the popup do, with the mock API behind it.
+ */
+
+import { describe, it, expect, vi, beforeAll, beforeEach } from "vitest";
+import { installMockApi, fixture } from "./mocks/mockApi";
+
+const CRM = "Eme5T2s2HB7B8W4YgLG1eReQpnadEVUnQBRjaKTdBAGS";
+const TAB = { tab: { id: 7, windowId: 1 } };
+
+const api = installMockApi();
+let router: (message: unknown, sender: any, sendResponse: (r: any) => void) => boolean | void;
+let alarmListeners: Array<(alarm: { name: string }) => Promise<void>>;
+let onPermissionsAdded: () => void;
+
+/** Send `message` from `sender` and wait for the response */
+function send(message: unknown, sender: any = TAB): Promise<any> {
+  return new Promise((resolve) => router(message, sender, resolve));
+}
+
+/** Fire a chrome.alarms alarm at every listener the worker registered */
+async function fireAlarm(name: string): Promise<void> {
+  await Promise.all(alarmListeners.map((fn) => fn({ name })));
+}
+
+beforeAll(async () => {
+  const addListener = vi.spyOn(chrome.runtime.onMessage, "addListener");
+  const addAlarmListener = vi.spyOn(chrome.alarms.onAlarm, "addListener");
+  const addPermissionsListener = vi.spyOn(chrome.permissions.onAdded, "addListener");
+  await import("../src/background/index");
+  router = addListener.mock.calls[0][0] as typeof router;
+  alarmListeners = addAlarmListener.mock.calls.map(([fn]) => fn as (typeof alarmListeners)[number]);
+  onPermissionsAdded = addPermissionsListener.mock.calls[0][0] as () => void;
+});
+
+beforeEach(() => {
+  api.reset();
+});
+
+describe("background router", () => {
+  it("SCAN_TOKEN scans through the API", async () => {
+    const resp = await send({ type: "SCAN_TOKEN", mint: CRM, chain: "solana", source: "dexscreener" });
+    expect(resp.success).toBe(true);
+    expect(resp.data).toEqual(fixture("scan")[CRM]);
+    expect(api.callsTo("/ext/scan")).toHaveLength(1);
+  });
+
+  it("API_PROXY returns the API response", async () => {
+    const resp = await send({ type: "API_PROXY", path: "/ext/reputation", method: "GET" });
+    expect(resp).toEqual({ success: true, data: fixture("reputation") });
+  });
+
+  it("API_PROXY keeps the caller's auth and retry options", async () => {
+    await chrome.storage.local.set({ auth_token: "tok" });
+    api.override("GET", "/ext/reputation", { status: 503, body: { detail: "Down" } });
+
+    await send({ type: "API_PROXY", path: "/ext/reputation", method: "GET", auth: false, retries: 0 });
+    const calls = api.callsTo("/ext/reputation");
+    expect(calls).toHaveLength(1);
+    expect(calls[0].headers["Authorization"]).toBeUndefined();
+    await chrome.storage.local.remove("auth_token");
+  });
+
+  it("API_PROXY surfaces a typed error", async () => {
+    api.override("POST", "/ext/chat", { status: 429, body: { detail: "Daily limit reached" } });
+    const resp = await send({ type: "API_PROXY", path: "/ext/chat", body: { message: "gm" } });
+    expect(resp.success).toBe(false);
+    expect(resp.error).toBe("Daily limit reached");
+    expect(resp.apiError.kind).toBe("rate_limited");
+  });
+
+  it("rejects malformed messages", async () => {
+    const resp = await send({ type: "API_PROXY", path: "ext/no-leading-slash" });
+    expect(resp.rejected).toBe(true);
+    expect(api.calls).toHaveLength(0);
+  });
+
+  it("SET_STORAGE / GET_STORAGE round-trip", async () => {
+    expect(await send({ type: "SET_STORAGE", data: { bg_test: 42 } })).toEqual({ success: true });
+    expect(await send({ type: "GET_STORAGE", keys: ["bg_test"] })).toEqual({ bg_test: 42 });
+  });
+
+  it("UPDATE_BADGE colours the sender's tab", async () => {
+    const setBadgeText = vi.spyOn(chrome.action, "setBadgeText");
+    await send({ type: "UPDATE_BADGE", score: 82 });
+    expect(setBadgeText).toHaveBeenCalledWith({ text: "!", tabId: 7 });
+  });
+});
+
+describe("portfolio re-check", () => {
+  it("notifies when a token held in an auto-sync wallet turns Critical", async () => {
+    const create = vi.spyOn(chrome.notifications, "create");
+    await chrome.storage.local.set({ auth_token: "tok", portfolio_critical: [] });
+
+    await fireAlarm("portfolio-recheck");
+    expect(api.callsTo("/ext/wallets/1/holdings")).toHaveLength(1);
+    expect(create).toHaveBeenCalledTimes(1);
+    const [id, options] = create.mock.calls[0] as [string, chrome.notifications.NotificationOptions];
+    expect(id).toMatch(/^portfolio:solana:9BB6NFEcjBCtnNLFko2FqVQBq8HHM13kCyYcdQbgpump:/);
+    expect(options.title).toContain("$BCT");
+
+    // Still Critical on the next run — no repeat alert
+    await fireAlarm("portfolio-recheck");
+    expect(create).toHaveBeenCalledTimes(1);
+    create.mockRestore();
+  });
+
+  it("neither alerts nor forgets Critical tokens when the scan fails", async () => {
+    const create = vi.spyOn(chrome.notifications, "create");
+    await chrome.storage.local.set({ auth_token: "tok", portfolio_critical: ["9BB6NFEcjBCtnNLFko2FqVQBq8HHM13kCyYcdQbgpump"] });
+    api.override("POST", "/ext/batch", { status: 400, body: { detail: "Scanner unavailable" } });
+
+    await fireAlarm("portfolio-recheck");
+    expect(create).not.toHaveBeenCalled();
+    const { portfolio_critical } = await chrome.storage.local.get("portfolio_critical");
+    expect(portfolio_critical).toEqual(["9BB6NFEcjBCtnNLFko2FqVQBq8HHM13kCyYcdQbgpump"]);
+    create.mockRestore();
+  });
+
+  it("does nothing when signed out", async () => {
+    await chrome.storage.local.remove("auth_token");
+    await fireAlarm("portfolio-recheck");
+    expect(api.callsTo("/ext/wallets")).toHaveLength(0);
+  });
+});
+
+describe("address highlighting script", () => {
+  it("isn't registered until highlighting is on and the host access granted", async () => {
+    const register = vi.spyOn(chrome.scripting, "registerContentScripts");
+    const contains = vi.spyOn(chrome.permissions, "contains");
+    await chrome.storage.local.set({ settings: { universalHighlight: true } });
+
+    onPermissionsAdded();
+    await vi.waitFor(() => expect(contains).toHaveBeenCalled());
+    expect(register).not.toHaveBeenCalled();
+
+    contains.mockResolvedValue(true);
+    onPermissionsAdded();
+    await vi.waitFor(() => expect(register).toHaveBeenCalledTimes(1));
+    const [script] = register.mock.calls[0][0];
+    expect(script).toMatchObject({ id: "universal", matches: ["https://*/*"], js: ["content/universal.ts"] });
+    // The adapter sites have sites.ts
+    expect(script.excludeMatches).toContain("https://dexscreener.com/*");
+
+    register.mockRestore();
+    contains.mockRestore();
+    await chrome.storage.local.remove("settings");
+  });
+
+  it("is unregistered when highlighting is turned off", async () => {
+    vi.spyOn(chrome.scripting, "getRegisteredContentScripts").mockResolvedValueOnce([{ id: "universal" } as any]);
+    const unregister = vi.spyOn(chrome.scripting, "unregisterContentScripts");
+
+    onPermissionsAdded();
+    await vi.waitFor(() => expect(unregister).toHaveBeenCalledWith({ ids: ["universal"] }));
+    unregister.mockRestore();
+  });
+});
@@ -0,0 +1,48 @@
+/**
+ * Card Layout Tests
+ *
+ * Per-site floating card position / mode and keeping it on screen.
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  getCardLayout, saveCardLayout, resetCardLayouts, clampCardPosition, DEFAULT_CARD_LAYOUT,
+} from "../src/ui-catalog/cardLayout";
+
+const VIEWPORT = { width: 1280, height: 800 };
+
+beforeEach(async () => {
+  await resetCardLayouts();
+});
+
+describe("card layout storage", () => {
+  it("defaults to the expanded card in its corner", async () => {
+    expect(await getCardLayout("dex")).toEqual(DEFAULT_CARD_LAYOUT);
+  });
+
+  it("keeps each site's layout separately and merges patches", async () => {
+    await saveCardLayout("dex", { x: 40, y: 300 });
+    await saveCardLayout("dex", { mode: "pill" });
+    await saveCardLayout("gmgn", { mode: "collapsed" });
+
+    expect(await getCardLayout("dex")).toEqual({ x: 40, y: 300, mode: "pill" });
+    expect(await getCardLayout("gmgn")).toEqual({ x: null, y: null, mode: "collapsed" });
+  });
+
+  it("reset forgets every site", async () => {
+    await saveCardLayout("dex", { x: 40, y: 300 });
+    await resetCardLayouts();
+    expect(await getCardLayout("dex")).toEqual(DEFAULT_CARD_LAYOUT);
+  });
+});
+
+describe("clampCardPosition", () => {
+  it("leaves on-screen positions alone", () => {
+    expect(clampCardPosition(100, 200, 320, VIEWPORT)).toEqual({ x: 100, y: 200 });
+  });
+
+  it("keeps part of the card and its handle reachable", () => {
+    expect(clampCardPosition(-1000, -50, 320, VIEWPORT)).toEqual({ x: 48 - 320, y: 0 });
+    expect(clampCardPosition(5000, 5000, 320, VIEWPORT)).toEqual({ x: 1280 - 48, y: 800 - 48 });
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Catalog Action Tests
+ *
+ * The shared dispatcher behind every surface's Copy / Share / Explorer /
+ * Watch / Full Scan / Ask Marcus buttons.
+ */
+
+import { describe, it, expect, vi, beforeAll, beforeEach, afterEach } from "vitest";
+import { fixture } from "./mocks/mockApi";
+import { runCatalogAction, catalogHandlers, shareText, type ActionContext } from "../src/ui-catalog/actions";
+import { getWatchlist } from "../src/services/watchlist";
+
+const CRM = "Eme5T2s2HB7B8W4YgLG1eReQpnadEVUnQBRjaKTdBAGS";
+const PEPE = "0x6982508145454ce325ddbe47a25d4ec3d2311933";
+const crm = () => structuredClone(fixture("scan")[CRM]);
+
+const writeText = vi.fn(async (_text: string) => {});
+const popup: ActionContext = { surface: "popup", getData: crm };
+const content: ActionContext = { surface: "content", getData: crm };
+
+beforeAll(() => {
+  Object.defineProperty(navigator, "clipboard", { value: { writeText }, configurable: true });
+});
+
+beforeEach(async () => {
+  writeText.mockClear();
+  await chrome.storage.local.remove(["watchlist", "sidepanel_scan"]);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+async function handoff() {
+  return (await chrome.storage.local.get("sidepanel_scan")).sidepanel_scan;
+}
+
+describe("clipboard actions", () => {
+  it("copies the address", async () => {
+    await runCatalogAction("copy_address", undefined, popup);
+    expect(writeText).toHaveBeenCalledWith(CRM);
+  });
+
+  it("shares a formatted summary with a bot deep link", async () => {
+    await runCatalogAction("share_result", undefined, popup);
+    const text = writeText.mock.calls[0][0];
+    expect(text).toBe(shareText(crm()));
+    expect(text).toContain("$CRM Risk: 37/100 (Moderate)");
+    expect(text).toContain(`https://t.me/rug_munchy_bot?start=scan_${CRM}`);
+  });
+});
+
+describe("open_explorer", () => {
+  it("routes to the chain's explorer in a new tab", async () => {
+    const create = vi.spyOn(chrome.tabs, "create");
+    await runCatalogAction("open_explorer", { address: PEPE, chain: "ethereum" }, popup);
+    expect(create).toHaveBeenCalledWith({ url: `https://etherscan.io/token/${PEPE}` });
+  });
+
+  it("uses window.open from content scripts", async () => {
+    const open = vi.spyOn(window, "open").mockImplementation(() => null);
+    await runCatalogAction("open_explorer", undefined, content);
+    expect(open).toHaveBeenCalledWith(`https://solscan.io/token/${CRM}`, "_blank");
+  });
+});
+
+describe("add_watchlist", () => {
+  it("watches the token with its scan and reports back", async () => {
+    const onDone = vi.fn();
+    await runCatalogAction("add_watchlist", undefined, { ...popup, onDone });
+    const [watched] = await getWatchlist();
+    expect(watched.mint).toBe(CRM);
+    expect(watched.history[0].risk_score).toBe(37);
+    expect(onDone).toHaveBeenCalledWith("add_watchlist", expect.objectContaining({ address: CRM }));
+  });
+});
+
+describe("side panel handoff", () => {
+  it("full_scan hands the token to the side panel", async () => {
+    const send = vi.spyOn(chrome.runtime, "sendMessage");
+    await runCatalogAction("full_scan", undefined, content);
+    expect(await handoff()).toEqual({ mint: CRM, chain: "solana" });
+    expect(send).toHaveBeenCalledWith({ type: "OPEN_SIDE_PANEL" }, expect.any(Function));
+  });
+
+  it("open_chat seeds Marcus with the scan", async () => {
+    await runCatalogAction("open_chat", undefined, { surface: "sidepanel", getData: crm });
+    expect(await handoff()).toEqual({ mint: CRM, chain: "solana", mode: "chat", scan: crm() });
+  });
+
+  it("leaves out scan data that belongs to another token", async () => {
+    await runCatalogAction("open_chat", { address: PEPE, chain: "ethereum" }, popup);
+    expect(await handoff()).toEqual({ mint: PEPE, chain: "ethereum", mode: "chat" });
+  });
+});
+
+describe("dispatch", () => {
+  it("ignores unknown actions and actions with no token", async () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    await runCatalogAction("toString", undefined, popup);
+    await runCatalogAction("copy_address", undefined, { surface: "popup" });
+    expect(writeText).not.toHaveBeenCalled();
+    expect(warn).toHaveBeenCalledTimes(2);
+  });
+
+  it("builds json-render handlers for every catalog action", async () => {
+    const handlers = catalogHandlers(popup);
+    expect(Object.keys(handlers).sort()).toEqual(
+      ["add_watchlist", "copy_address", "full_scan", "open_chat", "open_explorer", "share_result"],
+    );
+    await handlers.copy_address({ address: PEPE });
+    expect(writeText).toHaveBeenCalledWith(PEPE);
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * Chain Registry Tests
+ *
+ * EVM addresses don't carry their chain, so resolution, explorer links and
+ * cache keys all depend on the page's chain hint.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  resolveChain, chainFromExplorerHost, explorerTokenUrl, tokenKey, isTokenAddress,
+} from "../src/utils/chains";
+
+const CRM = "Eme5T2s2HB7B8W4YgLG1eReQpnadEVUnQBRjaKTdBAGS";
+const PEPE = "0x6982508145454Ce325dDbE47a25d4ec3d2311933";
+
+describe("resolveChain", () => {
+  it("always resolves base58 mints to solana", () => {
+    expect(resolveChain(CRM, "base")).toBe("solana");
+  });
+
+  it("uses the EVM hint for 0x addresses, defaulting to ethereum", () => {
+    expect(resolveChain(PEPE, "base")).toBe("base");
+    expect(resolveChain(PEPE, "solana")).toBe("ethereum");
+    expect(resolveChain(PEPE, null)).toBe("ethereum");
+  });
+});
+
+describe("chainFromExplorerHost", () => {
+  it("prefers the most specific host", () => {
+    expect(chainFromExplorerHost("optimistic.etherscan.io")).toBe("optimism");
+    expect(chainFromExplorerHost("etherscan.io")).toBe("ethereum");
+    expect(chainFromExplorerHost("google.com")).toBeNull();
+  });
+});
+
+describe("explorerTokenUrl / tokenKey", () => {
+  it("links to the right explorer per chain", () => {
+    expect(explorerTokenUrl(CRM, "solana")).toBe(`https://solscan.io/token/${CRM}`);
+    expect(explorerTokenUrl(PEPE, "base")).toBe(`https://basescan.org/token/${PEPE}`);
+  });
+
+  it("keys EVM tokens by chain, case-insensitively", () => {
+    expect(tokenKey(PEPE, "base")).toBe(`base:${PEPE.toLowerCase()}`);
+    expect(tokenKey(PEPE, "base")).not.toBe(tokenKey(PEPE, "ethereum"));
+    expect(tokenKey(CRM, "solana")).toBe(CRM);
+  });
+
+  it("accepts both address formats", () => {
+    expect(isTokenAddress(CRM)).toBe(true);
+    expect(isTokenAddress(PEPE)).toBe(true);
+    expect(isTokenAddress("0x1234")).toBe(false);
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * Config Tests
+ *
+ * API endpoint profiles: URL normalisation, picking the live profile and
+ * who gets the sign-in token.
+ */
+
+import { describe, it, expect, afterEach } from "vitest";
+import {
+  DEFAULT_SETTINGS, normalizeApiUrl, activeApiProfile, authTokenAllowed,
+} from "../src/utils/config";
+
+describe("normalizeApiUrl", () => {
+  it("adds a scheme and drops trailing slashes", () => {
+    expect(normalizeApiUrl("staging.example.com/api/")).toBe("https://staging.example.com/api");
+    expect(normalizeApiUrl("localhost:8000/api/")).toBe("http://localhost:8000/api");
+    expect(normalizeApiUrl("127.0.0.1:8000")).toBe("http://127.0.0.1:8000");
+    expect(normalizeApiUrl(" https://staging.example.com/api ")).toBe("https://staging.example.com/api");
+    expect(normalizeApiUrl("https://example.com/")).toBe("https://example.com");
+  });
+
+  it("only allows plain http to the local machine", () => {
+    expect(normalizeApiUrl("http://staging.example.com/api")).toBeNull();
+    expect(normalizeApiUrl("http://localhost.example.com")).toBeNull();
+    expect(normalizeApiUrl("http://127.0.0.1:8000/api")).toBe("http://127.0.0.1:8000/api");
+  });
+
+  it("rejects non-http URLs and junk", () => {
+    expect(normalizeApiUrl("ftp://example.com")).toBeNull();
+    expect(normalizeApiUrl("")).toBeNull();
+    expect(normalizeApiUrl("http://")).toBeNull();
+  });
+});
+
+describe("authTokenAllowed", () => {
+  const staging = { id: "custom-1", name: "Staging", url: "https://staging.example.com/api" };
+
+  afterEach(async () => {
+    await chrome.storage.local.remove("settings");
+  });
+
+  it("sends the token to production", async () => {
+    expect(await authTokenAllowed()).toBe(true);
+  });
+
+  it("keeps it from other endpoints unless their profile opted in", async () => {
+    await chrome.storage.local.set({ settings: { apiBase: staging.url, apiProfiles: [staging] } });
+    expect(await authTokenAllowed()).toBe(false);
+    await chrome.storage.local.set({ settings: { apiBase: staging.url, apiProfiles: [{ ...staging, sendAuth: true }] } });
+    expect(await authTokenAllowed()).toBe(true);
+    // Not a saved profile — nothing to opt in with
+    await chrome.storage.local.set({ settings: { apiBase: "https://other.example.com/api" } });
+    expect(await authTokenAllowed()).toBe(false);
+  });
+});
+
+describe("activeApiProfile", () => {
+  it("matches the profile for the current base", () => {
+    expect(activeApiProfile(DEFAULT_SETTINGS)?.id).toBe("production");
+    expect(activeApiProfile({ ...DEFAULT_SETTINGS, apiBase: "http://localhost:8000/api" })?.id).toBe("local");
+  });
+
+  it("returns null for a base outside the profile list", () => {
+    expect(activeApiProfile({ ...DEFAULT_SETTINGS, apiBase: "https://other.example.com/api" })).toBeNull();
+  });
+});
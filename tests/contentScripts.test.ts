@@ -0,0 +1,109 @@
+/**
+ * Content Script Snapshot Tests
+ *
+ * Loads saved HTML of real token pages, runs the site content script
+ * (and through it the host's adapter) against the mock API and checks
+ * that the right mint was scanned and a ScoreCard was injected.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { installMockApi, pageSnapshot } from "./mocks/mockApi";
+
+const CRM = "Eme5T2s2HB7B8W4YgLG1eReQpnadEVUnQBRjaKTdBAGS";
+const PUMP = "9BB6NFEcjBCtnNLFko2FqVQBq8HHM13kCyYcdQbgpump";
+const PEPE = "0x6982508145454ce325ddbe47a25d4ec3d2311933";
+const WSOL = "So11111111111111111111111111111111111111112";
+
+const api = installMockApi();
+
+// Each test loads a fresh copy of a script; disconnect the previous
+// copy's SPA-navigation observers so they don't react to the next page
+const observers: MutationObserver[] = [];
+const NativeObserver = globalThis.MutationObserver;
+globalThis.MutationObserver = class extends NativeObserver {
+  constructor(callback: MutationCallback) {
+    super(callback);
+    observers.push(this);
+  }
+};
+
+/** Open `url` with `html` as the page body and run a fresh copy of the site script */
+async function loadPage(url: string, html: string) {
+  (globalThis as any).jsdom.reconfigure({ url });
+  document.body.innerHTML = html;
+  delete (window as any).__rms_sites_injected;
+  vi.resetModules();
+  await import("../src/content/sites");
+}
+
+function scannedTokens() {
+  return api.callsTo("/ext/scan").map((c) => c.body);
+}
+
+beforeEach(() => {
+  api.reset();
+  document.body.innerHTML = "";
+});
+
+afterEach(() => {
+  for (const o of observers.splice(0)) o.disconnect();
+});
+
+describe("DexScreener", () => {
+  it("scans the token mint from explorer links, not the pair or wSOL", async () => {
+    await loadPage("https://dexscreener.com/solana/8wXtPeU6557ETkp9WHFY1n1EcU6NxDvbAggHGsMYiHsB", pageSnapshot("dexscreener-pair"));
+    await vi.waitFor(() => expect(document.getElementById(`rms-card-dex-${CRM}`)).not.toBeNull());
+    expect(scannedTokens()).toEqual([{ token_address: CRM, chain: "solana" }]);
+    expect(scannedTokens().map((b) => b.token_address)).not.toContain(WSOL);
+  });
+
+  it("anchors the card under the token info, clear of the trade panel", async () => {
+    await loadPage("https://dexscreener.com/solana/8wXtPeU6557ETkp9WHFY1n1EcU6NxDvbAggHGsMYiHsB", pageSnapshot("dexscreener-pair"));
+    await vi.waitFor(() => expect(document.getElementById(`rms-card-dex-${CRM}`)).not.toBeNull());
+    expect(document.querySelector(".ds-pair-info")!.nextElementSibling!.id).toBe(`rms-card-dex-${CRM}`);
+  });
+});
+
+describe("Pump.fun", () => {
+  it("scans the mint from the coin URL and injects the card", async () => {
+    await loadPage(`https://pump.fun/coin/${PUMP}`, pageSnapshot("pumpfun-coin"));
+    await vi.waitFor(() => expect(document.getElementById(`rms-card-pumpfun-${PUMP}`)).not.toBeNull());
+    expect(scannedTokens()).toEqual([{ token_address: PUMP, chain: "solana" }]);
+    expect(document.querySelector(".bonding-curve")!.nextElementSibling!.id).toBe(`rms-card-pumpfun-${PUMP}`);
+  });
+
+  it("injects nothing for a token the API hasn't scanned", async () => {
+    const unknown = "4k3Dyjzvzp8eMZWUXbBCjEvwSkkk59S5iCNLY3QrkX6R";
+    await loadPage(`https://pump.fun/coin/${unknown}`, pageSnapshot("pumpfun-coin"));
+    await vi.waitFor(() => expect(scannedTokens()).toHaveLength(1));
+    await new Promise((r) => setTimeout(r, 50));
+    expect(document.querySelector("[id^='rms-card-']")).toBeNull();
+  });
+});
+
+describe("GMGN", () => {
+  it("scans Solana tokens", async () => {
+    await loadPage(`https://gmgn.ai/sol/token/${CRM}`, pageSnapshot("gmgn-token"));
+    await vi.waitFor(() => expect(document.getElementById(`rms-card-gmgn-${CRM}`)).not.toBeNull());
+    expect(scannedTokens()).toEqual([{ token_address: CRM, chain: "solana" }]);
+  });
+
+  it("passes the EVM chain from the URL", async () => {
+    await loadPage(`https://gmgn.ai/eth/token/${PEPE}`, pageSnapshot("gmgn-token"));
+    await vi.waitFor(() => expect(document.getElementById(`rms-card-gmgn-${PEPE}`)).not.toBeNull());
+    expect(scannedTokens()).toEqual([{ token_address: PEPE, chain: "ethereum" }]);
+  });
+});
+
+describe("Jupiter", () => {
+  it("guards swaps into a risky output token without showing a card", async () => {
+    await loadPage(`https://jup.ag/swap/SOL-${PUMP}`, `<button id="swap">Swap</button>`);
+
+    await vi.waitFor(() => expect(scannedTokens()).toEqual([{ token_address: PUMP, chain: "solana" }]));
+    await vi.waitFor(() => {
+      document.getElementById("swap")!.click();
+      expect(document.getElementById("rms-swap-guard")).not.toBeNull();
+    });
+    expect(document.querySelector("[id^='rms-card-']")).toBeNull();
+  });
+});
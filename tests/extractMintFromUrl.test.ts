@@ -10,6 +10,7 @@ import { extractMintFromUrl } from "../src/utils/shadowInject";
 
 const REAL_CRM_TOKEN = "Eme5T2s2HB7B8W4YgLG1eReQpnadEVUnQBRjaKTdBAGS";
 const CRM_PAIR = "6pnitzwjumnzsvfyfejf9mijzpc4iuqh1xugfwvdf8wb";
+const PEPE = "0x6982508145454Ce325dDbE47a25d4ec3d2311933";
 
 // ─── DexScreener (CRITICAL — was the broken case) ─────────────
 
@@ -55,6 +56,11 @@ describe("GMGN URL extraction", () => {
   it("extracts from /sol/token/MINT", () => {
     expect(extractMintFromUrl(`https://gmgn.ai/sol/token/${REAL_CRM_TOKEN}`)).toBe(REAL_CRM_TOKEN);
   });
+
+  it("extracts EVM contracts from /eth/token/ and /base/token/", () => {
+    expect(extractMintFromUrl(`https://gmgn.ai/eth/token/${PEPE}`)).toBe(PEPE);
+    expect(extractMintFromUrl(`https://gmgn.ai/base/token/${PEPE}`)).toBe(PEPE);
+  });
 });
 
 
@@ -98,6 +104,80 @@ describe("Photon URL extraction", () => {
 });
 
 
+// ─── Axiom ─────────────────────────────────────────────────────
+
+describe("Axiom URL extraction", () => {
+  it("returns null for /meme/PAIR (pair address, NOT token)", () => {
+    expect(extractMintFromUrl(`https://axiom.trade/meme/${CRM_PAIR}?chain=sol`)).toBeNull();
+  });
+});
+
+
+// ─── Moonshot ──────────────────────────────────────────────────
+
+describe("Moonshot URL extraction", () => {
+  it("extracts from /token/MINT and /MINT", () => {
+    expect(extractMintFromUrl(`https://moonshot.money/token/${REAL_CRM_TOKEN}`)).toBe(REAL_CRM_TOKEN);
+    expect(extractMintFromUrl(`https://moonshot.money/${REAL_CRM_TOKEN}?ref=abc`)).toBe(REAL_CRM_TOKEN);
+  });
+});
+
+
+// ─── Meteora ───────────────────────────────────────────────────
+
+describe("Meteora URL extraction", () => {
+  it("returns null for pool pages (pool address, NOT token)", () => {
+    expect(extractMintFromUrl(`https://app.meteora.ag/dlmm/${CRM_PAIR}`)).toBeNull();
+    expect(extractMintFromUrl(`https://app.meteora.ag/dyn/${CRM_PAIR}`)).toBeNull();
+  });
+});
+
+
+// ─── Orca ──────────────────────────────────────────────────────
+
+describe("Orca URL extraction", () => {
+  it("extracts from /tokens/MINT", () => {
+    expect(extractMintFromUrl(`https://www.orca.so/tokens/${REAL_CRM_TOKEN}`)).toBe(REAL_CRM_TOKEN);
+  });
+
+  it("extracts the output token from swap params", () => {
+    const sol = "So11111111111111111111111111111111111111112";
+    expect(extractMintFromUrl(`https://www.orca.so/?tokenIn=${sol}&tokenOut=${REAL_CRM_TOKEN}`)).toBe(REAL_CRM_TOKEN);
+  });
+
+  it("returns null for /pools/POOL", () => {
+    expect(extractMintFromUrl(`https://www.orca.so/pools/${CRM_PAIR}`)).toBeNull();
+  });
+});
+
+
+// ─── Solana Explorers ──────────────────────────────────────────
+
+describe("Solscan / SolanaFM URL extraction", () => {
+  it("extracts from Solscan /token/MINT", () => {
+    expect(extractMintFromUrl(`https://solscan.io/token/${REAL_CRM_TOKEN}#holders`)).toBe(REAL_CRM_TOKEN);
+  });
+
+  it("ignores Solscan /account/ (wallet) pages", () => {
+    expect(extractMintFromUrl(`https://solscan.io/account/${REAL_CRM_TOKEN}`)).toBeNull();
+  });
+
+  it("extracts from SolanaFM /address/MINT", () => {
+    expect(extractMintFromUrl(`https://solana.fm/address/${REAL_CRM_TOKEN}/transactions?cluster=mainnet-alpha`)).toBe(REAL_CRM_TOKEN);
+  });
+});
+
+
+// ─── EVM Explorers ─────────────────────────────────────────────
+
+describe("EVM explorer URL extraction", () => {
+  it("extracts 0x contracts from Etherscan and Basescan", () => {
+    expect(extractMintFromUrl(`https://etherscan.io/token/${PEPE}`)).toBe(PEPE);
+    expect(extractMintFromUrl(`https://basescan.org/token/${PEPE}#balances`)).toBe(PEPE);
+  });
+});
+
+
 // ─── Edge Cases ────────────────────────────────────────────────
 
 describe("Edge cases", () => {
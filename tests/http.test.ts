@@ -0,0 +1,246 @@
+/**
+ * HTTP Client Tests
+ *
+ * Transient failures are retried with backoff, 429s honour Retry-After,
+ * and every failure surfaces as a typed ApiError.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  apiRequest, ApiError, classifyStatus, parseRetryAfter, parseQuota, getQuota, checkApiHealth,
+} from "../src/services/http";
+import { authTokenAllowed, getApiBase } from "../src/utils/config";
+
+vi.mock("../src/utils/config", () => ({
+  getApiBase: vi.fn().mockResolvedValue("https://test-api.example.com/api"),
+  authTokenAllowed: vi.fn().mockResolvedValue(true),
+}));
+
+const mockFetch = vi.fn();
+globalThis.fetch = mockFetch;
+
+function response(status: number, body: unknown = {}, headers: Record<string, string> = {}) {
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    headers: new Headers(headers),
+    json: async () => body,
+  };
+}
+
+describe("classifyStatus", () => {
+  it("maps status codes to error kinds", () => {
+    expect(classifyStatus(401)).toBe("auth_expired");
+    expect(classifyStatus(403)).toBe("tier_locked");
+    expect(classifyStatus(429)).toBe("rate_limited");
+    expect(classifyStatus(503)).toBe("server");
+    expect(classifyStatus(404)).toBe("request");
+  });
+});
+
+describe("parseRetryAfter", () => {
+  it("reads delta-seconds and HTTP dates", () => {
+    const now = Date.parse("2025-01-01T00:00:00Z");
+    expect(parseRetryAfter("30", now)).toBe(30_000);
+    expect(parseRetryAfter("Wed, 01 Jan 2025 00:01:00 GMT", now)).toBe(60_000);
+    expect(parseRetryAfter(null, now)).toBeNull();
+    expect(parseRetryAfter("soon", now)).toBeNull();
+  });
+});
+
+describe("parseQuota", () => {
+  it("reads X-RateLimit headers with epoch or relative reset", () => {
+    const now = 1_700_000_000_000;
+    expect(parseQuota(new Headers({
+      "X-RateLimit-Limit": "3", "X-RateLimit-Remaining": "1", "X-RateLimit-Reset": "3600",
+    }), now)).toEqual({ limit: 3, remaining: 1, resetAt: now + 3_600_000 });
+    expect(parseQuota(new Headers({
+      "X-RateLimit-Remaining": "0", "X-RateLimit-Reset": "1700003600",
+    }), now)).toEqual({ limit: null, remaining: 0, resetAt: 1_700_003_600_000 });
+    expect(parseQuota(new Headers(), now)).toBeNull();
+  });
+});
+
+describe("apiRequest", () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("retries server errors with backoff, then succeeds", async () => {
+    mockFetch
+      .mockResolvedValueOnce(response(503))
+      .mockResolvedValueOnce(response(502))
+      .mockResolvedValueOnce(response(200, { ok: 1 }));
+
+    const pending = apiRequest("/ext/tier");
+    await vi.runAllTimersAsync();
+
+    await expect(pending).resolves.toEqual({ ok: 1 });
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+  });
+
+  it("does not retry writes unless asked to", async () => {
+    mockFetch.mockResolvedValue(response(500, { detail: "boom" }));
+
+    await expect(apiRequest("/ext/social/follow/1", { method: "POST" }))
+      .rejects.toMatchObject({ kind: "server", status: 500, message: "boom" });
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("waits out a short Retry-After on 429", async () => {
+    mockFetch
+      .mockResolvedValueOnce(response(429, {}, { "Retry-After": "2" }))
+      .mockResolvedValueOnce(response(200, { ok: 1 }));
+
+    const pending = apiRequest("/ext/scan", { method: "POST", retries: 2 });
+    await vi.advanceTimersByTimeAsync(1_999);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+
+    await expect(pending).resolves.toEqual({ ok: 1 });
+  });
+
+  it("surfaces a long rate limit with quota and reset time", async () => {
+    vi.setSystemTime(1_700_000_000_000);
+    mockFetch.mockResolvedValue(response(429, { detail: "Rate limit exceeded" }, {
+      "Retry-After": "3600", "X-RateLimit-Limit": "3", "X-RateLimit-Remaining": "0",
+    }));
+
+    const err = await apiRequest("/ext/scan", { method: "POST", retries: 2 }).catch((e) => e);
+
+    expect(err).toBeInstanceOf(ApiError);
+    expect(err.kind).toBe("rate_limited");
+    expect(err.retryAfterMs).toBe(3_600_000);
+    expect(err.quota).toEqual({ limit: 3, remaining: 0, resetAt: 1_700_003_600_000 });
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(await getQuota()).toEqual(err.quota);
+  });
+
+  it("reports network failures after the last retry", async () => {
+    mockFetch.mockRejectedValue(new TypeError("Failed to fetch"));
+
+    const pending = apiRequest("/ext/tier").catch((e) => e);
+    await vi.runAllTimersAsync();
+    const err = await pending;
+
+    expect(err.kind).toBe("network");
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+  });
+});
+
+describe("auth refresh", () => {
+  beforeEach(async () => {
+    mockFetch.mockReset();
+    await chrome.storage.local.set({ auth_token: "old-token", linked_telegram: null });
+  });
+
+  it("refreshes an expired token once and retries with the new one", async () => {
+    mockFetch
+      .mockResolvedValueOnce(response(401, { detail: "Token expired" }))
+      .mockResolvedValueOnce(response(200, { authenticated: true, auth_token: "new-token", tier: "holder" }))
+      .mockResolvedValueOnce(response(200, { wallets: [] }));
+
+    await expect(apiRequest("/ext/wallets")).resolves.toEqual({ wallets: [] });
+
+    expect(mockFetch.mock.calls[1][0]).toContain("/ext/auth/refresh");
+    expect(mockFetch.mock.calls[2][1].headers.Authorization).toBe("Bearer new-token");
+    const stored = await chrome.storage.local.get(["auth_token", "tier"]);
+    expect(stored).toMatchObject({ auth_token: "new-token", tier: "holder" });
+  });
+
+  it("gives up with auth_expired when the refresh fails", async () => {
+    mockFetch
+      .mockResolvedValueOnce(response(401, { detail: "Token expired" }))
+      .mockResolvedValueOnce(response(401, {}));
+
+    await expect(apiRequest("/ext/wallets")).rejects.toMatchObject({ kind: "auth_expired" });
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("keeps the token from an endpoint it isn't allowed to go to", async () => {
+    vi.mocked(authTokenAllowed).mockResolvedValue(false);
+    mockFetch.mockResolvedValueOnce(response(401, {}));
+
+    await expect(apiRequest("/ext/wallets")).rejects.toMatchObject({ kind: "auth_expired" });
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(mockFetch.mock.calls[0][1].headers.Authorization).toBeUndefined();
+    vi.mocked(authTokenAllowed).mockResolvedValue(true);
+  });
+
+  it("doesn't refresh for unauthenticated calls", async () => {
+    mockFetch.mockResolvedValueOnce(response(401, {}));
+
+    await expect(apiRequest("/ext/payments/pricing", { auth: false })).rejects.toMatchObject({ kind: "auth_expired" });
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(mockFetch.mock.calls[0][1].headers.Authorization).toBeUndefined();
+  });
+});
+
+describe("content script proxy", () => {
+  afterEach(() => {
+    (globalThis as any).__RMS_TEST_DIRECT_FETCH = true;
+  });
+
+  it("hands auth and retry options to the background", async () => {
+    (globalThis as any).__RMS_TEST_DIRECT_FETCH = false;
+    mockFetch.mockReset();
+    const send = vi.spyOn(chrome.runtime, "sendMessage")
+      .mockImplementation(((_msg: any, cb: any) => cb({ success: true, data: { ok: true } })) as any);
+
+    expect(await apiRequest("/ext/health", { auth: false, retries: 0 })).toEqual({ ok: true });
+    expect(send.mock.calls[0][0]).toEqual({
+      type: "API_PROXY", path: "/ext/health", body: undefined, method: "GET", auth: false, retries: 0,
+    });
+    expect(mockFetch).not.toHaveBeenCalled();
+    send.mockRestore();
+  });
+});
+
+describe("api base", () => {
+  it("re-reads the base URL when settings change", async () => {
+    let onChanged!: (changes: Record<string, unknown>, area: string) => void;
+    const spy = vi.spyOn(chrome.storage.onChanged, "addListener").mockImplementation((fn: any) => { onChanged = fn; });
+    vi.resetModules();
+    const http = await import("../src/services/http");
+    spy.mockRestore();
+
+    expect(await http.getApiBaseUrl()).toBe("https://test-api.example.com/api");
+    vi.mocked(getApiBase).mockResolvedValue("https://staging.example.com/api");
+    expect(await http.getApiBaseUrl()).toBe("https://test-api.example.com/api");
+
+    onChanged({ settings: {} }, "local");
+    expect(await http.getApiBaseUrl()).toBe("https://staging.example.com/api");
+  });
+});
+
+describe("checkApiHealth", () => {
+  beforeEach(() => mockFetch.mockReset());
+
+  it("reports latency and version for a healthy endpoint", async () => {
+    mockFetch.mockResolvedValueOnce(response(200, { status: "ok", version: "2.3.1" }));
+
+    const health = await checkApiHealth("http://localhost:8000/api");
+
+    expect(mockFetch.mock.calls[0][0]).toBe("http://localhost:8000/api/health");
+    expect(health).toMatchObject({ ok: true, version: "2.3.1" });
+    expect(health.latencyMs).toBeGreaterThanOrEqual(0);
+  });
+
+  it("falls back to the version header", async () => {
+    mockFetch.mockResolvedValueOnce(response(200, {}, { "X-API-Version": "2.4.0" }));
+    expect((await checkApiHealth("https://example.com/api")).version).toBe("2.4.0");
+  });
+
+  it("never throws for unreachable endpoints", async () => {
+    mockFetch.mockRejectedValueOnce(new TypeError("Failed to fetch"));
+    expect(await checkApiHealth("http://localhost:9/api")).toEqual({
+      ok: false, latencyMs: null, version: null, error: "Failed to fetch",
+    });
+  });
+});
+
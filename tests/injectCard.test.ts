@@ -0,0 +1,122 @@
+/**
+ * Injected Card Tests
+ *
+ * The in-page ScoreCard is the catalog spec drawn by the json-render
+ * Renderer; its buttons run the catalog actions in the content script.
+ */
+
+import { describe, it, expect, vi, beforeAll, beforeEach, afterEach } from "vitest";
+import { fixture } from "./mocks/mockApi";
+import { injectScoreCard, updateScoreCards, removeAllCards } from "../src/ui-catalog/injectCard";
+import { saveCardLayout, resetCardLayouts } from "../src/ui-catalog/cardLayout";
+import { getWatchlist } from "../src/services/watchlist";
+
+const CRM = "Eme5T2s2HB7B8W4YgLG1eReQpnadEVUnQBRjaKTdBAGS";
+const scan = () => structuredClone(fixture("scan")[CRM]);
+
+const writeText = vi.fn(async (_text: string) => {});
+
+beforeAll(() => {
+  // Cards use a closed shadow root; open it so the tests can look inside
+  const attachShadow = HTMLElement.prototype.attachShadow;
+  HTMLElement.prototype.attachShadow = function (init: ShadowRootInit) {
+    return attachShadow.call(this, { ...init, mode: "open" });
+  };
+  Object.defineProperty(navigator, "clipboard", { value: { writeText }, configurable: true });
+});
+
+beforeEach(async () => {
+  writeText.mockClear();
+  await resetCardLayouts();
+  await chrome.storage.local.remove(["watchlist", "sidepanel_scan"]);
+});
+
+afterEach(() => {
+  removeAllCards();
+});
+
+/** Inject a card and wait for the catalog to render it */
+async function inject(options: Parameters<typeof injectScoreCard>[3] = {}) {
+  injectScoreCard(`test-${CRM}`, document.body, scan(), { site: "test", ...options });
+  const shadow = document.getElementById(`rms-card-test-${CRM}`)!.shadowRoot!;
+  await vi.waitFor(() => expect(shadow.textContent).toContain("$CRM"));
+  return shadow;
+}
+
+function button(shadow: ShadowRoot, label: string): HTMLButtonElement {
+  const btn = [...shadow.querySelectorAll("button")].find((b) => b.textContent?.includes(label));
+  if (!btn) throw new Error(`no "${label}" button`);
+  return btn;
+}
+
+describe("injected ScoreCard", () => {
+  it("renders the scan through the catalog", async () => {
+    const shadow = await inject();
+    expect(shadow.textContent).toContain("RISK SCORE");
+    expect(shadow.textContent).toContain(CRM);
+    expect(shadow.querySelector("svg")).not.toBeNull();
+  });
+
+  it("copies the address and a share summary", async () => {
+    const shadow = await inject();
+    button(shadow, "Copy").click();
+    await vi.waitFor(() => expect(writeText).toHaveBeenCalledWith(CRM));
+    button(shadow, "Share").click();
+    await vi.waitFor(() => expect(writeText).toHaveBeenLastCalledWith(expect.stringContaining("$CRM Risk: 37/100")));
+  });
+
+  it("opens the chain's explorer", async () => {
+    const open = vi.spyOn(window, "open").mockImplementation(() => null);
+    const shadow = await inject();
+    button(shadow, "Explorer").click();
+    await vi.waitFor(() => expect(open).toHaveBeenCalledWith(`https://solscan.io/token/${CRM}`, "_blank"));
+    open.mockRestore();
+  });
+
+  it("adds the token to the watchlist", async () => {
+    const shadow = await inject();
+    button(shadow, "Watch").click();
+    await vi.waitFor(() => expect(button(shadow, "Watching")).toBeTruthy());
+    expect((await getWatchlist()).map((w) => w.mint)).toEqual([CRM]);
+  });
+
+  it("hands full scans to the side panel", async () => {
+    const shadow = await inject();
+    button(shadow, "Full Scan").click();
+    await vi.waitFor(async () => {
+      const { sidepanel_scan } = await chrome.storage.local.get("sidepanel_scan");
+      expect(sidepanel_scan).toEqual({ mint: CRM, chain: "solana" });
+    });
+  });
+
+  it("shows a server-authored spec", async () => {
+    const spec = {
+      root: "root",
+      elements: {
+        root: { type: "Column", props: { gap: 4 }, children: ["t"] },
+        t: { type: "Text", props: { content: "Server says $CRM" }, children: [] },
+      },
+    };
+    const shadow = await inject({ spec });
+    expect(shadow.textContent).toContain("Server says $CRM");
+    expect(shadow.textContent).not.toContain("RISK SCORE");
+  });
+
+  it("re-renders with fresher data", async () => {
+    const shadow = await inject();
+    updateScoreCards({ ...scan(), token_name: "Refreshed Name" }, null);
+    await vi.waitFor(() => expect(shadow.textContent).toContain("Refreshed Name"));
+  });
+});
+
+describe("floating card modes", () => {
+  it("restores pill mode and expands on click", async () => {
+    await saveCardLayout("test", { mode: "pill" });
+    injectScoreCard(`test-${CRM}`, document.body, scan(), { site: "test" });
+    const shadow = document.getElementById(`rms-card-test-${CRM}`)!.shadowRoot!;
+
+    await vi.waitFor(() => expect(shadow.querySelector("[data-rms-pill]")).not.toBeNull());
+    (shadow.querySelector("[data-rms-pill]") as HTMLElement).click();
+    await vi.waitFor(() => expect(shadow.textContent).toContain("RISK SCORE"));
+  });
+});
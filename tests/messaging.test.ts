@@ -0,0 +1,84 @@
+/**
+ * Message Protocol Tests
+ *
+ * Validation of incoming messages and router dispatch.
+ * A typo in a message type must be rejected, not silently ignored.
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import { parseMessage, createMessageRouter } from "../src/utils/messaging";
+
+const sender = {} as chrome.runtime.MessageSender;
+
+describe("parseMessage", () => {
+  it("accepts well-formed messages", () => {
+    expect(parseMessage({ type: "UPDATE_BADGE", score: 42 })).toEqual({ type: "UPDATE_BADGE", score: 42 });
+    expect(parseMessage({ type: "GET_PAGE_TOKEN" })).toEqual({ type: "GET_PAGE_TOKEN" });
+  });
+
+  it("rejects unknown message types", () => {
+    expect(parseMessage({ type: "UPDATE_BAGDE", score: 42 })).toBeNull();
+    expect(parseMessage({ action: "wallet-sign" })).toBeNull();
+  });
+
+  it("rejects malformed payloads", () => {
+    expect(parseMessage({ type: "UPDATE_BADGE", score: "high" })).toBeNull();
+    expect(parseMessage({ type: "API_PROXY", path: "ext/scan" })).toBeNull();
+    expect(parseMessage({ type: "WALLET_SIGN", message: "hi" })).toBeNull();
+    expect(parseMessage(null)).toBeNull();
+    expect(parseMessage("GET_PAGE_TOKEN")).toBeNull();
+  });
+
+  it("requires scan data on SHOW_SCAN_CARD", () => {
+    const data = { token_address: "Eme5T2s2HB7B8W4YgLG1eReQpnadEVUnQBRjaKTdBAGS", risk_score: 40 };
+    expect(parseMessage({ type: "SHOW_SCAN_CARD", data })).not.toBeNull();
+    expect(parseMessage({ type: "SHOW_SCAN_CARD", data, diff: null })).not.toBeNull();
+    expect(parseMessage({ type: "SHOW_SCAN_CARD", data: { risk_score: 40 } })).toBeNull();
+  });
+});
+
+describe("createMessageRouter", () => {
+  it("dispatches to the matching handler and responds asynchronously", async () => {
+    const router = createMessageRouter({
+      GET_PAGE_TOKEN: () => ({ mint: "abc", chain: "solana", url: "https://pump.fun/abc" }),
+    });
+    const sendResponse = vi.fn();
+
+    expect(router({ type: "GET_PAGE_TOKEN" }, sender, sendResponse)).toBe(true);
+    await vi.waitFor(() => expect(sendResponse).toHaveBeenCalled());
+    expect(sendResponse).toHaveBeenCalledWith({ mint: "abc", chain: "solana", url: "https://pump.fun/abc" });
+  });
+
+  it("answers malformed messages with a rejection", () => {
+    const handler = vi.fn();
+    const router = createMessageRouter({ UPDATE_BADGE: handler });
+    const sendResponse = vi.fn();
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    expect(router({ type: "UPDATE_BADGE" }, sender, sendResponse)).toBe(false);
+    expect(handler).not.toHaveBeenCalled();
+    expect(sendResponse).toHaveBeenCalledWith({ rejected: true, error: "Invalid message: UPDATE_BADGE" });
+    warn.mockRestore();
+  });
+
+  it("ignores valid messages this context doesn't handle", () => {
+    const router = createMessageRouter({ GET_PAGE_TOKEN: vi.fn() });
+    const sendResponse = vi.fn();
+
+    expect(router({ type: "WALLET_CONNECT" }, sender, sendResponse)).toBe(false);
+    expect(sendResponse).not.toHaveBeenCalled();
+  });
+
+  it("turns handler failures into rejections", async () => {
+    const router = createMessageRouter({
+      SET_STORAGE: async () => { throw new Error("quota exceeded"); },
+    });
+    const sendResponse = vi.fn();
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    router({ type: "SET_STORAGE", data: { a: 1 } }, sender, sendResponse);
+    await vi.waitFor(() => expect(sendResponse).toHaveBeenCalled());
+    expect(sendResponse).toHaveBeenCalledWith({ rejected: true, error: "quota exceeded" });
+    error.mockRestore();
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * Mock /ext/* API
+ *
+ * A fake `fetch` that answers the extension's API routes from recorded
+ * responses in tests/fixtures/api. Every call is logged so tests can
+ * assert on what was sent; `override` replaces a route's response
+ * (errors, rate limits) for the rest of the test.
+ */
+
+import { readFileSync } from "node:fs";
+import { resolve } from "node:path";
+import { PRODUCTION_API_BASE } from "../../src/utils/config";
+
+const FIXTURE_DIR = resolve(__dirname, "../fixtures");
+
+export function fixture<T = any>(name: string): T {
+  return JSON.parse(readFileSync(resolve(FIXTURE_DIR, "api", `${name}.json`), "utf8"));
+}
+
+/** Saved HTML snapshot from tests/fixtures/pages */
+export function pageSnapshot(name: string): string {
+  return readFileSync(resolve(FIXTURE_DIR, "pages", `${name}.html`), "utf8");
+}
+
+export interface MockRequest {
+  method: string;
+  /** Path under the API base, without the query string */
+  path: string;
+  query: URLSearchParams;
+  headers: Record<string, string>;
+  body: any;
+}
+
+export interface MockResponse {
+  status?: number;
+  body?: unknown;
+  headers?: Record<string, string>;
+}
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  /** Returns the JSON body of a 200 response */
+  handler: (req: MockRequest) => unknown;
+}
+
+// ─── Scan fixtures ──────────────────────────────────────────────
+
+function scanFixture(address: string, chain = "solana"): any | null {
+  const scans = fixture<Record<string, any>>("scan");
+  const data = scans[address] ?? scans[address.toLowerCase()];
+  return data && data.chain === chain ? data : null;
+}
+
+function notScanned(address: string, chain: string) {
+  return {
+    token_address: address, chain, token_name: null, token_symbol: null,
+    risk_score: null, price_usd: null, liquidity_usd: null, market_cap: null,
+    holder_count: null, top_10_holder_percent: null, created_at: null,
+    risk_factors: [], not_scanned: true,
+  };
+}
+
+const ROUTES: Route[] = [
+  {
+    method: "POST", pattern: /^\/ext\/scan$/,
+    handler: ({ body }) => scanFixture(body.token_address, body.chain) ?? notScanned(body.token_address, body.chain),
+  },
+  {
+    method: "POST", pattern: /^\/ext\/batch$/,
+    handler: ({ body }) => {
+      const results: Record<string, any> = {};
+      for (const mint of body.tokens as string[]) {
+        results[mint] = scanFixture(mint, body.chain) ?? notScanned(mint, body.chain);
+      }
+      return { results, cached_count: 0, fresh_count: body.tokens.length };
+    },
+  },
+  { method: "POST", pattern: /^\/ext\/auth\/challenge$/, handler: () => fixture("auth-challenge") },
+  { method: "POST", pattern: /^\/ext\/auth\/verify$/, handler: () => fixture("auth-verify") },
+  { method: "GET", pattern: /^\/ext\/auth\/refresh$/, handler: () => fixture("auth-refresh") },
+  { method: "POST", pattern: /^\/ext\/link\/init$/, handler: () => fixture("link-init") },
+  { method: "GET", pattern: /^\/ext\/link\/status\/[^/]+$/, handler: () => fixture("link-status") },
+  { method: "GET", pattern: /^\/ext\/tier$/, handler: () => fixture("tier") },
+  { method: "GET", pattern: /^\/ext\/wallets$/, handler: () => fixture("wallets") },
+  { method: "GET", pattern: /^\/ext\/wallets\/\d+\/holdings$/, handler: () => fixture("wallet-holdings") },
+  {
+    method: "GET", pattern: /^\/ext\/wallets\/\d+\/approvals$/,
+    handler: ({ path }) => fixture("wallet-approvals")[path.split("/")[3]] ?? { approvals: [] },
+  },
+  { method: "GET", pattern: /^\/ext\/solana\/blockhash$/, handler: () => fixture("solana-blockhash") },
+  { method: "POST", pattern: /^\/ext\/simulate$/, handler: () => fixture("simulate") },
+  { method: "POST", pattern: /^\/ext\/chat$/, handler: () => fixture("chat") },
+  { method: "GET", pattern: /^\/ext\/payments\/pricing$/, handler: () => fixture("payments-pricing") },
+  { method: "POST", pattern: /^\/ext\/payments\/intent$/, handler: () => fixture("payments-intent") },
+  { method: "GET", pattern: /^\/ext\/payments\/check\/[^/]+$/, handler: () => fixture("payments-check") },
+  { method: "GET", pattern: /^\/ext\/reputation$/, handler: () => fixture("reputation") },
+  { method: "GET", pattern: /^\/ext\/reputation\/leaderboard$/, handler: () => fixture("reputation-leaderboard") },
+  { method: "GET", pattern: /^\/ext\/social\/profile\/\d+$/, handler: () => fixture("social-profile") },
+  { method: "GET", pattern: /^\/ext\/social\/feed$/, handler: () => fixture("social-feed") },
+  { method: "POST", pattern: /^\/ext\/analytics$/, handler: () => ({ ok: true }) },
+  { method: "GET", pattern: /^\/health$/, handler: () => fixture("health") },
+];
+
+// ─── Fake fetch ─────────────────────────────────────────────────
+
+export interface MockApi {
+  fetch: typeof fetch;
+  /** Every request that reached the mock, oldest first */
+  calls: MockRequest[];
+  /** Requests to one path (query string ignored) */
+  callsTo(path: string): MockRequest[];
+  /** Answer `method path` with `response` instead of its fixture */
+  override(method: string, path: string, response: MockResponse | ((req: MockRequest) => MockResponse)): void;
+  reset(): void;
+}
+
+export function createMockApi(base = PRODUCTION_API_BASE): MockApi {
+  const calls: MockRequest[] = [];
+  const overrides = new Map<string, (req: MockRequest) => MockResponse>();
+
+  const mockFetch = async (input: RequestInfo | URL, init: RequestInit = {}): Promise<Response> => {
+    const url = new URL(typeof input === "string" ? input : input instanceof URL ? input.href : input.url);
+    const method = (init.method || "GET").toUpperCase();
+    const path = url.href.startsWith(base) ? url.pathname.slice(new URL(base).pathname.length) : url.pathname;
+    const req: MockRequest = {
+      method,
+      path,
+      query: url.searchParams,
+      headers: { ...(init.headers as Record<string, string> | undefined) },
+      body: typeof init.body === "string" ? JSON.parse(init.body) : undefined,
+    };
+    calls.push(req);
+
+    const override = overrides.get(`${method} ${path}`);
+    const route = ROUTES.find((r) => r.method === method && r.pattern.test(path));
+    const result: MockResponse = override ? override(req)
+      : route ? { body: route.handler(req) }
+      : { status: 404, body: { detail: `No mock for ${method} ${path}` } };
+
+    const { status = 200, body = {}, headers = {} } = result;
+    return new Response(JSON.stringify(body), {
+      status,
+      headers: { "Content-Type": "application/json", ...headers },
+    });
+  };
+
+  return {
+    fetch: mockFetch as typeof fetch,
+    calls,
+    callsTo: (path) => calls.filter((c) => c.path === path),
+    override: (method, path, response) => {
+      overrides.set(`${method.toUpperCase()} ${path}`, typeof response === "function" ? response : () => response);
+    },
+    reset: () => {
+      calls.length = 0;
+      overrides.clear();
+    },
+  };
+}
+
+/** Create a mock API and install it as the global `fetch` */
+export function installMockApi(base?: string): MockApi {
+  const api = createMockApi(base);
+  globalThis.fetch = api.fetch;
+  return api;
+}
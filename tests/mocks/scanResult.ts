@@ -0,0 +1,30 @@
+/**
+ * ScanResult factory
+ *
+ * A Low-risk Solana token with every core field filled in; tests override
+ * only the fields they care about.
+ */
+
+import type { ScanResult } from "../../src/services/api";
+
+export const SCAN_MINT = "Eme5T2s2HB7B8W4YgLG1eReQpnadEVUnQBRjaKTdBAGS";
+
+export function scan(extra: Partial<ScanResult> = {}): ScanResult {
+  return {
+    token_address: SCAN_MINT,
+    chain: "solana",
+    token_name: "Test",
+    token_symbol: "TEST",
+    risk_score: 30,
+    price_usd: 0.01,
+    liquidity_usd: 100_000,
+    market_cap: 1_000_000,
+    holder_count: 1000,
+    top_10_holder_percent: 20,
+    created_at: null,
+    risk_factors: [],
+    mint_authority: false,
+    freeze_authority: false,
+    ...extra,
+  };
+}
@@ -0,0 +1,111 @@
+/**
+ * Portfolio Tests
+ *
+ * Holdings of linked wallets → batch scan → sorted risk table, and the
+ * Critical-token tracking behind the background re-check alerts.
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import { installMockApi } from "./mocks/mockApi";
+import {
+  scanPortfolio, newlyCriticalHoldings, portfolioExposure, type PortfolioRow, type PortfolioReport,
+} from "../src/services/portfolio";
+import type { WalletInfo } from "../src/services/walletAuth";
+
+const CRM = "Eme5T2s2HB7B8W4YgLG1eReQpnadEVUnQBRjaKTdBAGS";
+const BCT = "9BB6NFEcjBCtnNLFko2FqVQBq8HHM13kCyYcdQbgpump";
+const UNKNOWN = "UnknownMint1111111111111111111111111111111111";
+
+const api = installMockApi();
+
+function wallet(id: number, extra: Partial<WalletInfo> = {}): WalletInfo {
+  return {
+    id, address: `Wallet${id}`, chain: "solana", label: `W${id}`,
+    isPrimary: id === 1, autoSync: false, ...extra,
+  };
+}
+
+function row(mint: string, risk_score: number | null, value_usd = 100): PortfolioRow {
+  return { mint, chain: "solana", symbol: null, name: null, risk_score, amount: 1, value_usd, wallets: ["Wallet1"] };
+}
+
+function report(rows: PortfolioRow[], extra: Partial<PortfolioReport> = {}): PortfolioReport {
+  return { rows, exposure: portfolioExposure(rows), scannedAt: 0, failedWallets: [], scanFailed: false, ...extra };
+}
+
+beforeEach(async () => {
+  api.reset();
+  await chrome.storage.local.remove("portfolio_critical");
+});
+
+describe("scanPortfolio", () => {
+  it("scans every held token, riskiest first", async () => {
+    const report = await scanPortfolio([wallet(1)]);
+
+    expect(report.rows.map((r) => [r.symbol, r.risk_score])).toEqual([["BCT", 82], ["CRM", 37], [null, null]]);
+    // Priced from the scan unless the API valued the holding
+    expect(report.rows[0].value_usd).toBe(10.25);
+    expect(report.rows[1].value_usd).toBeCloseTo(200);
+    expect(report.rows[2].mint).toBe(UNKNOWN);
+    // Zero balances are dropped before scanning
+    expect(api.callsTo("/ext/batch")[0].body.tokens).toEqual([CRM, BCT, UNKNOWN]);
+  });
+
+  it("merges a token held in several wallets", async () => {
+    const report = await scanPortfolio([wallet(1), wallet(2)]);
+    const crm = report.rows.find((r) => r.mint === CRM)!;
+    expect(crm.amount).toBe(2_000_000);
+    expect(crm.wallets).toEqual(["Wallet1", "Wallet2"]);
+    expect(api.callsTo("/ext/batch")).toHaveLength(1);
+  });
+
+  it("sums exposure to High and Critical tokens", async () => {
+    const { exposure } = await scanPortfolio([wallet(1)]);
+    expect(exposure.critical).toBe(10.25);
+    expect(exposure.high).toBe(0);
+    expect(exposure.totalValue).toBeCloseTo(210.25);
+    expect(portfolioExposure([row(CRM, 60, 50), row(BCT, 90, 25)])).toEqual({ totalValue: 75, high: 50, critical: 25 });
+  });
+
+  it("keeps going when a wallet's holdings fail and skips non-Solana wallets", async () => {
+    api.override("GET", "/ext/wallets/2/holdings", { status: 500, body: { detail: "RPC down" } });
+    const report = await scanPortfolio([wallet(1), wallet(2), wallet(3, { chain: "ethereum" })]);
+
+    expect(report.failedWallets).toEqual(["Wallet2"]);
+    expect(report.rows).toHaveLength(3);
+    expect(api.callsTo("/ext/wallets/3/holdings")).toHaveLength(0);
+  });
+
+  it("reports a failed batch scan instead of passing every token off as unscanned", async () => {
+    api.override("POST", "/ext/batch", { status: 400, body: { detail: "Scanner unavailable" } });
+    const report = await scanPortfolio([wallet(1)]);
+
+    expect(report.scanFailed).toBe(true);
+    expect(report.rows.every((r) => r.risk_score == null)).toBe(true);
+  });
+});
+
+describe("newlyCriticalHoldings", () => {
+  it("records a baseline first, then reports tokens that turn Critical", async () => {
+    expect(await newlyCriticalHoldings(report([row(BCT, 82)]))).toEqual([]);
+    expect(await newlyCriticalHoldings(report([row(BCT, 85), row(CRM, 40)]))).toEqual([]);
+
+    const turned = await newlyCriticalHoldings(report([row(BCT, 85), row(CRM, 78)]));
+    expect(turned.map((r) => r.mint)).toEqual([CRM]);
+  });
+
+  it("alerts again after a token drops out of Critical and comes back", async () => {
+    await newlyCriticalHoldings(report([row(CRM, 80)]));
+    await newlyCriticalHoldings(report([row(CRM, 60)]));
+    expect(await newlyCriticalHoldings(report([row(CRM, 76)]))).toHaveLength(1);
+  });
+
+  it("leaves the Critical set alone after an incomplete run", async () => {
+    await newlyCriticalHoldings(report([row(BCT, 82), row(CRM, 80)]));
+    // A failed wallet or scan hides tokens that are still Critical
+    expect(await newlyCriticalHoldings(report([row(CRM, 80)], { failedWallets: ["Wallet2"] }))).toEqual([]);
+    expect(await newlyCriticalHoldings(report([row(BCT, null), row(CRM, null)], { scanFailed: true }))).toEqual([]);
+
+    expect(await newlyCriticalHoldings(report([row(BCT, 82), row(CRM, 80)]))).toEqual([]);
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Scan Cache Tests
+ *
+ * Per-field TTLs decide when a cached scan is refreshed; the LRU cap
+ * decides what gets dropped.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_TTL, staleGroups, freshness, lruEvictions, diffFromSnapshots,
+  type CachedScan,
+} from "../src/services/scanCache";
+import { scan } from "./mocks/scanResult";
+
+const MIN = 60_000;
+const NOW = 1_700_000_000_000;
+
+function entry(mint: string, ageMs: number, extra: Partial<CachedScan> = {}): CachedScan {
+  return { mint, data: scan(), timestamp: NOW - ageMs, ...extra };
+}
+
+describe("staleGroups", () => {
+  it("nothing is stale right after a scan", () => {
+    expect(staleGroups(entry("a", 0), DEFAULT_TTL, NOW)).toEqual([]);
+  });
+
+  it("market data goes stale before holders and risk", () => {
+    expect(staleGroups(entry("a", 6 * MIN), DEFAULT_TTL, NOW)).toEqual(["market"]);
+    expect(staleGroups(entry("a", 20 * MIN), DEFAULT_TTL, NOW)).toEqual(["market", "holders"]);
+    expect(staleGroups(entry("a", 31 * MIN), DEFAULT_TTL, NOW)).toEqual(["market", "holders", "risk"]);
+  });
+
+  it("ignores groups the API didn't return", () => {
+    const e = entry("a", 6 * MIN, {
+      data: scan({ price_usd: null, liquidity_usd: null, market_cap: null }),
+    });
+    expect(staleGroups(e, DEFAULT_TTL, NOW)).toEqual([]);
+  });
+
+  it("respects a custom market TTL", () => {
+    const ttl = { ...DEFAULT_TTL, market: 1 * MIN };
+    expect(staleGroups(entry("a", 2 * MIN), ttl, NOW)).toEqual(["market"]);
+  });
+});
+
+describe("freshness", () => {
+  it("fresh, then stale, then expired past the longest TTL", () => {
+    expect(freshness(entry("a", 1 * MIN), DEFAULT_TTL, NOW)).toBe("fresh");
+    expect(freshness(entry("a", 10 * MIN), DEFAULT_TTL, NOW)).toBe("stale");
+    expect(freshness(entry("a", 25 * 60 * MIN), DEFAULT_TTL, NOW)).toBe("expired");
+  });
+});
+
+describe("lruEvictions", () => {
+  it("keeps everything under the cap", () => {
+    expect(lruEvictions([entry("a", 0), entry("b", 0)], 2)).toEqual([]);
+  });
+
+  it("drops the least recently read first", () => {
+    const entries = [
+      entry("a", 0, { lastAccess: NOW - 5 * MIN }),
+      entry("b", 0, { lastAccess: NOW }),
+      entry("c", 0, { lastAccess: NOW - 10 * MIN }),
+    ];
+    expect(lruEvictions(entries, 1)).toEqual(["c", "a"]);
+  });
+
+  it("falls back to the scan time when an entry was never read", () => {
+    const entries = [entry("old", 30 * MIN), entry("new", 1 * MIN, { lastAccess: NOW })];
+    expect(lruEvictions(entries, 1)).toEqual(["old"]);
+  });
+});
+
+describe("diffFromSnapshots", () => {
+  it("returns null without a previous snapshot", () => {
+    expect(diffFromSnapshots(entry("a", 0))).toBeNull();
+  });
+
+  it("diffs against the most recent snapshot", () => {
+    const e = entry("a", 0, {
+      data: scan({ risk_score: 70 }),
+      snapshots: [
+        { data: scan({ risk_score: 10 }), timestamp: NOW - 60 * MIN },
+        { data: scan({ risk_score: 30 }), timestamp: NOW - 30 * MIN },
+      ],
+    });
+    const diff = diffFromSnapshots(e);
+    expect(diff).not.toBeNull();
+    expect(diff!.since).toBe(NOW - 30 * MIN);
+    expect(diff!.score).toEqual({ from: 30, to: 70, delta: 40 });
+  });
+});
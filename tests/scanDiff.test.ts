@@ -0,0 +1,66 @@
+/**
+ * Scan Diff Tests
+ *
+ * A token jumping from 30 to 70 between scans must show up as a diff.
+ */
+
+import { describe, it, expect } from "vitest";
+import { diffScans } from "../src/utils/scanDiff";
+import { scan } from "./mocks/scanResult";
+import type { RiskBreakdown } from "../src/types/scan";
+
+function breakdown(lpSeverity: "safe" | "critical", extraMetric = false): RiskBreakdown {
+  return {
+    contract_security: {
+      title: "Contract", icon: "🔒",
+      items: [
+        { metric: "LP locked", value: "yes", severity: lpSeverity, explanation: "" },
+        ...(extraMetric ? [{ metric: "Mint authority", value: "on", severity: "high" as const, explanation: "" }] : []),
+      ],
+    },
+  };
+}
+
+describe("diffScans", () => {
+  it("reports no changes for identical scans", () => {
+    const diff = diffScans(scan(), scan(), 0);
+    expect(diff.hasChanges).toBe(false);
+    expect(diff.score.delta).toBe(0);
+  });
+
+  it("computes score delta and factor changes", () => {
+    const diff = diffScans(
+      scan({ risk_factors: ["Low holder count"] }),
+      scan({ risk_score: 70, risk_factors: ["Mint authority enabled"] }),
+      1234,
+    );
+    expect(diff.since).toBe(1234);
+    expect(diff.score).toEqual({ from: 30, to: 70, delta: 40 });
+    expect(diff.factorsAdded).toEqual(["Mint authority enabled"]);
+    expect(diff.factorsRemoved).toEqual(["Low holder count"]);
+    expect(diff.hasChanges).toBe(true);
+  });
+
+  it("tracks severity changes per breakdown category", () => {
+    const diff = diffScans(
+      scan({ risk_breakdown: breakdown("safe") }),
+      scan({ risk_breakdown: breakdown("critical", true) }),
+      0,
+    );
+    expect(diff.severityChanges).toEqual([
+      { category: "contract_security", metric: "LP locked", from: "safe", to: "critical" },
+      { category: "contract_security", metric: "Mint authority", from: null, to: "high" },
+    ]);
+  });
+
+  it("ignores categories missing from one side", () => {
+    const diff = diffScans(scan({ risk_breakdown: breakdown("safe") }), scan({ risk_breakdown: {} }), 0);
+    expect(diff.severityChanges).toEqual([]);
+  });
+
+  it("reports liquidity and holder moves above the noise floor", () => {
+    const diff = diffScans(scan(), scan({ liquidity_usd: 40_000, holder_count: 1020 }), 0);
+    expect(diff.liquidity).toEqual({ from: 100_000, to: 40_000, change: -60_000, pct: -0.6 });
+    expect(diff.holders).toBeNull(); // +2% is noise
+  });
+});
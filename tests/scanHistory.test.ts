@@ -0,0 +1,92 @@
+/**
+ * Scan History Tests
+ *
+ * Search / risk-band filtering and CSV / JSON export.
+ */
+
+import { describe, it, expect } from "vitest";
+import { filterHistory, historyToCsv, historyToJson, type HistoryEntry } from "../src/services/scanHistory";
+import type { ScanResult } from "../src/services/api";
+
+function entry(symbol: string, risk_score: number | null, timestamp: number, extra: Partial<ScanResult> = {}): HistoryEntry {
+  const mint = `${symbol}mint1111111111111111111111111111`;
+  const data: ScanResult = {
+    token_address: mint,
+    chain: "solana",
+    token_name: `${symbol} Token`,
+    token_symbol: symbol,
+    risk_score,
+    price_usd: 0.5,
+    liquidity_usd: 20_000,
+    market_cap: 100_000,
+    holder_count: 300,
+    top_10_holder_percent: 35,
+    created_at: null,
+    ...extra,
+  };
+  return {
+    id: timestamp, mint, chain: "solana", symbol, name: data.token_name,
+    risk_score, source: "dexscreener.com", timestamp, data,
+  };
+}
+
+const ENTRIES = [
+  entry("BONK", 12, 1000),
+  entry("RUG", 88, 3000),
+  entry("MEH", 55, 2000),
+  entry("NEW", null, 4000),
+];
+
+describe("filterHistory", () => {
+  it("returns newest first", () => {
+    expect(filterHistory(ENTRIES).map((e) => e.symbol)).toEqual(["NEW", "RUG", "MEH", "BONK"]);
+  });
+
+  it("searches symbol, name and mint case-insensitively", () => {
+    expect(filterHistory(ENTRIES, { search: "bonk" }).map((e) => e.symbol)).toEqual(["BONK"]);
+    expect(filterHistory(ENTRIES, { search: "rug token" }).map((e) => e.symbol)).toEqual(["RUG"]);
+    expect(filterHistory(ENTRIES, { search: "MEHmint" }).map((e) => e.symbol)).toEqual(["MEH"]);
+  });
+
+  it("filters by risk band", () => {
+    expect(filterHistory(ENTRIES, { bands: ["High", "Critical"] }).map((e) => e.symbol)).toEqual(["RUG", "MEH"]);
+    expect(filterHistory(ENTRIES, { bands: [] })).toHaveLength(4);
+  });
+});
+
+describe("history export", () => {
+  it("writes a CSV header and one row per entry", () => {
+    const csv = historyToCsv([entry("BONK", 12, 0)]).split("\n");
+    expect(csv[0]).toBe(
+      "timestamp,mint,chain,symbol,name,risk_score,risk_band,source,price_usd,liquidity_usd,market_cap,holder_count,top_10_holder_percent",
+    );
+    expect(csv[1]).toBe(
+      "1970-01-01T00:00:00.000Z,BONKmint1111111111111111111111111111,solana,BONK,BONK Token,12,Low,dexscreener.com,0.5,20000,100000,300,35",
+    );
+  });
+
+  it("quotes CSV cells containing commas and quotes", () => {
+    const e = entry("X", 40, 0);
+    e.name = 'Bad, "quoted" name';
+    expect(historyToCsv([e]).split("\n")[1]).toContain('"Bad, ""quoted"" name"');
+  });
+
+  it("defuses cells a spreadsheet would run as formulas", () => {
+    const e = entry("=HYPERLINK(\"https://evil.example\")", 40, 0);
+    e.name = "@SUM(A1)";
+    const row = historyToCsv([e]).split("\n")[1];
+    expect(row).toContain(`"'=HYPERLINK(""https://evil.example"")"`);
+    expect(row).toContain(",'@SUM(A1),");
+    for (const lead of ["+", "-", "\t", "\r"]) {
+      e.name = `${lead}1+1`;
+      expect(historyToCsv([e]).split("\n")[1]).toContain(`'${lead}1+1`);
+    }
+  });
+
+  it("exports full scan results as JSON without internal ids", () => {
+    const parsed = JSON.parse(historyToJson([entry("RUG", 88, 0)]));
+    expect(parsed[0].id).toBeUndefined();
+    expect(parsed[0].timestamp).toBe("1970-01-01T00:00:00.000Z");
+    expect(parsed[0].data.token_symbol).toBe("RUG");
+  });
+});
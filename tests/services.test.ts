@@ -0,0 +1,79 @@
+/**
+ * Service Flow Tests
+ *
+ * Account, link and social flows end to end against the mock API.
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import { installMockApi, fixture } from "./mocks/mockApi";
+import { authenticateWithAddress } from "../src/services/walletAuth";
+import { batchScan, initLink, checkLinkStatus } from "../src/services/api";
+import { getReputation, getFeed, getSocialProfile } from "../src/services/social";
+
+const WALLET = "7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU";
+const CRM = "Eme5T2s2HB7B8W4YgLG1eReQpnadEVUnQBRjaKTdBAGS";
+
+const api = installMockApi();
+
+beforeEach(async () => {
+  api.reset();
+  await chrome.storage.local.remove("auth_token");
+});
+
+describe("wallet auth", () => {
+  it("signs the challenge nonce and stores the session", async () => {
+    const result = await authenticateWithAddress(WALLET);
+    expect(result).toMatchObject({ success: true, authToken: "rms_test_token_wallet", tier: "free_linked" });
+
+    const [verify] = api.callsTo("/ext/auth/verify");
+    expect(verify.body).toEqual({
+      wallet_address: WALLET,
+      signature: "manual-entry",
+      nonce: fixture("auth-challenge").nonce,
+    });
+    const { auth_token } = await chrome.storage.local.get("auth_token");
+    expect(auth_token).toBe("rms_test_token_wallet");
+  });
+
+  it("reports the API error when verification is refused", async () => {
+    api.override("POST", "/ext/auth/verify", { status: 400, body: { detail: "Challenge expired" } });
+    const result = await authenticateWithAddress(WALLET);
+    expect(result).toEqual({ success: false, error: "Challenge expired" });
+  });
+});
+
+describe("telegram link", () => {
+  it("inits a link and reads back the verified account", async () => {
+    const link = await initLink("ext-id");
+    expect(link?.bot_url).toContain(link!.link_token);
+    const status = await checkLinkStatus(link!.link_token);
+    expect(status).toMatchObject({ status: "verified", tier: "holder" });
+  });
+
+  it("treats a failed poll as expired", async () => {
+    api.override("GET", "/ext/link/status/lnk_gone", { status: 404 });
+    expect(await checkLinkStatus("lnk_gone")).toEqual({ status: "expired" });
+  });
+});
+
+describe("batch scan", () => {
+  it("returns fixtures for known tokens and not_scanned for the rest", async () => {
+    const other = "4k3Dyjzvzp8eMZWUXbBCjEvwSkkk59S5iCNLY3QrkX6R";
+    const resp = await batchScan([CRM, other]);
+    expect(resp.results[CRM].risk_score).toBe(37);
+    expect(resp.results[other].not_scanned).toBe(true);
+  });
+});
+
+describe("social", () => {
+  it("sends the stored token on authenticated calls", async () => {
+    await chrome.storage.local.set({ auth_token: "rms_test_token_wallet" });
+    expect(await getReputation()).toEqual(fixture("reputation"));
+    expect(api.callsTo("/ext/reputation")[0].headers.Authorization).toBe("Bearer rms_test_token_wallet");
+  });
+
+  it("reads profiles and the feed", async () => {
+    expect((await getSocialProfile(7))?.display_name).toBe("rugslayer");
+    expect((await getFeed())?.count).toBe(1);
+  });
+});
@@ -50,12 +50,15 @@ const listeners: Array<(changes: any, area: string) => void> = [];
       addListener: (_fn: any) => {},
       removeListener: (_fn: any) => {},
     },
+    onInstalled: { addListener: (_fn: any) => {} },
     getManifest: () => ({ content_scripts: [] }),
+    getURL: (path: string) => `chrome-extension://test/${path}`,
     lastError: null,
   },
   tabs: {
     query: (_opts: any, cb: (tabs: any[]) => void) => cb([]),
     sendMessage: (_tabId: any, _msg: any, _cb?: any) => {},
+    create: (_opts: any) => {},
     onUpdated: { addListener: (_fn: any) => {} },
   },
   action: {
@@ -65,7 +68,23 @@ const listeners: Array<(changes: any, area: string) => void> = [];
   sidePanel: { setPanelBehavior: (_opts: any) => {}, open: (_opts: any) => {} },
   contextMenus: { create: (_opts: any) => {}, onClicked: { addListener: (_fn: any) => {} } },
   alarms: { create: (_name: any, _opts: any) => {}, onAlarm: { addListener: (_fn: any) => {} } },
-  scripting: { executeScript: async (_opts: any) => {} },
+  notifications: {
+    create: (_id: any, _opts: any) => {},
+    clear: (_id: any) => {},
+    onClicked: { addListener: (_fn: any) => {} },
+  },
+  scripting: {
+    executeScript: async (_opts: any) => {},
+    registerContentScripts: async (_scripts: any[]) => {},
+    unregisterContentScripts: async (_filter: any) => {},
+    getRegisteredContentScripts: async (_filter?: any) => [],
+  },
+  permissions: {
+    contains: async (_perms: any) => false,
+    request: async (_perms: any) => false,
+    onAdded: { addListener: (_fn: any) => {} },
+    onRemoved: { addListener: (_fn: any) => {} },
+  },
 };
 
 
@@ -73,19 +92,24 @@ const listeners: Array<(changes: any, area: string) => void> = [];
 // Use synchronous-ish mock that resolves immediately via queueMicrotask
 (globalThis as any).indexedDB = {
   open: (_name: string, _version?: number) => {
+    const request = (result: any = undefined) => {
+      const req: any = { result };
+      queueMicrotask(() => req.onsuccess?.());
+      return req;
+    };
     const mockDB = {
       transaction: () => ({
         objectStore: () => ({
-          get: (_key: any) => {
-            const req: any = { result: null };
-            queueMicrotask(() => req.onsuccess?.());
-            return req;
-          },
-          put: (_data: any) => {
-            const req: any = {};
-            queueMicrotask(() => req.onsuccess?.());
-            return req;
-          },
+          get: (_key: any) => request(null),
+          put: (_data: any) => request(),
+          add: (_data: any) => request(),
+          getAll: () => request([]),
+          count: () => request(0),
+          clear: () => request(),
+          index: () => ({
+            getAll: (_key?: any) => request([]),
+            openCursor: () => request(null),
+          }),
         }),
       }),
       objectStoreNames: { contains: () => true },
@@ -0,0 +1,94 @@
+/**
+ * Site Adapter Registry Tests
+ *
+ * The registry is the only site list: host lookup, the background's
+ * wallet-tab check and the generated manifest all come from it.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  SITE_ADAPTERS, WALLET_BRIDGE_HOSTS, adapterForUrl, isWalletBridgeUrl, matchPatterns,
+} from "../src/sites/registry";
+import { buildManifest, SITES_SCRIPT, WALLET_BRIDGE_SCRIPT, WALLET_PAGE_SCRIPT } from "../src/sites/manifest";
+import template from "../public/manifest.json";
+
+describe("registry", () => {
+  it("has unique ids and hosts", () => {
+    const ids = SITE_ADAPTERS.map((a) => a.id);
+    const hosts = SITE_ADAPTERS.flatMap((a) => a.hosts);
+    expect(new Set(ids).size).toBe(ids.length);
+    expect(new Set(hosts).size).toBe(hosts.length);
+  });
+
+  it("finds the adapter for a page, including subdomains", () => {
+    expect(adapterForUrl("https://dexscreener.com/solana/abc")?.name).toBe("DexScreener");
+    expect(adapterForUrl("https://www.birdeye.so/token/abc")?.name).toBe("Birdeye");
+    expect(adapterForUrl("https://notpump.fun/coin/abc")).toBeNull();
+    expect(adapterForUrl("not a url")).toBeNull();
+  });
+
+  it("extracts the mint each adapter is responsible for", () => {
+    const mint = "Eme5T2s2HB7B8W4YgLG1eReQpnadEVUnQBRjaKTdBAGS";
+    const adapter = (id: string) => SITE_ADAPTERS.find((a) => a.id === id)!;
+    expect(adapter("pumpfun").extractMint(`https://pump.fun/coin/${mint}`)).toBe(mint);
+    expect(adapter("jupiter").extractMint(`https://jup.ag/swap/SOL-${mint}`)).toBe(mint);
+    expect(adapter("gmgn").extractChain!("https://gmgn.ai/base/token/0xabc")).toBe("base");
+  });
+
+  it("reads pool pages' token from explorer links", () => {
+    const mint = "Eme5T2s2HB7B8W4YgLG1eReQpnadEVUnQBRjaKTdBAGS";
+    document.body.innerHTML = `
+      <a href="https://solscan.io/token/So11111111111111111111111111111111111111112">SOL</a>
+      <a href="https://solscan.io/token/${mint}">CRM</a>
+    `;
+    expect(adapterForUrl("https://app.meteora.ag/dlmm/pool")!.extractMint("https://app.meteora.ag/dlmm/pool")).toBe(mint);
+    expect(adapterForUrl("https://www.orca.so/pools/pool")!.extractMint("https://www.orca.so/pools/pool")).toBe(mint);
+    // Orca's swap page without tokenOut isn't a pool — don't guess from links
+    expect(adapterForUrl("https://www.orca.so/")!.extractMint("https://www.orca.so/")).toBeNull();
+    document.body.innerHTML = "";
+  });
+
+  it("wallet bridge runs on every site plus wallet-only hosts", () => {
+    expect(isWalletBridgeUrl("https://gmgn.ai/sol/token/x")).toBe(true);
+    expect(isWalletBridgeUrl("https://solscan.io/token/x")).toBe(true);
+    expect(isWalletBridgeUrl("https://example.com/")).toBe(false);
+  });
+});
+
+describe("buildManifest", () => {
+  const manifest = buildManifest(template);
+  const siteMatches = matchPatterns(SITE_ADAPTERS.flatMap((a) => a.hosts));
+
+  it("grants host access to every site and keeps the API hosts", () => {
+    for (const m of siteMatches) expect(manifest.host_permissions).toContain(m);
+    expect(manifest.host_permissions).toContain("https://cryptorugmunch.app/*");
+  });
+
+  it("runs the site script on every adapter host", () => {
+    const sites = manifest.content_scripts.filter((cs) => cs.js.includes(SITES_SCRIPT));
+    expect(sites).toHaveLength(1);
+    expect(sites[0].matches).toEqual(siteMatches);
+  });
+
+  it("fills the wallet bridge matches", () => {
+    const bridge = manifest.content_scripts.find((cs) => cs.js.includes(WALLET_BRIDGE_SCRIPT))!;
+    expect(bridge.matches).toEqual(matchPatterns(WALLET_BRIDGE_HOSTS));
+  });
+
+  it("asks for no all-sites access up front", () => {
+    // The opt-in universal script is registered at runtime
+    expect(manifest.content_scripts.flatMap((cs) => cs.matches)).not.toContain("<all_urls>");
+    expect(manifest.host_permissions).not.toContain("https://*/*");
+  });
+
+  it("runs the wallet page agent in the MAIN world alongside the bridge", () => {
+    const agent = manifest.content_scripts.find((cs) => cs.js.includes(WALLET_PAGE_SCRIPT))!;
+    expect(agent.world).toBe("MAIN");
+    expect(agent.run_at).toBe("document_start");
+    expect(agent.matches).toEqual(matchPatterns(WALLET_BRIDGE_HOSTS));
+  });
+
+  it("is idempotent", () => {
+    expect(buildManifest(manifest)).toEqual(manifest);
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Pre-swap Guard Tests
+ *
+ * A risky output token must stop the page's own swap handler from firing
+ * until the user confirms — other buttons keep working.
+ */
+
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { armSwapGuard, disarmSwapGuard, shouldGuardSwap, isSwapButton } from "../src/utils/swapGuard";
+import { scan } from "./mocks/scanResult";
+
+function button(label: string, onClick: () => void): HTMLButtonElement {
+  const btn = document.createElement("button");
+  btn.innerHTML = `<span>${label}</span>`;
+  btn.addEventListener("click", onClick);
+  document.body.appendChild(btn);
+  return btn;
+}
+
+afterEach(() => {
+  disarmSwapGuard();
+  document.body.innerHTML = "";
+});
+
+describe("shouldGuardSwap", () => {
+  it("guards at or above the threshold", () => {
+    expect(shouldGuardSwap(scan({ risk_score: 50 }), 50)).toBe(true);
+    expect(shouldGuardSwap(scan({ risk_score: 80 }), 50)).toBe(true);
+    expect(shouldGuardSwap(scan({ risk_score: 49 }), 50)).toBe(false);
+  });
+
+  it("never guards unknown or unscanned tokens", () => {
+    expect(shouldGuardSwap(scan({ risk_score: null }), 0)).toBe(false);
+    expect(shouldGuardSwap(scan({ risk_score: 90, not_scanned: true }), 50)).toBe(false);
+    expect(shouldGuardSwap(null, 50)).toBe(false);
+  });
+});
+
+describe("isSwapButton", () => {
+  it("matches short swap labels only", () => {
+    expect(isSwapButton(button("Swap", () => {}))).toBe(true);
+    expect(isSwapButton(button("Confirm Swap", () => {}))).toBe(true);
+    expect(isSwapButton(button("", () => {}))).toBe(false);
+    expect(isSwapButton(button("Connect Wallet", () => {}))).toBe(false);
+  });
+});
+
+describe("armSwapGuard", () => {
+  it("blocks the swap click and shows the modal", () => {
+    const onSwap = vi.fn();
+    const btn = button("Swap", onSwap);
+
+    expect(armSwapGuard(scan({ risk_score: 82, risk_factors: ["Mint authority enabled"] }), 50)).toBe(true);
+    btn.querySelector("span")!.click();
+
+    expect(onSwap).not.toHaveBeenCalled();
+    expect(document.getElementById("rms-swap-guard")).not.toBeNull();
+  });
+
+  it("lets unrelated buttons through", () => {
+    const onOther = vi.fn();
+    const other = button("Connect Wallet", onOther);
+
+    armSwapGuard(scan({ risk_score: 82 }), 50);
+    other.click();
+
+    expect(onOther).toHaveBeenCalledOnce();
+  });
+
+  it("does not arm below the threshold", () => {
+    const onSwap = vi.fn();
+    const btn = button("Swap", onSwap);
+
+    expect(armSwapGuard(scan({ risk_score: 30 }), 50)).toBe(false);
+    btn.click();
+
+    expect(onSwap).toHaveBeenCalledOnce();
+  });
+
+  it("stops blocking once disarmed", () => {
+    const onSwap = vi.fn();
+    const btn = button("Swap", onSwap);
+
+    armSwapGuard(scan({ risk_score: 90 }), 50);
+    btn.click();
+    disarmSwapGuard();
+    btn.click();
+
+    expect(onSwap).toHaveBeenCalledOnce();
+    expect(document.getElementById("rms-swap-guard")).toBeNull();
+  });
+});
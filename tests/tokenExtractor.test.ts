@@ -6,7 +6,10 @@
  */
 
 import { describe, it, expect, beforeEach } from "vitest";
-import { extractTokenFromDexScreener, extractChainFromUrl } from "../src/utils/tokenExtractor";
+import {
+  extractTokenFromDexScreener, extractTokenFromDexScreenerRow, extractChainFromUrl,
+  extractSwapOutputMint, extractTokenFromExplorerLinks,
+} from "../src/utils/tokenExtractor";
 
 // ─── DexScreener DOM Extraction ────────────────────────────────
 
@@ -76,6 +79,28 @@ describe("extractTokenFromDexScreener", () => {
     `;
     expect(extractTokenFromDexScreener()).toBe("Eme5T2s2HB7B8W4YgLG1eReQpnadEVUnQBRjaKTdBAGS");
   });
+
+  it("prefers token links over an earlier pool account link", () => {
+    document.body.innerHTML = `
+      <a href="https://solscan.io/account/8wXtPeU6557ETkp9WHFY1n1EcU6NxDvbAggHGsMYiHsB">Pool</a>
+      <a href="https://solscan.io/token/Eme5T2s2HB7B8W4YgLG1eReQpnadEVUnQBRjaKTdBAGS">CRM</a>
+    `;
+    expect(extractTokenFromExplorerLinks()).toBe("Eme5T2s2HB7B8W4YgLG1eReQpnadEVUnQBRjaKTdBAGS");
+  });
+
+  it("extracts EVM tokens from Etherscan / Basescan links, skipping WETH", () => {
+    document.body.innerHTML = `
+      <a href="https://etherscan.io/token/0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2">WETH</a>
+      <a href="https://etherscan.io/token/0x6982508145454Ce325dDbE47a25d4ec3d2311933">PEPE</a>
+    `;
+    expect(extractTokenFromDexScreener()).toBe("0x6982508145454Ce325dDbE47a25d4ec3d2311933");
+
+    document.body.innerHTML = `
+      <a href="https://basescan.org/token/0x4200000000000000000000000000000000000006">WETH</a>
+      <a href="https://basescan.org/address/0x532f27101965dd16442E59d40670FaF5eBB142E4">BRETT</a>
+    `;
+    expect(extractTokenFromDexScreener()).toBe("0x532f27101965dd16442E59d40670FaF5eBB142E4");
+  });
 });
 
 
@@ -98,6 +123,19 @@ describe("extractChainFromUrl", () => {
     expect(extractChainFromUrl("https://dexscreener.com/bsc/0xbsc")).toBe("bsc");
   });
 
+  it("reads the chain from explorer hosts", () => {
+    expect(extractChainFromUrl("https://etherscan.io/token/0xabc")).toBe("ethereum");
+    expect(extractChainFromUrl("https://optimistic.etherscan.io/token/0xabc")).toBe("optimism");
+    expect(extractChainFromUrl("https://bscscan.com/token/0xabc")).toBe("bsc");
+  });
+
+  it("reads GMGN, Birdeye and BullX chain markers", () => {
+    expect(extractChainFromUrl("https://gmgn.ai/eth/token/0xabc")).toBe("ethereum");
+    expect(extractChainFromUrl("https://gmgn.ai/sol/token/abc")).toBe("solana");
+    expect(extractChainFromUrl("https://birdeye.so/token/0xabc?chain=base")).toBe("base");
+    expect(extractChainFromUrl("https://neo.bullx.io/terminal?chainId=56&address=0xabc")).toBe("bsc");
+  });
+
   it("defaults to solana for unknown chains", () => {
     expect(extractChainFromUrl("https://dexscreener.com/ton/something")).toBe("solana");
   });
@@ -106,3 +144,78 @@ describe("extractChainFromUrl", () => {
     expect(extractChainFromUrl("not-a-url")).toBe("solana");
   });
 });
+
+
+// ─── DexScreener List Rows ─────────────────────────────────────
+
+describe("extractTokenFromDexScreenerRow", () => {
+  it("extracts token mint from the row's token icon, NOT the pair href", () => {
+    document.body.innerHTML = `
+      <a class="ds-dex-table-row" href="/solana/6pnitzwjumnzsvfyfejf9mijzpc4iuqh1xugfwvdf8wb">
+        <img src="https://dd.dexscreener.com/ds-data/tokens/solana/Eme5T2s2HB7B8W4YgLG1eReQpnadEVUnQBRjaKTdBAGS.png?size=lg&key=abc" />
+        <span class="ds-dex-table-row-base-token-symbol">CRM</span>
+      </a>
+    `;
+    const row = document.querySelector("a")!;
+    expect(extractTokenFromDexScreenerRow(row)).toEqual({
+      chain: "solana",
+      mint: "Eme5T2s2HB7B8W4YgLG1eReQpnadEVUnQBRjaKTdBAGS",
+    });
+  });
+
+  it("picks up the chain from the icon path", () => {
+    document.body.innerHTML = `
+      <a class="ds-dex-table-row" href="/base/0xpair">
+        <img src="https://dd.dexscreener.com/ds-data/tokens/base/0x4ed4e862860bed51a9570b96d89af5e1b0efefed.png" />
+      </a>
+    `;
+    expect(extractTokenFromDexScreenerRow(document.querySelector("a")!)).toEqual({
+      chain: "base",
+      mint: "0x4ed4e862860bed51a9570b96d89af5e1b0efefed",
+    });
+  });
+
+  it("skips base token icons", () => {
+    document.body.innerHTML = `
+      <a class="ds-dex-table-row" href="/solana/pair">
+        <img src="https://dd.dexscreener.com/ds-data/tokens/solana/So11111111111111111111111111111111111111112.png" />
+      </a>
+    `;
+    expect(extractTokenFromDexScreenerRow(document.querySelector("a")!)).toBeNull();
+  });
+
+  it("returns null for rows without a token icon", () => {
+    document.body.innerHTML = `<a class="ds-dex-table-row" href="/solana/pair"><span>???</span></a>`;
+    expect(extractTokenFromDexScreenerRow(document.querySelector("a")!)).toBeNull();
+  });
+});
+
+
+// ─── Swap Output Token ─────────────────────────────────────────
+
+describe("extractSwapOutputMint", () => {
+  const MINT = "Eme5T2s2HB7B8W4YgLG1eReQpnadEVUnQBRjaKTdBAGS";
+  const USDC = "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v";
+
+  it("reads the buy side of Jupiter /swap/IN-OUT", () => {
+    expect(extractSwapOutputMint(`https://jup.ag/swap/SOL-${MINT}`)).toBe(MINT);
+  });
+
+  it("reads Jupiter ?buy= params", () => {
+    expect(extractSwapOutputMint(`https://jup.ag/?sell=${USDC}&buy=${MINT}`)).toBe(MINT);
+  });
+
+  it("reads Raydium outputCurrency / outputMint", () => {
+    expect(extractSwapOutputMint(`https://raydium.io/swap/?inputCurrency=sol&outputCurrency=${MINT}`)).toBe(MINT);
+    expect(extractSwapOutputMint(`https://raydium.io/swap/?inputMint=sol&outputMint=${MINT}`)).toBe(MINT);
+  });
+
+  it("never falls back to the input token", () => {
+    expect(extractSwapOutputMint(`https://raydium.io/swap/?inputCurrency=${MINT}`)).toBeNull();
+    expect(extractSwapOutputMint(`https://jup.ag/?sell=${MINT}`)).toBeNull();
+  });
+
+  it("ignores other hosts", () => {
+    expect(extractSwapOutputMint(`https://pump.fun/coin/${MINT}`)).toBeNull();
+  });
+});
@@ -0,0 +1,214 @@
+/**
+ * Transaction Review Tests
+ *
+ * Wire-format decoding of the instructions the transaction guard cares
+ * about, and the review that decides whether the user gets a warning.
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import { installMockApi } from "./mocks/mockApi";
+import { decodeTransaction, SYSTEM_PROGRAM_ID, TOKEN_2022_PROGRAM_ID, LOOKUP_ACCOUNT } from "../src/utils/txDecode";
+import { base58decode, base58encode } from "../src/utils/base58";
+import { buildSplRevokeTransaction, TOKEN_PROGRAM_ID } from "../src/utils/revokeTx";
+import { reviewTransaction, instructionWarning } from "../src/services/txReview";
+
+const OWNER = "7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU";
+const ACCOUNT = "3Fz9gkTmbvHVEbA5RL4xhhCkbrVnDRzE1MLLr9fiqP1m";
+const DRAINER = "JUP6LkbZbjS1jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4";
+const CRM = "Eme5T2s2HB7B8W4YgLG1eReQpnadEVUnQBRjaKTdBAGS";
+const BLOCKHASH = "EkSnNWid2cvwEVnVx9aBqawnmiCNiDgp3gUdkDPTKN1N";
+
+const api = installMockApi();
+
+const u64 = (n: bigint) => Array.from({ length: 8 }, (_, i) => Number((n >> BigInt(8 * i)) & 0xffn));
+
+const ix = (program: number, accounts: number[], data: number[]) => [program, accounts.length, ...accounts, data.length, ...data];
+
+const KEYS = [OWNER, ACCOUNT, DRAINER, CRM, TOKEN_PROGRAM_ID, SYSTEM_PROGRAM_ID];
+
+/**
+ * v0 transaction: static keys [OWNER, ACCOUNT, DRAINER, CRM, Token, System]
+ * by default, the first `signers` of them signing, plus account index 9
+ * loaded from a lookup table
+ */
+function v0Transaction(instructions: number[][], keys = KEYS, signers = 1): Uint8Array {
+  const message = [
+    0x80, signers, 0, 2,
+    keys.length, ...keys.flatMap((k) => [...base58decode(k)]),
+    ...base58decode(BLOCKHASH),
+    instructions.length, ...instructions.flat(),
+    0, // no lookup tables listed (the decoder doesn't need them)
+  ];
+  return Uint8Array.from([signers, ...new Array(64 * signers).fill(0), ...message]);
+}
+
+function drainerTransaction(): Uint8Array {
+  return v0Transaction([
+    // ApproveChecked: unlimited to DRAINER
+    ix(4, [1, 3, 2, 0], [13, ...u64(2n ** 64n - 1n), 6]),
+    // SetAuthority: account owner → DRAINER
+    ix(4, [1, 0], [6, 2, 1, ...base58decode(DRAINER)]),
+    // CloseAccount into DRAINER
+    ix(4, [1, 2, 0], [9]),
+    // System transfer 0.25 SOL to a lookup-table account
+    ix(5, [0, 9], [2, 0, 0, 0, ...u64(250_000_000n)]),
+  ]);
+}
+
+const base64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+
+beforeEach(() => api.reset());
+
+describe("decodeTransaction", () => {
+  it("decodes a legacy revoke", () => {
+    const tx = decodeTransaction(buildSplRevokeTransaction(OWNER, ACCOUNT, BLOCKHASH));
+    expect(tx.version).toBe("legacy");
+    expect(tx.accountKeys).toEqual([OWNER, ACCOUNT, TOKEN_PROGRAM_ID]);
+    expect(tx.signers).toEqual([OWNER]);
+    expect(tx.instructions).toEqual([
+      { kind: "revoke", programId: TOKEN_PROGRAM_ID, accounts: { source: ACCOUNT, owner: OWNER } },
+    ]);
+  });
+
+  it("names approvals, authority changes, closes and transfers in a v0 transaction", () => {
+    const { version, instructions } = decodeTransaction(drainerTransaction());
+    expect(version).toBe(0);
+    expect(instructions.map((i) => i.kind)).toEqual(["approve", "set-authority", "close-account", "sol-transfer"]);
+
+    expect(instructions[0]).toMatchObject({
+      accounts: { source: ACCOUNT, mint: CRM, delegate: DRAINER, owner: OWNER },
+      amount: "18446744073709551615",
+    });
+    expect(instructions[1]).toMatchObject({ authorityType: "account owner", newAuthority: DRAINER });
+    expect(instructions[3]).toMatchObject({
+      programId: SYSTEM_PROGRAM_ID,
+      accounts: { source: OWNER, destination: LOOKUP_ACCOUNT },
+      amount: "250000000",
+    });
+  });
+
+  it("rejects truncated transactions", () => {
+    expect(() => decodeTransaction(drainerTransaction().slice(0, 120))).toThrow("truncated");
+  });
+
+  it("round-trips base58 and knows Token-2022", () => {
+    expect(base58encode(base58decode(OWNER))).toBe(OWNER);
+    expect(base58decode(TOKEN_2022_PROGRAM_ID)).toHaveLength(32);
+  });
+});
+
+describe("instructionWarning", () => {
+  it("leaves closing an account back into the signer's wallet alone", () => {
+    const close = {
+      kind: "close-account" as const, programId: TOKEN_PROGRAM_ID, accounts: { account: ACCOUNT, destination: OWNER, owner: OWNER },
+    };
+    expect(instructionWarning(close, [OWNER])).toBeNull();
+    expect(instructionWarning({ ...close, accounts: { ...close.accounts, destination: DRAINER } }, [OWNER])?.severity).toBe("danger");
+  });
+
+  it("warns about the signer's SOL or tokens going to someone else", () => {
+    const sol = { kind: "sol-transfer" as const, programId: SYSTEM_PROGRAM_ID, accounts: { source: OWNER, destination: DRAINER }, amount: "1500000000" };
+    expect(instructionWarning(sol, [OWNER])).toEqual({ severity: "warning", text: "Sends 1.5 SOL to JUP6…TaV4" });
+    expect(instructionWarning({ ...sol, accounts: { source: OWNER, destination: OWNER } }, [OWNER])).toBeNull();
+
+    const tokens = { kind: "transfer" as const, programId: TOKEN_PROGRAM_ID, accounts: { source: ACCOUNT, destination: DRAINER, owner: OWNER } };
+    expect(instructionWarning(tokens, [OWNER])?.text).toBe("Sends tokens from 3Fz9…qP1m to JUP6…TaV4");
+    // Someone else's tokens (e.g. a pool paying out) aren't the signer's loss
+    expect(instructionWarning({ ...tokens, accounts: { ...tokens.accounts, owner: DRAINER } }, [OWNER])).toBeNull();
+  });
+});
+
+describe("reviewTransaction", () => {
+  it("flags a drainer: approvals, hand-overs and a Critical mint", async () => {
+    const review = await reviewTransaction(base64(drainerTransaction()), "https://evil.example");
+
+    expect(review.severity).toBe("danger");
+    expect(review.warnings).toEqual([
+      "Lets JUP6…TaV4 spend all of the tokens in 3Fz9…qP1m",
+      "Hands account owner authority over 3Fz9…qP1m to JUP6…TaV4",
+      "Closes 3Fz9…qP1m and sends what's left to JUP6…TaV4",
+      "Sends 0.25 SOL to a lookup-table account",
+    ]);
+    expect(review.balanceChanges).toHaveLength(2);
+    expect(review.riskyMints).toEqual([{ mint: "9BB6NFEcjBCtnNLFko2FqVQBq8HHM13kCyYcdQbgpump", symbol: "BCT", risk_score: 82 }]);
+    expect(api.callsTo("/ext/simulate")[0].body).toMatchObject({ chain: "solana", origin: "https://evil.example" });
+    // Instruction and balance-change mints scanned together, SOL skipped
+    expect(api.callsTo("/ext/batch")[0].body.tokens.sort()).toEqual([CRM, "9BB6NFEcjBCtnNLFko2FqVQBq8HHM13kCyYcdQbgpump"].sort());
+  });
+
+  it("checks co-signers too: the drainer pays the fee, the victim signs second", async () => {
+    api.override("POST", "/ext/simulate", { body: { success: true, balance_changes: [] } });
+    // Keys: [DRAINER, OWNER, ACCOUNT, CRM, Token, System], both of the first two signing
+    const keys = [DRAINER, OWNER, ACCOUNT, CRM, TOKEN_PROGRAM_ID, SYSTEM_PROGRAM_ID];
+    const tx = v0Transaction([
+      // TransferChecked: the victim's tokens to DRAINER
+      ix(4, [2, 3, 0, 1], [12, ...u64(1_000_000n), 6]),
+      // System transfer 2 SOL from the victim to DRAINER
+      ix(5, [1, 0], [2, 0, 0, 0, ...u64(2_000_000_000n)]),
+      // CloseAccount: the victim's account into DRAINER
+      ix(4, [2, 0, 1], [9]),
+    ], keys, 2);
+
+    expect(decodeTransaction(tx).signers).toEqual([DRAINER, OWNER]);
+    const review = await reviewTransaction(base64(tx), "https://evil.example");
+    expect(review.severity).toBe("danger");
+    expect(review.warnings).toEqual([
+      "Sends tokens from 3Fz9…qP1m to JUP6…TaV4",
+      "Sends 2 SOL to JUP6…TaV4",
+      "Closes 3Fz9…qP1m and sends what's left to JUP6…TaV4",
+    ]);
+  });
+
+  it("lets a plain revoke through even when simulation is down", async () => {
+    api.override("POST", "/ext/simulate", { status: 400, body: { detail: "Simulation unavailable" } });
+    const review = await reviewTransaction(base64(buildSplRevokeTransaction(OWNER, ACCOUNT, BLOCKHASH)), "https://jup.ag");
+
+    expect(review.severity).toBe("ok");
+    expect(review.simulationError).toBe("Simulation unavailable");
+    expect(api.callsTo("/ext/batch")).toHaveLength(0);
+  });
+
+  it("warns when the transaction would fail", async () => {
+    api.override("POST", "/ext/simulate", { body: { success: false, error: "insufficient funds", balance_changes: [] } });
+    const review = await reviewTransaction(base64(buildSplRevokeTransaction(OWNER, ACCOUNT, BLOCKHASH)), "https://jup.ag");
+    expect(review).toMatchObject({ severity: "warning", simulationError: "insufficient funds" });
+  });
+
+  it("flags a plain drain: the whole balance out, nothing back", async () => {
+    api.override("POST", "/ext/simulate", {
+      body: {
+        success: true,
+        balance_changes: [{ mint: "So11111111111111111111111111111111111111112", symbol: "SOL", amount: -12.4, value_usd: -1837.7 }],
+      },
+    });
+    const drain = v0Transaction([ix(5, [0, 2], [2, 0, 0, 0, ...u64(12_400_000_000n)])]);
+    const review = await reviewTransaction(base64(drain), "https://claim-airdrop.example");
+
+    expect(review.severity).toBe("warning");
+    expect(review.warnings).toEqual([
+      "Sends 12.4 SOL to JUP6…TaV4",
+      "Sends $1.8K of $SOL out with nothing coming back",
+    ]);
+  });
+
+  it("leaves a swap's outflow alone", async () => {
+    const review = await reviewTransaction(base64(buildSplRevokeTransaction(OWNER, ACCOUNT, BLOCKHASH)), "https://jup.ag");
+    // The default simulation pays SOL for BCT — only the Critical mint counts
+    expect(review.warnings).toEqual([]);
+    expect(review.riskyMints).toHaveLength(1);
+  });
+
+  it("still reviews when the token scan is down", async () => {
+    api.override("POST", "/ext/batch", { status: 400, body: { detail: "Scanner unavailable" } });
+    const review = await reviewTransaction(base64(drainerTransaction()), "https://evil.example");
+    expect(review.severity).toBe("danger");
+    expect(review.riskyMints).toEqual([]);
+  });
+
+  it("warns about transactions it can't decode", async () => {
+    api.override("POST", "/ext/simulate", { body: { success: true, balance_changes: [] } });
+    const review = await reviewTransaction(base64(new Uint8Array([1, 2, 3])), "https://jup.ag");
+    expect(review.severity).toBe("warning");
+    expect(review.warnings).toEqual(["Couldn't decode this transaction"]);
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Universal Highlighting Tests
+ *
+ * Addresses posted in tweets / chat messages get wrapped for a risk chip;
+ * compose boxes and form fields must never be rewritten.
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import { highlightAddresses, clearHighlights, detectAddressesOnPage } from "../src/content/universal";
+import { DEFAULT_SETTINGS, isUniversalSiteAllowed } from "../src/utils/config";
+
+const CRM = "Eme5T2s2HB7B8W4YgLG1eReQpnadEVUnQBRjaKTdBAGS";
+const PEPE = "0x6982508145454Ce325dDbE47a25d4ec3d2311933";
+
+describe("highlightAddresses", () => {
+  beforeEach(() => {
+    document.body.innerHTML = "";
+  });
+
+  it("wraps Solana and EVM addresses in running text", () => {
+    document.body.innerHTML = `<article><p>new gem ${CRM} and ${PEPE} 🚀</p></article>`;
+    const spans = highlightAddresses(document.body);
+    expect(spans.map((s) => s.getAttribute("data-rms-addr"))).toEqual([CRM, PEPE]);
+    expect(document.querySelector("p")!.textContent).toBe(`new gem ${CRM} and ${PEPE} 🚀`);
+  });
+
+  it("is idempotent", () => {
+    document.body.innerHTML = `<p>${CRM}</p>`;
+    highlightAddresses(document.body);
+    expect(highlightAddresses(document.body)).toEqual([]);
+    expect(document.querySelectorAll("[data-rms-addr]")).toHaveLength(1);
+  });
+
+  it("skips editable areas and form fields", () => {
+    document.body.innerHTML = `
+      <div contenteditable="true"><span>${CRM}</span></div>
+      <textarea>${CRM}</textarea>
+      <div contenteditable="false"><span>${PEPE}</span></div>
+    `;
+    const spans = highlightAddresses(document.body);
+    expect(spans.map((s) => s.getAttribute("data-rms-addr"))).toEqual([PEPE]);
+  });
+
+  it("ignores single-case base58 noise and respects the limit", () => {
+    document.body.innerHTML = `<p>${"a".repeat(40)} ${CRM} ${PEPE}</p>`;
+    expect(highlightAddresses(document.body, 1)).toHaveLength(1);
+    expect(document.querySelectorAll("[data-rms-addr]")[0].getAttribute("data-rms-addr")).toBe(CRM);
+  });
+
+  it("clearHighlights restores the original text", () => {
+    document.body.innerHTML = `<p>ca: ${CRM} !</p>`;
+    highlightAddresses(document.body);
+    clearHighlights(document.body);
+    const p = document.querySelector("p")!;
+    expect(p.querySelector("[data-rms-addr]")).toBeNull();
+    expect(p.childNodes).toHaveLength(1);
+    expect(p.textContent).toBe(`ca: ${CRM} !`);
+  });
+
+  it("detectAddressesOnPage finds both formats", () => {
+    document.body.innerHTML = `<p>${CRM}</p>\n<p>${PEPE}</p>`;
+    // jsdom doesn't implement innerText
+    Object.defineProperty(document.body, "innerText", { value: document.body.textContent, configurable: true });
+    expect(detectAddressesOnPage()).toEqual([CRM, PEPE]);
+  });
+});
+
+describe("isUniversalSiteAllowed", () => {
+  const on = { ...DEFAULT_SETTINGS, universalHighlight: true };
+
+  it("is off unless opted in", () => {
+    expect(isUniversalSiteAllowed("x.com", DEFAULT_SETTINGS)).toBe(false);
+  });
+
+  it("matches allow-listed sites and their subdomains", () => {
+    expect(isUniversalSiteAllowed("x.com", on)).toBe(true);
+    expect(isUniversalSiteAllowed("web.telegram.org", on)).toBe(true);
+    expect(isUniversalSiteAllowed("mobile.twitter.com", on)).toBe(true);
+    expect(isUniversalSiteAllowed("notx.com", on)).toBe(false);
+  });
+
+  it("treats an empty allow list as every site, with deny winning", () => {
+    const open = { ...on, universalAllow: [], universalDeny: ["example.com"] };
+    expect(isUniversalSiteAllowed("news.site", open)).toBe(true);
+    expect(isUniversalSiteAllowed("www.example.com", open)).toBe(false);
+  });
+});
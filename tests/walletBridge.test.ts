@@ -0,0 +1,330 @@
+/**
+ * Wallet Bridge Tests
+ *
+ * Runs the MAIN-world wallet agent against fake injected providers and a
+ * Wallet Standard wallet, through the same router the background talks to.
+ */
+
+import { describe, it, expect, vi, beforeAll, afterAll, afterEach } from "vitest";
+import { WALLET_EVENTS } from "../src/content/walletProtocol";
+import { buildSplRevokeTransaction } from "../src/utils/revokeTx";
+import { base58encode } from "../src/utils/base58";
+
+// The guard's warning UI answers whatever the test says
+const { showTxWarning } = vi.hoisted(() => ({ showTxWarning: vi.fn(async (_review: any, _origin: string) => false) }));
+vi.mock("../src/utils/txWarning", () => ({ showTxWarning }));
+
+const SOLFLARE_KEY = "7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU";
+const BACKPACK_KEY = "3Fz9gkTmbvHVEbA5RL4xhhCkbrVnDRzE1MLLr9fiqP1m";
+
+let router: (message: unknown, sender: any, sendResponse: (r: any) => void) => boolean | void;
+
+function send(message: unknown): Promise<any> {
+  return new Promise((resolve) => router(message, {}, resolve));
+}
+
+const key = (address: string) => ({ toBase58: () => address });
+
+/** Solflare-style provider: connect() resolves nothing, publicKey lands on the provider */
+function fakeSolflare() {
+  const provider: any = {
+    isSolflare: true,
+    isConnected: false,
+    publicKey: null,
+    connect: vi.fn(async () => { provider.isConnected = true; provider.publicKey = key(SOLFLARE_KEY); }),
+    signMessage: vi.fn(async (_msg: Uint8Array) => new Uint8Array([0, 0, 1, 2, 3])),
+    disconnect: vi.fn(async () => {}),
+  };
+  return provider;
+}
+
+/** Wallet Standard wallet that registers when the app announces itself */
+function registerStandardWallet(name: string, address: string) {
+  const account = { address, publicKey: new Uint8Array(32) };
+  const wallet = {
+    name,
+    icon: "data:image/svg+xml;base64,PHN2Zy8+",
+    chains: ["solana:mainnet"],
+    accounts: [] as any[],
+    features: {
+      "standard:connect": { connect: vi.fn(async () => { wallet.accounts = [account]; return { accounts: [account] }; }) },
+      "solana:signMessage": { signMessage: vi.fn(async (_input: any) => [{ signedMessage: _input.message, signature: new Uint8Array([9, 9]) }]) },
+      "solana:signAndSendTransaction": { signAndSendTransaction: vi.fn(async (_input: any) => [{ signature: new Uint8Array([1, 2, 3]) }]) },
+    },
+  };
+  const listener = (e: any) => e.detail.register(wallet);
+  window.addEventListener("wallet-standard:app-ready", listener);
+  return { wallet, unregister: () => window.removeEventListener("wallet-standard:app-ready", listener) };
+}
+
+/** Load the scripts in the given order and return the bridge's router */
+async function load(...scripts: ("page" | "bridge")[]): Promise<typeof router> {
+  vi.resetModules();
+  const addListener = vi.spyOn(chrome.runtime.onMessage, "addListener");
+  for (const script of scripts) {
+    await (script === "page" ? import("../src/content/walletPage") : import("../src/content/walletBridge"));
+  }
+  const loaded = addListener.mock.calls.at(-1)![0] as typeof router;
+  addListener.mockRestore();
+  return loaded;
+}
+
+beforeAll(async () => {
+  // Manifest order: the MAIN-world agent, then the bridge
+  router = await load("page", "bridge");
+});
+
+afterEach(() => {
+  delete (window as any).solflare;
+  delete (window as any).phantom;
+  delete (window as any).ethereum;
+});
+
+describe("wallet discovery", () => {
+  it("finds injected and Wallet Standard wallets", async () => {
+    (window as any).solflare = fakeSolflare();
+    const backpack = registerStandardWallet("Backpack", BACKPACK_KEY);
+
+    const resp = await send({ type: "WALLET_DETECT" });
+    backpack.unregister();
+
+    expect(resp.success).toBe(true);
+    expect(resp.phantom).toBe(false);
+    expect(resp.wallets).toEqual([
+      { id: "solflare", name: "Solflare", icon: null, publicKey: null },
+      { id: "standard:Backpack", name: "Backpack", icon: "data:image/svg+xml;base64,PHN2Zy8+", publicKey: null },
+    ]);
+  });
+
+  it("lists a wallet seen both ways once, under its injected id", async () => {
+    (window as any).solflare = fakeSolflare();
+    const dup = registerStandardWallet("Solflare", SOLFLARE_KEY);
+    const resp = await send({ type: "WALLET_DETECT" });
+    dup.unregister();
+    expect(resp.wallets.map((w: any) => w.id)).toEqual(["solflare"]);
+  });
+});
+
+describe("signing", () => {
+  it("connects and signs with the chosen injected wallet", async () => {
+    const solflare = fakeSolflare();
+    (window as any).solflare = solflare;
+
+    const resp = await send({ type: "WALLET_SIGN", message: "Sign in", nonce: "n1", wallet: "solflare" });
+    expect(solflare.connect).toHaveBeenCalled();
+    // Two leading zero bytes → "11", then base58 of [1, 2, 3]
+    expect(resp).toEqual({ success: true, wallet: "solflare", signature: "11Ldp", publicKey: SOLFLARE_KEY });
+  });
+
+  it("signs through the Wallet Standard", async () => {
+    const { wallet, unregister } = registerStandardWallet("Glowy", BACKPACK_KEY);
+    const resp = await send({ type: "WALLET_SIGN", message: "Sign in", nonce: "n1", wallet: "standard:Glowy" });
+    unregister();
+
+    expect(resp).toMatchObject({ success: true, wallet: "standard:Glowy", publicKey: BACKPACK_KEY });
+    const [input] = wallet.features["solana:signMessage"].signMessage.mock.calls[0];
+    expect(input.account.address).toBe(BACKPACK_KEY);
+  });
+
+  it("reports a wallet that isn't on the page", async () => {
+    const resp = await send({ type: "WALLET_CONNECT", wallet: "glow" });
+    expect(resp).toEqual({ success: false, error: "glow wallet not found on this page." });
+  });
+
+  it("explains when there is no wallet at all", async () => {
+    const resp = await send({ type: "WALLET_CONNECT" });
+    expect(resp.success).toBe(false);
+    expect(resp.error).toContain("No Solana wallet found");
+  });
+});
+
+describe("sending transactions", () => {
+  const SOLANA_TX = { kind: "solana", serialized: btoa(String.fromCharCode(1, 0, 7)) };
+
+  it("signs and sends with the wallet connected as the owner", async () => {
+    const { wallet, unregister } = registerStandardWallet("Backpack", BACKPACK_KEY);
+    await send({ type: "WALLET_CONNECT", wallet: "standard:Backpack" });
+
+    const resp = await send({ type: "WALLET_SEND_TRANSACTION", from: BACKPACK_KEY, transaction: SOLANA_TX });
+    unregister();
+
+    expect(resp).toEqual({ success: true, wallet: "standard:Backpack", publicKey: BACKPACK_KEY, txid: "Ldp" });
+    const [input] = wallet.features["solana:signAndSendTransaction"].signAndSendTransaction.mock.calls[0];
+    expect([...input.transaction]).toEqual([1, 0, 7]);
+    expect(input.chain).toBe("solana:mainnet");
+  });
+
+  it("sends only the message through a Phantom-style request API", async () => {
+    const solflare = fakeSolflare();
+    solflare.request = vi.fn(async (_req: any) => ({ signature: "5xSig" }));
+    (window as any).solflare = solflare;
+    await send({ type: "WALLET_CONNECT", wallet: "solflare" });
+
+    const tx = buildSplRevokeTransaction(SOLFLARE_KEY, BACKPACK_KEY, "EkSnNWid2cvwEVnVx9aBqawnmiCNiDgp3gUdkDPTKN1N");
+    const resp = await send({
+      type: "WALLET_SEND_TRANSACTION", from: SOLFLARE_KEY, wallet: "solflare",
+      transaction: { kind: "solana", serialized: btoa(String.fromCharCode(...tx)) },
+    });
+
+    expect(resp).toMatchObject({ success: true, txid: "5xSig" });
+    expect(solflare.request).toHaveBeenCalledWith({
+      method: "signAndSendTransaction",
+      // One signature: the count byte and 64 zeroed bytes come off
+      params: { message: base58encode(tx.slice(65)) },
+    });
+  });
+
+  it("won't send from a different account than the owner", async () => {
+    const { unregister } = registerStandardWallet("Backpack", BACKPACK_KEY);
+    const resp = await send({
+      type: "WALLET_SEND_TRANSACTION", from: SOLFLARE_KEY, transaction: SOLANA_TX, wallet: "standard:Backpack",
+    });
+    unregister();
+    expect(resp).toEqual({ success: false, wallet: "standard:Backpack", error: "Switch Backpack to 7xKX…gAsU and try again." });
+  });
+
+  it("sends EVM transactions through window.ethereum on the right chain", async () => {
+    const from = "0x742d35Cc6634C0532925a3b844Bc454e4438f44e";
+    const request = vi.fn(async ({ method }: { method: string }) =>
+      method === "eth_requestAccounts" ? [from.toLowerCase()] : method === "eth_sendTransaction" ? "0xhash" : null);
+    (window as any).ethereum = { request };
+
+    const resp = await send({
+      type: "WALLET_SEND_TRANSACTION", from, transaction: { kind: "evm", chainId: 8453, to: "0xToken", data: "0x095ea7b3" },
+    });
+
+    expect(resp).toEqual({ success: true, wallet: "ethereum", publicKey: from.toLowerCase(), txid: "0xhash" });
+    expect(request.mock.calls.map(([r]: any[]) => r.method)).toEqual([
+      "eth_requestAccounts", "wallet_switchEthereumChain", "eth_sendTransaction",
+    ]);
+    expect((request.mock.calls[1] as any[])[0].params).toEqual([{ chainId: "0x2105" }]);
+  });
+});
+
+describe("transaction guard", () => {
+  const TX = new Uint8Array([1, 0, 7]);
+  let review: any;
+  let send: ReturnType<typeof vi.spyOn>;
+
+  beforeAll(async () => {
+    await chrome.storage.local.set({ settings: { txSimulation: true } });
+    send = vi.spyOn(chrome.runtime, "sendMessage").mockImplementation(((_msg: any, cb: any) => cb(review)) as any);
+  });
+
+  afterAll(async () => {
+    send.mockRestore();
+    await chrome.storage.local.remove("settings");
+  });
+
+  afterEach(() => {
+    send.mockClear();
+    showTxWarning.mockClear();
+  });
+
+  /** Solflare with signTransaction, behind a freshly loaded agent + bridge */
+  async function guardedSolflare() {
+    const solflare = fakeSolflare();
+    const signTransaction = vi.fn(async (tx: Uint8Array) => tx);
+    solflare.signTransaction = signTransaction;
+    (window as any).solflare = solflare;
+    await load("page", "bridge");
+    await vi.waitFor(() => expect(solflare.signTransaction).not.toBe(signTransaction));
+    return { solflare, signTransaction };
+  }
+
+  it("stops a transaction the user rejects before the wallet sees it", async () => {
+    review = { severity: "danger", warnings: ["Lets JUP6…TaV4 spend all of the tokens"], balanceChanges: [], riskyMints: [], simulationError: null };
+    const { solflare, signTransaction } = await guardedSolflare();
+
+    await expect(solflare.signTransaction(TX)).rejects.toThrow("Transaction rejected by Rug Munch Intelligence");
+    expect(signTransaction).not.toHaveBeenCalled();
+    expect(send.mock.calls[0][0]).toEqual({
+      type: "REVIEW_TRANSACTION", transaction: btoa(String.fromCharCode(1, 0, 7)), origin: window.location.origin,
+    });
+    expect(showTxWarning).toHaveBeenCalledWith(review, window.location.origin);
+  });
+
+  it("passes clean transactions straight to the wallet", async () => {
+    review = { severity: "ok", warnings: [], balanceChanges: [], riskyMints: [], simulationError: null };
+    const { solflare, signTransaction } = await guardedSolflare();
+
+    await expect(solflare.signTransaction(TX)).resolves.toBe(TX);
+    expect(signTransaction).toHaveBeenCalledWith(TX);
+    expect(showTxWarning).not.toHaveBeenCalled();
+  });
+
+  it("reviews Wallet Standard sends and continues once the user confirms", async () => {
+    review = { severity: "warning", warnings: [], balanceChanges: [], riskyMints: [], simulationError: "would fail" };
+    // Every bridge loaded so far guards this page, and each asks the user
+    showTxWarning.mockResolvedValue(true);
+    const { wallet, unregister } = registerStandardWallet("Backpack", BACKPACK_KEY);
+    const feature = wallet.features["solana:signAndSendTransaction"];
+    const original = feature.signAndSendTransaction;
+    await load("page", "bridge");
+    await vi.waitFor(() => expect(feature.signAndSendTransaction).not.toBe(original));
+    unregister();
+
+    await feature.signAndSendTransaction({ account: null, transaction: TX, chain: "solana:mainnet" });
+    showTxWarning.mockResolvedValue(false);
+    expect(showTxWarning).toHaveBeenCalled();
+    expect(original).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("page handshake", () => {
+  /** A page-side port that answers every request with no wallets */
+  function spoofPort() {
+    const spoof = new MessageChannel();
+    spoof.port1.onmessage = (e) => spoof.port1.postMessage({ ...e.data, result: { success: true, wallets: [] } });
+    return spoof;
+  }
+
+  it("keeps the port away from page listeners, even capturing ones", async () => {
+    // Page script: runs after the agent, before the bridge's loader
+    const seen = vi.fn();
+    window.addEventListener(WALLET_EVENTS.port, seen, true);
+    window.addEventListener(WALLET_EVENTS.port, seen);
+    const stop = Event.prototype.stopImmediatePropagation;
+    Event.prototype.stopImmediatePropagation = function () {};
+    const spoof = spoofPort();
+    window.dispatchEvent(new MessageEvent(WALLET_EVENTS.port, { ports: [spoof.port2] }));
+
+    try {
+      (window as any).solflare = fakeSolflare();
+      const fresh = await load("bridge");
+      const resp: any = await new Promise((resolve) => fresh({ type: "WALLET_DETECT" }, {}, resolve));
+      expect(resp.wallets.map((w: any) => w.id)).toEqual(["solflare"]);
+      expect(seen).not.toHaveBeenCalled();
+    } finally {
+      Event.prototype.stopImmediatePropagation = stop;
+      window.removeEventListener(WALLET_EVENTS.port, seen, true);
+      window.removeEventListener(WALLET_EVENTS.port, seen);
+      spoof.port1.close();
+    }
+  });
+
+  it("ignores ports a page script offers after the handshake", async () => {
+    const spoof = spoofPort();
+    window.dispatchEvent(new MessageEvent(WALLET_EVENTS.port, { ports: [spoof.port2] }));
+
+    (window as any).solflare = fakeSolflare();
+    const resp = await send({ type: "WALLET_DETECT" });
+    spoof.port1.close();
+    expect(resp.wallets.map((w: any) => w.id)).toEqual(["solflare"]);
+  });
+
+  it("refuses wallet ops when no agent answered", async () => {
+    vi.useFakeTimers({ toFake: ["setTimeout", "clearTimeout"] });
+    // No agent on the page: the offer goes nowhere
+    const dispatch = vi.spyOn(window, "dispatchEvent").mockReturnValue(true);
+    try {
+      const alone = await load("bridge");
+      const resp = new Promise((resolve) => alone({ type: "WALLET_CONNECT" }, {}, resolve));
+      await vi.advanceTimersByTimeAsync(5000);
+      expect(await resp).toEqual({ success: false, error: expect.stringContaining("isn't connected") });
+    } finally {
+      dispatch.mockRestore();
+      vi.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * Watchlist Tests
+ *
+ * Storage round-trips and the change detection that drives notifications.
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  addToWatchlist, removeFromWatchlist, getWatchlist, isWatched,
+  applyWatchResults, keyWatchResults, detectWatchChanges, type WatchSnapshot,
+} from "../src/services/watchlist";
+import { scan, SCAN_MINT as MINT } from "./mocks/scanResult";
+
+const CONTRACT = "0x6982508145454Ce325dDbE47a25d4ec3d2311933";
+
+function snap(extra: Partial<WatchSnapshot> = {}): WatchSnapshot {
+  return {
+    timestamp: 0, risk_score: 30, liquidity_usd: 100_000,
+    mint_authority: false, freeze_authority: false,
+    ...extra,
+  };
+}
+
+beforeEach(async () => {
+  await chrome.storage.local.set({ watchlist: [] });
+});
+
+describe("watchlist storage", () => {
+  it("adds once and seeds history from the scan", async () => {
+    expect(await addToWatchlist(MINT, "solana", scan())).toBe(true);
+    expect(await addToWatchlist(MINT, "solana", scan())).toBe(false);
+
+    const list = await getWatchlist();
+    expect(list).toHaveLength(1);
+    expect(list[0].symbol).toBe("TEST");
+    expect(list[0].history).toHaveLength(1);
+    expect(await isWatched(MINT)).toBe(true);
+  });
+
+  it("removes tokens", async () => {
+    await addToWatchlist(MINT);
+    await removeFromWatchlist(MINT);
+    expect(await isWatched(MINT)).toBe(false);
+  });
+
+  it("tells the same contract apart per chain, whatever its case", async () => {
+    expect(await addToWatchlist(CONTRACT, "ethereum")).toBe(true);
+    expect(await addToWatchlist(CONTRACT.toLowerCase(), "ethereum")).toBe(false);
+    expect(await addToWatchlist(CONTRACT, "base")).toBe(true);
+
+    await removeFromWatchlist(CONTRACT.toLowerCase(), "ethereum");
+    expect(await isWatched(CONTRACT, "ethereum")).toBe(false);
+    expect(await isWatched(CONTRACT, "base")).toBe(true);
+  });
+});
+
+describe("detectWatchChanges", () => {
+  it("flags risk band crossings only", () => {
+    expect(detectWatchChanges(snap({ risk_score: 30 }), snap({ risk_score: 70 }))[0].kind).toBe("risk_band");
+    expect(detectWatchChanges(snap({ risk_score: 30 }), snap({ risk_score: 45 }))).toEqual([]);
+  });
+
+  it("flags sharp liquidity drops", () => {
+    const alerts = detectWatchChanges(snap(), snap({ liquidity_usd: 20_000 }));
+    expect(alerts.map((a) => a.kind)).toEqual(["liquidity_drop"]);
+    expect(alerts[0].message).toContain("80%");
+    expect(detectWatchChanges(snap(), snap({ liquidity_usd: 80_000 }))).toEqual([]);
+  });
+
+  it("flags authority flips but not unknown values", () => {
+    expect(detectWatchChanges(snap(), snap({ mint_authority: true }))[0].message).toBe("Mint authority enabled");
+    expect(detectWatchChanges(snap({ freeze_authority: true }), snap())[0].message).toBe("Freeze authority revoked");
+    expect(detectWatchChanges(snap(), snap({ mint_authority: null }))).toEqual([]);
+  });
+});
+
+describe("applyWatchResults", () => {
+  it("appends history and reports alerts", async () => {
+    await addToWatchlist(MINT, "solana", scan());
+    const changed = await applyWatchResults({ [MINT]: scan({ risk_score: 80, mint_authority: true }) });
+
+    expect(changed).toHaveLength(1);
+    expect(changed[0].alerts.map((a) => a.kind)).toEqual(["risk_band", "mint_authority"]);
+    expect((await getWatchlist())[0].history).toHaveLength(2);
+  });
+
+  it("does not alert on the first snapshot", async () => {
+    await addToWatchlist(MINT);
+    expect(await applyWatchResults({ [MINT]: scan({ risk_score: 90 }) })).toEqual([]);
+    expect((await getWatchlist())[0].history).toHaveLength(1);
+  });
+
+  it("matches each chain's batch results to its own entry", async () => {
+    await addToWatchlist(CONTRACT, "ethereum", scan({ token_address: CONTRACT, chain: "ethereum" }));
+    await addToWatchlist(CONTRACT, "base", scan({ token_address: CONTRACT, chain: "base" }));
+
+    // The API answers with lowercased addresses
+    const results = {
+      ...keyWatchResults({ [CONTRACT.toLowerCase()]: scan({ chain: "ethereum", risk_score: 80 }) }, "ethereum"),
+      ...keyWatchResults({ [CONTRACT.toLowerCase()]: scan({ chain: "base", risk_score: 35 }) }, "base"),
+    };
+    const changed = await applyWatchResults(results);
+
+    expect(changed.map((c) => c.token.chain)).toEqual(["ethereum"]);
+    expect((await getWatchlist()).map((t) => t.history.at(-1)?.risk_score)).toEqual([80, 35]);
+  });
+});
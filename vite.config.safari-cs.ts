@@ -7,16 +7,8 @@ import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react";
 import { resolve } from "path";
 
-const contentScripts = [
-  "dexscreener",
-  "pumpfun", 
-  "jupiter",
-  "gmgn",
-  "bullx",
-  "birdeye",
-  "raydium",
-  "photon",
-];
+// Every DEX / explorer runs through the one adapter-driven entry
+const contentScripts = ["sites"];
 
 export default defineConfig({
   plugins: [react()],
@@ -27,7 +19,7 @@ export default defineConfig({
       input: Object.fromEntries(
         contentScripts.map((name) => [
           name,
-          resolve(__dirname, `src/content/${name}.tsx`),
+          resolve(__dirname, `src/content/${name}.ts`),
         ])
       ),
       output: {
@@ -2,11 +2,13 @@ import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react";
 import { crx } from "@crxjs/vite-plugin";
 import manifest from "./public/manifest.json";
+import { buildManifest } from "./src/sites/manifest";
 
 export default defineConfig({
   plugins: [
     react(),
-    crx({ manifest }),
+    // Site hosts + content scripts come from the adapter registry
+    crx({ manifest: buildManifest(manifest) }),
   ],
   build: {
     outDir: "dist",
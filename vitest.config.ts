@@ -1,6 +1,17 @@
 import { defineConfig } from "vitest/config";
 
 export default defineConfig({
+  plugins: [
+    {
+      // crxjs "?script" imports resolve to the built script's file name
+      name: "crx-script-imports",
+      enforce: "pre",
+      resolveId: (id) => (id.endsWith("?script") ? `\0${id}` : null),
+      load: (id) => (id.startsWith("\0") && id.endsWith("?script")
+        ? `export default ${JSON.stringify(id.slice(1, -"?script".length).replace(/^[./]+/, ""))};`
+        : null),
+    },
+  ],
   test: {
     environment: "jsdom",
     globals: true,